@@ -0,0 +1,543 @@
+/**
+ * Archive files of export directories.
+ *
+ * Writes a directory tree into a single `.zip` or `.tar.gz` file, chosen by
+ * the file extension, with entry paths relative to the directory:
+ *
+ * ```text
+ * backup.zip
+ * ├── Work/
+ * ├── Work/Plan -- p1.html
+ * └── Work/Sub/Deep -- s1.html
+ * ```
+ *
+ * Both formats are written in TypeScript on top of `node:zlib`, without
+ * shelling out to `zip` or `tar`. Files are written to the archive one at a
+ * time, so memory use is bounded by the largest file rather than the export.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as zlib from "node:zlib";
+import { ArchiveError } from "./errors";
+
+/**
+ * The archive formats that can be written.
+ */
+export type ArchiveFormat = "zip" | "tar.gz";
+
+/**
+ * Options for archiving an export.
+ */
+export interface ArchiveOptions {
+  /** The archive file to write. Its extension (`.zip`, `.tar.gz` or `.tgz`) picks the format. */
+  path: string;
+  /**
+   * Delete the output directory once the archive has been written, leaving
+   * only the archive. Defaults to `false`.
+   */
+  removeOutputDir?: boolean;
+}
+
+/**
+ * The result of writing an archive.
+ */
+export interface ArchiveResult {
+  /** The absolute path of the archive file. */
+  archivePath: string;
+  format: ArchiveFormat;
+  /** Number of files in the archive. */
+  files: number;
+  /** Number of directories in the archive. */
+  directories: number;
+  /** Size of the archive file in bytes. */
+  size: number;
+}
+
+/**
+ * A file written into a zip file from memory, by `writeZipEntries`.
+ */
+export interface ZipEntry {
+  /** Path in the zip file, using `/` separators. */
+  name: string;
+  data: Buffer;
+  /** Store the data uncompressed, as EPUB requires of its first file. */
+  store?: boolean;
+  /** Defaults to the time the zip file is written. */
+  modifiedAt?: Date;
+}
+
+/**
+ * A file or directory to add to an archive.
+ */
+interface ArchiveEntry {
+  /** Path relative to the archived directory, using `/` separators. */
+  name: string;
+  /** The file to read, for entries not held in memory. */
+  filePath?: string;
+  /** The contents, for entries held in memory. */
+  data?: Buffer;
+  directory: boolean;
+  mode: number;
+  modifiedAt: Date;
+  store?: boolean;
+}
+
+/** Largest value of the 32-bit size and offset fields of a zip file. */
+const ZIP_LIMIT = 0xffffffff;
+/** Largest number of entries of a zip file without ZIP64 extensions. */
+const ZIP_MAX_ENTRIES = 0xffff;
+
+/** Amount of tar data compressed at a time. */
+const GZIP_CHUNK_SIZE = 256 * 1024;
+
+const TAR_BLOCK_SIZE = 512;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 checksum used by zip and gzip.
+ *
+ * @param data - The bytes to checksum.
+ * @param previous - The checksum of the preceding bytes, to checksum data in
+ *   several parts.
+ */
+export function crc32(data: Uint8Array, previous = 0): number {
+  let crc = ~previous >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+/**
+ * Returns the archive format for a file name, based on its extension.
+ *
+ * @returns The format, or `undefined` if the extension is not supported.
+ */
+export function getArchiveFormat(filePath: string): ArchiveFormat | undefined {
+  const name = filePath.toLowerCase();
+  if (name.endsWith(".zip")) {
+    return "zip";
+  }
+  if (name.endsWith(".tar.gz") || name.endsWith(".tgz")) {
+    return "tar.gz";
+  }
+  return undefined;
+}
+
+/**
+ * Lists the files and directories under `rootDir`, parents before children
+ * and sorted by name, so archives of the same tree are identical.
+ */
+function collectEntries(rootDir: string, skip: Set<string>): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  const visit = (dir: string, prefix: string): void => {
+    const children = fs
+      .readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const child of children) {
+      const filePath = path.join(dir, child.name);
+      if (skip.has(filePath) || !(child.isFile() || child.isDirectory())) {
+        continue;
+      }
+      const stats = fs.statSync(filePath);
+      const name = `${prefix}${child.name}`;
+      entries.push({
+        name,
+        filePath,
+        directory: child.isDirectory(),
+        mode: stats.mode & 0o777,
+        modifiedAt: stats.mtime,
+      });
+      if (child.isDirectory()) {
+        visit(filePath, `${name}/`);
+      }
+    }
+  };
+  visit(rootDir, "");
+  return entries;
+}
+
+/** Returns the contents of an archive entry. */
+function readEntry(entry: ArchiveEntry): Buffer {
+  if (entry.directory) {
+    return Buffer.alloc(0);
+  }
+  return entry.data ?? fs.readFileSync(entry.filePath!);
+}
+
+/**
+ * Appends bytes to an open file.
+ */
+class FileSink {
+  size = 0;
+
+  constructor(private readonly fd: number) {}
+
+  write(data: Uint8Array): void {
+    let written = 0;
+    while (written < data.length) {
+      written += fs.writeSync(this.fd, data, written, data.length - written);
+    }
+    this.size += data.length;
+  }
+}
+
+/**
+ * Writes a gzip stream to a sink, compressing the data in chunks.
+ *
+ * Each chunk is compressed with a full flush, which ends it on a byte
+ * boundary without marking the end of the stream, so the compressed chunks
+ * can be written one after another as a single deflate stream.
+ */
+class GzipWriter {
+  private pending: Buffer[] = [];
+  private pendingLength = 0;
+  private crc = 0;
+  private length = 0;
+
+  constructor(private readonly sink: FileSink) {
+    // Magic, deflate, no flags, no mtime, no extra flags, unknown OS
+    sink.write(Buffer.from([0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 255]));
+  }
+
+  write(data: Buffer): void {
+    this.crc = crc32(data, this.crc);
+    this.length = (this.length + data.length) >>> 0;
+    this.pending.push(data);
+    this.pendingLength += data.length;
+    if (this.pendingLength >= GZIP_CHUNK_SIZE) {
+      this.flush(zlib.constants.Z_FULL_FLUSH);
+    }
+  }
+
+  end(): void {
+    this.flush(zlib.constants.Z_FINISH);
+    const trailer = Buffer.alloc(8);
+    trailer.writeUInt32LE(this.crc, 0);
+    trailer.writeUInt32LE(this.length, 4);
+    this.sink.write(trailer);
+  }
+
+  private flush(mode: number): void {
+    const data = Buffer.concat(this.pending, this.pendingLength);
+    this.pending = [];
+    this.pendingLength = 0;
+    this.sink.write(zlib.deflateRawSync(data, { finishFlush: mode }));
+  }
+}
+
+/**
+ * Writes `value` as a NUL-terminated octal number filling a tar header field.
+ */
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, "0")}\0`, offset, length, "ascii");
+}
+
+/**
+ * Splits a path into the ustar `prefix` and `name` fields.
+ *
+ * @returns The fields, or `undefined` if the path does not fit them.
+ */
+function splitTarName(name: string): { prefix: string; name: string } | undefined {
+  if (Buffer.byteLength(name) <= 100) {
+    return { prefix: "", name };
+  }
+  for (let i = name.indexOf("/"); i !== -1; i = name.indexOf("/", i + 1)) {
+    const prefix = name.slice(0, i);
+    const rest = name.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(rest) <= 100) {
+      return { prefix, name: rest };
+    }
+  }
+  return undefined;
+}
+
+function tarHeader(
+  name: string,
+  prefix: string,
+  size: number,
+  mode: number,
+  modifiedAt: Date,
+  type: string
+): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK_SIZE);
+  header.write(name, 0, 100, "utf8");
+  writeOctal(header, mode, 100, 8);
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(modifiedAt.getTime() / 1000), 136, 12);
+  header.write(type, 156, 1, "ascii");
+  header.write("ustar\u000000", 257, 8, "ascii");
+  header.write(prefix, 345, 155, "utf8");
+
+  // The checksum is computed with the checksum field filled with spaces
+  header.fill(" ", 148, 156);
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8, "ascii");
+  return header;
+}
+
+function tarPadding(size: number): Buffer {
+  const remainder = size % TAR_BLOCK_SIZE;
+  return Buffer.alloc(remainder === 0 ? 0 : TAR_BLOCK_SIZE - remainder);
+}
+
+/**
+ * Returns the header blocks for an entry. Paths that do not fit the ustar
+ * fields are stored in a pax extended header first.
+ */
+function tarEntryHeaders(entry: ArchiveEntry, size: number): Buffer[] {
+  const name = entry.directory ? `${entry.name}/` : entry.name;
+  const type = entry.directory ? "5" : "0";
+  const fields = splitTarName(name);
+  if (fields) {
+    return [tarHeader(fields.name, fields.prefix, size, entry.mode, entry.modifiedAt, type)];
+  }
+
+  // A pax record is "<length> path=<value>\n", where the length counts itself
+  const body = ` path=${name}\n`;
+  const bodyLength = Buffer.byteLength(body);
+  let length = bodyLength + 1;
+  while (String(length).length + bodyLength !== length) {
+    length = String(length).length + bodyLength;
+  }
+  const record = Buffer.from(`${length}${body}`, "utf8");
+  return [
+    tarHeader("PaxHeader", "", record.length, 0o644, entry.modifiedAt, "x"),
+    record,
+    tarPadding(record.length),
+    // Readers without pax support see the name cut off at 100 bytes
+    tarHeader(name, "", size, entry.mode, entry.modifiedAt, type),
+  ];
+}
+
+function writeTarGz(entries: ArchiveEntry[], sink: FileSink): void {
+  const gzip = new GzipWriter(sink);
+  for (const entry of entries) {
+    const data = readEntry(entry);
+    for (const header of tarEntryHeaders(entry, data.length)) {
+      gzip.write(header);
+    }
+    if (data.length > 0) {
+      gzip.write(data);
+      gzip.write(tarPadding(data.length));
+    }
+  }
+  // The end of the archive is marked by two empty blocks
+  gzip.write(Buffer.alloc(2 * TAR_BLOCK_SIZE));
+  gzip.end();
+}
+
+/**
+ * Converts a date into the MS-DOS time and date fields of a zip file.
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function writeZip(entries: ArchiveEntry[], sink: FileSink, archivePath: string): void {
+  if (entries.length > ZIP_MAX_ENTRIES) {
+    throw new ArchiveError(
+      archivePath,
+      `more than ${ZIP_MAX_ENTRIES} files and directories do not fit a zip file; use .tar.gz`
+    );
+  }
+
+  const central: Buffer[] = [];
+  for (const entry of entries) {
+    const name = Buffer.from(entry.directory ? `${entry.name}/` : entry.name, "utf8");
+    const data = readEntry(entry);
+    const deflated = data.length > 0 && !entry.store ? zlib.deflateRawSync(data) : data;
+    // Store data that does not compress
+    const method = deflated.length < data.length ? 8 : 0;
+    const stored = method === 8 ? deflated : data;
+    const checksum = crc32(data);
+    const offset = sink.size;
+    if (data.length > ZIP_LIMIT || offset + stored.length > ZIP_LIMIT) {
+      throw new ArchiveError(archivePath, "the export is larger than 4 GB; use .tar.gz");
+    }
+    const { time, date } = dosDateTime(entry.modifiedAt);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // Version needed to extract
+    local.writeUInt16LE(0x0800, 6); // Names are UTF-8
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    sink.write(local);
+    sink.write(name);
+    sink.write(stored);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE((3 << 8) | 20, 4); // Made by Unix, so permissions are kept
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(0x0800, 8);
+    header.writeUInt16LE(method, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(date, 14);
+    header.writeUInt32LE(checksum, 16);
+    header.writeUInt32LE(stored.length, 20);
+    header.writeUInt32LE(data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    const fileType = entry.directory ? 0o040000 : 0o100000;
+    header.writeUInt32LE((((fileType | entry.mode) << 16) | (entry.directory ? 0x10 : 0)) >>> 0, 38);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+  }
+
+  const centralOffset = sink.size;
+  for (const part of central) {
+    sink.write(part);
+  }
+  const centralSize = sink.size - centralOffset;
+  if (sink.size > ZIP_LIMIT) {
+    throw new ArchiveError(archivePath, "the export is larger than 4 GB; use .tar.gz");
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(centralOffset, 16);
+  sink.write(end);
+}
+
+/**
+ * Writes entries into an archive file next to its final path, renaming it
+ * into place once complete.
+ */
+function writeArchiveFile(
+  target: string,
+  format: ArchiveFormat,
+  entries: ArchiveEntry[]
+): ArchiveResult {
+  const partialPath = `${target}.partial`;
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+
+  let fd: number | undefined;
+  try {
+    fd = fs.openSync(partialPath, "w");
+    const sink = new FileSink(fd);
+    if (format === "zip") {
+      writeZip(entries, sink, target);
+    } else {
+      writeTarGz(entries, sink);
+    }
+    fs.closeSync(fd);
+    fd = undefined;
+    fs.renameSync(partialPath, target);
+
+    return {
+      archivePath: target,
+      format,
+      files: entries.filter((entry) => !entry.directory).length,
+      directories: entries.filter((entry) => entry.directory).length,
+      size: sink.size,
+    };
+  } catch (error) {
+    if (fd !== undefined) {
+      fs.closeSync(fd);
+    }
+    fs.rmSync(partialPath, { force: true });
+    if (error instanceof ArchiveError) {
+      throw error;
+    }
+    throw new ArchiveError(target, (error as Error).message);
+  }
+}
+
+/**
+ * Writes a directory tree into a `.zip` or `.tar.gz` archive.
+ *
+ * The archive is written next to its final path and renamed into place
+ * once complete, so a failed run never leaves a truncated archive behind. If
+ * the archive is inside `sourceDir`, it is not added to itself.
+ *
+ * @param sourceDir - The directory to archive.
+ * @param archivePath - The archive file; `.zip`, `.tar.gz` or `.tgz`.
+ * @throws {ArchiveError} If the extension is not supported, `sourceDir` is
+ *   not a directory, or the archive cannot be written.
+ *
+ * @example
+ * ```typescript
+ * import { writeArchive } from 'apple-notes-exporter';
+ *
+ * const { files, size } = writeArchive('./exports', './notes-backup.tar.gz');
+ * ```
+ */
+export function writeArchive(sourceDir: string, archivePath: string): ArchiveResult {
+  const rootDir = path.resolve(sourceDir);
+  const target = path.resolve(archivePath);
+  const format = getArchiveFormat(target);
+  if (!format) {
+    throw new ArchiveError(target, "the file name must end in .zip, .tar.gz or .tgz");
+  }
+  if (!fs.existsSync(rootDir) || !fs.statSync(rootDir).isDirectory()) {
+    throw new ArchiveError(target, `${rootDir} is not a directory`);
+  }
+
+  const partialPath = `${target}.partial`;
+  const entries = collectEntries(rootDir, new Set([target, partialPath]));
+  return writeArchiveFile(target, format, entries);
+}
+
+/**
+ * Writes a zip file from files held in memory, in the order given.
+ *
+ * @param entries - The files. Directories are implied by the file paths.
+ * @param archivePath - The zip file to write.
+ * @throws {ArchiveError} If the zip file cannot be written.
+ *
+ * @example
+ * ```typescript
+ * import { writeZipEntries } from 'apple-notes-exporter';
+ *
+ * writeZipEntries([{ name: 'notes/readme.txt', data: Buffer.from('Hi') }], './notes.zip');
+ * ```
+ */
+export function writeZipEntries(entries: ZipEntry[], archivePath: string): ArchiveResult {
+  const modifiedAt = new Date();
+  return writeArchiveFile(
+    path.resolve(archivePath),
+    "zip",
+    entries.map((entry) => ({
+      name: entry.name,
+      data: entry.data,
+      directory: false,
+      mode: 0o644,
+      modifiedAt: entry.modifiedAt ?? modifiedAt,
+      store: entry.store,
+    }))
+  );
+}
+
@@ -0,0 +1,208 @@
+/**
+ * Extraction of embedded images and attachments.
+ *
+ * The Notes app embeds images and other attachments in note HTML as `data:`
+ * URIs, which makes exported files large and hard to reuse. This module
+ * writes each embedded file to an `assets/` directory next to the note, named
+ * after a hash of its contents, and rewrites the note to reference it by
+ * relative path:
+ *
+ * ```text
+ * Work/
+ * ├── Plan -- p1.html            # <img src="assets/3f2a9c0e1b7d4c55.png">
+ * ├── Budget -- p2.html          # <img src="assets/3f2a9c0e1b7d4c55.png">
+ * └── assets/
+ *     └── 3f2a9c0e1b7d4c55.png   # written once, shared by both notes
+ * ```
+ *
+ * Because the file name is derived from the contents, an attachment embedded
+ * in several notes is stored only once.
+ *
+ * @module
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { InvalidPathError } from "./errors";
+import { decodeEntities } from "./html";
+import { listExportedNotes } from "./notes";
+
+/** Name of the directory attachments are extracted into, next to each note. */
+export const ASSETS_DIR_NAME = "assets";
+
+/** Number of hex digits of the SHA-256 hash used in asset file names. */
+const HASH_LENGTH = 16;
+
+/** File extensions for common attachment media types. */
+const EXTENSIONS: Record<string, string> = {
+  "application/pdf": "pdf",
+  "application/zip": "zip",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "image/bmp": "bmp",
+  "image/gif": "gif",
+  "image/heic": "heic",
+  "image/jpeg": "jpg",
+  "image/jpg": "jpg",
+  "image/png": "png",
+  "image/svg+xml": "svg",
+  "image/tiff": "tiff",
+  "image/webp": "webp",
+  "text/csv": "csv",
+  "text/html": "html",
+  "text/plain": "txt",
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+};
+
+/**
+ * Attributes whose values are data URIs of embedded files. The value cannot
+ * contain its own quote character, so matching up to it is safe.
+ */
+const DATA_URI_ATTRIBUTE = /(\s(?:src|href|data|poster)\s*=\s*)(["'])(data:[^"']*)\2/gi;
+
+/**
+ * A decoded `data:` URI.
+ */
+export interface DataUri {
+  /** The media type, e.g. `image/png`. Defaults to `text/plain`. */
+  mediaType: string;
+  data: Buffer;
+}
+
+/**
+ * The result of extracting attachments from an export directory.
+ */
+export interface AttachmentResult {
+  /** Number of notes that were rewritten. */
+  notes: number;
+  /** Number of embedded files replaced by references. */
+  extracted: number;
+  /** Absolute paths of the asset files written. */
+  assets: string[];
+  /** Number of embedded files that were already written for another reference. */
+  deduplicated: number;
+}
+
+/**
+ * Decodes a `data:` URI.
+ *
+ * @returns The media type and contents, or `undefined` if the URI is malformed.
+ *
+ * @example
+ * ```typescript
+ * parseDataUri('data:text/plain;base64,aGk=');
+ * // => { mediaType: 'text/plain', data: <Buffer 68 69> }
+ * ```
+ */
+export function parseDataUri(uri: string): DataUri | undefined {
+  const match = /^data:([^,]*),(.*)$/is.exec(uri.trim());
+  if (!match) {
+    return undefined;
+  }
+  const parameters = match[1].split(";").map((part) => part.trim());
+  const base64 = parameters[parameters.length - 1]?.toLowerCase() === "base64";
+  const mediaType = parameters[0] === "" || parameters[0].includes("=")
+    ? "text/plain"
+    : parameters[0].toLowerCase();
+
+  try {
+    const data = base64
+      ? Buffer.from(match[2].replace(/\s+/g, ""), "base64")
+      : Buffer.from(decodeURIComponent(match[2]), "utf8");
+    return { mediaType, data };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the file name an asset is stored under: a hash of its contents and
+ * an extension for its media type.
+ */
+export function assetFileName(asset: DataUri): string {
+  const hash = createHash("sha256").update(asset.data).digest("hex").slice(0, HASH_LENGTH);
+  return `${hash}.${EXTENSIONS[asset.mediaType] ?? "bin"}`;
+}
+
+/**
+ * Returns the media type of a file from its extension, or
+ * `application/octet-stream` if the extension is not known.
+ *
+ * @example
+ * ```typescript
+ * mediaTypeForFile('assets/3f2a9c0e1b7d4c55.png'); // 'image/png'
+ * ```
+ */
+export function mediaTypeForFile(fileName: string): string {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  const normalized = extension === "jpeg" ? "jpg" : extension;
+  const mediaType = Object.keys(EXTENSIONS).find((type) => EXTENSIONS[type] === normalized);
+  return mediaType ?? "application/octet-stream";
+}
+
+/**
+ * Extracts the embedded files of every HTML note in an export directory into
+ * `assets/` directories and rewrites the notes to reference them.
+ *
+ * Notes without embedded files are left untouched, so running this again on
+ * the same directory does nothing.
+ *
+ * @param exportDir - The directory an HTML export was written to.
+ * @throws {InvalidPathError} If the export directory does not exist.
+ *
+ * @example
+ * ```typescript
+ * import { exportFolder, extractAttachments } from 'apple-notes-exporter';
+ *
+ * await exportFolder('Work', './exports');
+ * const { extracted, deduplicated } = extractAttachments('./exports');
+ * ```
+ */
+export function extractAttachments(exportDir: string): AttachmentResult {
+  const root = path.resolve(exportDir);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new InvalidPathError(exportDir, "export directory does not exist");
+  }
+  const result: AttachmentResult = { notes: 0, extracted: 0, assets: [], deduplicated: 0 };
+  const written = new Set<string>();
+
+  for (const note of listExportedNotes(root)) {
+    const html = fs.readFileSync(note.filePath, "utf8");
+    const assetsDir = path.join(path.dirname(note.filePath), ASSETS_DIR_NAME);
+    let extracted = 0;
+
+    const rewritten = html.replace(
+      DATA_URI_ATTRIBUTE,
+      (attribute: string, prefix: string, quote: string, uri: string) => {
+        const asset = parseDataUri(decodeEntities(uri));
+        if (!asset) {
+          return attribute;
+        }
+
+        const fileName = assetFileName(asset);
+        const assetPath = path.join(assetsDir, fileName);
+        if (written.has(assetPath) || fs.existsSync(assetPath)) {
+          result.deduplicated++;
+        } else {
+          fs.mkdirSync(assetsDir, { recursive: true });
+          fs.writeFileSync(assetPath, asset.data);
+          result.assets.push(assetPath);
+        }
+        written.add(assetPath);
+        extracted++;
+        return `${prefix}${quote}${ASSETS_DIR_NAME}/${fileName}${quote}`;
+      }
+    );
+
+    if (extracted > 0) {
+      fs.writeFileSync(note.filePath, rewritten, "utf8");
+      result.notes++;
+      result.extracted += extracted;
+    }
+  }
+
+  return result;
+}
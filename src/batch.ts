@@ -0,0 +1,179 @@
+/**
+ * Batch export support.
+ *
+ * A batch export takes several folder specs and exports each into its own
+ * subdirectory of a shared output directory. Besides the usual `Folder` and
+ * `Account:Folder` specs, batches accept wildcards:
+ *
+ * - `Account:*` exports every top-level folder of an account.
+ * - `*` exports every top-level folder of every account.
+ *
+ * @module
+ */
+
+import * as path from "node:path";
+import { AccountNotFoundError, ExportError } from "./errors";
+import type { ArchiveResult } from "./archive";
+import type { ExportResult } from "./exporter";
+import type { GitCommitResult } from "./git";
+import type { LinkResult } from "./links";
+import type { RenderResult } from "./render";
+import { Account } from "./folders";
+
+/** Wildcard matching every folder (or every account, on its own). */
+export const WILDCARD = "*";
+
+/**
+ * A folder spec split into its parts.
+ */
+export interface ParsedFolderSpec {
+  /** The account name, if the spec names one. */
+  account?: string;
+  /** The folder name, or `*` for every top-level folder. */
+  folder: string;
+}
+
+/**
+ * A single export planned from a batch's folder specs.
+ */
+export interface BatchExportJob {
+  /** The spec passed to the script. */
+  spec: string;
+  /** The spec this job was expanded from. */
+  source: string;
+  /** The output subdirectory, relative to the batch output directory. */
+  subdirectory: string;
+}
+
+/**
+ * The outcome of one export in a batch.
+ */
+export interface BatchExportEntry {
+  /** The folder spec that was exported. */
+  spec: string;
+  /** The absolute output directory of this export. */
+  outputDir: string;
+  /** The export result, if the export succeeded. */
+  result?: ExportResult;
+  /** The error, if the export failed. */
+  error?: ExportError;
+}
+
+/**
+ * The result of a batch export.
+ */
+export interface BatchExportResult {
+  /** The absolute path of the batch output directory. */
+  outputDir: string;
+  /** One entry per export, in order. */
+  exports: BatchExportEntry[];
+  /** Number of exports that succeeded. */
+  succeeded: number;
+  /** Number of exports that failed. */
+  failed: number;
+  /** The archive of the batch output directory, if `archive` was set. */
+  archive?: ArchiveResult;
+  /** The commit of the batch output directory, if `git` was set. */
+  git?: GitCommitResult;
+  /** The links between the notes of all folders, if `links` was set. */
+  links?: LinkResult;
+  /** The books rendered from all folders, if `render` was set. */
+  render?: RenderResult;
+}
+
+/**
+ * Splits a folder spec into its account and folder parts.
+ *
+ * @example
+ * ```typescript
+ * parseFolderSpec('iCloud:Work'); // { account: 'iCloud', folder: 'Work' }
+ * parseFolderSpec('Work');        // { folder: 'Work' }
+ * parseFolderSpec('iCloud:*');    // { account: 'iCloud', folder: '*' }
+ * ```
+ */
+export function parseFolderSpec(spec: string): ParsedFolderSpec {
+  const separator = spec.indexOf(":");
+  if (separator === -1) {
+    return { folder: spec };
+  }
+  return { account: spec.slice(0, separator), folder: spec.slice(separator + 1) };
+}
+
+/**
+ * Whether any of the specs needs the folder listing to be expanded.
+ */
+export function hasWildcardSpecs(specs: string[]): boolean {
+  return specs.some((spec) => parseFolderSpec(spec).folder === WILDCARD);
+}
+
+/**
+ * Replaces characters that cannot appear in a directory name.
+ */
+function toDirectoryName(name: string): string {
+  return name.replace(/[/:\\]/g, "-");
+}
+
+/**
+ * Expands a batch's folder specs into individual exports.
+ *
+ * Each export is placed in a subdirectory named after its account (if known),
+ * inside which the script creates the folder's own directory. Duplicate specs
+ * are exported once.
+ *
+ * @param specs - The folder specs, possibly with wildcards.
+ * @param accounts - The folder listing, required if any spec has a wildcard.
+ * @returns The jobs to run, and errors for specs that could not be expanded.
+ */
+export function expandFolderSpecs(
+  specs: string[],
+  accounts: Account[] = []
+): { jobs: BatchExportJob[]; errors: Array<{ spec: string; error: ExportError }> } {
+  const jobs: BatchExportJob[] = [];
+  const errors: Array<{ spec: string; error: ExportError }> = [];
+  const seen = new Set<string>();
+
+  const addJob = (spec: string, source: string, account?: string): void => {
+    if (seen.has(spec)) {
+      return;
+    }
+    seen.add(spec);
+    jobs.push({
+      spec,
+      source,
+      subdirectory: account === undefined ? "." : toDirectoryName(account),
+    });
+  };
+
+  for (const source of specs) {
+    const parsed = parseFolderSpec(source);
+
+    if (parsed.folder !== WILDCARD) {
+      addJob(source, source, parsed.account);
+      continue;
+    }
+
+    const matching =
+      parsed.account === undefined || parsed.account === WILDCARD
+        ? accounts
+        : accounts.filter((account) => account.name === parsed.account);
+    if (matching.length === 0 && parsed.account !== undefined && parsed.account !== WILDCARD) {
+      errors.push({ spec: source, error: new AccountNotFoundError(parsed.account) });
+      continue;
+    }
+
+    for (const account of matching) {
+      for (const folder of account.folders) {
+        addJob(`${account.name}:${folder.name}`, source, account.name);
+      }
+    }
+  }
+
+  return { jobs, errors };
+}
+
+/**
+ * Resolves a job's output directory.
+ */
+export function resolveJobOutputDir(outputDir: string, job: BatchExportJob): string {
+  return path.resolve(outputDir, job.subdirectory);
+}
@@ -7,8 +7,41 @@
 
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { Exporter } from "./exporter";
-import { ExportError } from "./errors";
+import { ArchiveResult, getArchiveFormat } from "./archive";
+import { extractAttachments } from "./attachments";
+import { BatchExportResult, hasWildcardSpecs } from "./batch";
+import { ExportJobConfig, getConfigJob, loadConfig } from "./config";
+import { diffExports, DiffReportFormat, formatDiffReport } from "./diff";
+import { parseDuration } from "./duration";
+import { Exporter, ExportFormat, ExportOptions, ExportResult } from "./exporter";
+import {
+  ExportCancelledError,
+  ExportError,
+  ExportErrorCode,
+  InvalidFilterError,
+  InvalidNamingError,
+} from "./errors";
+import { hasFilters, NoteFilters, validateFilters } from "./filters";
+import { Folder } from "./folders";
+import { ConvertFormat, convertExport, CONVERT_FORMATS, getConvertFormat } from "./convert";
+import { GitCommitResult } from "./git";
+import { writeLaunchAgentPlist } from "./launchd";
+import { linkNotes, LinkResult } from "./links";
+import { IncrementalResult, RemovedNotesAction } from "./manifest";
+import { NamingOptions, validateNaming } from "./naming";
+import { normalizeExport, NormalizeResult } from "./normalize";
+import { ExportPlan, PlannedFileAction } from "./plan";
+import { ExportEvent } from "./progress";
+import { renderExport, RenderResult } from "./render";
+import { searchNotes, SearchResult } from "./search";
+import { DEFAULT_SERVE_PORT, serveNotes } from "./server";
+import { buildSite } from "./site";
+import {
+  DEFAULT_WATCH_INTERVAL_MS,
+  FATAL_WATCH_ERROR_CODES,
+  WatchCycle,
+  WatchResult,
+} from "./watch";
 
 /** Relative path to the vendored AppleScript (used when running from source). */
 const VENDORED_SCRIPT_PATH = path.join(
@@ -18,11 +51,197 @@ const VENDORED_SCRIPT_PATH = path.join(
   "export_notes.applescript"
 );
 
+/** Options that take a value (`--option <VALUE>`). */
+const VALUE_OPTIONS = new Set([
+  "--script",
+  "--format",
+  "--removed",
+  "--timeout",
+  "--account",
+  "--config",
+  "--title",
+  "--limit",
+  "--since",
+  "--before",
+  "--created-since",
+  "--created-before",
+  "--tag",
+  "--exclude-folder",
+  "--archive",
+  "--name-template",
+  "--max-name-length",
+  "--slug-separator",
+  "--interval",
+  "--launchd-plist",
+  "--port",
+  "--host",
+  "--stylesheet",
+  "--to",
+  "--epub",
+  "--book",
+  "--author",
+]);
+
+/** Options that take no value (`--option`). */
+const FLAG_OPTIONS = new Set([
+  "--all",
+  "--backlinks",
+  "--content",
+  "--dry-run",
+  "--extract-attachments",
+  "--git",
+  "--incremental",
+  "--json",
+  "--links",
+  "--metadata",
+  "--normalize",
+  "--remove-output",
+  "--slug-folders",
+  "--verbose",
+  "--watch",
+]);
+
+/** Accepted values for `--format`. */
+const FORMATS: ExportFormat[] = ["html", "markdown"];
+
+/** Accepted values for `--format` with `diff`. */
+const REPORT_FORMATS: DiffReportFormat[] = ["text", "json", "html"];
+
+/** Accepted values for `--removed`. */
+const REMOVED_NOTES_ACTIONS: RemovedNotesAction[] = ["delete", "archive"];
+
+/** Shortest `--interval` accepted, so a typo cannot keep Notes busy. */
+const MIN_WATCH_INTERVAL_MS = 1000;
+
+/** Exit code used when the user interrupts the CLI (128 + SIGINT). */
+const EXIT_CODE_INTERRUPTED = 130;
+
+/** Exit code for errors without a more specific one. */
+const EXIT_CODE_ERROR = 1;
+
+/** Exit code for unknown commands and options, and missing or invalid arguments. */
+const EXIT_CODE_USAGE = 2;
+
+/** Exit codes for errors scripts may want to handle, by error code. */
+const ERROR_EXIT_CODES: Partial<Record<ExportErrorCode, number>> = {
+  FOLDER_NOT_FOUND: 3,
+  AMBIGUOUS_FOLDER: 4,
+  AUTOMATION_PERMISSION_DENIED: 5,
+  NOTES_NOT_RUNNING: 6,
+};
+
+/** What the user can do about an error, by error code. */
+const ERROR_HINTS: Partial<Record<ExportErrorCode, string>> = {
+  FOLDER_NOT_FOUND:
+    "Run 'apple-notes-exporter list' to see the available folders. Names are case-sensitive.",
+  AMBIGUOUS_FOLDER:
+    "Name the account as well, e.g. \"iCloud:Work\". " +
+    "Run 'apple-notes-exporter list' to see which accounts have the folder.",
+  AUTOMATION_PERMISSION_DENIED:
+    "Allow your terminal app to control Notes in " +
+    "System Settings > Privacy & Security > Automation, then try again.",
+  NOTES_NOT_RUNNING:
+    "Open the Notes app, wait until your notes have loaded, then try again.",
+  GIT_REPOSITORY_DIRTY:
+    "Commit or discard the changes in the output directory ('git status' there lists them), " +
+    "then try again.",
+  SERVER_FAILED: "If the port is in use, pick another one with --port.",
+  UNSUPPORTED_PLATFORM:
+    "Exporting needs macOS. The site, search, diff, serve, links, normalize, convert, render " +
+    "and extract-attachments commands work anywhere.",
+};
+
 interface ParsedArgs {
-  command: "list" | "export" | "help" | "version";
-  folder?: string;
+  command:
+    | "list"
+    | "export"
+    | "sync"
+    | "run"
+    | "site"
+    | "search"
+    | "diff"
+    | "serve"
+    | "links"
+    | "normalize"
+    | "convert"
+    | "render"
+    | "extract-attachments"
+    | "help"
+    | "version";
+  /** Config jobs to run. */
+  jobs?: string[];
+  /** Whether to run every config job. */
+  allJobs?: boolean;
+  configPath?: string;
+  /** Folder specs to export. */
+  folders?: string[];
+  /** Whether to run a batch export (several folders, `--all` or `--account`). */
+  batch?: boolean;
   outputDir?: string;
   scriptPath?: string;
+  json?: boolean;
+  format?: ExportFormat;
+  incremental?: boolean;
+  removedNotes?: RemovedNotesAction;
+  extractAttachments?: boolean;
+  metadata?: boolean;
+  /** Normalize the notes into clean HTML5 documents. */
+  normalize?: boolean;
+  /** CSS file embedded in normalized notes. */
+  stylesheet?: string;
+  filters?: NoteFilters;
+  /** Archive file to write the export into. */
+  archive?: string;
+  removeOutputDir?: boolean;
+  naming?: NamingOptions;
+  /** Commit the export to a git repository in the output directory. */
+  git?: boolean;
+  /** Rewrite links between notes as relative paths. */
+  links?: boolean;
+  /** Add backlinks sections to linked notes. */
+  backlinks?: boolean;
+  /** EPUB book to render the export into. */
+  epub?: string;
+  /** Printable HTML book to render the export into. */
+  book?: string;
+  /** Author recorded in rendered books. */
+  author?: string;
+  /** Print what the export would do instead of exporting. */
+  dryRun?: boolean;
+  /** Time between the starts of two `sync` cycles. */
+  intervalMs?: number;
+  /** launchd property list to write instead of syncing. */
+  launchdPlist?: string;
+  verbose?: boolean;
+  timeoutMs?: number;
+  /** Directory the `site` command writes to. */
+  siteDir?: string;
+  title?: string;
+  query?: string;
+  limit?: number;
+  /** Directories the `diff` command compares. */
+  oldDir?: string;
+  newDir?: string;
+  report?: DiffReportFormat;
+  /** Whether `diff` shows the text changes of edited notes. */
+  content?: boolean;
+  /** Format and destination of `convert`. */
+  convertTo?: ConvertFormat;
+  destination?: string;
+  /** Where `serve` listens. */
+  port?: number;
+  host?: string;
+}
+
+/**
+ * Command-line arguments split into positional arguments and options.
+ */
+interface SplitArgs {
+  positionals: string[];
+  /** Values of options that take one, by name, in command-line order. */
+  values: Map<string, string[]>;
+  /** Options given without a value. */
+  flags: Set<string>;
 }
 
 function getPackageRoot(): string {
@@ -54,19 +273,158 @@ USAGE:
     apple-notes-exporter <COMMAND>
 
 COMMANDS:
-    list, ls                          List all available top-level folders across all accounts
-    export <FOLDER> <OUTPUT_DIR>      Export a folder recursively to HTML files
+    list, ls [--json]                 List all available top-level folders across all accounts
+    export <FOLDER> <OUTPUT_DIR>      Export a folder recursively to HTML (or Markdown) files
+    export <FOLDER>... <OUTPUT_DIR>   Export several folders, each into its own subdirectory
+    sync <FOLDER>... <OUTPUT_DIR>     Keep running and export incrementally on an interval
+                                      (same as export --watch)
+    run <JOB>... | run --all          Run export jobs declared in a config file
+    site <EXPORT_DIR> <SITE_DIR>      Build a static website from an HTML export
+    search <OUTPUT_DIR> <QUERY>...    Search the notes of an export
+    diff <OLD_DIR> <NEW_DIR>          Report the notes added, removed, moved, renamed or edited
+                                      between two exports
+    serve <OUTPUT_DIR>                Browse an export and query it over a JSON API on a local
+                                      HTTP server
+    links <OUTPUT_DIR>                Rewrite links between the notes of an export as relative
+                                      paths and report links to notes that were not exported
+    normalize <EXPORT_DIR>            Rewrite the notes of an HTML export as clean, safe HTML5
+                                      documents
+    convert <EXPORT_DIR> <DEST>       Convert an HTML export into an Obsidian vault, an Evernote
+                                      .enex file or a Joplin RAW export directory
+    render <EXPORT_DIR>               Render an HTML export as an EPUB book and/or a printable
+                                      HTML book
+    extract-attachments <EXPORT_DIR>  Extract embedded images and attachments of an HTML export
     help                              Print this help message
     version                           Print version information
 
+OPTIONS:
+    --script <PATH>                   Use a custom AppleScript instead of the vendored one
+    --json                            (list) Print the folder tree as JSON
+                                      (search) Print the results as JSON
+                                      (diff) Same as --format json
+                                      (links) Print the links found as JSON
+                                      (export, run) With --dry-run, print the plan as JSON
+    --all                             (export, sync) Export every folder of every account
+                                      (run) Run every job in the config file
+    --config <PATH>                   (run) Config file to read (default: the nearest
+                                      .notes-export.json, .notes-export.yaml or .notes-export.yml)
+    --title <TITLE>                   (site, serve) Site title (default: Notes)
+                                      (render) Book title (default: the export directory name)
+                                      (export, run) Only notes whose title matches a glob such as
+                                      "Meeting *", or a /regular expression/
+    --limit <N>                       (search) Maximum number of results (default: 20)
+    --account <NAME>                  (export, sync) Export every folder of an account (repeatable)
+    --format <html|markdown>          (export) Output file format (default: html)
+    --format <text|json|html>         (diff) Report format (default: text)
+    --content                         (diff) Also show the changed lines of edited notes
+    --port <PORT>                     (serve) Port to listen on (default: ${DEFAULT_SERVE_PORT})
+    --host <HOST>                     (serve) Address to listen on (default: 127.0.0.1, only
+                                      this computer)
+    --incremental                     (export) Only write notes that changed since the last export
+    --removed <delete|archive>        (export) With --incremental, delete removed notes or move
+                                      them to .archive/ (default: delete)
+    --extract-attachments             (export, run) Extract embedded images and attachments into
+                                      assets/ directories next to the notes
+    --metadata                        (export, run) Write note metadata (JSON sidecars, or front
+                                      matter with --format markdown) and an index.json catalog
+    --normalize                       (export, run) Rewrite notes as clean HTML5 documents, without
+                                      scripts, inline styles or Notes-specific markup
+    --stylesheet <FILE>               (export, run, normalize) Embed a CSS file in every normalized
+                                      note (implies --normalize)
+    --since <DATE>                    (export, run) Only notes modified on or after a date, e.g.
+                                      2026-01-01, or within a duration, e.g. 30d
+    --before <DATE>                   (export, run) Only notes modified before a date
+    --created-since <DATE>            (export, run) Only notes created on or after a date
+    --created-before <DATE>           (export, run) Only notes created before a date
+    --tag <TAG>                       (export, run) Only notes containing #TAG (repeatable; a note
+                                      needs any one of the tags)
+    --exclude-folder <NAME>           (export, run) Leave out subfolders with this name (repeatable)
+    --archive <FILE>                  (export, run) Also write the export into a .zip or .tar.gz file
+    --remove-output                   (export, run) With --archive, delete the output directory
+                                      once the archive is written
+    --name-template <TEMPLATE>        (export, run) Name note files with a template, e.g.
+                                      "{date}-{slug}". Placeholders: {title}, {slug}, {id},
+                                      {date}, {created}, {modified} (default: "{title} -- {id}")
+    --slug-folders                    (export, run) Name folder directories with slugs
+    --slug-separator <SEP>            (export, run) Separator used in slugs (default: -)
+    --max-name-length <N>             (export, run) Longest file name in bytes (default: 255)
+    --git                             (export, run) Keep the output directory as a git repository
+                                      and commit each export, summarizing the changed notes
+    --links                           (export, run) Rewrite links between notes as relative paths
+                                      to the exported files, recorded in links.json
+    --backlinks                       (export, run, links) Also add a "Linked from" section to
+                                      linked notes (implies --links)
+    --to <obsidian|enex|joplin>       (convert) Format to convert to
+    --epub <FILE>                     (export, run, render) Render the notes as an EPUB book with
+                                      a chapter per note
+    --book <FILE>                     (export, run, render) Render the notes as a single HTML page
+                                      to print or save as a PDF
+    --author <NAME>                   (render) Author recorded in the books
+    --dry-run                         (export, run) Print which folders match and which files
+                                      would be created, overwritten or removed, without writing
+    --watch                           (export) Same as the sync command
+    --interval <DURATION>             (sync) Time between the starts of two exports (default: 15m)
+    --launchd-plist <FILE>            (sync) Write a launchd agent .plist that runs this sync
+                                      command at login, instead of syncing
+    --verbose                         (export) Also print the script's informational output
+    --timeout <DURATION>              Stop the script after a duration, e.g. 90s, 15m or 1h
+
 EXAMPLES:
     apple-notes-exporter list
+    apple-notes-exporter list --json
     apple-notes-exporter export "My Notes" ./output
     apple-notes-exporter export "iCloud:Work" ./output
+    apple-notes-exporter export "My Notes" ./output --format markdown
+    apple-notes-exporter export "My Notes" ./output --incremental --removed archive
+    apple-notes-exporter export "My Notes" ./output --format markdown --metadata
+    apple-notes-exporter export "My Notes" ./output --since 2026-01-01 --exclude-folder Archive
+    apple-notes-exporter export "My Notes" /tmp/notes --archive notes.zip --remove-output
+    apple-notes-exporter export Work ./output --incremental --dry-run
+    apple-notes-exporter export Work ./backup --incremental --git
+    apple-notes-exporter export Work ./output --name-template "{date}-{slug}" --slug-folders
+    apple-notes-exporter export "iCloud:Work" "Google:Notes" ./backup
+    apple-notes-exporter export "iCloud:*" ./backup
+    apple-notes-exporter export --all ./backup --incremental
+    apple-notes-exporter sync Work ./backup --interval 30m --git
+    apple-notes-exporter sync Work ./backup --launchd-plist ./com.example.notes-sync.plist
+    apple-notes-exporter run work
+    apple-notes-exporter run --all --config ./backups.yaml --format markdown
+    apple-notes-exporter site ./output ./site --title "Work notes"
+    apple-notes-exporter search ./output quarterly plan
+    apple-notes-exporter diff ./snapshots/2026-10-18 ./snapshots/2026-10-19 --content
+    apple-notes-exporter diff ./old ./new --format html --content > changes.html
+    apple-notes-exporter serve ./backup --port 3000
+    apple-notes-exporter export --all ./backup --links --backlinks
+    apple-notes-exporter links ./backup
+    apple-notes-exporter export Work ./output --normalize --stylesheet ./notes.css
+    apple-notes-exporter normalize ./output
+    apple-notes-exporter convert ./output ./vault --to obsidian
+    apple-notes-exporter convert ./output ./notes.enex --to enex
+    apple-notes-exporter render ./output --epub ./notes.epub --book ./notes.html
+    apple-notes-exporter export Work ./output --metadata --epub ./Work.epub
 
 NOTES:
     - Use "AccountName:FolderName" format if folder name exists in multiple accounts
+    - Use "AccountName:*" to export every top-level folder of an account, or "*" for all
+    - With 'run', options given on the command line override the job's settings
+    - 'sync' takes the same options as 'export'
+    - Press Ctrl+C to cancel a running export (twice to exit immediately). Ctrl+C or SIGTERM
+      stops 'sync' cleanly, with exit code 0
+    - A failed 'sync' export is retried at the next interval; after repeated failures the wait
+      doubles each time, up to an hour
+    - 'sync' logs errors that retrying cannot fix, such as an ambiguous folder name, and stops
+      with exit code 0, so that launchd does not restart it in a loop
     - Requires Automation permissions for Notes app (System Settings > Privacy & Security)
+
+EXIT CODES:
+    0    Success
+    1    Error (including partially failed batch exports)
+    2    Usage error (unknown command or option, missing or invalid arguments)
+    3    Folder not found
+    4    Folder name exists in several accounts
+    5    Not allowed to control Notes (Automation permission)
+    6    Notes app not running or not responding
+    130  Cancelled with Ctrl+C
 `;
   process.stdout.write(message);
 }
@@ -75,6 +433,174 @@ function printVersion(): void {
   process.stdout.write(`apple-notes-exporter ${getVersion()}\n`);
 }
 
+function usageError(message: string): never {
+  process.stderr.write(`Error: ${message}\n\n`);
+  printUsage();
+  process.exit(EXIT_CODE_USAGE);
+}
+
+function splitArgs(args: string[]): SplitArgs {
+  const positionals: string[] = [];
+  const values = new Map<string, string[]>();
+  const flags = new Set<string>();
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+    if (VALUE_OPTIONS.has(arg)) {
+      if (i + 1 >= args.length) {
+        usageError(`'${arg}' requires a value.`);
+      }
+      values.set(arg, [...(values.get(arg) ?? []), args[i + 1]]);
+      i++; // Skip value
+      continue;
+    }
+    if (!FLAG_OPTIONS.has(arg)) {
+      usageError(`Unknown option '${arg}'.`);
+    }
+    flags.add(arg);
+  }
+
+  return { positionals, values, flags };
+}
+
+/** Returns the last value given for an option. */
+function getStringOption(split: SplitArgs, name: string): string | undefined {
+  const values = split.values.get(name);
+  return values?.[values.length - 1];
+}
+
+/**
+ * Returns the note filters given on the command line, or `undefined` if none
+ * were given.
+ */
+function getFilterOptions(split: SplitArgs): NoteFilters | undefined {
+  const filters: NoteFilters = {
+    modifiedSince: getStringOption(split, "--since"),
+    modifiedBefore: getStringOption(split, "--before"),
+    createdSince: getStringOption(split, "--created-since"),
+    createdBefore: getStringOption(split, "--created-before"),
+    title: getStringOption(split, "--title"),
+    hashtags: split.values.get("--tag"),
+    excludeFolders: split.values.get("--exclude-folder"),
+  };
+  if (!hasFilters(filters)) {
+    return undefined;
+  }
+  try {
+    validateFilters(filters);
+  } catch (error) {
+    if (error instanceof InvalidFilterError) {
+      usageError(`${error.message}.`);
+    }
+    throw error;
+  }
+  // Leave out unset filters, so they do not override a job's filters
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as NoteFilters;
+}
+
+/**
+ * Returns the `--archive` and `--remove-output` options.
+ */
+function getArchiveOptions(split: SplitArgs): { archive?: string; removeOutputDir?: boolean } {
+  const archive = getStringOption(split, "--archive");
+  const removeOutputDir = split.flags.has("--remove-output") || undefined;
+  if (removeOutputDir && archive === undefined) {
+    usageError("'--remove-output' requires '--archive'.");
+  }
+  if (archive !== undefined && !getArchiveFormat(archive)) {
+    usageError("'--archive' must be a file name ending in .zip, .tar.gz or .tgz.");
+  }
+  return { archive, removeOutputDir };
+}
+
+/**
+ * Returns the naming options given on the command line, or `undefined` if
+ * none were given.
+ */
+function getNamingOptions(split: SplitArgs): NamingOptions | undefined {
+  const maxLength = getStringOption(split, "--max-name-length");
+  if (maxLength !== undefined && !/^\d+$/.test(maxLength)) {
+    usageError("'--max-name-length' must be a number.");
+  }
+  const separator = getStringOption(split, "--slug-separator");
+  const naming: NamingOptions = {
+    template: getStringOption(split, "--name-template"),
+    folders: split.flags.has("--slug-folders") ? "slug" : undefined,
+    slug: separator === undefined ? undefined : { separator },
+    maxLength: maxLength === undefined ? undefined : Number(maxLength),
+  };
+  if (Object.values(naming).every((value) => value === undefined)) {
+    return undefined;
+  }
+  try {
+    validateNaming(naming);
+  } catch (error) {
+    if (error instanceof InvalidNamingError) {
+      usageError(`${error.message}.`);
+    }
+    throw error;
+  }
+  // Leave out unset options, so they do not override a job's naming
+  return Object.fromEntries(
+    Object.entries(naming).filter(([, value]) => value !== undefined)
+  ) as NamingOptions;
+}
+
+function parseFormat(value: string | undefined): ExportFormat | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!FORMATS.includes(value as ExportFormat)) {
+    usageError(`'--format' must be one of: ${FORMATS.join(", ")}.`);
+  }
+  return value as ExportFormat;
+}
+
+function parseReportFormat(value: string | undefined, json: boolean): DiffReportFormat {
+  if (json) {
+    if (value !== undefined && value !== "json") {
+      usageError("'--json' cannot be combined with another '--format'.");
+    }
+    return "json";
+  }
+  if (value === undefined) {
+    return "text";
+  }
+  if (!REPORT_FORMATS.includes(value as DiffReportFormat)) {
+    usageError(`'--format' must be one of: ${REPORT_FORMATS.join(", ")}.`);
+  }
+  return value as DiffReportFormat;
+}
+
+function parseRemovedNotesAction(
+  value: string | undefined
+): RemovedNotesAction | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!REMOVED_NOTES_ACTIONS.includes(value as RemovedNotesAction)) {
+    usageError(`'--removed' must be one of: ${REMOVED_NOTES_ACTIONS.join(", ")}.`);
+  }
+  return value as RemovedNotesAction;
+}
+
+function parseDurationOption(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const duration = parseDuration(value);
+  if (duration === undefined) {
+    usageError(`'${name}' must be a duration such as 90s, 15m or 1h.`);
+  }
+  return duration;
+}
+
 function parseArgs(argv: string[]): ParsedArgs {
   // Skip node and script path
   const args = argv.slice(2);
@@ -94,56 +620,468 @@ function parseArgs(argv: string[]): ParsedArgs {
     return { command: "version" };
   }
 
-  // Parse --script option
-  let scriptPath: string | undefined;
-  const scriptIndex = args.indexOf("--script");
-  if (scriptIndex !== -1 && scriptIndex + 1 < args.length) {
-    scriptPath = args[scriptIndex + 1];
-  }
+  const split = splitArgs(args.slice(1));
+  const scriptPath = getStringOption(split, "--script");
+  const timeoutMs = parseDurationOption("--timeout", getStringOption(split, "--timeout"));
 
   if (command === "list" || command === "ls") {
-    return { command: "list", scriptPath };
+    return {
+      command: "list",
+      scriptPath,
+      json: split.flags.has("--json"),
+      timeoutMs,
+    };
   }
 
-  if (command === "export") {
-    if (args.length < 3) {
-      process.stderr.write(
-        "Error: 'export' requires a folder name and output directory.\n\n"
-      );
-      printUsage();
-      process.exit(1);
+  if (command === "export" || command === "sync") {
+    const accounts = split.values.get("--account") ?? [];
+    const all = split.flags.has("--all");
+    const folders = [
+      ...split.positionals.slice(0, -1),
+      ...accounts.map((account) => `${account}:*`),
+      ...(all ? ["*"] : []),
+    ];
+
+    if (split.positionals.length < 1 || folders.length === 0) {
+      usageError(`'${command}' requires a folder name and output directory.`);
     }
 
-    // Find folder and outputDir (skip --script and its value)
-    const remainingArgs: string[] = [];
-    for (let i = 1; i < args.length; i++) {
-      if (args[i] === "--script") {
-        i++; // Skip value
-        continue;
-      }
-      remainingArgs.push(args[i]);
+    const watch = command === "sync" || split.flags.has("--watch");
+    const intervalMs = parseDurationOption("--interval", getStringOption(split, "--interval"));
+    if (intervalMs !== undefined && intervalMs < MIN_WATCH_INTERVAL_MS) {
+      usageError("'--interval' must be at least 1s.");
+    }
+    if (!watch && (intervalMs !== undefined || split.values.has("--launchd-plist"))) {
+      usageError("'--interval' and '--launchd-plist' can only be used with 'sync'.");
+    }
+    if (watch && split.flags.has("--dry-run")) {
+      usageError("'--dry-run' cannot be used with 'sync'.");
     }
+    const format = parseFormat(getStringOption(split, "--format"));
+    const stylesheet = getStringOption(split, "--stylesheet");
+    if (stylesheet !== undefined && format === "markdown") {
+      usageError("'--stylesheet' cannot be used with '--format markdown'.");
+    }
+    const epub = getStringOption(split, "--epub");
+    const book = getStringOption(split, "--book");
+    if ((epub !== undefined || book !== undefined) && format === "markdown") {
+      usageError("'--epub' and '--book' cannot be used with '--format markdown'.");
+    }
+
+    return {
+      command: watch ? "sync" : "export",
+      folders,
+      batch: folders.length > 1 || all || accounts.length > 0,
+      outputDir: split.positionals[split.positionals.length - 1],
+      scriptPath,
+      format,
+      // Syncing is always incremental
+      incremental: watch || split.flags.has("--incremental"),
+      removedNotes: parseRemovedNotesAction(getStringOption(split, "--removed")),
+      extractAttachments: split.flags.has("--extract-attachments"),
+      metadata: split.flags.has("--metadata"),
+      normalize: split.flags.has("--normalize") || stylesheet !== undefined,
+      stylesheet,
+      filters: getFilterOptions(split),
+      ...getArchiveOptions(split),
+      naming: getNamingOptions(split),
+      git: split.flags.has("--git"),
+      links: split.flags.has("--links") || split.flags.has("--backlinks"),
+      backlinks: split.flags.has("--backlinks"),
+      epub,
+      book,
+      dryRun: split.flags.has("--dry-run"),
+      intervalMs,
+      launchdPlist: getStringOption(split, "--launchd-plist"),
+      json: split.flags.has("--json"),
+      verbose: split.flags.has("--verbose"),
+      timeoutMs,
+    };
+  }
 
-    if (remainingArgs.length < 2) {
-      process.stderr.write(
-        "Error: 'export' requires a folder name and output directory.\n\n"
-      );
-      printUsage();
-      process.exit(1);
+  if (command === "run") {
+    const allJobs = split.flags.has("--all");
+    if (split.positionals.length === 0 && !allJobs) {
+      usageError("'run' requires a job name or --all.");
     }
 
+    // Options left unset here fall back to the job's settings
     return {
-      command: "export",
-      folder: remainingArgs[0],
-      outputDir: remainingArgs[1],
+      command: "run",
+      jobs: split.positionals,
+      allJobs,
+      configPath: getStringOption(split, "--config"),
       scriptPath,
+      format: parseFormat(getStringOption(split, "--format")),
+      incremental: split.flags.has("--incremental") || undefined,
+      removedNotes: parseRemovedNotesAction(getStringOption(split, "--removed")),
+      extractAttachments: split.flags.has("--extract-attachments") || undefined,
+      metadata: split.flags.has("--metadata") || undefined,
+      normalize: split.flags.has("--normalize") || split.values.has("--stylesheet") || undefined,
+      stylesheet: getStringOption(split, "--stylesheet"),
+      filters: getFilterOptions(split),
+      ...getArchiveOptions(split),
+      naming: getNamingOptions(split),
+      git: split.flags.has("--git") || undefined,
+      links: split.flags.has("--links") || split.flags.has("--backlinks") || undefined,
+      backlinks: split.flags.has("--backlinks") || undefined,
+      epub: getStringOption(split, "--epub"),
+      book: getStringOption(split, "--book"),
+      dryRun: split.flags.has("--dry-run"),
+      json: split.flags.has("--json"),
+      verbose: split.flags.has("--verbose"),
+      timeoutMs,
+    };
+  }
+
+  if (command === "site") {
+    if (split.positionals.length !== 2) {
+      usageError("'site' requires an export directory and a site directory.");
+    }
+    return {
+      command: "site",
+      outputDir: split.positionals[0],
+      siteDir: split.positionals[1],
+      title: getStringOption(split, "--title"),
+    };
+  }
+
+  if (command === "search") {
+    if (split.positionals.length < 2) {
+      usageError("'search' requires an output directory and a query.");
+    }
+    const limit = getStringOption(split, "--limit");
+    if (limit !== undefined && !/^[1-9]\d*$/.test(limit)) {
+      usageError("'--limit' must be a positive number.");
+    }
+    return {
+      command: "search",
+      outputDir: split.positionals[0],
+      query: split.positionals.slice(1).join(" "),
+      limit: limit === undefined ? undefined : Number(limit),
+      json: split.flags.has("--json"),
+    };
+  }
+
+  if (command === "diff") {
+    if (split.positionals.length !== 2) {
+      usageError("'diff' requires an old and a new export directory.");
+    }
+    return {
+      command: "diff",
+      oldDir: split.positionals[0],
+      newDir: split.positionals[1],
+      report: parseReportFormat(getStringOption(split, "--format"), split.flags.has("--json")),
+      content: split.flags.has("--content"),
+    };
+  }
+
+  if (command === "serve") {
+    if (split.positionals.length !== 1) {
+      usageError("'serve' requires an output directory.");
+    }
+    const port = getStringOption(split, "--port");
+    if (port !== undefined && (!/^\d+$/.test(port) || Number(port) > 65535)) {
+      usageError("'--port' must be a number from 0 to 65535.");
+    }
+    return {
+      command: "serve",
+      outputDir: split.positionals[0],
+      port: port === undefined ? undefined : Number(port),
+      host: getStringOption(split, "--host"),
+      title: getStringOption(split, "--title"),
+    };
+  }
+
+  if (command === "links") {
+    if (split.positionals.length !== 1) {
+      usageError("'links' requires an output directory.");
+    }
+    return {
+      command: "links",
+      outputDir: split.positionals[0],
+      backlinks: split.flags.has("--backlinks"),
+      json: split.flags.has("--json"),
     };
   }
 
+  if (command === "normalize") {
+    if (split.positionals.length !== 1) {
+      usageError("'normalize' requires an export directory.");
+    }
+    return {
+      command: "normalize",
+      outputDir: split.positionals[0],
+      stylesheet: getStringOption(split, "--stylesheet"),
+    };
+  }
+
+  if (command === "convert") {
+    if (split.positionals.length !== 2) {
+      usageError("'convert' requires an export directory and a destination.");
+    }
+    const to = getStringOption(split, "--to");
+    if (to === undefined) {
+      usageError(`'convert' requires --to <${CONVERT_FORMATS.join("|")}>.`);
+    }
+    const convertTo = getConvertFormat(to);
+    if (!convertTo) {
+      usageError(`'--to' must be one of: ${CONVERT_FORMATS.join(", ")}.`);
+    }
+    return {
+      command: "convert",
+      outputDir: split.positionals[0],
+      destination: split.positionals[1],
+      convertTo,
+    };
+  }
+
+  if (command === "render") {
+    if (split.positionals.length !== 1) {
+      usageError("'render' requires an export directory.");
+    }
+    const epub = getStringOption(split, "--epub");
+    const book = getStringOption(split, "--book");
+    if (epub === undefined && book === undefined) {
+      usageError("'render' requires --epub <FILE>, --book <FILE> or both.");
+    }
+    return {
+      command: "render",
+      outputDir: split.positionals[0],
+      epub,
+      book,
+      title: getStringOption(split, "--title"),
+      author: getStringOption(split, "--author"),
+    };
+  }
+
+  if (command === "extract-attachments") {
+    if (split.positionals.length !== 1) {
+      usageError("'extract-attachments' requires an export directory.");
+    }
+    return { command: "extract-attachments", outputDir: split.positionals[0] };
+  }
+
   // Unknown command
-  process.stderr.write(`Error: Unknown command '${command}'\n\n`);
-  printUsage();
-  process.exit(1);
+  usageError(`Unknown command '${command}'`);
+}
+
+/**
+ * Creates a progress handler that renders a live status line on a terminal
+ * and prints failures and the final summary.
+ */
+function createProgressRenderer(verbose: boolean): (event: ExportEvent) => void {
+  const interactive = Boolean(process.stderr.isTTY);
+  let folder = "";
+  let exported = 0;
+  let failed = 0;
+  let statusShown = false;
+
+  const clearStatus = (): void => {
+    if (statusShown) {
+      process.stderr.write("\r\x1b[K");
+      statusShown = false;
+    }
+  };
+
+  const showStatus = (): void => {
+    if (!interactive) {
+      return;
+    }
+    const failures = failed > 0 ? `, ${failed} failed` : "";
+    process.stderr.write(
+      `\r\x1b[KExporting ${folder}: ${exported} notes exported${failures}`
+    );
+    statusShown = true;
+  };
+
+  return (event) => {
+    switch (event.type) {
+      case "folderStarted":
+        folder = event.folder;
+        showStatus();
+        break;
+      case "noteExported":
+        exported++;
+        showStatus();
+        break;
+      case "noteFailed":
+        failed++;
+        clearStatus();
+        process.stderr.write(
+          `Warning: failed to export ${event.title ?? "a note"}: ${event.message}\n`
+        );
+        showStatus();
+        break;
+      case "message":
+        if (verbose) {
+          clearStatus();
+          process.stdout.write(`${event.text}\n`);
+          showStatus();
+        }
+        break;
+      case "finished": {
+        clearStatus();
+        const failures = event.notesFailed > 0 ? ` (${event.notesFailed} failed)` : "";
+        process.stdout.write(
+          `Exported ${event.notesExported} notes from ${event.foldersExported} ` +
+            `folders to ${event.result.outputDir}${failures}\n`
+        );
+        break;
+      }
+    }
+  };
+}
+
+function printArchiveSummary(archive: ArchiveResult): void {
+  const size =
+    archive.size >= 1024 * 1024
+      ? `${(archive.size / (1024 * 1024)).toFixed(1)} MB`
+      : `${Math.ceil(archive.size / 1024)} KB`;
+  process.stdout.write(`Wrote ${archive.files} files to ${archive.archivePath} (${size})\n`);
+}
+
+function printGitSummary(git: GitCommitResult): void {
+  if (!git.commit) {
+    process.stdout.write(`No changes to commit in ${git.repository}\n`);
+    return;
+  }
+  const subject = git.message!.split("\n")[0];
+  const initialized = git.initialized ? " (new repository)" : "";
+  process.stdout.write(
+    `Committed ${git.commit.slice(0, 7)} to ${git.repository}${initialized}: ${subject}\n`
+  );
+}
+
+function printNormalizeSummary(result: NormalizeResult): void {
+  const unsafe =
+    result.unsafe > 0 ? ` (${result.unsafe} unsafe elements and attributes removed)` : "";
+  process.stdout.write(`Normalized ${result.notes} notes${unsafe}\n`);
+}
+
+function printLinkSummary(result: LinkResult): void {
+  const updated = result.updated.length === 1 ? "1 note" : `${result.updated.length} notes`;
+  process.stdout.write(
+    `Resolved ${result.resolved} of ${result.links} links between notes (${updated} updated)\n`
+  );
+  for (const link of result.unresolved) {
+    process.stdout.write(`  unresolved  ${link.from}: "${link.text}" (${link.href})\n`);
+  }
+}
+
+function printRenderSummary(result: RenderResult): void {
+  const files = [result.epubPath, result.bookPath].filter((file) => file !== undefined);
+  process.stdout.write(
+    `Rendered ${result.notes} notes in ${result.folders} folders to ${files.join(" and ")}\n`
+  );
+}
+
+function printIncrementalSummary(result: IncrementalResult): void {
+  process.stdout.write(
+    `Incremental export: ${result.added.length} added, ` +
+      `${result.updated.length} updated, ${result.removed.length} removed, ` +
+      `${result.unchanged} unchanged\n`
+  );
+  if (result.archiveDir) {
+    process.stdout.write(`Removed notes archived to ${result.archiveDir}\n`);
+  }
+}
+
+function printBatchSummary(batch: BatchExportResult): void {
+  process.stdout.write(
+    `\nExported ${batch.succeeded} of ${batch.exports.length} folders to ${batch.outputDir}\n`
+  );
+  for (const entry of batch.exports) {
+    if (entry.error) {
+      process.stdout.write(`  failed  ${entry.spec}: ${entry.error.message}\n`);
+      continue;
+    }
+    const changes = entry.result?.incremental;
+    const details = changes
+      ? ` (${changes.added.length} added, ${changes.updated.length} updated, ` +
+        `${changes.removed.length} removed)`
+      : "";
+    process.stdout.write(`  ok      ${entry.spec} -> ${entry.outputDir}${details}\n`);
+  }
+
+  // One hint per kind of failure, however many folders it affected
+  const failures = new Map<ExportErrorCode, ExportError>();
+  for (const entry of batch.exports) {
+    if (entry.error && !failures.has(entry.error.code)) {
+      failures.set(entry.error.code, entry.error);
+    }
+  }
+  for (const error of failures.values()) {
+    printErrorHint(error);
+  }
+}
+
+const PLAN_ACTION_LABELS: Record<PlannedFileAction, string> = {
+  create: "create   ",
+  overwrite: "overwrite",
+  remove: "remove   ",
+};
+
+function printExportPlan(plan: ExportPlan, parsedArgs: ParsedArgs): void {
+  process.stdout.write("Dry run: nothing will be written.\n\n");
+  for (const folder of plan.folders) {
+    if (folder.error) {
+      process.stdout.write(`${folder.spec}\n  failed  ${folder.error}\n\n`);
+      continue;
+    }
+    const describe = (match: Folder): string => `${match.account}: ${match.path.join(" > ")}`;
+    process.stdout.write(`${folder.spec} -> ${folder.outputDir}\n`);
+    if (folder.folder) {
+      process.stdout.write(`  matches ${describe(folder.folder)}\n`);
+    }
+    for (const other of folder.otherMatches) {
+      process.stdout.write(`  skips   ${describe(other)} (same name, not exported)\n`);
+    }
+    for (const file of folder.files) {
+      const previous = file.previousPath ? ` (replaces ${file.previousPath})` : "";
+      process.stdout.write(`  ${PLAN_ACTION_LABELS[file.action]}  ${file.path}${previous}\n`);
+    }
+    const filtered = folder.filteredOut > 0 ? ` (${folder.filteredOut} left out by filters)` : "";
+    process.stdout.write(`  ${folder.notes} notes${filtered}\n\n`);
+  }
+
+  const removal = plan.removedNotes === "archive" ? " (archived to .archive/)" : "";
+  process.stdout.write(
+    `Would export ${plan.notes} notes to ${plan.outputDir}: ${plan.create} new, ` +
+      `${plan.overwrite} overwritten, ${plan.remove} removed${removal}\n`
+  );
+  if (parsedArgs.archive) {
+    process.stdout.write(
+      `Would write an archive to ${path.resolve(parsedArgs.archive)}` +
+        (parsedArgs.removeOutputDir ? " and remove the output directory\n" : "\n")
+    );
+  }
+}
+
+function printSearchResults(results: SearchResult[]): void {
+  if (results.length === 0) {
+    process.stdout.write("No matching notes\n");
+    return;
+  }
+  // Highlight matches when writing to a terminal
+  const bold = process.stdout.isTTY ? ["\x1b[1m", "\x1b[22m"] : ["", ""];
+  for (const result of results) {
+    let snippet = "";
+    let offset = 0;
+    for (const [start, end] of result.highlights) {
+      snippet += result.snippet.slice(offset, start) + bold[0] + result.snippet.slice(start, end) + bold[1];
+      offset = end;
+    }
+    snippet += result.snippet.slice(offset);
+
+    const folder = result.folderPath.length > 0 ? `${result.folderPath.join(" / ")} / ` : "";
+    process.stdout.write(`${bold[0]}${folder}${result.title}${bold[1]}\n`);
+    process.stdout.write(`  ${result.relativePath}\n`);
+    if (snippet !== "") {
+      process.stdout.write(`  ${snippet}\n`);
+    }
+    process.stdout.write("\n");
+  }
 }
 
 function createExporter(scriptPath?: string): Exporter {
@@ -162,6 +1100,24 @@ function createExporter(scriptPath?: string): Exporter {
   return Exporter.create();
 }
 
+/**
+ * Cancels running work on the first Ctrl+C or SIGTERM and exits on the
+ * second.
+ */
+function handleInterrupts(): AbortSignal {
+  const controller = new AbortController();
+  const interrupt = (): void => {
+    if (controller.signal.aborted) {
+      process.exit(EXIT_CODE_INTERRUPTED);
+    }
+    process.stderr.write("\nCancelling... (press Ctrl+C again to exit immediately)\n");
+    controller.abort();
+  };
+  process.on("SIGINT", interrupt);
+  process.on("SIGTERM", interrupt);
+  return controller.signal;
+}
+
 async function run(parsedArgs: ParsedArgs): Promise<void> {
   if (parsedArgs.command === "help") {
     printUsage();
@@ -173,17 +1129,456 @@ async function run(parsedArgs: ParsedArgs): Promise<void> {
     return;
   }
 
+  if (parsedArgs.command === "site") {
+    const result = buildSite(parsedArgs.outputDir!, parsedArgs.siteDir!, {
+      title: parsedArgs.title,
+    });
+    process.stdout.write(
+      `Built site with ${result.notes} notes in ${result.folders} folders at ${result.siteDir}\n`
+    );
+    return;
+  }
+
+  if (parsedArgs.command === "search") {
+    const results = searchNotes(parsedArgs.outputDir!, parsedArgs.query!, {
+      limit: parsedArgs.limit,
+    });
+    if (parsedArgs.json) {
+      process.stdout.write(`${JSON.stringify(results, null, 2)}\n`);
+    } else {
+      printSearchResults(results);
+    }
+    return;
+  }
+
+  if (parsedArgs.command === "diff") {
+    const diff = diffExports(parsedArgs.oldDir!, parsedArgs.newDir!, {
+      content: parsedArgs.content,
+    });
+    process.stdout.write(formatDiffReport(diff, parsedArgs.report));
+    return;
+  }
+
+  if (parsedArgs.command === "sync" && parsedArgs.launchdPlist) {
+    writeSyncLaunchAgent(parsedArgs.launchdPlist);
+    return;
+  }
+
+  if (parsedArgs.command === "links") {
+    const result = linkNotes(parsedArgs.outputDir!, { backlinks: parsedArgs.backlinks });
+    if (parsedArgs.json) {
+      process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    } else {
+      printLinkSummary(result);
+    }
+    return;
+  }
+
+  if (parsedArgs.command === "normalize") {
+    printNormalizeSummary(
+      normalizeExport(parsedArgs.outputDir!, { stylesheet: parsedArgs.stylesheet })
+    );
+    return;
+  }
+
+  if (parsedArgs.command === "convert") {
+    const result = convertExport(
+      parsedArgs.outputDir!,
+      parsedArgs.destination!,
+      parsedArgs.convertTo!
+    );
+    process.stdout.write(
+      `Converted ${result.notes} notes and ${result.attachments} attachments ` +
+        `to ${result.format} at ${result.destination}\n`
+    );
+    return;
+  }
+
+  if (parsedArgs.command === "render") {
+    printRenderSummary(
+      renderExport(parsedArgs.outputDir!, {
+        epub: parsedArgs.epub,
+        book: parsedArgs.book,
+        title: parsedArgs.title,
+        author: parsedArgs.author,
+      })
+    );
+    return;
+  }
+
+  if (parsedArgs.command === "extract-attachments") {
+    const result = extractAttachments(parsedArgs.outputDir!);
+    process.stdout.write(
+      `Extracted ${result.extracted} attachments from ${result.notes} notes ` +
+        `(${result.assets.length} files written, ${result.deduplicated} duplicates)\n`
+    );
+    return;
+  }
+
+  const signal = handleInterrupts();
+
+  if (parsedArgs.command === "serve") {
+    const { url } = await serveNotes(parsedArgs.outputDir!, {
+      port: parsedArgs.port,
+      host: parsedArgs.host,
+      title: parsedArgs.title,
+      signal,
+    });
+    process.stdout.write(`Serving ${parsedArgs.outputDir} at ${url} (Ctrl+C to stop)\n`);
+    // The server stops when the signal is aborted
+    await new Promise((resolve) => signal.addEventListener("abort", resolve, { once: true }));
+    return;
+  }
+
+  if (parsedArgs.command === "run") {
+    const succeeded = await runJobs(parsedArgs, signal);
+    if (!succeeded) {
+      process.exit(EXIT_CODE_ERROR);
+    }
+    return;
+  }
+
   const exporter = createExporter(parsedArgs.scriptPath);
 
   if (parsedArgs.command === "list") {
-    await exporter.listFolders();
+    const runOptions = { signal, timeoutMs: parsedArgs.timeoutMs };
+    if (parsedArgs.json) {
+      const accounts = await exporter.getFolders(runOptions);
+      process.stdout.write(`${JSON.stringify(accounts, null, 2)}\n`);
+      return;
+    }
+    await exporter.listFolders(runOptions);
     return;
   }
 
   if (parsedArgs.command === "export") {
-    await exporter.exportFolder(parsedArgs.folder!, parsedArgs.outputDir!);
+    const succeeded = await runExport(exporter, parsedArgs, getExportOptions(parsedArgs, signal));
+    if (!succeeded) {
+      process.exit(EXIT_CODE_ERROR);
+    }
     return;
   }
+
+  if (parsedArgs.command === "sync") {
+    await runSync(exporter, parsedArgs, getExportOptions(parsedArgs, signal));
+    return;
+  }
+}
+
+function getExportOptions(parsedArgs: ParsedArgs, signal: AbortSignal): ExportOptions {
+  return {
+    signal,
+    timeoutMs: parsedArgs.timeoutMs,
+    format: parsedArgs.format,
+    incremental: parsedArgs.incremental
+      ? { removedNotes: parsedArgs.removedNotes }
+      : false,
+    extractAttachments: parsedArgs.extractAttachments,
+    metadata: parsedArgs.metadata,
+    normalize: parsedArgs.normalize ? { stylesheet: parsedArgs.stylesheet } : undefined,
+    filters: parsedArgs.filters,
+    archive: parsedArgs.archive
+      ? { path: parsedArgs.archive, removeOutputDir: parsedArgs.removeOutputDir }
+      : undefined,
+    naming: parsedArgs.naming,
+    git: parsedArgs.git,
+    links: parsedArgs.links ? { backlinks: parsedArgs.backlinks } : undefined,
+    render:
+      parsedArgs.epub !== undefined || parsedArgs.book !== undefined
+        ? { epub: parsedArgs.epub, book: parsedArgs.book }
+        : undefined,
+    onProgress: createProgressRenderer(parsedArgs.verbose ?? false),
+  };
+}
+
+/**
+ * Turns a config job into export arguments. Options given on the command
+ * line take precedence over the job's settings.
+ */
+function mergeJobArgs(job: ExportJobConfig, overrides: ParsedArgs): ParsedArgs {
+  return {
+    command: "export",
+    folders: job.folders,
+    batch: job.folders.length > 1 || hasWildcardSpecs(job.folders),
+    outputDir: job.outputDir,
+    scriptPath: overrides.scriptPath ?? job.scriptPath,
+    format: overrides.format ?? job.format,
+    incremental: overrides.incremental ?? job.incremental,
+    removedNotes: overrides.removedNotes ?? job.removedNotes,
+    extractAttachments: overrides.extractAttachments ?? job.extractAttachments,
+    metadata: overrides.metadata ?? job.metadata,
+    normalize: overrides.normalize ?? (job.normalize || job.stylesheet !== undefined),
+    stylesheet: overrides.stylesheet ?? job.stylesheet,
+    // Filters given on the command line replace the job's filters one by one
+    filters:
+      job.filters || overrides.filters ? { ...job.filters, ...overrides.filters } : undefined,
+    archive: overrides.archive ?? job.archive?.path,
+    removeOutputDir: overrides.archive
+      ? overrides.removeOutputDir
+      : overrides.removeOutputDir ?? job.archive?.removeOutputDir,
+    // Naming options given on the command line replace the job's one by one
+    naming:
+      job.naming || overrides.naming
+        ? {
+            ...job.naming,
+            ...overrides.naming,
+            slug:
+              job.naming?.slug || overrides.naming?.slug
+                ? { ...job.naming?.slug, ...overrides.naming?.slug }
+                : undefined,
+          }
+        : undefined,
+    git: overrides.git ?? job.git,
+    links: overrides.links ?? (job.links || job.backlinks),
+    backlinks: overrides.backlinks ?? job.backlinks,
+    epub: overrides.epub ?? job.epub,
+    book: overrides.book ?? job.book,
+    dryRun: overrides.dryRun,
+    json: overrides.json,
+    verbose: overrides.verbose,
+    timeoutMs: overrides.timeoutMs ?? job.timeoutMs,
+  };
+}
+
+/**
+ * Runs config jobs one after another. A failed job does not stop the
+ * following ones.
+ *
+ * @returns Whether every job succeeded.
+ */
+async function runJobs(parsedArgs: ParsedArgs, signal: AbortSignal): Promise<boolean> {
+  const config = loadConfig(parsedArgs.configPath);
+  // Look up every job first so a typo fails before anything is exported
+  const jobs = parsedArgs.allJobs
+    ? Object.values(config.jobs)
+    : parsedArgs.jobs!.map((name) => getConfigJob(config, name));
+
+  const failed: string[] = [];
+  for (const job of jobs) {
+    if (jobs.length > 1) {
+      process.stdout.write(`==> Running job '${job.name}'\n`);
+    }
+    const jobArgs = mergeJobArgs(job, parsedArgs);
+    try {
+      const exporter = createExporter(jobArgs.scriptPath);
+      if (!(await runExport(exporter, jobArgs, getExportOptions(jobArgs, signal)))) {
+        failed.push(job.name);
+      }
+    } catch (error) {
+      if (error instanceof ExportCancelledError || !(error instanceof ExportError)) {
+        throw error;
+      }
+      process.stderr.write(`Error: job '${job.name}' failed: ${error.message}\n`);
+      printErrorHint(error);
+      failed.push(job.name);
+    }
+  }
+
+  if (jobs.length > 1) {
+    process.stdout.write(
+      `\nRan ${jobs.length} jobs: ${jobs.length - failed.length} succeeded` +
+        (failed.length > 0 ? `, ${failed.length} failed (${failed.join(", ")})` : "") +
+        "\n"
+    );
+  }
+  return failed.length === 0;
+}
+
+/**
+ * Runs a single or batch export and prints its summary.
+ *
+ * @returns Whether every folder was exported.
+ */
+async function runExport(
+  exporter: Exporter,
+  parsedArgs: ParsedArgs,
+  options: ExportOptions
+): Promise<boolean> {
+  if (parsedArgs.dryRun) {
+    const plan = await exporter.planExport(
+      parsedArgs.batch ? parsedArgs.folders! : parsedArgs.folders![0],
+      parsedArgs.outputDir!,
+      options
+    );
+    if (parsedArgs.json) {
+      process.stdout.write(`${JSON.stringify(plan, null, 2)}\n`);
+    } else {
+      printExportPlan(plan, parsedArgs);
+    }
+    return plan.folders.every((folder) => !folder.error);
+  }
+
+  if (!parsedArgs.batch) {
+    const result = await exporter.exportFolder(
+      parsedArgs.folders![0],
+      parsedArgs.outputDir!,
+      options
+    );
+    printExportResult(result);
+    return true;
+  }
+
+  const batch = await exporter.exportFolders(
+    parsedArgs.folders!,
+    parsedArgs.outputDir!,
+    options
+  );
+  printBatchResult(batch);
+  return batch.failed === 0;
+}
+
+function printExportResult(result: ExportResult): void {
+  if (result.incremental) {
+    printIncrementalSummary(result.incremental);
+  }
+  // Every exported note is normalized, so only removals are worth reporting
+  if (result.normalized && result.normalized.unsafe > 0) {
+    printNormalizeSummary(result.normalized);
+  }
+  if (result.links) {
+    printLinkSummary(result.links);
+  }
+  if (result.render) {
+    printRenderSummary(result.render);
+  }
+  if (result.git) {
+    printGitSummary(result.git);
+  }
+  if (result.archive) {
+    printArchiveSummary(result.archive);
+  }
+}
+
+function printBatchResult(batch: BatchExportResult): void {
+  printBatchSummary(batch);
+  if (batch.links) {
+    printLinkSummary(batch.links);
+  }
+  if (batch.render) {
+    printRenderSummary(batch.render);
+  }
+  if (batch.git) {
+    printGitSummary(batch.git);
+  }
+  if (batch.archive) {
+    printArchiveSummary(batch.archive);
+  }
+}
+
+/** Formats a time for log lines, e.g. `2026-10-19 14:03:12`, in local time. */
+function formatLogTime(date: Date): string {
+  const pad = (value: number): string => String(value).padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+}
+
+/** Formats an interval in the largest whole unit, e.g. `15m` or `90s`. */
+function formatInterval(ms: number): string {
+  if (ms % 3600000 === 0) {
+    return `${ms / 3600000}h`;
+  }
+  if (ms % 60000 === 0) {
+    return `${ms / 60000}m`;
+  }
+  return `${Math.round(ms / 1000)}s`;
+}
+
+function printWatchCycle(cycle: WatchCycle): void {
+  if (cycle.result) {
+    printExportResult(cycle.result);
+  }
+  if (cycle.batch) {
+    printBatchResult(cycle.batch);
+  }
+  if (cycle.error) {
+    process.stderr.write(`Error: ${cycle.error.message}\n`);
+    printErrorHint(cycle.error);
+  }
+
+  const failed = cycle.error !== undefined || (cycle.batch?.failed ?? 0) > 0;
+  const outcome = failed
+    ? `failed${cycle.consecutiveFailures > 1 ? ` (${cycle.consecutiveFailures} in a row)` : ""}`
+    : "finished";
+  const next =
+    cycle.nextCycleInMs === undefined
+      ? ""
+      : `; next cycle at ${formatLogTime(new Date(Date.now() + cycle.nextCycleInMs))}`;
+  process.stdout.write(
+    `[${formatLogTime(new Date())}] Cycle ${cycle.cycle} ${outcome} in ` +
+      `${(cycle.durationMs / 1000).toFixed(1)}s${next}\n\n`
+  );
+}
+
+/**
+ * Exports on an interval until interrupted, logging each cycle.
+ */
+async function runSync(
+  exporter: Exporter,
+  parsedArgs: ParsedArgs,
+  options: ExportOptions
+): Promise<void> {
+  const intervalMs = parsedArgs.intervalMs ?? DEFAULT_WATCH_INTERVAL_MS;
+  process.stdout.write(
+    `[${formatLogTime(new Date())}] Syncing ${parsedArgs.folders!.join(", ")} to ` +
+      `${parsedArgs.outputDir} every ${formatInterval(intervalMs)} (Ctrl+C to stop)\n`
+  );
+  let watch: WatchResult;
+  try {
+    watch = await exporter.watchFolders(
+      parsedArgs.batch ? parsedArgs.folders! : parsedArgs.folders![0],
+      parsedArgs.outputDir!,
+      { ...options, intervalMs, onCycle: printWatchCycle }
+    );
+  } catch (error) {
+    if (!(error instanceof ExportError) || !FATAL_WATCH_ERROR_CODES.has(error.code)) {
+      throw error;
+    }
+    // Exit with status 0, or launchd would restart the agent only to fail again
+    process.stderr.write(`Error: ${error.message}\n`);
+    printErrorHint(error);
+    process.stderr.write(`[${formatLogTime(new Date())}] Stopped: retrying cannot fix this\n`);
+    return;
+  }
+  const failures = watch.failedCycles > 0 ? ` (${watch.failedCycles} failed)` : "";
+  process.stdout.write(
+    `[${formatLogTime(new Date())}] Stopped after ${watch.cycles} cycles${failures}\n`
+  );
+}
+
+/**
+ * Writes a launchd agent that runs the current command line without
+ * `--launchd-plist`.
+ */
+function writeSyncLaunchAgent(plistPath: string): void {
+  const args = process.argv.slice(2);
+  const index = args.indexOf("--launchd-plist");
+  args.splice(index, 2);
+  if (args[0] === "export") {
+    args.splice(args.indexOf("--watch"), 1);
+    args[0] = "sync";
+  }
+
+  const written = writeLaunchAgentPlist(plistPath, {
+    programArguments: [process.execPath, path.resolve(process.argv[1]), ...args],
+    workingDirectory: process.cwd(),
+    // launchd starts agents with a minimal PATH, which may not include git
+    environment: process.env.PATH ? { PATH: process.env.PATH } : undefined,
+  });
+  process.stdout.write(
+    `Wrote launch agent ${written}\n\n` +
+      "To start it now and at every login:\n" +
+      `    cp "${written}" ~/Library/LaunchAgents/\n` +
+      `    launchctl bootstrap gui/$(id -u) ~/Library/LaunchAgents/${path.basename(written)}\n`
+  );
+}
+
+function printErrorHint(error: ExportError): void {
+  const hint = ERROR_HINTS[error.code];
+  if (hint) {
+    process.stderr.write(`Hint: ${hint}\n`);
+  }
 }
 
 async function main(): Promise<void> {
@@ -191,9 +1586,15 @@ async function main(): Promise<void> {
     const parsedArgs = parseArgs(process.argv);
     await run(parsedArgs);
   } catch (error) {
+    if (error instanceof ExportCancelledError) {
+      process.stderr.write(`${error.message}\n`);
+      process.exit(EXIT_CODE_INTERRUPTED);
+    }
+
     if (error instanceof ExportError) {
       process.stderr.write(`Error: ${error.message}\n`);
-      process.exit(1);
+      printErrorHint(error);
+      process.exit(ERROR_EXIT_CODES[error.code] ?? EXIT_CODE_ERROR);
     }
 
     // Re-throw unknown errors
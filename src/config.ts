@@ -0,0 +1,562 @@
+/**
+ * Config files declaring named export jobs.
+ *
+ * A config file is JSON or YAML and lists jobs by name:
+ *
+ * ```yaml
+ * # .notes-export.yaml
+ * script: ./scripts/export_notes.applescript   # optional, applies to every job
+ * jobs:
+ *   work:
+ *     folders: ["iCloud:Work", "iCloud:Projects"]
+ *     output: ./backups/work
+ *     format: markdown
+ *     incremental: true
+ *     removed: archive
+ *     git: true
+ *     links: true
+ *     filters:
+ *       modifiedSince: 90d
+ *       excludeFolders: [Archive]
+ *     naming:
+ *       template: "{date}-{slug}"
+ *       folders: slug
+ *   everything:
+ *     folders: "*"
+ *     output: ./backups/all
+ *     stylesheet: ./notes.css
+ *     epub: ./books/all.epub
+ *     timeout: 30m
+ * ```
+ *
+ * Relative `output`, `archive`, `stylesheet`, `epub`, `book` and `script` paths are resolved
+ * against the directory of the config file, so jobs behave the same wherever they are run
+ * from.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { ArchiveOptions, getArchiveFormat } from "./archive";
+import { parseDuration } from "./duration";
+import { ConfigError, InvalidFilterError, InvalidNamingError } from "./errors";
+import type { ExportFormat } from "./exporter";
+import { NoteFilters, validateFilters } from "./filters";
+import type { RemovedNotesAction } from "./manifest";
+import { NamingOptions, validateNaming } from "./naming";
+import { parseYaml } from "./yaml";
+
+/** File names searched for by `findConfigFile`, in order of preference. */
+export const CONFIG_FILE_NAMES = [
+  ".notes-export.json",
+  ".notes-export.yaml",
+  ".notes-export.yml",
+];
+
+const FORMATS: ExportFormat[] = ["html", "markdown"];
+const REMOVED_NOTES_ACTIONS: RemovedNotesAction[] = ["delete", "archive"];
+
+const TOP_LEVEL_KEYS = ["script", "jobs"];
+const DATE_FILTER_KEYS = ["modifiedSince", "modifiedBefore", "createdSince", "createdBefore"];
+const FILTER_KEYS = [...DATE_FILTER_KEYS, "title", "hashtags", "excludeFolders"];
+const NAMING_KEYS = ["template", "folders", "slug", "maxLength"];
+const SLUG_KEYS = ["separator", "lowercase", "ascii"];
+const JOB_KEYS = [
+  "folders",
+  "output",
+  "format",
+  "incremental",
+  "removed",
+  "extractAttachments",
+  "metadata",
+  "normalize",
+  "stylesheet",
+  "filters",
+  "archive",
+  "naming",
+  "git",
+  "links",
+  "backlinks",
+  "epub",
+  "book",
+  "timeout",
+  "script",
+];
+
+/**
+ * A validated export job.
+ */
+export interface ExportJobConfig {
+  /** The job name. */
+  name: string;
+  /** Folder specs to export; may contain `Account:*` and `*` wildcards. */
+  folders: string[];
+  /** The absolute output directory. */
+  outputDir: string;
+  format?: ExportFormat;
+  incremental?: boolean;
+  /** What to do with removed notes in incremental mode. */
+  removedNotes?: RemovedNotesAction;
+  extractAttachments?: boolean;
+  metadata?: boolean;
+  /** Whether to normalize the notes into clean HTML5 documents. */
+  normalize?: boolean;
+  /** CSS file embedded in normalized notes, with an absolute path; implies `normalize`. */
+  stylesheet?: string;
+  /** Which notes to export. Relative dates are resolved when the job runs. */
+  filters?: NoteFilters;
+  /** Archive to write the export into, with an absolute path. */
+  archive?: ArchiveOptions;
+  /** How note files and folder directories are named. */
+  naming?: NamingOptions;
+  /** Whether to commit each export to a git repository in the output directory. */
+  git?: boolean;
+  /** Whether to rewrite links between notes as relative paths. */
+  links?: boolean;
+  /** Whether to add backlinks sections to linked notes; implies `links`. */
+  backlinks?: boolean;
+  /** EPUB book to render the export into, with an absolute path. */
+  epub?: string;
+  /** Printable HTML book to render the export into, with an absolute path. */
+  book?: string;
+  timeoutMs?: number;
+  /** The absolute path of a custom AppleScript. */
+  scriptPath?: string;
+}
+
+/**
+ * A validated config file.
+ */
+export interface ExportConfig {
+  /** The absolute path of the config file. */
+  path: string;
+  /** The jobs, by name, in file order. */
+  jobs: Record<string, ExportJobConfig>;
+}
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reports keys that are not in `allowed`, which are most likely typos.
+ */
+function checkKeys(object: RawObject, allowed: string[], where: string, problems: string[]): void {
+  for (const key of Object.keys(object)) {
+    if (!allowed.includes(key)) {
+      problems.push(`${where}: unknown key '${key}' (expected one of: ${allowed.join(", ")})`);
+    }
+  }
+}
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === "string" && item.trim() !== "")
+  );
+}
+
+function validateFilterConfig(
+  raw: unknown,
+  where: string,
+  problems: string[]
+): NoteFilters | undefined {
+  if (!isObject(raw)) {
+    problems.push(`${where}: must be a mapping of filter settings`);
+    return undefined;
+  }
+  checkKeys(raw, FILTER_KEYS, where, problems);
+  const count = problems.length;
+
+  for (const key of [...DATE_FILTER_KEYS, "title"]) {
+    if (raw[key] !== undefined && typeof raw[key] !== "string") {
+      problems.push(`${where}.${key}: must be a string`);
+    }
+  }
+  for (const key of ["hashtags", "excludeFolders"]) {
+    if (raw[key] !== undefined && !isStringList(raw[key])) {
+      problems.push(`${where}.${key}: must be a list of names`);
+    }
+  }
+  if (problems.length > count) {
+    return undefined;
+  }
+
+  const filters = raw as NoteFilters;
+  try {
+    validateFilters(filters);
+  } catch (error) {
+    if (!(error instanceof InvalidFilterError)) {
+      throw error;
+    }
+    problems.push(`${where}.${error.filter}: ${error.message}`);
+    return undefined;
+  }
+  return filters;
+}
+
+/**
+ * Validates a job's `naming`: a template, or a mapping of naming settings.
+ */
+function validateNamingConfig(
+  raw: unknown,
+  where: string,
+  problems: string[]
+): NamingOptions | undefined {
+  const settings = typeof raw === "string" ? { template: raw } : raw;
+  if (!isObject(settings)) {
+    problems.push(`${where}: must be a template or a mapping of naming settings`);
+    return undefined;
+  }
+  checkKeys(settings, NAMING_KEYS, where, problems);
+  const count = problems.length;
+
+  for (const key of ["template", "folders"]) {
+    if (settings[key] !== undefined && typeof settings[key] !== "string") {
+      problems.push(`${where}.${key}: must be a string`);
+    }
+  }
+  if (settings.maxLength !== undefined && typeof settings.maxLength !== "number") {
+    problems.push(`${where}.maxLength: must be a number`);
+  }
+  if (settings.slug !== undefined) {
+    if (!isObject(settings.slug)) {
+      problems.push(`${where}.slug: must be a mapping of slug settings`);
+    } else {
+      checkKeys(settings.slug, SLUG_KEYS, `${where}.slug`, problems);
+      if (settings.slug.separator !== undefined && typeof settings.slug.separator !== "string") {
+        problems.push(`${where}.slug.separator: must be a string`);
+      }
+      for (const key of ["lowercase", "ascii"]) {
+        if (settings.slug[key] !== undefined && typeof settings.slug[key] !== "boolean") {
+          problems.push(`${where}.slug.${key}: must be true or false`);
+        }
+      }
+    }
+  }
+  if (problems.length > count) {
+    return undefined;
+  }
+
+  const naming = settings as NamingOptions;
+  try {
+    validateNaming(naming);
+  } catch (error) {
+    if (!(error instanceof InvalidNamingError)) {
+      throw error;
+    }
+    problems.push(`${where}: ${error.message}`);
+    return undefined;
+  }
+  return naming;
+}
+
+/**
+ * Validates a job's `archive`: a file path, or a mapping with `path` and
+ * `removeOutputDir`.
+ */
+function validateArchiveConfig(
+  raw: unknown,
+  baseDir: string,
+  where: string,
+  problems: string[]
+): ArchiveOptions | undefined {
+  const settings = typeof raw === "string" ? { path: raw } : raw;
+  if (!isObject(settings)) {
+    problems.push(`${where}: must be a file path or a mapping with a 'path' key`);
+    return undefined;
+  }
+  checkKeys(settings, ["path", "removeOutputDir"], where, problems);
+  if (typeof settings.path !== "string" || !getArchiveFormat(settings.path)) {
+    problems.push(`${where}: must be a file path ending in .zip, .tar.gz or .tgz`);
+    return undefined;
+  }
+  if (settings.removeOutputDir !== undefined && typeof settings.removeOutputDir !== "boolean") {
+    problems.push(`${where}.removeOutputDir: must be true or false`);
+    return undefined;
+  }
+  return {
+    path: path.resolve(baseDir, settings.path),
+    removeOutputDir: settings.removeOutputDir as boolean | undefined,
+  };
+}
+
+function validateJob(
+  name: string,
+  raw: unknown,
+  baseDir: string,
+  defaultScript: string | undefined,
+  problems: string[]
+): ExportJobConfig | undefined {
+  const where = `jobs.${name}`;
+  if (!isObject(raw)) {
+    problems.push(`${where}: must be a mapping of job settings`);
+    return undefined;
+  }
+  checkKeys(raw, JOB_KEYS, where, problems);
+  const count = problems.length;
+
+  let folders: string[] = [];
+  const rawFolders = raw.folders;
+  if (typeof rawFolders === "string" && rawFolders.trim() !== "") {
+    folders = [rawFolders];
+  } else if (
+    Array.isArray(rawFolders) &&
+    rawFolders.length > 0 &&
+    rawFolders.every((spec) => typeof spec === "string" && spec.trim() !== "")
+  ) {
+    folders = rawFolders as string[];
+  } else {
+    problems.push(`${where}.folders: must be a folder spec or a non-empty list of folder specs`);
+  }
+
+  if (typeof raw.output !== "string" || raw.output.trim() === "") {
+    problems.push(`${where}.output: must be a directory path`);
+  }
+
+  if (raw.format !== undefined && !FORMATS.includes(raw.format as ExportFormat)) {
+    problems.push(`${where}.format: must be one of: ${FORMATS.join(", ")}`);
+  }
+
+  if (
+    raw.removed !== undefined &&
+    !REMOVED_NOTES_ACTIONS.includes(raw.removed as RemovedNotesAction)
+  ) {
+    problems.push(`${where}.removed: must be one of: ${REMOVED_NOTES_ACTIONS.join(", ")}`);
+  }
+
+  for (const key of [
+    "incremental",
+    "extractAttachments",
+    "metadata",
+    "normalize",
+    "git",
+    "links",
+    "backlinks",
+  ]) {
+    if (raw[key] !== undefined && typeof raw[key] !== "boolean") {
+      problems.push(`${where}.${key}: must be true or false`);
+    }
+  }
+
+  let timeoutMs: number | undefined;
+  if (raw.timeout !== undefined) {
+    timeoutMs =
+      typeof raw.timeout === "string" || typeof raw.timeout === "number"
+        ? parseDuration(raw.timeout)
+        : undefined;
+    if (timeoutMs === undefined) {
+      problems.push(`${where}.timeout: must be a duration such as 90s, 15m or 1h`);
+    }
+  }
+
+  if (
+    raw.stylesheet !== undefined &&
+    (typeof raw.stylesheet !== "string" || raw.stylesheet === "")
+  ) {
+    problems.push(`${where}.stylesheet: must be a file path`);
+  }
+
+  if (raw.script !== undefined && (typeof raw.script !== "string" || raw.script === "")) {
+    problems.push(`${where}.script: must be a file path`);
+  }
+
+  if (
+    raw.epub !== undefined &&
+    (typeof raw.epub !== "string" || !raw.epub.toLowerCase().endsWith(".epub"))
+  ) {
+    problems.push(`${where}.epub: must be a file path ending in .epub`);
+  }
+
+  if (raw.book !== undefined && (typeof raw.book !== "string" || !/\.html?$/i.test(raw.book))) {
+    problems.push(`${where}.book: must be a file path ending in .html or .htm`);
+  }
+
+  if ((raw.epub !== undefined || raw.book !== undefined) && raw.format === "markdown") {
+    problems.push(`${where}: epub and book need the html format`);
+  }
+
+  let archive: ArchiveOptions | undefined;
+  if (raw.archive !== undefined) {
+    archive = validateArchiveConfig(raw.archive, baseDir, `${where}.archive`, problems);
+  }
+
+  const filters =
+    raw.filters === undefined
+      ? undefined
+      : validateFilterConfig(raw.filters, `${where}.filters`, problems);
+
+  const naming =
+    raw.naming === undefined
+      ? undefined
+      : validateNamingConfig(raw.naming, `${where}.naming`, problems);
+
+  if (problems.length > count) {
+    return undefined;
+  }
+
+  const script = (raw.script as string | undefined) ?? defaultScript;
+  return {
+    name,
+    folders,
+    outputDir: path.resolve(baseDir, raw.output as string),
+    format: raw.format as ExportFormat | undefined,
+    incremental: raw.incremental as boolean | undefined,
+    removedNotes: raw.removed as RemovedNotesAction | undefined,
+    extractAttachments: raw.extractAttachments as boolean | undefined,
+    metadata: raw.metadata as boolean | undefined,
+    normalize: raw.normalize as boolean | undefined,
+    stylesheet:
+      raw.stylesheet === undefined ? undefined : path.resolve(baseDir, raw.stylesheet as string),
+    filters,
+    archive,
+    naming,
+    git: raw.git as boolean | undefined,
+    links: raw.links as boolean | undefined,
+    backlinks: raw.backlinks as boolean | undefined,
+    epub: raw.epub === undefined ? undefined : path.resolve(baseDir, raw.epub as string),
+    book: raw.book === undefined ? undefined : path.resolve(baseDir, raw.book as string),
+    timeoutMs,
+    scriptPath: script === undefined ? undefined : path.resolve(baseDir, script),
+  };
+}
+
+/**
+ * Validates parsed config data.
+ *
+ * @param data - The parsed JSON or YAML document.
+ * @param configPath - The config file path, used to resolve relative paths.
+ * @throws {ConfigError} Listing every problem found.
+ */
+export function validateConfig(data: unknown, configPath: string): ExportConfig {
+  const absolutePath = path.resolve(configPath);
+  const baseDir = path.dirname(absolutePath);
+  const problems: string[] = [];
+
+  if (!isObject(data)) {
+    throw new ConfigError(["must contain a mapping with a 'jobs' key"], absolutePath);
+  }
+  checkKeys(data, TOP_LEVEL_KEYS, "config", problems);
+
+  if (data.script !== undefined && (typeof data.script !== "string" || data.script === "")) {
+    problems.push("script: must be a file path");
+  }
+  const defaultScript = typeof data.script === "string" ? data.script : undefined;
+
+  const jobs: Record<string, ExportJobConfig> = {};
+  if (!isObject(data.jobs) || Object.keys(data.jobs).length === 0) {
+    problems.push("jobs: must be a mapping of job names to job settings");
+  } else {
+    for (const [name, raw] of Object.entries(data.jobs)) {
+      const job = validateJob(name, raw, baseDir, defaultScript, problems);
+      if (job) {
+        jobs[name] = job;
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems, absolutePath);
+  }
+  return { path: absolutePath, jobs };
+}
+
+/**
+ * Parses and validates a config file's contents. The file is read as JSON if
+ * its name ends in `.json`, and as YAML otherwise.
+ *
+ * @throws {ConfigError} If the contents cannot be parsed or are invalid.
+ */
+export function parseConfig(text: string, configPath: string): ExportConfig {
+  const absolutePath = path.resolve(configPath);
+  let data: unknown;
+  try {
+    data = absolutePath.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    // Both JSON.parse and parseYaml throw SyntaxErrors
+    if (error instanceof SyntaxError) {
+      throw new ConfigError([`could not be parsed: ${error.message}`], absolutePath);
+    }
+    throw error;
+  }
+  return validateConfig(data, absolutePath);
+}
+
+/**
+ * Looks for a config file in `startDir` and each of its parent directories.
+ *
+ * @returns The absolute path of the first config file found, if any.
+ */
+export function findConfigFile(startDir: string = process.cwd()): string | undefined {
+  let dir = path.resolve(startDir);
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Reads and validates a config file.
+ *
+ * @param configPath - The config file. If omitted, `findConfigFile` searches
+ *   from the current directory.
+ * @throws {ConfigError} If no config file is found, or it is invalid.
+ *
+ * @example
+ * ```typescript
+ * import { loadConfig, getConfigJob } from 'apple-notes-exporter';
+ *
+ * const config = loadConfig();
+ * const job = getConfigJob(config, 'work');
+ * ```
+ */
+export function loadConfig(configPath?: string): ExportConfig {
+  const resolved = configPath ?? findConfigFile();
+  if (resolved === undefined) {
+    throw new ConfigError([
+      `No config file found (looked for ${CONFIG_FILE_NAMES.join(", ")} ` +
+        `in the current directory and its parents)`,
+    ]);
+  }
+
+  let text: string;
+  try {
+    text = fs.readFileSync(resolved, "utf8");
+  } catch (error) {
+    throw new ConfigError(
+      [`could not be read: ${(error as Error).message}`],
+      path.resolve(resolved)
+    );
+  }
+  return parseConfig(text, resolved);
+}
+
+/**
+ * Returns a job by name.
+ *
+ * @throws {ConfigError} If the config has no job with that name.
+ */
+export function getConfigJob(config: ExportConfig, name: string): ExportJobConfig {
+  const job = Object.prototype.hasOwnProperty.call(config.jobs, name)
+    ? config.jobs[name]
+    : undefined;
+  if (!job) {
+    throw new ConfigError(
+      [`unknown job '${name}' (available jobs: ${Object.keys(config.jobs).join(", ")})`],
+      config.path
+    );
+  }
+  return job;
+}
@@ -0,0 +1,356 @@
+/**
+ * Conversion of an export directory into the formats of other note apps.
+ *
+ * `convertExport` reads the notes of an HTML export, the files they embed or
+ * reference (`data:` URIs, or `assets/` files written by
+ * `extractAttachments`) and the links between them (relative links written
+ * by `linkNotes`, or Notes URLs of exported notes), and writes them as:
+ *
+ * - `obsidian`: an Obsidian vault of Markdown notes mirroring the folders,
+ *   with `[[wikilinks]]` between notes and the files in `attachments/`.
+ * - `enex`: an Evernote export file, with each file as a resource of the
+ *   notes using it and the folder of each note as a tag.
+ * - `joplin`: a Joplin RAW export directory, with a notebook per folder,
+ *   which Joplin imports with File > Import > RAW.
+ *
+ * Creation and modification dates are taken from `index.json` when the
+ * export has metadata. Notes are normalized first (see `normalizeNoteHtml`),
+ * so scripts and other unsafe content are never carried over, and backlinks
+ * sections added by `linkNotes` are left out.
+ *
+ * Only the file output is read, so exports can be converted on any platform.
+ *
+ * @module
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { assetFileName, mediaTypeForFile, parseDataUri } from "./attachments";
+import { writeEnex } from "./enex";
+import { InvalidPathError } from "./errors";
+import { HtmlElement, HtmlNode } from "./html";
+import { writeJoplinDirectory } from "./joplin";
+import { parseNoteLink, splitBacklinks } from "./links";
+import { NOTE_INDEX_FILE_NAME, NoteMetadata, readNoteIndex, shortNoteId } from "./metadata";
+import { normalizeNoteBlocks } from "./normalize";
+import { ExportedNote, listExportedNotes } from "./notes";
+import { writeObsidianVault } from "./obsidian";
+
+/**
+ * A format an export can be converted to.
+ */
+export type ConvertFormat = "obsidian" | "enex" | "joplin";
+
+/** Every format an export can be converted to. */
+export const CONVERT_FORMATS: ConvertFormat[] = ["obsidian", "enex", "joplin"];
+
+/**
+ * A file embedded in or referenced by the notes being converted.
+ */
+export interface ConvertAttachment {
+  /** A file name for the attachment, unique among the attachments of the export. */
+  fileName: string;
+  /** The media type, e.g. `image/png`. */
+  mediaType: string;
+  data: Buffer;
+  /** The MD5 hash of the contents, in hex. */
+  hash: string;
+}
+
+/**
+ * What a link or image of a note refers to.
+ */
+export type NoteReference =
+  | { type: "note"; note: ConvertNote }
+  | { type: "attachment"; attachment: ConvertAttachment };
+
+/**
+ * A note being converted.
+ */
+export interface ConvertNote {
+  /** The note id used in the exported file name. */
+  id: string;
+  /** The full note id, if the export has metadata. */
+  noteId?: string;
+  title: string;
+  /** Folder names from the export root down to the note's directory. */
+  folderPath: string[];
+  /** The note file, relative to the export root, using `/` separators. */
+  relativePath: string;
+  /** When the note was created (ISO 8601), if known. */
+  createdAt?: string;
+  /** When the note was last modified (ISO 8601). Defaults to the file's modification time. */
+  modifiedAt: string;
+  /** The normalized content of the note, from `normalizeNoteBlocks`. */
+  blocks: HtmlNode[];
+  /**
+   * The `<a>` and `<img>` elements of `blocks` that refer to another note or
+   * to an attachment. Writers set their `href` or `src` to the converted
+   * reference before serializing the blocks.
+   */
+  references: Map<HtmlElement, NoteReference>;
+}
+
+/**
+ * The notes and attachments of an export, read for conversion.
+ */
+export interface ConvertSource {
+  /** The absolute path of the export directory. */
+  exportDir: string;
+  /** The notes, sorted by relative path. */
+  notes: ConvertNote[];
+  /** Every attachment referenced by the notes, each stored once. */
+  attachments: ConvertAttachment[];
+}
+
+/**
+ * The result of converting an export.
+ */
+export interface ConvertResult {
+  format: ConvertFormat;
+  /** The absolute path of the directory or file written. */
+  destination: string;
+  /** Number of notes converted. */
+  notes: number;
+  /** Number of distinct attachments converted. */
+  attachments: number;
+  /** Number of folders holding notes, including the export root. */
+  folders: number;
+}
+
+/**
+ * Returns the format named by a string, or `undefined` if it is not one.
+ */
+export function getConvertFormat(name: string): ConvertFormat | undefined {
+  return CONVERT_FORMATS.find((format) => format === name.toLowerCase());
+}
+
+function isInside(dir: string, candidate: string): boolean {
+  const relative = path.relative(dir, candidate);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Finds the metadata of a note in the `index.json` of its directory or of a
+ * directory above it, as batch exports write one per folder.
+ */
+function findMetadata(
+  root: string,
+  note: ExportedNote,
+  indexes: Map<string, Map<string, NoteMetadata>>
+): NoteMetadata | undefined {
+  for (let dir = path.dirname(note.filePath); isInside(root, dir); dir = path.dirname(dir)) {
+    let notes = indexes.get(dir);
+    if (!notes) {
+      const index = fs.existsSync(path.join(dir, NOTE_INDEX_FILE_NAME))
+        ? readNoteIndex(dir)
+        : undefined;
+      notes = new Map((index?.notes ?? []).map((metadata) => [metadata.path, metadata]));
+      indexes.set(dir, notes);
+    }
+    const metadata = notes.get(path.relative(dir, note.filePath).split(path.sep).join("/"));
+    if (metadata) {
+      return metadata;
+    }
+    if (dir === root) {
+      break;
+    }
+  }
+  return undefined;
+}
+
+/** Collects the `<a>` and `<img>` elements of normalized blocks. */
+function findReferenceElements(nodes: HtmlNode[], found: HtmlElement[] = []): HtmlElement[] {
+  for (const node of nodes) {
+    if (node.type !== "element") {
+      continue;
+    }
+    if ((node.tag === "a" && node.attrs.href) || (node.tag === "img" && node.attrs.src)) {
+      found.push(node);
+    }
+    findReferenceElements(node.children, found);
+  }
+  return found;
+}
+
+/**
+ * Reads the notes of an HTML export and resolves the links and files they
+ * refer to.
+ *
+ * @param exportDir - The directory an HTML export was written to.
+ * @throws {InvalidPathError} If the directory does not exist, or holds
+ *   Markdown notes but no HTML notes.
+ */
+export function readConvertSource(exportDir: string): ConvertSource {
+  const root = path.resolve(exportDir);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new InvalidPathError(exportDir, "export directory does not exist");
+  }
+  const exported = listExportedNotes(root);
+  if (exported.length === 0 && listExportedNotes(root, ["md"]).length > 0) {
+    throw new InvalidPathError(exportDir, "only HTML exports are supported");
+  }
+
+  const indexes = new Map<string, Map<string, NoteMetadata>>();
+  const notes: ConvertNote[] = exported.map((note) => {
+    const metadata = findMetadata(root, note, indexes);
+    const { content } = splitBacklinks(fs.readFileSync(note.filePath, "utf8"));
+    return {
+      id: note.id,
+      noteId: metadata?.noteId,
+      title: metadata?.title ?? note.title,
+      folderPath: note.folderPath,
+      relativePath: note.relativePath,
+      createdAt: metadata?.createdAt,
+      modifiedAt: metadata?.modifiedAt ?? fs.statSync(note.filePath).mtime.toISOString(),
+      blocks: normalizeNoteBlocks(content),
+      references: new Map(),
+    };
+  });
+
+  const byPath = new Map(notes.map((note) => [note.relativePath, note]));
+  const byId = new Map<string, ConvertNote>();
+  for (const note of notes) {
+    for (const id of [note.id, note.noteId, note.noteId && shortNoteId(note.noteId)]) {
+      if (id && !byId.has(id.toLowerCase())) {
+        byId.set(id.toLowerCase(), note);
+      }
+    }
+  }
+
+  const attachments = new Map<string, ConvertAttachment>();
+  const fileNames = new Set<string>();
+  const addAttachment = (data: Buffer, mediaType: string, fileName: string): ConvertAttachment => {
+    const hash = createHash("md5").update(data).digest("hex");
+    const existing = attachments.get(hash);
+    if (existing) {
+      return existing;
+    }
+    // Different files with the same name are told apart by a number
+    const extension = path.extname(fileName);
+    const stem = fileName.slice(0, fileName.length - extension.length) || "attachment";
+    let unique = `${stem}${extension}`;
+    for (let n = 2; fileNames.has(unique.toLowerCase()); n++) {
+      unique = `${stem}-${n}${extension}`;
+    }
+    fileNames.add(unique.toLowerCase());
+    const attachment = { fileName: unique, mediaType, data, hash };
+    attachments.set(hash, attachment);
+    return attachment;
+  };
+
+  const resolve = (note: ConvertNote, url: string): NoteReference | undefined => {
+    if (/^data:/i.test(url)) {
+      const asset = parseDataUri(url);
+      if (!asset) {
+        return undefined;
+      }
+      const attachment = addAttachment(asset.data, asset.mediaType, assetFileName(asset));
+      return { type: "attachment", attachment };
+    }
+    const ids = parseNoteLink(url);
+    if (ids) {
+      const target = ids.map((id) => byId.get(id.toLowerCase())).find(Boolean);
+      return target ? { type: "note", note: target } : undefined;
+    }
+    if (/^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith("#") || url.startsWith("/")) {
+      return undefined;
+    }
+    const relative = path.posix.normalize(
+      path.posix.join(note.folderPath.join("/"), safeDecode(url.split(/[?#]/)[0]))
+    );
+    const target = byPath.get(relative);
+    if (target) {
+      return { type: "note", note: target };
+    }
+    const filePath = path.join(root, ...relative.split("/"));
+    if (relative.startsWith("..") || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      return undefined;
+    }
+    const fileName = path.basename(filePath);
+    return {
+      type: "attachment",
+      attachment: addAttachment(fs.readFileSync(filePath), mediaTypeForFile(fileName), fileName),
+    };
+  };
+
+  for (const note of notes) {
+    for (const element of findReferenceElements(note.blocks)) {
+      const reference = resolve(note, element.tag === "a" ? element.attrs.href : element.attrs.src);
+      if (reference) {
+        note.references.set(element, reference);
+      }
+    }
+  }
+  return { exportDir: root, notes, attachments: [...attachments.values()] };
+}
+
+/**
+ * Converts an HTML export into an Obsidian vault, an Evernote export file or
+ * a Joplin RAW export directory.
+ *
+ * @param exportDir - The directory an HTML export was written to.
+ * @param destination - The vault or Joplin directory, which must not exist
+ *   or be empty, or the `.enex` file to write, which is replaced.
+ * @param format - The format to convert to.
+ * @throws {InvalidPathError} If the export directory does not exist or holds
+ *   a Markdown export, or the destination is not empty, is inside the export
+ *   directory or contains it.
+ *
+ * @example
+ * ```typescript
+ * import { exportFolder, convertExport } from 'apple-notes-exporter';
+ *
+ * await exportFolder('Work', './exports');
+ * const { notes, attachments } = convertExport('./exports', './vault', 'obsidian');
+ * convertExport('./exports', './Work.enex', 'enex');
+ * ```
+ */
+export function convertExport(
+  exportDir: string,
+  destination: string,
+  format: ConvertFormat
+): ConvertResult {
+  const sourceDir = path.resolve(exportDir);
+  const target = path.resolve(destination);
+  if (isInside(sourceDir, target) || isInside(target, sourceDir)) {
+    throw new InvalidPathError(destination, "destination must be outside the export directory");
+  }
+  if (format === "enex") {
+    if (fs.existsSync(target) && fs.statSync(target).isDirectory()) {
+      throw new InvalidPathError(destination, "destination is a directory");
+    }
+  } else if (fs.existsSync(target)) {
+    if (!fs.statSync(target).isDirectory()) {
+      throw new InvalidPathError(destination, "destination is not a directory");
+    }
+    if (fs.readdirSync(target).length > 0) {
+      throw new InvalidPathError(destination, "directory is not empty");
+    }
+  }
+
+  const source = readConvertSource(sourceDir);
+  if (format === "obsidian") {
+    writeObsidianVault(source, target);
+  } else if (format === "enex") {
+    writeEnex(source, target);
+  } else {
+    writeJoplinDirectory(source, target);
+  }
+  return {
+    format,
+    destination: target,
+    notes: source.notes.length,
+    attachments: source.attachments.length,
+    folders: new Set(["", ...source.notes.map((note) => note.folderPath.join("/"))]).size,
+  };
+}
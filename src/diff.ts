@@ -0,0 +1,552 @@
+/**
+ * Comparison of two export directories.
+ *
+ * Notes are matched by the id in their file name (or in the directory's
+ * `.notes-names.json`), so a note is recognized across snapshots even if it
+ * was moved to another folder or renamed. Each note present in both exports
+ * is compared:
+ *
+ * - `moved`: its folder changed.
+ * - `renamed`: its title changed.
+ * - `edited`: its content changed. Markdown front matter is ignored, since it
+ *   holds the metadata the other checks cover.
+ *
+ * Notes only in the new export are `added`; notes only in the old one are
+ * `removed`. Edited notes can also get a line diff of their text, with HTML
+ * stripped, in the style of `diff -u`.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { InvalidPathError } from "./errors";
+import { escapeHtml, parseHtml, textLines } from "./html";
+import { ExportedNote, listExportedNotes } from "./notes";
+
+/** Note file extensions that are compared. */
+const NOTE_EXTENSIONS = ["html", "md"];
+
+/** Unchanged lines shown around each change by default. */
+const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * Most changed lines a text diff works out line by line. Notes changing in
+ * more lines are shown as replaced entirely, which keeps the diff fast.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * How a note changed between two exports.
+ */
+export type NoteChangeType = "added" | "removed" | "moved" | "renamed" | "edited";
+
+/**
+ * Report formats of `formatDiffReport`.
+ */
+export type DiffReportFormat = "text" | "json" | "html";
+
+/**
+ * A line of a text diff.
+ */
+export interface DiffLine {
+  type: "context" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * A run of changed lines with their surrounding context.
+ */
+export interface DiffHunk {
+  /** First line in the old text, counting from 1. */
+  oldStart: number;
+  oldLines: number;
+  /** First line in the new text, counting from 1. */
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * A note that differs between two exports.
+ */
+export interface NoteChange {
+  id: string;
+  /**
+   * What changed. Added and removed notes have only that type; other notes
+   * can be moved, renamed and edited at once.
+   */
+  types: NoteChangeType[];
+  /** The note title, from the new export unless the note was removed. */
+  title: string;
+  /** For renamed notes, the title in the old export. */
+  previousTitle?: string;
+  /** Path in the new export, using `/` separators. Not set for removed notes. */
+  path?: string;
+  /** Path in the old export, using `/` separators. Not set for added notes. */
+  previousPath?: string;
+  /**
+   * For edited notes, when requested, the changes to the note text. Empty if
+   * only the formatting changed.
+   */
+  hunks?: DiffHunk[];
+}
+
+/**
+ * The differences between two exports.
+ */
+export interface ExportDiff {
+  /** The absolute old export directory. */
+  oldDir: string;
+  /** The absolute new export directory. */
+  newDir: string;
+  /** Changed notes, sorted by path. */
+  changes: NoteChange[];
+  /** Number of notes with each type of change. */
+  added: number;
+  removed: number;
+  moved: number;
+  renamed: number;
+  edited: number;
+  /** Number of notes that did not change. */
+  unchanged: number;
+}
+
+/**
+ * Options for `diffExports`.
+ */
+export interface DiffOptions {
+  /** Include line diffs of the text of edited notes. Defaults to `false`. */
+  content?: boolean;
+  /** Unchanged lines shown around each change. Defaults to `3`. */
+  context?: number;
+}
+
+function readNotes(dir: string): Map<string, ExportedNote> {
+  const root = path.resolve(dir);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new InvalidPathError(dir, "export directory does not exist");
+  }
+  return new Map(listExportedNotes(root, NOTE_EXTENSIONS).map((note) => [note.id, note]));
+}
+
+/**
+ * Reads a note file, leaving out Markdown front matter.
+ */
+function readBody(note: ExportedNote): string {
+  const content = fs.readFileSync(note.filePath, "utf8");
+  if (note.extension === "md" && content.startsWith("---\n")) {
+    const end = content.indexOf("\n---\n", 3);
+    if (end !== -1) {
+      return content.slice(end + 5).replace(/^\n+/, "");
+    }
+  }
+  return content;
+}
+
+function toLines(note: ExportedNote, body: string): string[] {
+  if (note.extension === "html") {
+    return textLines(parseHtml(body));
+  }
+  return body
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+}
+
+/**
+ * Works out the lines to remove and add to turn `a` into `b`, with Myers'
+ * algorithm.
+ *
+ * @returns Every line of both texts in order, or `undefined` if more than
+ *   `MAX_EDIT_DISTANCE` lines differ.
+ */
+function myersDiff(a: string[], b: string[]): DiffLine[] | undefined {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // The furthest x on each diagonal after each step, for k from -d to d
+  const trace: Int32Array[] = [];
+
+  let distance = -1;
+  for (let d = 0; d <= max && distance === -1; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        distance = d;
+        break;
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  if (distance === -1) {
+    return undefined;
+  }
+
+  const lines: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = distance; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number): number => previous[k + d - 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      lines.push({ type: "context", text: a[--x] });
+      y--;
+    }
+    if (x === previousX) {
+      lines.push({ type: "added", text: b[--y] });
+    } else {
+      lines.push({ type: "removed", text: a[--x] });
+    }
+  }
+  while (x > 0) {
+    lines.push({ type: "context", text: a[--x] });
+  }
+  return lines.reverse();
+}
+
+/**
+ * Diffs two texts line by line.
+ *
+ * @param context - Unchanged lines shown around each change.
+ * @returns The changes, grouped into hunks. Changes less than twice the
+ *   context apart share a hunk.
+ */
+function diffLines(
+  oldLines: string[],
+  newLines: string[],
+  context = DEFAULT_CONTEXT_LINES
+): DiffHunk[] {
+  // Lines shared at the start and end need no diffing
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < oldLines.length - start &&
+    end < newLines.length - start &&
+    oldLines[oldLines.length - 1 - end] === newLines[newLines.length - 1 - end]
+  ) {
+    end++;
+  }
+  const oldMiddle = oldLines.slice(start, oldLines.length - end);
+  const newMiddle = newLines.slice(start, newLines.length - end);
+  const middle = myersDiff(oldMiddle, newMiddle) ?? [
+    ...oldMiddle.map((text): DiffLine => ({ type: "removed", text })),
+    ...newMiddle.map((text): DiffLine => ({ type: "added", text })),
+  ];
+  const lines: DiffLine[] = [
+    ...oldLines.slice(0, start).map((text): DiffLine => ({ type: "context", text })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - end).map((text): DiffLine => ({ type: "context", text })),
+  ];
+
+  const hunks: DiffHunk[] = [];
+  let hunk: DiffHunk | undefined;
+  // Context lines seen since the last change, not yet added to a hunk
+  let pending: DiffLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+  for (const line of lines) {
+    if (line.type === "context") {
+      pending.push(line);
+      if (hunk && pending.length > 2 * context) {
+        hunk.lines.push(...pending.slice(0, context));
+        hunk = undefined;
+      }
+    } else {
+      const leading = hunk ? pending : pending.slice(Math.max(0, pending.length - context));
+      if (!hunk) {
+        hunk = {
+          oldStart: oldNumber - leading.length,
+          oldLines: 0,
+          newStart: newNumber - leading.length,
+          newLines: 0,
+          lines: [],
+        };
+        hunks.push(hunk);
+      }
+      hunk.lines.push(...leading, line);
+      pending = [];
+    }
+    if (line.type !== "added") {
+      oldNumber++;
+    }
+    if (line.type !== "removed") {
+      newNumber++;
+    }
+  }
+  if (hunk) {
+    hunk.lines.push(...pending.slice(0, context));
+  }
+  for (const each of hunks) {
+    each.oldLines = each.lines.filter((line) => line.type !== "added").length;
+    each.newLines = each.lines.filter((line) => line.type !== "removed").length;
+  }
+  return hunks;
+}
+
+function comparePaths(a: NoteChange, b: NoteChange): number {
+  const first = a.path ?? a.previousPath!;
+  const second = b.path ?? b.previousPath!;
+  return first < second ? -1 : first > second ? 1 : 0;
+}
+
+/**
+ * Compares two export directories, such as dated snapshots of the same
+ * folder.
+ *
+ * @param oldDir - The earlier export.
+ * @param newDir - The later export.
+ * @param options - Whether to diff the text of edited notes.
+ * @returns The notes that were added, removed, moved, renamed or edited.
+ * @throws {InvalidPathError} If either directory does not exist.
+ *
+ * @example
+ * ```typescript
+ * import { diffExports, formatDiffReport } from 'apple-notes-exporter';
+ *
+ * const diff = diffExports('./snapshots/2026-10-18', './snapshots/2026-10-19', { content: true });
+ * console.log(`${diff.added} added, ${diff.edited} edited`);
+ * fs.writeFileSync('changes.html', formatDiffReport(diff, 'html'));
+ * ```
+ */
+export function diffExports(oldDir: string, newDir: string, options: DiffOptions = {}): ExportDiff {
+  const oldNotes = readNotes(oldDir);
+  const newNotes = readNotes(newDir);
+  const diff: ExportDiff = {
+    oldDir: path.resolve(oldDir),
+    newDir: path.resolve(newDir),
+    changes: [],
+    added: 0,
+    removed: 0,
+    moved: 0,
+    renamed: 0,
+    edited: 0,
+    unchanged: 0,
+  };
+
+  for (const [id, note] of newNotes) {
+    const previous = oldNotes.get(id);
+    if (!previous) {
+      diff.changes.push({ id, types: ["added"], title: note.title, path: note.relativePath });
+      continue;
+    }
+
+    const change: NoteChange = {
+      id,
+      types: [],
+      title: note.title,
+      path: note.relativePath,
+      previousPath: previous.relativePath,
+    };
+    if (note.folderPath.join("/") !== previous.folderPath.join("/")) {
+      change.types.push("moved");
+    }
+    if (note.title !== previous.title) {
+      change.types.push("renamed");
+      change.previousTitle = previous.title;
+    }
+
+    const body = readBody(note);
+    const previousBody = readBody(previous);
+    // Notes exported in different formats can only be compared by their text
+    const edited =
+      note.extension === previous.extension
+        ? body !== previousBody
+        : toLines(note, body).join("\n") !== toLines(previous, previousBody).join("\n");
+    if (edited) {
+      change.types.push("edited");
+      if (options.content) {
+        const previousLines = toLines(previous, previousBody);
+        change.hunks = diffLines(previousLines, toLines(note, body), options.context);
+      }
+    }
+
+    if (change.types.length === 0) {
+      diff.unchanged++;
+    } else {
+      diff.changes.push(change);
+    }
+  }
+
+  for (const [id, note] of oldNotes) {
+    if (!newNotes.has(id)) {
+      diff.changes.push({
+        id,
+        types: ["removed"],
+        title: note.title,
+        previousPath: note.relativePath,
+      });
+    }
+  }
+
+  for (const change of diff.changes) {
+    for (const type of change.types) {
+      diff[type]++;
+    }
+  }
+  diff.changes.sort(comparePaths);
+  return diff;
+}
+
+function formatSummary(diff: ExportDiff): string {
+  return (
+    `${diff.added} added, ${diff.removed} removed, ${diff.moved} moved, ` +
+    `${diff.renamed} renamed, ${diff.edited} edited, ${diff.unchanged} unchanged`
+  );
+}
+
+/**
+ * Returns the old path of a note that now has a different path.
+ */
+function formerPath(change: NoteChange): string | undefined {
+  return change.path !== undefined && change.previousPath !== change.path
+    ? change.previousPath
+    : undefined;
+}
+
+function formatHunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+const LINE_PREFIXES: Record<DiffLine["type"], string> = {
+  context: " ",
+  added: "+",
+  removed: "-",
+};
+
+function formatText(diff: ExportDiff): string {
+  const lines = [`Comparing ${diff.oldDir} with ${diff.newDir}`, formatSummary(diff)];
+  for (const change of diff.changes) {
+    lines.push("", `${change.types.join(", ")}: ${change.path ?? change.previousPath}`);
+    const from = formerPath(change);
+    if (from !== undefined) {
+      lines.push(`    from ${from}`);
+    }
+    if (change.previousTitle !== undefined) {
+      const titles = `${JSON.stringify(change.previousTitle)} -> ${JSON.stringify(change.title)}`;
+      lines.push(`    title ${titles}`);
+    }
+    for (const hunk of change.hunks ?? []) {
+      lines.push(`    ${formatHunkHeader(hunk)}`);
+      for (const line of hunk.lines) {
+        lines.push(`    ${LINE_PREFIXES[line.type]}${line.text}`);
+      }
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function formatHtml(diff: ExportDiff): string {
+  const items = diff.changes.map((change) => {
+    const details: string[] = [];
+    const from = formerPath(change);
+    if (from !== undefined) {
+      details.push(`<p class="detail">from ${escapeHtml(from)}</p>`);
+    }
+    if (change.previousTitle !== undefined) {
+      const titles = `“${escapeHtml(change.previousTitle)}” → “${escapeHtml(change.title)}”`;
+      details.push(`<p class="detail">title ${titles}</p>`);
+    }
+    if (change.hunks && change.hunks.length > 0) {
+      const rows = change.hunks.flatMap((hunk) => [
+        `<tr class="hunk"><td colspan="2">${escapeHtml(formatHunkHeader(hunk))}</td></tr>`,
+        ...hunk.lines.map(
+          (line) =>
+            `<tr class="${line.type}"><td class="marker">${LINE_PREFIXES[line.type]}</td>` +
+            `<td>${escapeHtml(line.text)}</td></tr>`
+        ),
+      ]);
+      details.push(`<table class="diff">\n${rows.join("\n")}\n</table>`);
+    }
+    const badges = change.types
+      .map((type) => `<span class="badge ${type}">${type}</span>`)
+      .join(" ");
+    const notePath = escapeHtml(change.path ?? change.previousPath!);
+    return `<li>\n<h2>${badges} ${notePath}</h2>\n${details.join("\n")}\n</li>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Notes changes</title>
+<style>
+body {
+  margin: 2em auto;
+  max-width: 960px;
+  padding: 0 1em;
+  font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Helvetica Neue", Arial, sans-serif;
+  color: #1d1d1f;
+}
+ul { list-style: none; padding: 0; }
+li { border-top: 1px solid #e5e5e5; padding: 0.5em 0; }
+h2 { font-size: 1em; margin: 0.5em 0; word-break: break-all; }
+.detail { margin: 0.25em 0; color: #6e6e73; }
+.badge {
+  display: inline-block;
+  padding: 0 0.5em;
+  border-radius: 4px;
+  font-size: 0.8em;
+  font-weight: normal;
+  color: #fff;
+  background: #8e8e93;
+}
+.badge.added { background: #28a745; }
+.badge.removed { background: #d73a49; }
+.badge.edited { background: #0366d6; }
+.diff { width: 100%; border-collapse: collapse; font: 13px/1.4 ui-monospace, Menlo, monospace; }
+.diff td { padding: 0 0.5em; white-space: pre-wrap; word-break: break-word; }
+.diff .marker { width: 1em; color: #6e6e73; }
+.diff .hunk td { color: #6e6e73; background: #f1f8ff; }
+.diff .added { background: #e6ffed; }
+.diff .removed { background: #ffeef0; }
+</style>
+</head>
+<body>
+<h1>Notes changes</h1>
+<p>${escapeHtml(diff.oldDir)} → ${escapeHtml(diff.newDir)}</p>
+<p>${escapeHtml(formatSummary(diff))}</p>
+<ul>
+${items.join("\n")}
+</ul>
+</body>
+</html>
+`;
+}
+
+/**
+ * Formats the differences between two exports as a report.
+ *
+ * - `text`: a plain-text listing, with line diffs in the style of `diff -u`.
+ * - `json`: the `ExportDiff` as JSON.
+ * - `html`: a standalone HTML page.
+ */
+export function formatDiffReport(diff: ExportDiff, format: DiffReportFormat = "text"): string {
+  if (format === "json") {
+    return `${JSON.stringify(diff, null, 2)}\n`;
+  }
+  return format === "html" ? formatHtml(diff) : formatText(diff);
+}
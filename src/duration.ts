@@ -0,0 +1,34 @@
+/**
+ * Parsing of human-friendly durations such as `90s`, `15m` or `1h`.
+ *
+ * @module
+ */
+
+/** Milliseconds per duration unit. */
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/;
+
+/**
+ * Parses a duration such as `500ms`, `90s`, `15m`, `1h` or `1d` into
+ * milliseconds. A bare number is taken as milliseconds.
+ *
+ * @returns The duration in milliseconds, or `undefined` if the value is not a
+ *   valid duration.
+ */
+export function parseDuration(value: string | number): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  }
+  const match = DURATION_PATTERN.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  return Math.round(Number(match[1]) * DURATION_UNITS[match[2] ?? "ms"]);
+}
@@ -0,0 +1,226 @@
+/**
+ * Evernote export (`.enex`) files from exported notes.
+ *
+ * An `.enex` file is XML holding every note with its title, dates, tags and
+ * content in ENML, Evernote's subset of XHTML. Files the notes embed or
+ * reference become resources of the notes, shown where they were with
+ * `<en-media>`, and checklists become `<en-todo>` checkboxes:
+ *
+ * ```xml
+ * <en-export export-date="20260301T090000Z" application="apple-notes-exporter">
+ *   <note>
+ *     <title>Plan</title>
+ *     <content><![CDATA[<?xml …?><en-note><h1>Plan</h1>…</en-note>]]></content>
+ *     <created>20260214T101500Z</created>
+ *     <updated>20260228T173000Z</updated>
+ *     <tag>Work</tag>
+ *     <resource>…</resource>
+ *   </note>
+ * </en-export>
+ * ```
+ *
+ * The folder of a note is kept as a tag, with subfolders joined by `/`.
+ * Evernote cannot link to notes in a file being imported, so links between
+ * notes are replaced by their text.
+ *
+ * Use `convertExport` with the `enex` format to write a file.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ConvertAttachment, ConvertNote, ConvertSource } from "./convert";
+import { HtmlNode } from "./html";
+
+/** Application name recorded in exported files. */
+const APPLICATION = "apple-notes-exporter";
+
+/** Number of base64 characters per line of resource data. */
+const BASE64_LINE_LENGTH = 76;
+
+/** Elements of normalized notes without content, written as `<tag/>`. */
+const EMPTY_ELEMENTS = new Set(["br", "hr"]);
+
+/** Elements followed by a line break, so the content is readable. */
+const BLOCK_ELEMENTS = new Set([
+  "blockquote",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "table",
+  "tbody",
+  "thead",
+  "tr",
+  "ul",
+]);
+
+/** Elements of normalized notes that ENML does not have, and their replacements. */
+const ENML_ALIASES: Record<string, string> = { mark: "span" };
+
+/** Attributes ENML does not allow. */
+const DISALLOWED_ATTRIBUTES = new Set(["class", "id"]);
+
+/**
+ * URLs ENML links and images can have: absolute URLs other than `data:` URIs,
+ * which are converted to resources when they can be decoded.
+ */
+const ABSOLUTE_URL = /^(?!data:)[a-z][a-z0-9+.-]*:/i;
+
+/**
+ * Escapes text for XML, dropping the control characters XML cannot hold.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Formats an ISO 8601 date the way ENEX files store dates:
+ * `yyyymmddThhmmssZ` in UTC.
+ */
+function formatEnexDate(iso: string): string | undefined {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime())
+    ? undefined
+    : date.toISOString().replace(/\.\d+/, "").replace(/[-:]/g, "");
+}
+
+function formatAttributes(attrs: Record<string, string>): string {
+  return Object.entries(attrs)
+    .filter(([name]) => !DISALLOWED_ATTRIBUTES.has(name))
+    .map(([name, value]) => ` ${name}="${escapeXml(value === "" ? name : value)}"`)
+    .join("");
+}
+
+/**
+ * Serializes the normalized content of a note as ENML, collecting the
+ * attachments it shows.
+ */
+function formatEnml(
+  note: ConvertNote,
+  nodes: HtmlNode[],
+  media: Map<string, ConvertAttachment>
+): string {
+  let enml = "";
+  for (const node of nodes) {
+    if (node.type === "text") {
+      enml += escapeXml(node.value);
+      continue;
+    }
+    const reference = note.references.get(node);
+    if (reference?.type === "attachment") {
+      const { hash, mediaType } = reference.attachment;
+      media.set(hash, reference.attachment);
+      enml += `<en-media type="${escapeXml(mediaType)}" hash="${hash}"/>`;
+      continue;
+    }
+    if (node.tag === "input") {
+      enml += `<en-todo checked="${"checked" in node.attrs}"/>`;
+      continue;
+    }
+    if (node.tag === "img" && !ABSOLUTE_URL.test(node.attrs.src ?? "")) {
+      enml += escapeXml(node.attrs.alt ?? "");
+      continue;
+    }
+    if (node.tag === "a" && (reference || !ABSOLUTE_URL.test(node.attrs.href ?? ""))) {
+      enml += formatEnml(note, node.children, media);
+      continue;
+    }
+    const tag = ENML_ALIASES[node.tag] ?? node.tag;
+    const attrs = formatAttributes(node.attrs);
+    enml +=
+      EMPTY_ELEMENTS.has(tag) || tag === "img"
+        ? `<${tag}${attrs}/>`
+        : `<${tag}${attrs}>${formatEnml(note, node.children, media)}</${tag}>`;
+    if (BLOCK_ELEMENTS.has(tag)) {
+      enml += "\n";
+    }
+  }
+  return enml;
+}
+
+/**
+ * Wraps text in a CDATA section, splitting any `]]>` it contains.
+ */
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+function formatResource(attachment: ConvertAttachment): string {
+  const base64 = attachment.data.toString("base64");
+  const data: string[] = [];
+  for (let start = 0; start < base64.length; start += BASE64_LINE_LENGTH) {
+    data.push(base64.slice(start, start + BASE64_LINE_LENGTH));
+  }
+  return (
+    "    <resource>\n" +
+    `      <data encoding="base64">\n${data.join("\n")}\n      </data>\n` +
+    `      <mime>${escapeXml(attachment.mediaType)}</mime>\n` +
+    "      <resource-attributes>\n" +
+    `        <file-name>${escapeXml(attachment.fileName)}</file-name>\n` +
+    "      </resource-attributes>\n" +
+    "    </resource>\n"
+  );
+}
+
+function formatNote(note: ConvertNote): string {
+  const media = new Map<string, ConvertAttachment>();
+  const content =
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n' +
+    '<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">\n' +
+    `<en-note>\n${formatEnml(note, note.blocks, media)}</en-note>`;
+  const created = note.createdAt === undefined ? undefined : formatEnexDate(note.createdAt);
+  const updated = formatEnexDate(note.modifiedAt);
+  const tag = note.folderPath.join("/");
+  return (
+    "  <note>\n" +
+    `    <title>${escapeXml(note.title)}</title>\n` +
+    `    <content>${cdata(content)}</content>\n` +
+    (created ? `    <created>${created}</created>\n` : "") +
+    (updated ? `    <updated>${updated}</updated>\n` : "") +
+    (tag ? `    <tag>${escapeXml(tag)}</tag>\n` : "") +
+    [...media.values()].map(formatResource).join("") +
+    "  </note>\n"
+  );
+}
+
+/**
+ * Formats the notes and attachments of an export as an Evernote export file.
+ *
+ * @param source - The export, read by `readConvertSource`.
+ * @param exportDate - The date recorded as the time of the export.
+ */
+export function formatEnex(source: ConvertSource, exportDate = new Date()): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<!DOCTYPE en-export SYSTEM "http://xml.evernote.com/pub/evernote-export4.dtd">\n' +
+    `<en-export export-date="${formatEnexDate(exportDate.toISOString())}" ` +
+    `application="${APPLICATION}">\n` +
+    source.notes.map(formatNote).join("") +
+    "</en-export>\n"
+  );
+}
+
+/**
+ * Writes the notes and attachments of an export as an Evernote export file.
+ *
+ * @param source - The export, read by `readConvertSource`.
+ * @param filePath - The `.enex` file. It is replaced if it exists.
+ */
+export function writeEnex(source: ConvertSource, filePath: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, formatEnex(source), "utf8");
+}
@@ -1,7 +1,40 @@
+import type { ExportProgress } from "./progress";
+
+/**
+ * Stable, machine-readable identifiers for each kind of `ExportError`.
+ */
+export type ExportErrorCode =
+  | "UNSUPPORTED_PLATFORM"
+  | "SCRIPT_NOT_FOUND"
+  | "TEMP_FILE_FAILED"
+  | "INVALID_PATH"
+  | "LAUNCH_FAILED"
+  | "SCRIPT_FAILED"
+  | "FOLDER_NOT_FOUND"
+  | "AMBIGUOUS_FOLDER"
+  | "AUTOMATION_PERMISSION_DENIED"
+  | "NOTES_NOT_RUNNING"
+  | "CANCELLED"
+  | "TIMEOUT"
+  | "ACCOUNT_NOT_FOUND"
+  | "CONFIG_INVALID"
+  | "INVALID_FILTER"
+  | "ARCHIVE_FAILED"
+  | "INVALID_NAMING"
+  | "GIT_FAILED"
+  | "GIT_REPOSITORY_DIRTY"
+  | "SERVER_FAILED"
+  | "RENDER_FAILED";
+
 /**
  * Base error class for all Apple Notes export errors.
+ *
+ * Every error has a `code` that identifies its kind and, unlike the message,
+ * does not change between versions.
  */
 export abstract class ExportError extends Error {
+  abstract readonly code: ExportErrorCode;
+
   constructor(message: string) {
     super(message);
     this.name = this.constructor.name;
@@ -14,6 +47,7 @@ export abstract class ExportError extends Error {
  * Error thrown when attempting to run on a non-macOS platform.
  */
 export class UnsupportedPlatformError extends ExportError {
+  readonly code: ExportErrorCode = "UNSUPPORTED_PLATFORM";
   readonly platform: string;
 
   constructor(platform: string) {
@@ -29,6 +63,7 @@ export class UnsupportedPlatformError extends ExportError {
  * Error thrown when the AppleScript file is not found at the specified path.
  */
 export class ScriptNotFoundError extends ExportError {
+  readonly code: ExportErrorCode = "SCRIPT_NOT_FOUND";
   readonly scriptPath: string;
 
   constructor(scriptPath: string) {
@@ -41,6 +76,7 @@ export class ScriptNotFoundError extends ExportError {
  * Error thrown when failed to create a temporary file for the embedded script.
  */
 export class TempFileError extends ExportError {
+  readonly code: ExportErrorCode = "TEMP_FILE_FAILED";
   readonly cause: Error;
 
   constructor(cause: Error) {
@@ -53,10 +89,11 @@ export class TempFileError extends ExportError {
  * Error thrown when the output directory path is not valid.
  */
 export class InvalidPathError extends ExportError {
+  readonly code: ExportErrorCode = "INVALID_PATH";
   readonly path: string;
 
-  constructor(path: string) {
-    super(`Invalid path: ${path}`);
+  constructor(path: string, reason?: string) {
+    super(reason ? `Invalid path: ${path} (${reason})` : `Invalid path: ${path}`);
     this.path = path;
   }
 }
@@ -65,6 +102,7 @@ export class InvalidPathError extends ExportError {
  * Error thrown when failed to launch the osascript process.
  */
 export class LaunchError extends ExportError {
+  readonly code: ExportErrorCode = "LAUNCH_FAILED";
   readonly cause: Error;
 
   constructor(cause: Error) {
@@ -75,17 +113,352 @@ export class LaunchError extends ExportError {
 
 /**
  * Error thrown when the AppleScript exited with a non-zero status code.
+ *
+ * Failures with a known cause are reported as one of the subclasses below;
+ * use `parseScriptFailure` to create the right one from the script's stderr.
  */
 export class ScriptFailedError extends ExportError {
+  readonly code: ExportErrorCode = "SCRIPT_FAILED";
   readonly exitCode: number;
+  /** Everything the script wrote to stderr, if it was captured. */
   readonly stderr?: string;
+  /** The AppleScript error number, e.g. `-1743`, if stderr reported one. */
+  readonly scriptErrorNumber?: number;
 
-  constructor(exitCode: number, stderr?: string) {
-    const message = stderr
-      ? `AppleScript exited with status ${exitCode}: ${stderr}`
-      : `AppleScript exited with status ${exitCode}`;
-    super(message);
+  constructor(exitCode: number, stderr?: string, message?: string, scriptErrorNumber?: number) {
+    const detail = stderr?.trim();
+    super(
+      message ??
+        (detail
+          ? `AppleScript exited with status ${exitCode}: ${detail}`
+          : `AppleScript exited with status ${exitCode}`)
+    );
     this.exitCode = exitCode;
     this.stderr = stderr;
+    this.scriptErrorNumber = scriptErrorNumber;
+  }
+}
+
+/**
+ * Error thrown when the folder to export does not exist.
+ */
+export class FolderNotFoundError extends ScriptFailedError {
+  readonly code: ExportErrorCode = "FOLDER_NOT_FOUND";
+  readonly folder: string;
+
+  constructor(folder: string, exitCode: number, stderr?: string, scriptErrorNumber?: number) {
+    super(exitCode, stderr, `Could not find folder named: ${folder}`, scriptErrorNumber);
+    this.folder = folder;
+  }
+}
+
+/**
+ * Error thrown when a folder name without an account matches folders in
+ * several accounts.
+ *
+ * The exporter checks the folder listing before it runs an export, so this
+ * error is usually thrown without running the export script: `exitCode` is
+ * then `0` and `stderr` is not set.
+ */
+export class AmbiguousFolderError extends ScriptFailedError {
+  readonly code: ExportErrorCode = "AMBIGUOUS_FOLDER";
+  readonly folder: string;
+  /** The accounts containing a folder with that name, if the script listed them. */
+  readonly accounts: string[];
+
+  constructor(
+    folder: string,
+    accounts: string[],
+    exitCode: number,
+    stderr?: string,
+    scriptErrorNumber?: number
+  ) {
+    super(
+      exitCode,
+      stderr,
+      accounts.length > 0
+        ? `Folder named ${folder} exists in several accounts: ${accounts.join(", ")}`
+        : `Folder named ${folder} exists in several accounts`,
+      scriptErrorNumber
+    );
+    this.folder = folder;
+    this.accounts = accounts;
+  }
+}
+
+/**
+ * Error thrown when macOS does not allow the script to control Notes
+ * (AppleScript error -1743).
+ */
+export class AutomationPermissionError extends ScriptFailedError {
+  readonly code: ExportErrorCode = "AUTOMATION_PERMISSION_DENIED";
+
+  constructor(exitCode: number, stderr?: string, scriptErrorNumber?: number) {
+    super(exitCode, stderr, "Not authorized to control the Notes app", scriptErrorNumber);
+  }
+}
+
+/**
+ * Error thrown when the Notes app is not running or stopped responding while
+ * the script was talking to it (AppleScript errors -600 and -609).
+ */
+export class NotesNotRunningError extends ScriptFailedError {
+  readonly code: ExportErrorCode = "NOTES_NOT_RUNNING";
+
+  constructor(exitCode: number, stderr?: string, scriptErrorNumber?: number) {
+    super(exitCode, stderr, "The Notes app is not running or is not responding", scriptErrorNumber);
+  }
+}
+
+/** AppleScript error numbers with a known cause. */
+const ERROR_NUMBER_NOT_AUTHORIZED = -1743;
+const ERROR_NUMBERS_NOT_RUNNING = [-600, -609];
+
+/**
+ * Matches the `execution error` line osascript prints for an uncaught
+ * AppleScript error, e.g.
+ * `script.applescript: execution error: Could not find folder named: Work (1)`.
+ */
+const EXECUTION_ERROR = /execution error: (.*?)(?: \((-?\d+)\))?\s*$/m;
+const FOLDER_NOT_FOUND = /Could not find folder named:? (.+)$/i;
+const AMBIGUOUS_FOLDER =
+  /folder (?:named:? )?"?(.+?)"? (?:exists|was found|is) in (?:several|multiple) accounts(?::\s*(.+))?$/i;
+
+/**
+ * Creates the error for a failed script run from its exit status and stderr.
+ *
+ * osascript reports uncaught AppleScript errors on stderr as
+ * `execution error: <message> (<number>)`. Known messages and error numbers
+ * are turned into the matching `ScriptFailedError` subclass; anything else
+ * becomes a plain `ScriptFailedError`.
+ *
+ * @example
+ * ```typescript
+ * const error = parseScriptFailure(1, 'execution error: Not authorized to send Apple events to Notes. (-1743)');
+ * error.code; // => 'AUTOMATION_PERMISSION_DENIED'
+ * ```
+ */
+export function parseScriptFailure(exitCode: number, stderr?: string): ScriptFailedError {
+  const match = stderr ? EXECUTION_ERROR.exec(stderr) : null;
+  const message = (match ? match[1] : stderr ?? "").trim();
+  const errorNumber = match?.[2] !== undefined ? Number(match[2]) : undefined;
+
+  if (
+    errorNumber === ERROR_NUMBER_NOT_AUTHORIZED ||
+    /not authori[sz]ed to send apple events/i.test(message)
+  ) {
+    return new AutomationPermissionError(exitCode, stderr, errorNumber);
+  }
+  if (
+    (errorNumber !== undefined && ERROR_NUMBERS_NOT_RUNNING.includes(errorNumber)) ||
+    /application isn.t running/i.test(message)
+  ) {
+    return new NotesNotRunningError(exitCode, stderr, errorNumber);
+  }
+
+  const ambiguous = AMBIGUOUS_FOLDER.exec(message);
+  if (ambiguous) {
+    const accounts = ambiguous[2]
+      ? ambiguous[2].split(",").map((account) => account.trim()).filter(Boolean)
+      : [];
+    return new AmbiguousFolderError(ambiguous[1], accounts, exitCode, stderr, errorNumber);
+  }
+  const notFound = FOLDER_NOT_FOUND.exec(message);
+  if (notFound) {
+    return new FolderNotFoundError(notFound[1].trim(), exitCode, stderr, errorNumber);
+  }
+
+  return new ScriptFailedError(
+    exitCode,
+    stderr,
+    message ? `AppleScript exited with status ${exitCode}: ${message}` : undefined,
+    errorNumber
+  );
+}
+
+/**
+ * Error thrown when an export is cancelled through an `AbortSignal`.
+ */
+export class ExportCancelledError extends ExportError {
+  readonly code: ExportErrorCode = "CANCELLED";
+  /** How far the export got before it was cancelled, if known. */
+  readonly progress?: ExportProgress;
+
+  constructor(progress?: ExportProgress) {
+    super(
+      progress
+        ? `Export was cancelled after exporting ${progress.notesExported} notes`
+        : "Export was cancelled"
+    );
+    this.progress = progress;
+  }
+}
+
+/**
+ * Error thrown when an export does not finish within its `timeoutMs`.
+ */
+export class ExportTimeoutError extends ExportError {
+  readonly code: ExportErrorCode = "TIMEOUT";
+  readonly timeoutMs: number;
+  /** How far the export got before it timed out, if known. */
+  readonly progress?: ExportProgress;
+
+  constructor(timeoutMs: number, progress?: ExportProgress) {
+    super(
+      progress
+        ? `Export timed out after ${timeoutMs}ms, having exported ${progress.notesExported} notes`
+        : `Export timed out after ${timeoutMs}ms`
+    );
+    this.timeoutMs = timeoutMs;
+    this.progress = progress;
+  }
+}
+
+/**
+ * Error thrown when a folder spec names an account that does not exist.
+ */
+export class AccountNotFoundError extends ExportError {
+  readonly code: ExportErrorCode = "ACCOUNT_NOT_FOUND";
+  readonly account: string;
+
+  constructor(account: string) {
+    super(`Could not find account named: ${account}`);
+    this.account = account;
+  }
+}
+
+/**
+ * Error thrown when a config file cannot be found, read or validated.
+ */
+export class ConfigError extends ExportError {
+  readonly code: ExportErrorCode = "CONFIG_INVALID";
+  /** The config file, if one was found. */
+  readonly configPath?: string;
+  /** Each problem found while validating the config. */
+  readonly problems: string[];
+
+  constructor(problems: string[], configPath?: string) {
+    super(
+      problems.length === 1
+        ? `${configPath ? `${configPath}: ` : ""}${problems[0]}`
+        : `${configPath ?? "Config"} has ${problems.length} problems:\n` +
+            problems.map((problem) => `  - ${problem}`).join("\n")
+    );
+    this.configPath = configPath;
+    this.problems = problems;
+  }
+}
+
+/**
+ * Error thrown when a note filter has a value that cannot be used, such as a
+ * date that cannot be parsed.
+ */
+export class InvalidFilterError extends ExportError {
+  readonly code: ExportErrorCode = "INVALID_FILTER";
+  /** The filter option, e.g. `modifiedSince`. */
+  readonly filter: string;
+  readonly value: unknown;
+
+  constructor(filter: string, value: unknown, reason: string) {
+    super(`Invalid ${filter} filter ${JSON.stringify(String(value))}: ${reason}`);
+    this.filter = filter;
+    this.value = value;
+  }
+}
+
+/**
+ * Error thrown when an export cannot be written to an archive file.
+ */
+export class ArchiveError extends ExportError {
+  readonly code: ExportErrorCode = "ARCHIVE_FAILED";
+  readonly archivePath: string;
+  /** Why the archive could not be written. */
+  readonly reason: string;
+
+  constructor(archivePath: string, reason: string) {
+    super(`Failed to write archive ${archivePath}: ${reason}`);
+    this.archivePath = archivePath;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error thrown when a naming option has a value that cannot be used, such as
+ * a template with an unknown placeholder.
+ */
+export class InvalidNamingError extends ExportError {
+  readonly code: ExportErrorCode = "INVALID_NAMING";
+  /** The naming option, e.g. `template`. */
+  readonly option: string;
+  readonly value: unknown;
+
+  constructor(option: string, value: unknown, reason: string) {
+    super(`Invalid naming ${option} ${JSON.stringify(String(value))}: ${reason}`);
+    this.option = option;
+    this.value = value;
+  }
+}
+
+/**
+ * Error thrown when a git-backed export cannot run git or commit the export.
+ */
+export class GitError extends ExportError {
+  readonly code: ExportErrorCode = "GIT_FAILED";
+  /** The repository directory. */
+  readonly repository: string;
+
+  constructor(repository: string, reason: string) {
+    super(`Git backup of ${repository} failed: ${reason}`);
+    this.repository = repository;
+  }
+}
+
+/**
+ * Error thrown when a git-backed export's output directory has uncommitted
+ * changes, which the export's commit would mix with its own.
+ */
+export class GitRepositoryDirtyError extends ExportError {
+  readonly code: ExportErrorCode = "GIT_REPOSITORY_DIRTY";
+  /** The repository directory. */
+  readonly repository: string;
+  /** Paths with uncommitted changes, relative to the repository. */
+  readonly changedFiles: string[];
+
+  constructor(repository: string, changedFiles: string[]) {
+    const shown = changedFiles.slice(0, 3).join(", ");
+    const more = changedFiles.length > 3 ? `, and ${changedFiles.length - 3} more` : "";
+    super(`Output directory ${repository} has uncommitted changes: ${shown}${more}`);
+    this.repository = repository;
+    this.changedFiles = changedFiles;
+  }
+}
+
+/**
+ * Error thrown when the notes server cannot listen on its address, for
+ * example because the port is in use.
+ */
+export class ServerError extends ExportError {
+  readonly code: ExportErrorCode = "SERVER_FAILED";
+  /** The address the server tried to listen on, e.g. `127.0.0.1:8080`. */
+  readonly address: string;
+
+  constructor(address: string, reason: string) {
+    super(`Could not serve notes at ${address}: ${reason}`);
+    this.address = address;
+  }
+}
+
+/**
+ * Error thrown when an export cannot be rendered as a book, because the
+ * render options cannot be used or a book file cannot be written.
+ */
+export class RenderError extends ExportError {
+  readonly code: ExportErrorCode = "RENDER_FAILED";
+  /** The book file, if the error is about one. */
+  readonly bookPath?: string;
+
+  constructor(bookPath: string | undefined, reason: string) {
+    super(`Failed to render ${bookPath ?? "book"}: ${reason}`);
+    this.bookPath = bookPath;
   }
 }
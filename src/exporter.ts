@@ -16,19 +16,84 @@
  * @module
  */
 
-import { spawn, spawnSync } from "node:child_process";
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 import {
+  AmbiguousFolderError,
+  ArchiveError,
+  ExportCancelledError,
   ExportError,
+  ExportTimeoutError,
+  GitError,
   InvalidPathError,
-  LaunchError,
-  ScriptFailedError,
+  RenderError,
   ScriptNotFoundError,
   TempFileError,
-  UnsupportedPlatformError,
 } from "./errors";
+import { ArchiveOptions, ArchiveResult, getArchiveFormat, writeArchive } from "./archive";
+import { AttachmentResult, extractAttachments } from "./attachments";
+import {
+  BatchExportEntry,
+  BatchExportJob,
+  BatchExportResult,
+  expandFolderSpecs,
+  hasWildcardSpecs,
+  parseFolderSpec,
+  resolveJobOutputDir,
+} from "./batch";
+import {
+  applyFilters,
+  FilterResult,
+  hasFilters,
+  needsNoteDates,
+  NoteFilters,
+  validateFilters,
+} from "./filters";
+import { Account, parseFolderListing } from "./folders";
+import { checkGitRepository, commitExport, GitCommitResult, GitOptions } from "./git";
+import { LinkOptions, LinkResult, linkNotes } from "./links";
+import {
+  applyIncrementalExport,
+  IncrementalOptions,
+  IncrementalResult,
+} from "./manifest";
+import { convertExportToMarkdown } from "./markdown";
+import { applyNaming, NamingOptions, usesNoteDates, validateNaming } from "./naming";
+import {
+  normalizeExport,
+  NormalizeOptions,
+  NormalizeResult,
+  validateNormalizeOptions,
+} from "./normalize";
+import {
+  NoteMetadata,
+  parseMetadataOutput,
+  updateNoteIndex,
+  writeMetadataScript,
+  writeNoteMetadata,
+} from "./metadata";
+import { listExportedNotes } from "./notes";
+import {
+  createExportPlan,
+  ExportPlan,
+  findFolderMatches,
+  planFolderExport,
+  PlannedFolderExport,
+} from "./plan";
+import { EventQueue, ExportEvent, ProgressTracker } from "./progress";
+import {
+  DEFAULT_MAX_BACKOFF_MS,
+  DEFAULT_WATCH_INTERVAL_MS,
+  FATAL_WATCH_ERROR_CODES,
+  nextCycleDelay,
+  waitFor,
+  WatchCycle,
+  WatchOptions,
+  WatchResult,
+} from "./watch";
+import { renderExport, RenderOptions, RenderResult, validateRenderOptions } from "./render";
+import { OsascriptRunner, ScriptRunner, ScriptRunOptions } from "./runner";
 
 /** Relative path to the vendored AppleScript from package root */
 const VENDORED_SCRIPT_PATH = path.join(
@@ -46,13 +111,178 @@ type ScriptSource =
   | { type: "path"; path: string };
 
 /**
- * Checks if the current platform is macOS.
- * @throws {UnsupportedPlatformError} If not running on macOS.
+ * The file format of exported notes.
+ *
+ * - `html`: the note HTML as returned by the Notes app (`.html` files).
+ * - `markdown`: the note HTML converted to Markdown (`.md` files).
  */
-function checkPlatform(): void {
-  if (process.platform !== "darwin") {
-    throw new UnsupportedPlatformError(process.platform);
-  }
+export type ExportFormat = "html" | "markdown";
+
+/**
+ * Options for cancelling or limiting a script run.
+ */
+export interface RunOptions {
+  /**
+   * Cancels the operation when aborted: the script is stopped and the call
+   * rejects with an `ExportCancelledError`. Ignored by synchronous methods.
+   */
+  signal?: AbortSignal;
+  /**
+   * Stops the script if it runs longer than this many milliseconds; the call
+   * then fails with an `ExportTimeoutError`.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for exporting a folder.
+ */
+export interface ExportOptions extends RunOptions {
+  /** The output file format. Defaults to `"html"`. */
+  format?: ExportFormat;
+  /**
+   * Only write notes that changed since the previous export into the same
+   * output directory, tracked with a manifest file. Pass an object to
+   * configure how removed notes are handled.
+   */
+  incremental?: boolean | IncrementalOptions;
+  /**
+   * Extract images and attachments embedded in the notes into `assets/`
+   * directories next to the notes, and reference them by relative path.
+   * Defaults to `false`.
+   */
+  extractAttachments?: boolean;
+  /**
+   * Record each note's metadata (dates, account, folder path, status): as a
+   * JSON sidecar next to HTML notes or as YAML front matter in Markdown
+   * notes, plus an `index.json` catalog in the output directory. Reading the
+   * metadata runs a second, bundled AppleScript. Defaults to `false`.
+   */
+  metadata?: boolean;
+  /**
+   * Rewrite each note as a clean, standalone HTML5 document: semantic
+   * markup, no scripts, event handlers or inline styles, and a `<title>`.
+   * Pass an object to embed a CSS file in every note. For Markdown exports,
+   * notes are normalized before they are converted.
+   */
+  normalize?: boolean | NormalizeOptions;
+  /**
+   * Only export the notes matching these filters. Filters on dates read the
+   * note dates with the bundled metadata script. Incremental exports keep
+   * the files of notes that stop matching.
+   */
+  filters?: NoteFilters;
+  /**
+   * Also write the export into a `.zip` or `.tar.gz` file, chosen by the
+   * extension. Pass an object to delete the output directory afterwards.
+   * Batch exports write one archive of the whole batch output directory.
+   */
+  archive?: string | ArchiveOptions;
+  /**
+   * Rename note files and folder directories with a template such as
+   * `{date}-{slug}`, making names portable, cutting long names and numbering
+   * names that would collide. Date placeholders read the note dates with the
+   * bundled metadata script.
+   */
+  naming?: NamingOptions;
+  /**
+   * Keep the output directory as a git repository and commit each export,
+   * with a message summarizing the notes added, modified, deleted and
+   * renamed. The repository is created if needed. Fails before exporting if
+   * the repository has uncommitted changes. Batch exports make one commit.
+   * Combine with `incremental` so notes that no longer exist are deleted.
+   */
+  git?: boolean | GitOptions;
+  /**
+   * Rewrite links between notes (`applenotes:` and other Notes URLs) as
+   * relative paths to the exported files, and record them with each note's
+   * backlinks in `links.json`. Pass an object to also add a "Linked from"
+   * section to the notes. Batch exports link the notes of all folders.
+   */
+  links?: boolean | LinkOptions;
+  /**
+   * Render the exported notes as an EPUB book, a printable HTML book, or
+   * both, after linking. The files must be outside the output directory.
+   * Needs the `html` format. Batch exports render one book of all folders.
+   */
+  render?: RenderOptions;
+  /**
+   * Called with progress events parsed from the script output. When set, the
+   * raw script output is no longer printed.
+   */
+  onProgress?: (event: ExportEvent) => void;
+}
+
+/**
+ * Options for exporting several folders in one run.
+ */
+export interface BatchExportOptions extends ExportOptions {
+  /**
+   * Stop at the first failed export instead of continuing with the remaining
+   * folders. Defaults to `false`. Cancellation always stops the batch.
+   */
+  stopOnError?: boolean;
+}
+
+/**
+ * The result of an export.
+ */
+export interface ExportResult {
+  /** The absolute path of the output directory. */
+  outputDir: string;
+  /** The changes applied, for incremental exports. */
+  incremental?: IncrementalResult;
+  /** The notes kept and left out, if `filters` were set. */
+  filtered?: FilterResult;
+  /** The archive written, if `archive` was set. */
+  archive?: ArchiveResult;
+  /** The commit made, if `git` was set. */
+  git?: GitCommitResult;
+  /** The links between notes, if `links` was set. */
+  links?: LinkResult;
+  /** The books written, if `render` was set. */
+  render?: RenderResult;
+  /** The attachments extracted, if `extractAttachments` was set. */
+  attachments?: AttachmentResult;
+  /** The notes normalized, if `normalize` was set. */
+  normalized?: NormalizeResult;
+  /**
+   * The metadata of the exported notes, if `metadata` was set. Paths are
+   * relative to `outputDir`.
+   */
+  metadata?: NoteMetadata[];
+}
+
+/**
+ * Where the script writes an export, and how to clean up afterwards.
+ */
+interface ExportTarget {
+  /** The final output directory. */
+  outputDir: string;
+  /**
+   * The directory passed to the script. Either the output directory itself,
+   * or a temporary staging directory when post-processing is needed.
+   */
+  scriptOutputDir: string;
+  /** Whether `scriptOutputDir` is a temporary staging directory. */
+  staged: boolean;
+  /**
+   * The directory whose `index.json` catalogs the export: the output
+   * directory, or the batch output directory in a batch.
+   */
+  indexDir: string;
+}
+
+/**
+ * Options for creating an `Exporter`.
+ */
+export interface ExporterOptions {
+  /**
+   * The runner used to execute the AppleScript. Defaults to an
+   * `OsascriptRunner`, which requires macOS. Pass a `FakeScriptRunner` to
+   * exercise the exporter on other platforms.
+   */
+  runner?: ScriptRunner;
 }
 
 /**
@@ -72,11 +302,294 @@ function getVendoredScriptPath(): string {
   return path.resolve(getPackageRoot(), VENDORED_SCRIPT_PATH);
 }
 
+/**
+ * Whether the export needs post-processing before it is written to the
+ * output directory.
+ */
+function needsStaging(options: ExportOptions): boolean {
+  return (
+    (options.format ?? "html") !== "html" ||
+    Boolean(options.incremental) ||
+    Boolean(options.extractAttachments) ||
+    Boolean(options.metadata) ||
+    Boolean(options.normalize) ||
+    hasFilters(options.filters) ||
+    options.naming !== undefined
+  );
+}
+
+/**
+ * Normalizes the `archive` option and checks it before anything is exported.
+ *
+ * @throws {ArchiveError} If the archive format is not supported, or the
+ *   archive would be deleted along with the output directory.
+ */
+function resolveArchiveOptions(
+  archive: string | ArchiveOptions | undefined,
+  outputDir: string
+): ArchiveOptions | undefined {
+  if (archive === undefined) {
+    return undefined;
+  }
+  const options = typeof archive === "string" ? { path: archive } : archive;
+  const archivePath = path.resolve(options.path);
+  if (!getArchiveFormat(archivePath)) {
+    throw new ArchiveError(archivePath, "the file name must end in .zip, .tar.gz or .tgz");
+  }
+  const relative = path.relative(path.resolve(outputDir), archivePath);
+  if (options.removeOutputDir && !relative.startsWith("..") && !path.isAbsolute(relative)) {
+    throw new ArchiveError(
+      archivePath,
+      "the archive is inside the output directory, which would be removed"
+    );
+  }
+  return { ...options, path: archivePath };
+}
+
+/**
+ * Normalizes the `git` option and checks the output directory before
+ * anything is exported.
+ *
+ * @throws {GitError} If git cannot be run, or the output directory would be
+ *   removed after archiving.
+ * @throws {GitRepositoryDirtyError} If the output directory is a repository
+ *   with uncommitted changes.
+ */
+function resolveGitOptions(
+  git: boolean | GitOptions | undefined,
+  archive: ArchiveOptions | undefined,
+  outputDir: string
+): GitOptions | undefined {
+  if (!git) {
+    return undefined;
+  }
+  if (archive?.removeOutputDir) {
+    throw new GitError(
+      path.resolve(outputDir),
+      "the output directory would be removed after archiving"
+    );
+  }
+  checkGitRepository(outputDir);
+  return git === true ? {} : git;
+}
+
+/**
+ * Normalizes the `normalize` option.
+ */
+function resolveNormalizeOptions(normalize: true | NormalizeOptions): NormalizeOptions {
+  return normalize === true ? {} : normalize;
+}
+
+/**
+ * Normalizes the `links` option.
+ */
+function resolveLinkOptions(links: true | LinkOptions): LinkOptions {
+  return links === true ? {} : links;
+}
+
+/**
+ * Checks the `render` option before anything is exported.
+ *
+ * @throws {RenderError} If the options are invalid, or the export is not HTML.
+ */
+function checkRenderOptions(options: ExportOptions, outputDir: string): void {
+  if (!options.render) {
+    return;
+  }
+  validateRenderOptions(options.render, outputDir);
+  if (options.format === "markdown") {
+    throw new RenderError(undefined, "books are rendered from HTML exports");
+  }
+}
+
+/**
+ * Returns the modification dates of the notes the metadata script reported.
+ */
+function modificationDates(metadata: Map<string, Omit<NoteMetadata, "path">>): Map<string, string> {
+  const dates = new Map<string, string>();
+  for (const [id, note] of metadata) {
+    if (note.modifiedAt !== undefined) {
+      dates.set(id, note.modifiedAt);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Checks that a folder spec without an account does not match folders in
+ * several accounts: the script would export the first match it finds. Only
+ * folders in the listing are compared, which are the top-level folders with
+ * the bundled script.
+ *
+ * @throws {AmbiguousFolderError} If folders in several accounts match.
+ */
+function checkFolderMatches(folderSpec: string, accounts: Account[]): void {
+  const matching = new Set(
+    findFolderMatches(accounts, folderSpec).map((folder) => folder.account)
+  );
+  if (matching.size > 1) {
+    throw new AmbiguousFolderError(folderSpec, [...matching], 0);
+  }
+}
+
+/**
+ * Writes the output directory into an archive, then removes the directory
+ * if asked to.
+ */
+function archiveOutputDir(
+  outputDir: string,
+  archive: ArchiveOptions,
+  removeOutputDir = archive.removeOutputDir
+): ArchiveResult {
+  const result = writeArchive(outputDir, archive.path);
+  if (removeOutputDir) {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  }
+  return result;
+}
+
+/**
+ * Whether the export needs the note metadata read by the metadata script.
+ */
+function needsMetadata(options: ExportOptions): boolean {
+  return (
+    Boolean(options.metadata) ||
+    needsNoteDates(options.filters) ||
+    usesNoteDates(options.naming)
+  );
+}
+
+/**
+ * Creates a temporary directory for the script to export into.
+ * @throws {TempFileError} If the directory cannot be created.
+ */
+function createStagingDir(): string {
+  try {
+    return fs.mkdtempSync(path.join(os.tmpdir(), "apple-notes-export-"));
+  } catch (error) {
+    throw new TempFileError(error as Error);
+  }
+}
+
+/**
+ * Moves everything in `sourceDir` into `targetDir`, merging directories and
+ * overwriting existing files.
+ */
+function moveDirectoryContents(sourceDir: string, targetDir: string): void {
+  fs.mkdirSync(targetDir, { recursive: true });
+  for (const entry of fs.readdirSync(sourceDir, { withFileTypes: true })) {
+    const sourcePath = path.join(sourceDir, entry.name);
+    const targetPath = path.join(targetDir, entry.name);
+    if (entry.isDirectory()) {
+      moveDirectoryContents(sourcePath, targetPath);
+      continue;
+    }
+    try {
+      fs.renameSync(sourcePath, targetPath);
+    } catch {
+      // Fall back to copying, e.g. when the temp dir is on another device
+      fs.copyFileSync(sourcePath, targetPath);
+    }
+  }
+}
+
+/**
+ * Records the outcome of one export in a batch.
+ *
+ * @returns Whether the batch should continue.
+ */
+function recordBatchEntry(
+  batch: BatchExportResult,
+  entry: BatchExportEntry,
+  options: BatchExportOptions
+): boolean {
+  batch.exports.push(entry);
+  if (!entry.error) {
+    batch.succeeded++;
+    return true;
+  }
+  batch.failed++;
+  return !options.stopOnError;
+}
+
+/**
+ * Converts a failed export in a batch into a batch entry, rethrowing errors
+ * that must stop the whole batch.
+ */
+function toFailedEntry(
+  spec: string,
+  outputDir: string,
+  error: unknown
+): BatchExportEntry {
+  if (!(error instanceof ExportError) || error instanceof ExportCancelledError) {
+    throw error;
+  }
+  return { spec, outputDir, error };
+}
+
+/**
+ * Expands the specs of a plan into jobs. A single spec is planned like
+ * `exportFolder`, directly into the output directory; a list is planned like
+ * `exportFolders`.
+ */
+function expandPlanSpecs(
+  specs: string | string[],
+  accounts: Account[]
+): { jobs: BatchExportJob[]; errors: Array<{ spec: string; error: ExportError }> } {
+  if (typeof specs === "string") {
+    return { jobs: [{ spec: specs, source: specs, subdirectory: "." }], errors: [] };
+  }
+  return expandFolderSpecs(specs, accounts);
+}
+
+/**
+ * Converts an error while planning a folder into a folder plan, rethrowing
+ * errors that must stop the whole plan.
+ */
+function toFailedFolderPlan(
+  spec: string,
+  outputDir: string,
+  error: unknown
+): PlannedFolderExport {
+  if (!(error instanceof ExportError) || error instanceof ExportCancelledError) {
+    throw error;
+  }
+  return {
+    spec,
+    otherMatches: [],
+    outputDir,
+    notes: 0,
+    filteredOut: 0,
+    files: [],
+    error: error.message,
+  };
+}
+
+/**
+ * Attaches the export's progress to cancellation and timeout errors.
+ */
+function withProgress(
+  error: unknown,
+  tracker: ProgressTracker | undefined
+): unknown {
+  if (!tracker) {
+    return error;
+  }
+  if (error instanceof ExportCancelledError) {
+    return new ExportCancelledError({ ...tracker.progress });
+  }
+  if (error instanceof ExportTimeoutError) {
+    return new ExportTimeoutError(error.timeoutMs, { ...tracker.progress });
+  }
+  return error;
+}
+
 /**
  * An Apple Notes exporter that can list folders and export notes.
  *
  * Use `Exporter.create()` for the default vendored script, or
- * `Exporter.withScriptPath()` for a custom script.
+ * `Exporter.withScriptPath()` for a custom script. Both accept an optional
+ * `ScriptRunner` that controls how the script is executed.
  *
  * @example
  * ```typescript
@@ -89,9 +602,11 @@ function getVendoredScriptPath(): string {
  */
 export class Exporter {
   private readonly scriptSource: ScriptSource;
+  private readonly runner: ScriptRunner;
 
-  private constructor(scriptSource: ScriptSource) {
+  private constructor(scriptSource: ScriptSource, runner: ScriptRunner) {
     this.scriptSource = scriptSource;
+    this.runner = runner;
   }
 
   /**
@@ -99,6 +614,7 @@ export class Exporter {
    *
    * This is the recommended way to create an exporter for most use cases.
    *
+   * @param options - Optional exporter options, such as a custom runner.
    * @returns A new Exporter instance.
    *
    * @example
@@ -107,14 +623,18 @@ export class Exporter {
    * await exporter.listFolders();
    * ```
    */
-  static create(): Exporter {
-    return new Exporter({ type: "embedded" });
+  static create(options: ExporterOptions = {}): Exporter {
+    return new Exporter(
+      { type: "embedded" },
+      options.runner ?? new OsascriptRunner()
+    );
   }
 
   /**
    * Creates a new exporter using a custom AppleScript at the specified path.
    *
    * @param scriptPath - Path to the AppleScript file.
+   * @param options - Optional exporter options, such as a custom runner.
    * @returns A new Exporter instance.
    * @throws {ScriptNotFoundError} If the script file does not exist.
    *
@@ -123,12 +643,18 @@ export class Exporter {
    * const exporter = Exporter.withScriptPath('./custom_script.applescript');
    * ```
    */
-  static withScriptPath(scriptPath: string): Exporter {
+  static withScriptPath(
+    scriptPath: string,
+    options: ExporterOptions = {}
+  ): Exporter {
     const resolvedPath = path.resolve(scriptPath);
     if (!fs.existsSync(resolvedPath)) {
       throw new ScriptNotFoundError(resolvedPath);
     }
-    return new Exporter({ type: "path", path: resolvedPath });
+    return new Exporter(
+      { type: "path", path: resolvedPath },
+      options.runner ?? new OsascriptRunner()
+    );
   }
 
   /**
@@ -136,14 +662,19 @@ export class Exporter {
    *
    * The output is printed to stdout by the AppleScript.
    *
+   * @param options - Optional cancellation signal and timeout.
+   *
    * @example
    * ```typescript
    * const exporter = Exporter.create();
    * await exporter.listFolders();
    * ```
    */
-  async listFolders(): Promise<void> {
-    await this.runScript(["list"]);
+  async listFolders(options: RunOptions = {}): Promise<void> {
+    await this.runScript(["list"], {
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+    });
   }
 
   /**
@@ -153,6 +684,41 @@ export class Exporter {
     this.runScriptSync(["list"]);
   }
 
+  /**
+   * Returns the folders across all Apple Notes accounts as structured data.
+   *
+   * Unlike `listFolders`, nothing is printed; the script output is captured
+   * and parsed into an `Account`/`Folder` tree. The bundled script only lists
+   * top-level folders, without note counts.
+   *
+   * @param options - Optional cancellation signal and timeout.
+   * @returns The accounts and their folders.
+   *
+   * @example
+   * ```typescript
+   * const exporter = Exporter.create();
+   * for (const account of await exporter.getFolders()) {
+   *   console.log(account.name, account.folders.map((folder) => folder.name));
+   * }
+   * ```
+   */
+  async getFolders(options: RunOptions = {}): Promise<Account[]> {
+    const output = await this.runScript(["list"], {
+      captureOutput: true,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+    });
+    return parseFolderListing(output);
+  }
+
+  /**
+   * Returns the folders across all accounts as structured data (synchronous version).
+   */
+  getFoldersSync(): Account[] {
+    const output = this.runScriptSync(["list"], { captureOutput: true });
+    return parseFolderListing(output);
+  }
+
   /**
    * Exports a folder recursively to HTML files.
    *
@@ -161,28 +727,466 @@ export class Exporter {
    * folder and all its subfolders recursively.
    *
    * This method searches all accounts for the folder. If a folder with the
-   * same name exists in multiple accounts, use `exportFolderFromAccount`
-   * to specify which account to use.
+   * same name exists in multiple accounts, the export fails with an
+   * `AmbiguousFolderError` before anything is exported; use
+   * `exportFolderFromAccount` to specify which account to use.
+   *
+   * To detect this, a folder name without an account first runs the
+   * script's `list` command, one extra script run per export. The bundled
+   * script only lists top-level folders, so only top-level folders with the
+   * same name are detected; a subfolder name shared by several accounts
+   * exports the first match. Specs with an account skip the check.
    *
    * @param folder - The folder name to export.
    * @param outputDir - The directory where exported notes will be saved.
    *   Will be created if it doesn't exist.
+   * @param options - Export options, such as the output format.
+   * @returns The export result.
    *
    * @example
    * ```typescript
    * const exporter = Exporter.create();
    * await exporter.exportFolder('My Notes', './exports');
+   *
+   * // Export as Markdown instead of HTML
+   * await exporter.exportFolder('My Notes', './exports', { format: 'markdown' });
+   *
+   * // Only rewrite notes that changed since the last run
+   * const { incremental } = await exporter.exportFolder('My Notes', './exports', {
+   *   incremental: true,
+   * });
+   * console.log(incremental?.added.length, incremental?.updated.length);
    * ```
    */
-  async exportFolder(folder: string, outputDir: string): Promise<void> {
-    await this.exportFolderImpl(folder, outputDir);
+  async exportFolder(
+    folder: string,
+    outputDir: string,
+    options: ExportOptions = {}
+  ): Promise<ExportResult> {
+    return this.exportFolderImpl(folder, outputDir, options);
   }
 
   /**
    * Exports a folder recursively to HTML files (synchronous version).
    */
-  exportFolderSync(folder: string, outputDir: string): void {
-    this.exportFolderImplSync(folder, outputDir);
+  exportFolderSync(
+    folder: string,
+    outputDir: string,
+    options: ExportOptions = {}
+  ): ExportResult {
+    return this.exportFolderImplSync(folder, outputDir, options);
+  }
+
+  /**
+   * Exports several folders in one run, each into its own subdirectory.
+   *
+   * Specs can be `Folder`, `Account:Folder`, `Account:*` (every top-level
+   * folder of an account) or `*` (every top-level folder of every account).
+   * Folders are exported into `{outputDir}/{account}/{folder}/` when the
+   * account is known, or `{outputDir}/{folder}/` otherwise. A failed export
+   * is recorded and the batch continues, unless `stopOnError` is set.
+   *
+   * @param specs - The folder specs to export.
+   * @param outputDir - The directory that receives one subdirectory per export.
+   * @param options - Export options applied to every folder.
+   * @returns The outcome of every export.
+   *
+   * @example
+   * ```typescript
+   * const exporter = Exporter.create();
+   * const batch = await exporter.exportFolders(['iCloud:*', 'Google:Work'], './backup');
+   * console.log(`${batch.succeeded} succeeded, ${batch.failed} failed`);
+   * ```
+   */
+  async exportFolders(
+    specs: string[],
+    outputDir: string,
+    options: BatchExportOptions = {}
+  ): Promise<BatchExportResult> {
+    checkRenderOptions(options, outputDir);
+    const archive = resolveArchiveOptions(options.archive, outputDir);
+    const git = resolveGitOptions(options.git, archive, outputDir);
+    const resolvedOutputDir = this.prepareOutputDir(outputDir);
+    const accounts = hasWildcardSpecs(specs)
+      ? await this.getFolders(options)
+      : [];
+    const { jobs, errors } = expandFolderSpecs(specs, accounts);
+    const batch: BatchExportResult = {
+      outputDir: resolvedOutputDir,
+      exports: [],
+      succeeded: 0,
+      failed: 0,
+    };
+
+    for (const { spec, error } of errors) {
+      if (!recordBatchEntry(batch, { spec, outputDir: resolvedOutputDir, error }, options)) {
+        return batch;
+      }
+    }
+
+    for (const job of jobs) {
+      const jobOutputDir = resolveJobOutputDir(resolvedOutputDir, job);
+      let entry: BatchExportEntry;
+      try {
+        const result = await this.exportFolderImpl(
+          job.spec,
+          jobOutputDir,
+          { ...options, archive: undefined, git: undefined, links: undefined, render: undefined },
+          resolvedOutputDir
+        );
+        entry = { spec: job.spec, outputDir: jobOutputDir, result };
+      } catch (error) {
+        entry = toFailedEntry(job.spec, jobOutputDir, error);
+      }
+      if (!recordBatchEntry(batch, entry, options)) {
+        break;
+      }
+    }
+
+    if (options.links) {
+      batch.links = linkNotes(resolvedOutputDir, resolveLinkOptions(options.links));
+    }
+    if (options.render) {
+      batch.render = renderExport(resolvedOutputDir, options.render);
+    }
+    if (git) {
+      batch.git = commitExport(resolvedOutputDir, `Export ${specs.join(", ")}`, git);
+    }
+    if (archive) {
+      // Keep the exported folders if some failed, so they can be retried
+      batch.archive = archiveOutputDir(
+        resolvedOutputDir,
+        archive,
+        archive.removeOutputDir && batch.failed === 0
+      );
+    }
+    return batch;
+  }
+
+  /**
+   * Exports several folders in one run (synchronous version).
+   */
+  exportFoldersSync(
+    specs: string[],
+    outputDir: string,
+    options: BatchExportOptions = {}
+  ): BatchExportResult {
+    checkRenderOptions(options, outputDir);
+    const archive = resolveArchiveOptions(options.archive, outputDir);
+    const git = resolveGitOptions(options.git, archive, outputDir);
+    const resolvedOutputDir = this.prepareOutputDir(outputDir);
+    const accounts = hasWildcardSpecs(specs) ? this.getFoldersSync() : [];
+    const { jobs, errors } = expandFolderSpecs(specs, accounts);
+    const batch: BatchExportResult = {
+      outputDir: resolvedOutputDir,
+      exports: [],
+      succeeded: 0,
+      failed: 0,
+    };
+
+    for (const { spec, error } of errors) {
+      if (!recordBatchEntry(batch, { spec, outputDir: resolvedOutputDir, error }, options)) {
+        return batch;
+      }
+    }
+
+    for (const job of jobs) {
+      const jobOutputDir = resolveJobOutputDir(resolvedOutputDir, job);
+      let entry: BatchExportEntry;
+      try {
+        const result = this.exportFolderImplSync(
+          job.spec,
+          jobOutputDir,
+          { ...options, archive: undefined, git: undefined, links: undefined, render: undefined },
+          resolvedOutputDir
+        );
+        entry = { spec: job.spec, outputDir: jobOutputDir, result };
+      } catch (error) {
+        entry = toFailedEntry(job.spec, jobOutputDir, error);
+      }
+      if (!recordBatchEntry(batch, entry, options)) {
+        break;
+      }
+    }
+
+    if (options.links) {
+      batch.links = linkNotes(resolvedOutputDir, resolveLinkOptions(options.links));
+    }
+    if (options.render) {
+      batch.render = renderExport(resolvedOutputDir, options.render);
+    }
+    if (git) {
+      batch.git = commitExport(resolvedOutputDir, `Export ${specs.join(", ")}`, git);
+    }
+    if (archive) {
+      // Keep the exported folders if some failed, so they can be retried
+      batch.archive = archiveOutputDir(
+        resolvedOutputDir,
+        archive,
+        archive.removeOutputDir && batch.failed === 0
+      );
+    }
+    return batch;
+  }
+
+  /**
+   * Works out what an export would do, without writing anything.
+   *
+   * The plan shows which folder each spec matches (a name without an
+   * account is looked up breadth-first across all accounts and nesting
+   * levels, so it may match a nested folder), any other folders with the
+   * same name, how many notes would be exported after filters, and which
+   * note files would be created, overwritten or, for incremental exports,
+   * removed. Only the folder listing and the note metadata are read from
+   * Notes; extracted assets and metadata files are not planned.
+   *
+   * @param specs - A folder spec, planned like `exportFolder`, or a list of
+   *   specs (with wildcards), planned like `exportFolders`.
+   * @param outputDir - The directory the export would write to.
+   * @param options - The options the export would use.
+   * @returns The plan. Folders that cannot be exported have an `error`.
+   *
+   * @example
+   * ```typescript
+   * const exporter = Exporter.create();
+   * const plan = await exporter.planExport('Work', './exports', { format: 'markdown' });
+   * for (const folder of plan.folders) {
+   *   console.log(folder.folder?.path.join(' > '), folder.notes);
+   * }
+   * console.log(`${plan.create} new, ${plan.overwrite} overwritten`);
+   * ```
+   */
+  async planExport(
+    specs: string | string[],
+    outputDir: string,
+    options: BatchExportOptions = {}
+  ): Promise<ExportPlan> {
+    if (options.filters) {
+      validateFilters(options.filters);
+    }
+    if (options.naming) {
+      validateNaming(options.naming);
+    }
+    const resolvedOutputDir = path.resolve(outputDir);
+    const accounts = await this.getFolders(options);
+    const { jobs, errors } = expandPlanSpecs(specs, accounts);
+    const folders = errors.map(({ spec, error }) =>
+      toFailedFolderPlan(spec, resolvedOutputDir, error)
+    );
+
+    for (const job of jobs) {
+      let notes: Map<string, Omit<NoteMetadata, "path">> | undefined;
+      try {
+        notes =
+          findFolderMatches(accounts, job.spec).length > 0
+            ? await this.readNoteMetadata(job.spec, options)
+            : undefined;
+      } catch (error) {
+        folders.push(
+          toFailedFolderPlan(job.spec, resolveJobOutputDir(resolvedOutputDir, job), error)
+        );
+        continue;
+      }
+      folders.push(planFolderExport(accounts, job, resolvedOutputDir, notes, options));
+    }
+
+    return createExportPlan(resolvedOutputDir, folders, options);
+  }
+
+  /**
+   * Works out what an export would do, without writing anything (synchronous
+   * version).
+   */
+  planExportSync(
+    specs: string | string[],
+    outputDir: string,
+    options: BatchExportOptions = {}
+  ): ExportPlan {
+    if (options.filters) {
+      validateFilters(options.filters);
+    }
+    if (options.naming) {
+      validateNaming(options.naming);
+    }
+    const resolvedOutputDir = path.resolve(outputDir);
+    const accounts = this.getFoldersSync();
+    const { jobs, errors } = expandPlanSpecs(specs, accounts);
+    const folders = errors.map(({ spec, error }) =>
+      toFailedFolderPlan(spec, resolvedOutputDir, error)
+    );
+
+    for (const job of jobs) {
+      let notes: Map<string, Omit<NoteMetadata, "path">> | undefined;
+      try {
+        notes =
+          findFolderMatches(accounts, job.spec).length > 0
+            ? this.readNoteMetadataSync(job.spec, options)
+            : undefined;
+      } catch (error) {
+        folders.push(
+          toFailedFolderPlan(job.spec, resolveJobOutputDir(resolvedOutputDir, job), error)
+        );
+        continue;
+      }
+      folders.push(planFolderExport(accounts, job, resolvedOutputDir, notes, options));
+    }
+
+    return createExportPlan(resolvedOutputDir, folders, options);
+  }
+
+  /**
+   * Keeps an export up to date by re-exporting on an interval until the
+   * signal is aborted.
+   *
+   * Every cycle is an incremental export. Failed cycles are reported to
+   * `onCycle` and retried; after repeated failures the wait between cycles
+   * doubles, up to `maxBackoffMs`. Errors that would repeat every cycle,
+   * such as an unsupported platform, invalid options or an ambiguous folder
+   * name, stop watching, including when one folder of a batch fails with
+   * one.
+   * Aborting the signal cancels a running cycle and resolves the promise.
+   *
+   * @param specs - A folder spec, exported like `exportFolder`, or a list of
+   *   specs (with wildcards), exported like `exportFolders`.
+   * @param outputDir - The directory kept up to date.
+   * @param options - Export options, the interval and a callback per cycle.
+   * @returns How many cycles ran once watching stops.
+   * @throws {ExportError} If an error stops watching.
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * process.on('SIGTERM', () => controller.abort());
+   *
+   * const exporter = Exporter.create();
+   * await exporter.watchFolders('Work', './backup', {
+   *   intervalMs: 15 * 60 * 1000,
+   *   signal: controller.signal,
+   *   onCycle: (cycle) => console.log(cycle.cycle, cycle.error?.message ?? 'ok'),
+   * });
+   * ```
+   */
+  async watchFolders(
+    specs: string | string[],
+    outputDir: string,
+    options: WatchOptions = {}
+  ): Promise<WatchResult> {
+    const {
+      intervalMs = DEFAULT_WATCH_INTERVAL_MS,
+      maxBackoffMs = DEFAULT_MAX_BACKOFF_MS,
+      maxCycles,
+      onCycle,
+      ...rest
+    } = options;
+    const exportOptions: BatchExportOptions = { ...rest, incremental: rest.incremental || true };
+    const watch: WatchResult = { cycles: 0, failedCycles: 0, cancelled: false };
+    let consecutiveFailures = 0;
+
+    while (!options.signal?.aborted && (maxCycles === undefined || watch.cycles < maxCycles)) {
+      watch.cycles++;
+      const cycle: WatchCycle = {
+        cycle: watch.cycles,
+        startedAt: new Date(),
+        durationMs: 0,
+        consecutiveFailures: 0,
+      };
+      try {
+        if (typeof specs === "string") {
+          cycle.result = await this.exportFolder(specs, outputDir, exportOptions);
+        } else {
+          cycle.batch = await this.exportFolders(specs, outputDir, exportOptions);
+          // A folder that fails this way fails again every cycle
+          const fatal = cycle.batch.exports.find(
+            (entry) => entry.error && FATAL_WATCH_ERROR_CODES.has(entry.error.code)
+          );
+          if (fatal?.error) {
+            throw fatal.error;
+          }
+        }
+      } catch (error) {
+        if (error instanceof ExportCancelledError && options.signal?.aborted) {
+          break;
+        }
+        if (!(error instanceof ExportError) || FATAL_WATCH_ERROR_CODES.has(error.code)) {
+          throw error;
+        }
+        cycle.error = error;
+      }
+      cycle.durationMs = Date.now() - cycle.startedAt.getTime();
+
+      const failed = cycle.error !== undefined || (cycle.batch?.failed ?? 0) > 0;
+      consecutiveFailures = failed ? consecutiveFailures + 1 : 0;
+      if (failed) {
+        watch.failedCycles++;
+      }
+      cycle.consecutiveFailures = consecutiveFailures;
+      const last = options.signal?.aborted || watch.cycles === maxCycles;
+      cycle.nextCycleInMs = last
+        ? undefined
+        : nextCycleDelay(intervalMs, cycle.durationMs, consecutiveFailures, maxBackoffMs);
+      onCycle?.(cycle);
+      if (cycle.nextCycleInMs !== undefined) {
+        await waitFor(cycle.nextCycleInMs, options.signal);
+      }
+    }
+
+    watch.cancelled = Boolean(options.signal?.aborted);
+    return watch;
+  }
+
+  /**
+   * Exports a folder, yielding progress events as they happen.
+   *
+   * The export starts immediately. The iterator yields `folderStarted`,
+   * `noteExported`, `noteFailed` and `message` events while the script runs,
+   * then a single `finished` event with the totals and the export result. If
+   * the export fails, the iterator throws the error after the events received
+   * so far. Stopping the iteration early, e.g. with `break`, cancels the
+   * export.
+   *
+   * @param folder - The folder name (or `Account:Folder` spec) to export.
+   * @param outputDir - The directory where exported notes will be saved.
+   * @param options - Export options, such as the output format.
+   *
+   * @example
+   * ```typescript
+   * const exporter = Exporter.create();
+   * for await (const event of exporter.exportFolderEvents('My Notes', './exports')) {
+   *   if (event.type === 'noteExported') {
+   *     console.log('Exported', event.path);
+   *   }
+   * }
+   * ```
+   */
+  exportFolderEvents(
+    folder: string,
+    outputDir: string,
+    options: ExportOptions = {}
+  ): AsyncIterableIterator<ExportEvent> {
+    // Stopping the iteration early cancels the export
+    const controller = new AbortController();
+    const abort = (): void => controller.abort(options.signal?.reason);
+    if (options.signal?.aborted) {
+      abort();
+    } else {
+      options.signal?.addEventListener("abort", abort, { once: true });
+    }
+    const queue = new EventQueue<ExportEvent>(() => controller.abort());
+    const onProgress = (event: ExportEvent): void => {
+      options.onProgress?.(event);
+      queue.push(event);
+    };
+    this.exportFolderImpl(folder, outputDir, {
+      ...options,
+      onProgress,
+      signal: controller.signal,
+    })
+      .then(
+        () => queue.end(),
+        (error: unknown) => queue.fail(error)
+      )
+      .finally(() => options.signal?.removeEventListener("abort", abort));
+    return queue;
   }
 
   /**
@@ -196,6 +1200,8 @@ export class Exporter {
    * @param folder - The folder name to export.
    * @param outputDir - The directory where exported notes will be saved.
    *   Will be created if it doesn't exist.
+   * @param options - Export options, such as the output format.
+   * @returns The export result.
    *
    * @example
    * ```typescript
@@ -211,10 +1217,11 @@ export class Exporter {
   async exportFolderFromAccount(
     account: string,
     folder: string,
-    outputDir: string
-  ): Promise<void> {
+    outputDir: string,
+    options: ExportOptions = {}
+  ): Promise<ExportResult> {
     const folderSpec = `${account}:${folder}`;
-    await this.exportFolderImpl(folderSpec, outputDir);
+    return this.exportFolderImpl(folderSpec, outputDir, options);
   }
 
   /**
@@ -223,118 +1230,346 @@ export class Exporter {
   exportFolderFromAccountSync(
     account: string,
     folder: string,
-    outputDir: string
-  ): void {
+    outputDir: string,
+    options: ExportOptions = {}
+  ): ExportResult {
     const folderSpec = `${account}:${folder}`;
-    this.exportFolderImplSync(folderSpec, outputDir);
+    return this.exportFolderImplSync(folderSpec, outputDir, options);
   }
 
   private async exportFolderImpl(
     folderSpec: string,
-    outputDir: string
-  ): Promise<void> {
-    const resolvedOutputDir = this.prepareOutputDir(outputDir);
-    await this.runScript(["export", folderSpec, resolvedOutputDir]);
+    outputDir: string,
+    options: ExportOptions,
+    indexDir?: string
+  ): Promise<ExportResult> {
+    if (options.filters) {
+      validateFilters(options.filters);
+    }
+    if (options.naming) {
+      validateNaming(options.naming);
+    }
+    if (options.normalize) {
+      validateNormalizeOptions(resolveNormalizeOptions(options.normalize));
+    }
+    checkRenderOptions(options, outputDir);
+    const archive = resolveArchiveOptions(options.archive, outputDir);
+    const git = resolveGitOptions(options.git, archive, outputDir);
+    if (parseFolderSpec(folderSpec).account === undefined) {
+      checkFolderMatches(folderSpec, await this.getFolders(options));
+    }
+    const target = this.prepareExportTarget(outputDir, options, indexDir);
+    const tracker = this.createProgressTracker(target, options);
+    try {
+      await this.runScript(
+        ["export", folderSpec, target.scriptOutputDir],
+        this.exportRunOptions(tracker, options)
+      );
+      const metadata = needsMetadata(options)
+        ? await this.readNoteMetadata(folderSpec, options)
+        : undefined;
+      const result = this.finishExport(target, options, tracker, metadata);
+      if (options.links) {
+        result.links = linkNotes(target.outputDir, resolveLinkOptions(options.links));
+      }
+      if (options.render) {
+        result.render = renderExport(target.outputDir, options.render);
+      }
+      if (git) {
+        result.git = commitExport(target.outputDir, `Export ${folderSpec}`, git);
+      }
+      if (archive) {
+        result.archive = archiveOutputDir(target.outputDir, archive);
+      }
+      tracker?.finish(result);
+      return result;
+    } catch (error) {
+      throw withProgress(error, tracker);
+    } finally {
+      this.cleanupExportTarget(target);
+    }
   }
 
-  private exportFolderImplSync(folderSpec: string, outputDir: string): void {
-    const resolvedOutputDir = this.prepareOutputDir(outputDir);
-    this.runScriptSync(["export", folderSpec, resolvedOutputDir]);
+  private exportFolderImplSync(
+    folderSpec: string,
+    outputDir: string,
+    options: ExportOptions,
+    indexDir?: string
+  ): ExportResult {
+    if (options.filters) {
+      validateFilters(options.filters);
+    }
+    if (options.naming) {
+      validateNaming(options.naming);
+    }
+    if (options.normalize) {
+      validateNormalizeOptions(resolveNormalizeOptions(options.normalize));
+    }
+    checkRenderOptions(options, outputDir);
+    const archive = resolveArchiveOptions(options.archive, outputDir);
+    const git = resolveGitOptions(options.git, archive, outputDir);
+    if (parseFolderSpec(folderSpec).account === undefined) {
+      checkFolderMatches(folderSpec, this.getFoldersSync());
+    }
+    const target = this.prepareExportTarget(outputDir, options, indexDir);
+    const tracker = this.createProgressTracker(target, options);
+    try {
+      this.runScriptSync(
+        ["export", folderSpec, target.scriptOutputDir],
+        this.exportRunOptions(tracker, { ...options, signal: undefined })
+      );
+      const metadata = needsMetadata(options)
+        ? this.readNoteMetadataSync(folderSpec, options)
+        : undefined;
+      const result = this.finishExport(target, options, tracker, metadata);
+      if (options.links) {
+        result.links = linkNotes(target.outputDir, resolveLinkOptions(options.links));
+      }
+      if (options.render) {
+        result.render = renderExport(target.outputDir, options.render);
+      }
+      if (git) {
+        result.git = commitExport(target.outputDir, `Export ${folderSpec}`, git);
+      }
+      if (archive) {
+        result.archive = archiveOutputDir(target.outputDir, archive);
+      }
+      tracker?.finish(result);
+      return result;
+    } catch (error) {
+      throw withProgress(error, tracker);
+    } finally {
+      this.cleanupExportTarget(target);
+    }
   }
 
-  private prepareOutputDir(outputDir: string): string {
-    // Create the directory if it doesn't exist
-    fs.mkdirSync(outputDir, { recursive: true });
+  private prepareExportTarget(
+    outputDir: string,
+    options: ExportOptions,
+    indexDir?: string
+  ): ExportTarget {
+    const resolvedOutputDir = this.prepareOutputDir(outputDir);
+    if (!needsStaging(options)) {
+      return {
+        outputDir: resolvedOutputDir,
+        scriptOutputDir: resolvedOutputDir,
+        staged: false,
+        indexDir: indexDir ?? resolvedOutputDir,
+      };
+    }
+    return {
+      outputDir: resolvedOutputDir,
+      scriptOutputDir: createStagingDir(),
+      staged: true,
+      indexDir: indexDir ?? resolvedOutputDir,
+    };
+  }
 
-    // Resolve to absolute path
-    const resolved = path.resolve(outputDir);
-    if (!resolved) {
-      throw new InvalidPathError(outputDir);
+  /**
+   * Creates a tracker for the export's progress. Progress is tracked when
+   * events were requested, when the export can be interrupted so the
+   * error can report how far it got, or for incremental exports, which keep
+   * the files of notes that failed to export.
+   */
+  private createProgressTracker(
+    target: ExportTarget,
+    options: ExportOptions
+  ): ProgressTracker | undefined {
+    if (
+      !options.onProgress &&
+      !options.signal &&
+      options.timeoutMs === undefined &&
+      !options.incremental
+    ) {
+      return undefined;
     }
+    return new ProgressTracker(
+      options.onProgress ?? (() => {}),
+      target.scriptOutputDir,
+      target.outputDir,
+      options.format === "markdown" ? "md" : undefined,
+      // Notes are renamed or left out after the script has run
+      Boolean(options.naming) || hasFilters(options.filters)
+    );
+  }
 
-    return resolved;
+  private exportRunOptions(
+    tracker: ProgressTracker | undefined,
+    options: ExportOptions
+  ): ScriptRunOptions {
+    return {
+      onOutputLine: tracker && ((line) => tracker.handleLine(line)),
+      // Only tracking for error reporting: the runner keeps printing the output
+      echoOutput: !options.onProgress,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+    };
   }
 
-  private async runScript(args: string[]): Promise<void> {
-    checkPlatform();
+  /**
+   * Runs the post-processing stages on the script output and moves the
+   * result into the output directory.
+   */
+  private finishExport(
+    target: ExportTarget,
+    options: ExportOptions,
+    tracker: ProgressTracker | undefined,
+    metadata?: Map<string, Omit<NoteMetadata, "path">>
+  ): ExportResult {
+    const result: ExportResult = { outputDir: target.outputDir };
+    if (!target.staged) {
+      return result;
+    }
 
-    if (this.scriptSource.type === "embedded") {
-      await this.runEmbeddedScript(args);
-    } else {
-      await this.runScriptFile(this.scriptSource.path, args);
+    // Filter first, so later stages only see the notes being exported
+    if (hasFilters(options.filters)) {
+      result.filtered = applyFilters(target.scriptOutputDir, options.filters, metadata);
     }
-  }
 
-  private runScriptSync(args: string[]): void {
-    checkPlatform();
+    // Extract before converting, so Markdown references the asset files
+    if (options.extractAttachments) {
+      const attachments = extractAttachments(target.scriptOutputDir);
+      result.attachments = {
+        ...attachments,
+        assets: attachments.assets.map((asset) =>
+          path.join(target.outputDir, path.relative(target.scriptOutputDir, asset))
+        ),
+      };
+    }
 
-    if (this.scriptSource.type === "embedded") {
-      this.runEmbeddedScriptSync(args);
+    // After extracting, so embedded files are kept as assets instead of checked as URLs
+    if (options.normalize) {
+      result.normalized = normalizeExport(
+        target.scriptOutputDir,
+        resolveNormalizeOptions(options.normalize)
+      );
+    }
+
+    if (options.format === "markdown") {
+      convertExportToMarkdown(target.scriptOutputDir);
+    }
+
+    // Rename before writing metadata, so sidecars and the index use the new names
+    if (options.naming) {
+      applyNaming(target.scriptOutputDir, options.naming, metadata);
+    }
+
+    if (metadata && options.metadata) {
+      result.metadata = writeNoteMetadata(target.scriptOutputDir, metadata);
+    }
+    // Now that notes are renamed and filtered, report them with their final paths
+    if (tracker && (options.naming || hasFilters(options.filters))) {
+      const extension = options.format === "markdown" ? "md" : "html";
+      const finalPaths = new Map<string, string>();
+      for (const note of listExportedNotes(target.scriptOutputDir, [extension])) {
+        finalPaths.set(note.id, path.join(target.outputDir, ...note.relativePath.split("/")));
+      }
+      tracker.emitNotes(finalPaths);
+    }
+    // Moving empties the staging directory, so note what it holds first
+    const exportedDirs = fs
+      .readdirSync(target.scriptOutputDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name);
+
+    if (options.incremental) {
+      result.incremental = applyIncrementalExport(target.scriptOutputDir, target.outputDir, {
+        ...(options.incremental === true ? {} : options.incremental),
+        // Notes that failed to export still exist, so their files are kept
+        excludedNotes: [...(result.filtered?.excludedIds ?? []), ...(tracker?.failedNotes ?? [])],
+        noteModifiedAt: metadata && modificationDates(metadata),
+      });
     } else {
-      this.runScriptFileSync(this.scriptSource.path, args);
+      moveDirectoryContents(target.scriptOutputDir, target.outputDir);
     }
-  }
 
-  private async runEmbeddedScript(args: string[]): Promise<void> {
-    const scriptPath = getVendoredScriptPath();
-    if (!fs.existsSync(scriptPath)) {
-      throw new ScriptNotFoundError(scriptPath);
+    if (result.metadata) {
+      // Index paths are relative to the index directory
+      const prefix = path.relative(target.indexDir, target.outputDir).split(path.sep).join("/");
+      const toIndexPath = (relativePath: string): string =>
+        prefix === "" ? relativePath : `${prefix}/${relativePath}`;
+      updateNoteIndex(
+        target.indexDir,
+        result.metadata.map((note) => ({ ...note, path: toIndexPath(note.path) })),
+        exportedDirs.map(toIndexPath)
+      );
     }
-    await this.runScriptFile(scriptPath, args);
+
+    return result;
   }
 
-  private runEmbeddedScriptSync(args: string[]): void {
-    const scriptPath = getVendoredScriptPath();
-    if (!fs.existsSync(scriptPath)) {
-      throw new ScriptNotFoundError(scriptPath);
+  private cleanupExportTarget(target: ExportTarget): void {
+    if (target.staged) {
+      fs.rmSync(target.scriptOutputDir, { recursive: true, force: true });
     }
-    this.runScriptFileSync(scriptPath, args);
   }
 
-  private runScriptFile(scriptPath: string, args: string[]): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const child = spawn("osascript", [scriptPath, ...args], {
-        stdio: "inherit",
-      });
-
-      child.on("error", (error) => {
-        reject(new LaunchError(error));
-      });
+  private prepareOutputDir(outputDir: string): string {
+    // Create the directory if it doesn't exist
+    fs.mkdirSync(outputDir, { recursive: true });
 
-      child.on("exit", (code, signal) => {
-        if (code === 0) {
-          resolve();
-          return;
-        }
+    // Resolve to absolute path
+    const resolved = path.resolve(outputDir);
+    if (!resolved) {
+      throw new InvalidPathError(outputDir);
+    }
 
-        if (code !== null) {
-          reject(new ScriptFailedError(code));
-          return;
-        }
+    return resolved;
+  }
 
-        if (signal) {
-          reject(
-            new ScriptFailedError(-1, `Process terminated by signal: ${signal}`)
-          );
-          return;
-        }
+  /**
+   * Runs the bundled metadata script for a folder.
+   */
+  private async readNoteMetadata(
+    folderSpec: string,
+    options: RunOptions
+  ): Promise<Map<string, Omit<NoteMetadata, "path">>> {
+    const scriptPath = writeMetadataScript();
+    try {
+      const result = await this.runner.run(scriptPath, ["metadata", folderSpec], {
+        captureOutput: true,
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+      });
+      return parseMetadataOutput(result.stdout);
+    } finally {
+      fs.rmSync(path.dirname(scriptPath), { recursive: true, force: true });
+    }
+  }
 
-        reject(new ScriptFailedError(-1, "Unknown error"));
+  private readNoteMetadataSync(
+    folderSpec: string,
+    options: RunOptions
+  ): Map<string, Omit<NoteMetadata, "path">> {
+    const scriptPath = writeMetadataScript();
+    try {
+      const result = this.runner.runSync(scriptPath, ["metadata", folderSpec], {
+        captureOutput: true,
+        timeoutMs: options.timeoutMs,
       });
-    });
+      return parseMetadataOutput(result.stdout);
+    } finally {
+      fs.rmSync(path.dirname(scriptPath), { recursive: true, force: true });
+    }
   }
 
-  private runScriptFileSync(scriptPath: string, args: string[]): void {
-    const result = spawnSync("osascript", [scriptPath, ...args], {
-      stdio: "inherit",
-    });
+  private async runScript(
+    args: string[],
+    options: ScriptRunOptions = {}
+  ): Promise<string> {
+    const result = await this.runner.run(this.getScriptPath(), args, options);
+    return result.stdout;
+  }
 
-    if (result.error) {
-      throw new LaunchError(result.error);
-    }
+  private runScriptSync(args: string[], options: ScriptRunOptions = {}): string {
+    const result = this.runner.runSync(this.getScriptPath(), args, options);
+    return result.stdout;
+  }
 
-    if (result.status !== 0) {
-      throw new ScriptFailedError(result.status ?? -1);
+  private getScriptPath(): string {
+    if (this.scriptSource.type === "embedded") {
+      return getVendoredScriptPath();
     }
+    return this.scriptSource.path;
   }
 }
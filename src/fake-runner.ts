@@ -0,0 +1,363 @@
+/**
+ * A fixture-driven fake of the exporter's AppleScript.
+ *
+ * `FakeScriptRunner` implements `ScriptRunner` without `osascript`: it answers
+ * the `list` and `export` commands from an in-memory description of accounts,
+ * folders and notes, writing fake note HTML to the output directory the same
+ * way the real script does. It lets code built on `Exporter` run on Linux and
+ * in CI.
+ *
+ * @example
+ * ```typescript
+ * import { Exporter, FakeScriptRunner } from 'apple-notes-exporter';
+ *
+ * const runner = new FakeScriptRunner({
+ *   accounts: [
+ *     {
+ *       name: 'iCloud',
+ *       folders: [
+ *         { name: 'Work', notes: [{ id: 'p1', title: 'Plan', body: '<div>Plan</div>' }] },
+ *       ],
+ *     },
+ *   ],
+ * });
+ *
+ * const exporter = Exporter.create({ runner });
+ * await exporter.exportFolder('Work', './exports');
+ * // => ./exports/Work/Plan -- p1.html
+ * ```
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  ExportCancelledError,
+  ExportTimeoutError,
+  parseScriptFailure,
+} from "./errors";
+import { sanitizeFileName } from "./notes";
+import { ScriptResult, ScriptRunOptions, ScriptRunner } from "./runner";
+
+/**
+ * A note in a fake fixture.
+ */
+export interface FakeNote {
+  /** The note id used in the exported filename. */
+  id: string;
+  /** The note title. */
+  title: string;
+  /** The note body HTML, written verbatim to the exported file. */
+  body: string;
+  /**
+   * If set, exporting this note fails with this message: no file is written
+   * and a failure line is printed instead.
+   */
+  error?: string;
+  /** Creation date (ISO 8601), reported as note metadata. */
+  createdAt?: string;
+  /** Modification date (ISO 8601), reported as note metadata. */
+  modifiedAt?: string;
+  pinned?: boolean;
+  locked?: boolean;
+  shared?: boolean;
+}
+
+/**
+ * A folder in a fake fixture.
+ */
+export interface FakeFolder {
+  name: string;
+  notes?: FakeNote[];
+  subfolders?: FakeFolder[];
+}
+
+/**
+ * An account in a fake fixture.
+ */
+export interface FakeAccount {
+  name: string;
+  folders: FakeFolder[];
+}
+
+/**
+ * The data a `FakeScriptRunner` serves.
+ */
+export interface FakeFixture {
+  accounts: FakeAccount[];
+}
+
+/**
+ * Options for `FakeScriptRunner`.
+ */
+export interface FakeScriptRunnerOptions {
+  /**
+   * Write the emulated script output to this process's stdout when output is
+   * not captured, like the real script does. Defaults to `false`.
+   */
+  echo?: boolean;
+  /**
+   * Delay before each exported note, in milliseconds. Asynchronous runs then
+   * take real time and honour `signal` and `timeoutMs`, which makes
+   * cancellation testable. Defaults to `0`.
+   */
+  noteDelayMs?: number;
+  /**
+   * Makes every run fail as if the script had written this to stderr, e.g.
+   * `execution error: Not authorized to send Apple events to Notes. (-1743)`.
+   * The error is created with `parseScriptFailure`, like the real runner's.
+   */
+  stderr?: string;
+}
+
+/**
+ * A recorded script invocation.
+ */
+export interface FakeScriptCall {
+  scriptPath: string;
+  args: string[];
+}
+
+/**
+ * A folder found by a folder spec, with its location.
+ */
+interface FolderLocation {
+  account: string;
+  /** Names of the folder's ancestors, from the account root. */
+  parentPath: string[];
+  folder: FakeFolder;
+}
+
+/**
+ * Formats the listing line for a folder, e.g. `iCloud > Work > Projects (3 notes)`.
+ */
+function formatListingLine(account: string, folderPath: string[], noteCount: number): string {
+  const unit = noteCount === 1 ? "note" : "notes";
+  return `${[account, ...folderPath].join(" > ")} (${noteCount} ${unit})`;
+}
+
+/**
+ * Creates the error for an AppleScript `error` statement, reported on stderr
+ * the way osascript does.
+ */
+function scriptError(message: string): Error {
+  return parseScriptFailure(1, `execution error: ${message} (-2700)\n`);
+}
+
+/**
+ * A `ScriptRunner` that emulates the exporter's AppleScript from a fixture.
+ */
+export class FakeScriptRunner implements ScriptRunner {
+  /** Every invocation, in order. */
+  readonly calls: FakeScriptCall[] = [];
+
+  private readonly fixture: FakeFixture;
+  private readonly echo: boolean;
+  private readonly noteDelayMs: number;
+  private readonly stderr?: string;
+
+  constructor(fixture: FakeFixture, options: FakeScriptRunnerOptions = {}) {
+    this.fixture = fixture;
+    this.echo = options.echo ?? false;
+    this.noteDelayMs = options.noteDelayMs ?? 0;
+    this.stderr = options.stderr;
+  }
+
+  async run(
+    scriptPath: string,
+    args: string[],
+    options: ScriptRunOptions = {}
+  ): Promise<ScriptResult> {
+    if (options.signal?.aborted) {
+      throw new ExportCancelledError();
+    }
+
+    const startedAt = Date.now();
+    const output: string[] = [];
+    const lines = this.start(scriptPath, args)[Symbol.iterator]();
+    for (;;) {
+      if (this.noteDelayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.noteDelayMs));
+      }
+      if (options.signal?.aborted) {
+        throw new ExportCancelledError();
+      }
+      if (options.timeoutMs !== undefined && Date.now() - startedAt > options.timeoutMs) {
+        throw new ExportTimeoutError(options.timeoutMs);
+      }
+      const next = lines.next();
+      if (next.done) {
+        break;
+      }
+      this.emitLine(next.value, options, output);
+    }
+    return { stdout: options.captureOutput ? output.join("") : "" };
+  }
+
+  runSync(
+    scriptPath: string,
+    args: string[],
+    options: ScriptRunOptions = {}
+  ): ScriptResult {
+    const output: string[] = [];
+    for (const line of this.start(scriptPath, args)) {
+      this.emitLine(line, options, output);
+    }
+    return { stdout: options.captureOutput ? output.join("") : "" };
+  }
+
+  /**
+   * Records the call and returns the emulated script's output lines. Export
+   * side effects happen lazily as the lines are consumed.
+   */
+  private start(scriptPath: string, args: string[]): Iterable<string> {
+    this.calls.push({ scriptPath, args: [...args] });
+    if (this.stderr !== undefined) {
+      throw parseScriptFailure(1, this.stderr);
+    }
+
+    const [command, ...rest] = args;
+    if (command === "list") {
+      return this.list();
+    }
+    if (command === "export" && rest.length >= 2) {
+      return this.export(rest[0], rest[1]);
+    }
+    if (command === "metadata" && rest.length >= 1) {
+      return this.metadata(rest[0]);
+    }
+    throw scriptError(`Unknown command: ${args.join(" ")}`);
+  }
+
+  private emitLine(line: string, options: ScriptRunOptions, output: string[]): void {
+    if (options.captureOutput) {
+      output.push(`${line}\n`);
+    }
+    options.onOutputLine?.(line);
+    if (this.echo && !options.captureOutput && (!options.onOutputLine || options.echoOutput)) {
+      process.stdout.write(`${line}\n`);
+    }
+  }
+
+  private list(): string[] {
+    const lines = ["=== Available Top-Level Folders ==="];
+    const visit = (account: string, folders: FakeFolder[], parentPath: string[]): void => {
+      for (const folder of folders) {
+        const folderPath = [...parentPath, folder.name];
+        lines.push(formatListingLine(account, folderPath, folder.notes?.length ?? 0));
+        visit(account, folder.subfolders ?? [], folderPath);
+      }
+    };
+    for (const account of this.fixture.accounts) {
+      visit(account.name, account.folders, []);
+    }
+    lines.push("====================================");
+    return lines;
+  }
+
+  private export(folderSpec: string, outputDir: string): Iterable<string> {
+    return this.writeFolder(this.getFolder(folderSpec).folder, outputDir);
+  }
+
+  /**
+   * Emulates the metadata script: a time zone line (UTC), then one line per
+   * note in the folder and its subfolders.
+   */
+  private metadata(folderSpec: string): string[] {
+    const { account, parentPath, folder } = this.getFolder(folderSpec);
+    const lines = ["Time zone offset:\t0"];
+    const localDate = (iso: string | undefined): string =>
+      iso === undefined ? "" : new Date(iso).toISOString().slice(0, 19);
+    const flag = (value: boolean | undefined): string =>
+      value === undefined ? "" : String(value);
+
+    const visit = (current: FakeFolder, folderPath: string[]): void => {
+      for (const note of current.notes ?? []) {
+        const fields = [
+          `x-coredata://FAKE-STORE/ICNote/${note.id}`,
+          localDate(note.createdAt),
+          localDate(note.modifiedAt),
+          String(note.locked ?? false),
+          String(note.shared ?? false),
+          flag(note.pinned),
+          account,
+          note.title,
+          ...folderPath,
+        ];
+        lines.push(`Note metadata:\t${fields.join("\t")}`);
+      }
+      for (const subfolder of current.subfolders ?? []) {
+        visit(subfolder, [...folderPath, subfolder.name]);
+      }
+    };
+    visit(folder, [...parentPath, folder.name]);
+    return lines;
+  }
+
+  /**
+   * Finds a folder like `findFolder`, failing like the real script if there
+   * is none.
+   */
+  private getFolder(folderSpec: string): FolderLocation {
+    const location = this.findFolder(folderSpec);
+    if (!location) {
+      const separator = folderSpec.indexOf(":");
+      const name = separator === -1 ? folderSpec : folderSpec.slice(separator + 1);
+      throw scriptError(`Could not find folder named: ${name}`);
+    }
+    return location;
+  }
+
+  /**
+   * Finds a folder by name using breadth-first search, like the real script.
+   * Accepts either `Folder` or `Account:Folder`.
+   */
+  private findFolder(folderSpec: string): FolderLocation | undefined {
+    let accounts = this.fixture.accounts;
+    let name = folderSpec;
+
+    const separator = folderSpec.indexOf(":");
+    if (separator !== -1) {
+      const accountName = folderSpec.slice(0, separator);
+      accounts = accounts.filter((account) => account.name === accountName);
+      name = folderSpec.slice(separator + 1);
+    }
+
+    for (const account of accounts) {
+      const queue = account.folders.map((folder) => ({ folder, parentPath: [] as string[] }));
+      while (queue.length > 0) {
+        const { folder, parentPath } = queue.shift()!;
+        if (folder.name === name) {
+          return { account: account.name, parentPath, folder };
+        }
+        for (const subfolder of folder.subfolders ?? []) {
+          queue.push({ folder: subfolder, parentPath: [...parentPath, folder.name] });
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  private *writeFolder(folder: FakeFolder, parentDir: string): Generator<string> {
+    const folderDir = path.join(parentDir, sanitizeFileName(folder.name));
+    fs.mkdirSync(folderDir, { recursive: true });
+    yield `Exporting folder: ${folderDir}`;
+
+    for (const note of folder.notes ?? []) {
+      if (note.error !== undefined) {
+        yield `Failed to export note: ${note.title} -- ${note.id}: ${note.error}`;
+        continue;
+      }
+      const fileName = `${sanitizeFileName(note.title)} -- ${note.id}.html`;
+      const filePath = path.join(folderDir, fileName);
+      fs.writeFileSync(filePath, note.body, "utf8");
+      yield `Exported note: ${filePath}`;
+    }
+
+    for (const subfolder of folder.subfolders ?? []) {
+      yield* this.writeFolder(subfolder, folderDir);
+    }
+  }
+}
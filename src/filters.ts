@@ -0,0 +1,363 @@
+/**
+ * Note-level filtering of exports.
+ *
+ * The AppleScript always exports a whole folder tree, so filters are applied
+ * afterwards: notes that do not match are removed from the export before any
+ * other post-processing runs. Filters on dates need each note's creation and
+ * modification date, which the exporter reads with the metadata script.
+ *
+ * ```typescript
+ * await exportFolder('Work', './exports', {
+ *   filters: {
+ *     modifiedSince: '2026-01-01',
+ *     title: 'Meeting *',
+ *     hashtags: ['project'],
+ *     excludeFolders: ['Archive'],
+ *   },
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parseDuration } from "./duration";
+import { InvalidFilterError } from "./errors";
+import { parseHtml, plainText } from "./html";
+import type { NoteMetadata } from "./metadata";
+import { listExportedNotes } from "./notes";
+
+/**
+ * Which notes to export. A note is exported only if it matches every filter
+ * that is set.
+ *
+ * Dates are `Date` objects or strings: an ISO 8601 date (`2026-01-01`, local
+ * midnight) or date and time, or a duration such as `30d` or `12h`, meaning
+ * that long before the export starts.
+ */
+export interface NoteFilters {
+  /** Only notes modified at or after this date. */
+  modifiedSince?: Date | string;
+  /** Only notes modified before this date. */
+  modifiedBefore?: Date | string;
+  /** Only notes created at or after this date. */
+  createdSince?: Date | string;
+  /** Only notes created before this date. */
+  createdBefore?: Date | string;
+  /**
+   * Only notes whose title matches: a `RegExp`, a `/pattern/flags` string, or
+   * a case-insensitive glob where `*` matches any text and `?` one character.
+   */
+  title?: string | RegExp;
+  /** Only notes containing at least one of these hashtags (with or without `#`). */
+  hashtags?: string[];
+  /** Subfolder names to leave out, with everything inside them. */
+  excludeFolders?: string[];
+}
+
+/**
+ * Filters with their values parsed, ready to match notes against.
+ */
+interface ResolvedFilters {
+  modifiedSince?: Date;
+  modifiedBefore?: Date;
+  createdSince?: Date;
+  createdBefore?: Date;
+  title?: RegExp;
+  hashtags: RegExp[];
+  excludeFolders: Set<string>;
+}
+
+/**
+ * The result of filtering an export.
+ */
+export interface FilterResult {
+  /** Number of notes that matched the filters and were kept. */
+  kept: number;
+  /** Relative paths of the notes that were removed, using `/` separators. */
+  excluded: string[];
+  /** Ids of the notes that were removed. */
+  excludedIds: string[];
+}
+
+const DATE_FILTERS = ["modifiedSince", "modifiedBefore", "createdSince", "createdBefore"] as const;
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+const REGEX_LITERAL = /^\/(.+)\/([a-z]*)$/s;
+
+/**
+ * Parses a filter date.
+ *
+ * @param value - A `Date`, an ISO 8601 date or date and time, or a duration
+ *   with a unit such as `30d`, meaning that long before `now`.
+ * @param now - The time relative durations are measured from.
+ * @returns The date, or `undefined` if the value is not a valid date.
+ *
+ * @example
+ * ```typescript
+ * parseFilterDate('2026-01-01');  // => local midnight on 1 January 2026
+ * parseFilterDate('7d');          // => a week ago
+ * ```
+ */
+export function parseFilterDate(value: Date | string, now: number = Date.now()): Date | undefined {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : value;
+  }
+  const trimmed = value.trim();
+
+  const dateOnly = DATE_ONLY.exec(trimmed);
+  if (dateOnly) {
+    const [year, month, day] = dateOnly.slice(1).map(Number);
+    const date = new Date(year, month - 1, day);
+    // Reject dates like 2026-02-31, which Date would roll over
+    return date.getMonth() === month - 1 && date.getDate() === day ? date : undefined;
+  }
+  if (ISO_DATE_TIME.test(trimmed)) {
+    const date = new Date(trimmed);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+  // A bare number is not a date; durations need a unit here
+  if (/[a-z]$/i.test(trimmed)) {
+    const duration = parseDuration(trimmed);
+    return duration === undefined ? undefined : new Date(now - duration);
+  }
+  return undefined;
+}
+
+/**
+ * Converts a glob such as `Meeting *` into an anchored, case-insensitive
+ * regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") {
+        return ".*";
+      }
+      if (char === "?") {
+        return ".";
+      }
+      return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "is");
+}
+
+function resolveTitle(title: string | RegExp): RegExp {
+  // Global and sticky regexps remember where they last matched, which would
+  // make testing one title after another unreliable
+  if (title instanceof RegExp) {
+    return new RegExp(title.source, title.flags.replace(/[gy]/g, ""));
+  }
+  const literal = REGEX_LITERAL.exec(title);
+  if (!literal) {
+    return globToRegExp(title);
+  }
+  try {
+    return new RegExp(literal[1], literal[2].replace(/[gy]/g, ""));
+  } catch (error) {
+    throw new InvalidFilterError("title", title, (error as Error).message);
+  }
+}
+
+function hashtagPattern(tag: string): RegExp {
+  const name = tag.trim().replace(/^#/, "");
+  if (name === "" || /\s/.test(name)) {
+    throw new InvalidFilterError("hashtags", tag, "must be a single word");
+  }
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  // The tag must stand on its own: not part of a longer word or tag
+  return new RegExp(`(?:^|[^\\p{L}\\p{N}_#])#${escaped}(?![\\p{L}\\p{N}_-])`, "iu");
+}
+
+/**
+ * Parses and checks filter values.
+ *
+ * @throws {InvalidFilterError} If a value cannot be used.
+ */
+function resolveFilters(filters: NoteFilters, now: number): ResolvedFilters {
+  const resolved: ResolvedFilters = {
+    hashtags: (filters.hashtags ?? []).map(hashtagPattern),
+    excludeFolders: new Set(filters.excludeFolders ?? []),
+  };
+  for (const name of DATE_FILTERS) {
+    const value = filters[name];
+    if (value !== undefined) {
+      const date = parseFilterDate(value, now);
+      if (!date) {
+        throw new InvalidFilterError(
+          name,
+          value,
+          "expected a date such as 2026-01-01 or a duration such as 30d"
+        );
+      }
+      resolved[name] = date;
+    }
+  }
+  if (filters.title !== undefined) {
+    resolved.title = resolveTitle(filters.title);
+  }
+  return resolved;
+}
+
+/**
+ * Checks filter values without applying them.
+ *
+ * @throws {InvalidFilterError} If a value cannot be used.
+ */
+export function validateFilters(filters: NoteFilters): void {
+  resolveFilters(filters, Date.now());
+}
+
+/**
+ * Whether any filter is set.
+ */
+export function hasFilters(filters: NoteFilters | undefined): filters is NoteFilters {
+  return (
+    filters !== undefined &&
+    (DATE_FILTERS.some((name) => filters[name] !== undefined) ||
+      filters.title !== undefined ||
+      (filters.hashtags ?? []).length > 0 ||
+      (filters.excludeFolders ?? []).length > 0)
+  );
+}
+
+/**
+ * Whether the filters need note dates, which only the metadata script reports.
+ */
+export function needsNoteDates(filters: NoteFilters | undefined): boolean {
+  return filters !== undefined && DATE_FILTERS.some((name) => filters[name] !== undefined);
+}
+
+function isBetween(
+  value: string | undefined,
+  since: Date | undefined,
+  before: Date | undefined
+): boolean {
+  if (!since && !before) {
+    return true;
+  }
+  // A note without the date cannot be shown to match
+  if (value === undefined) {
+    return false;
+  }
+  const time = new Date(value).getTime();
+  return (!since || time >= since.getTime()) && (!before || time < before.getTime());
+}
+
+/**
+ * What a note is matched against.
+ */
+export interface FilterableNote {
+  title: string;
+  /** Folder names from the exported folder down to the note's folder. */
+  folderPath: string[];
+  createdAt?: string;
+  modifiedAt?: string;
+  /**
+   * Returns the note's plain text, for hashtag filters. If omitted, hashtag
+   * filters are not checked.
+   */
+  text?: () => string;
+}
+
+/**
+ * Creates a function telling whether a note matches the filters.
+ *
+ * Folder names in `excludeFolders` are matched against the note's folders
+ * below the exported folder, not against the exported folder itself.
+ *
+ * @throws {InvalidFilterError} If a filter value cannot be used.
+ */
+export function createNoteMatcher(filters: NoteFilters): (note: FilterableNote) => boolean {
+  const resolved = resolveFilters(filters, Date.now());
+  return (note) =>
+    !note.folderPath.some((name, index) => index > 0 && resolved.excludeFolders.has(name)) &&
+    isBetween(note.modifiedAt, resolved.modifiedSince, resolved.modifiedBefore) &&
+    isBetween(note.createdAt, resolved.createdSince, resolved.createdBefore) &&
+    (!resolved.title || resolved.title.test(note.title)) &&
+    (resolved.hashtags.length === 0 ||
+      !note.text ||
+      resolved.hashtags.some((pattern) => pattern.test(note.text!())));
+}
+
+/**
+ * Removes the notes that do not match the filters from an export directory,
+ * along with the directories of excluded subfolders.
+ *
+ * Folder names in `excludeFolders` are matched against subfolders at any
+ * depth, but not against the top-level folder directories of the export.
+ *
+ * @param exportDir - The directory an export was written to.
+ * @param filters - The filters to apply.
+ * @param metadata - Note metadata by note id, as read by the metadata script.
+ *   Needed for date filters, and used for titles when available.
+ * @throws {InvalidFilterError} If a filter value cannot be used.
+ *
+ * @example
+ * ```typescript
+ * import { applyFilters } from 'apple-notes-exporter';
+ *
+ * const { kept, excluded } = applyFilters('./exports', { title: 'Meeting *' });
+ * ```
+ */
+export function applyFilters(
+  exportDir: string,
+  filters: NoteFilters,
+  metadata?: Map<string, Omit<NoteMetadata, "path">>
+): FilterResult {
+  const matches = createNoteMatcher(filters);
+  const excludeFolders = new Set(filters.excludeFolders ?? []);
+  const result: FilterResult = { kept: 0, excluded: [], excludedIds: [] };
+
+  for (const note of listExportedNotes(exportDir, ["html", "md"])) {
+    const known = metadata?.get(note.id);
+    const text = (): string => {
+      const content = fs.readFileSync(note.filePath, "utf8");
+      return note.extension === "html" ? plainText(parseHtml(content)) : content;
+    };
+
+    if (
+      matches({
+        title: known?.title ?? note.title,
+        folderPath: note.folderPath,
+        createdAt: known?.createdAt,
+        modifiedAt: known?.modifiedAt,
+        text,
+      })
+    ) {
+      result.kept++;
+      continue;
+    }
+    result.excluded.push(note.relativePath);
+    result.excludedIds.push(note.id);
+    fs.rmSync(note.filePath, { force: true });
+  }
+
+  // Excluded subfolders go entirely, including assets and empty subfolders
+  const excludedDirs: string[] = [];
+  const visit = (dir: string, depth: number): void => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (!entry.isDirectory() || entry.name.startsWith(".")) {
+        continue;
+      }
+      const entryPath = path.join(dir, entry.name);
+      if (depth > 0 && excludeFolders.has(entry.name)) {
+        excludedDirs.push(entryPath);
+      } else {
+        visit(entryPath, depth + 1);
+      }
+    }
+  };
+  if (excludeFolders.size > 0) {
+    visit(path.resolve(exportDir), 0);
+  }
+  for (const dir of excludedDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  return result;
+}
@@ -0,0 +1,158 @@
+/**
+ * Folder listing types and parsing.
+ *
+ * The AppleScript prints the folder listing as human-readable text, one folder
+ * per line with its account and path separated by `>`:
+ *
+ * ```text
+ * === Available Top-Level Folders ===
+ * iCloud > Notes
+ * iCloud > Work (12 notes)
+ * iCloud > Work > Projects
+ * Google > Notes
+ * ====================================
+ * ```
+ *
+ * This module turns that output into a typed `Account`/`Folder` tree.
+ *
+ * The format allows nested folders and note counts, as `FakeScriptRunner`
+ * prints them, but the bundled script's `list` command only prints the
+ * top-level folders of each account, without counts:
+ *
+ * ```text
+ * iCloud > Notes
+ * iCloud > Work
+ * ```
+ *
+ * With the bundled script, folders therefore have no `subfolders` and no
+ * `noteCount`, and code that looks folders up in the listing (such as
+ * `planExport` and the check for folder names shared by several accounts)
+ * only sees top-level folders. Exports still find nested folders, since the
+ * script searches every level itself.
+ *
+ * @module
+ */
+
+/** Separator between path segments in the script's listing output. */
+const PATH_SEPARATOR = " > ";
+
+/** Matches an optional trailing note count, e.g. `(12 notes)` or `(1 note)`. */
+const NOTE_COUNT_PATTERN = /\s*\((\d+)\s+notes?\)\s*$/;
+
+/**
+ * A folder in an Apple Notes account.
+ */
+export interface Folder {
+  /** The name of the account the folder belongs to. */
+  account: string;
+  /** The folder name. */
+  name: string;
+  /** Folder names from the account root down to (and including) this folder. */
+  path: string[];
+  /**
+   * Folder spec in `Account:Folder` form, suitable for passing to
+   * `exportFolder`.
+   */
+  spec: string;
+  /** Number of notes directly in this folder, if reported by the script. */
+  noteCount?: number;
+  /** Nested subfolders, in listing order. */
+  subfolders: Folder[];
+}
+
+/**
+ * An Apple Notes account and its top-level folders.
+ */
+export interface Account {
+  /** The account name (e.g., "iCloud", "Google", "On My Mac"). */
+  name: string;
+  /** Top-level folders, in listing order. */
+  folders: Folder[];
+}
+
+/**
+ * Parses the script's `list` output into an account/folder tree.
+ *
+ * Header and footer lines (starting with `===`) and blank lines are ignored.
+ * Parent folders that are only implied by a nested path are created on the fly.
+ *
+ * @param output - The raw stdout of the `list` command.
+ * @returns The accounts in the order they first appear.
+ */
+export function parseFolderListing(output: string): Account[] {
+  const accounts: Account[] = [];
+
+  for (const rawLine of output.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === "" || line.startsWith("===")) {
+      continue;
+    }
+
+    let noteCount: number | undefined;
+    let entry = line;
+    const countMatch = NOTE_COUNT_PATTERN.exec(entry);
+    if (countMatch) {
+      noteCount = Number(countMatch[1]);
+      entry = entry.slice(0, countMatch.index);
+    }
+
+    const segments = entry.split(PATH_SEPARATOR).map((segment) => segment.trim());
+    if (segments.length < 2 || segments.some((segment) => segment === "")) {
+      continue;
+    }
+
+    const [accountName, ...folderPath] = segments;
+    let account = accounts.find((candidate) => candidate.name === accountName);
+    if (!account) {
+      account = { name: accountName, folders: [] };
+      accounts.push(account);
+    }
+
+    let siblings = account.folders;
+    let folder: Folder | undefined;
+    for (let depth = 0; depth < folderPath.length; depth++) {
+      const name = folderPath[depth];
+      folder = siblings.find((candidate) => candidate.name === name);
+      if (!folder) {
+        folder = {
+          account: accountName,
+          name,
+          path: folderPath.slice(0, depth + 1),
+          spec: `${accountName}:${name}`,
+          subfolders: [],
+        };
+        siblings.push(folder);
+      }
+      siblings = folder.subfolders;
+    }
+
+    if (folder && noteCount !== undefined) {
+      folder.noteCount = noteCount;
+    }
+  }
+
+  return accounts;
+}
+
+/**
+ * Flattens an account/folder tree into a list of folders in depth-first order.
+ *
+ * @example
+ * ```typescript
+ * const folders = flattenFolders(await exporter.getFolders());
+ * const work = folders.filter((folder) => folder.path.includes('Work'));
+ * ```
+ */
+export function flattenFolders(accounts: Account[]): Folder[] {
+  const result: Folder[] = [];
+  const visit = (folders: Folder[]): void => {
+    for (const folder of folders) {
+      result.push(folder);
+      visit(folder.subfolders);
+    }
+  };
+  for (const account of accounts) {
+    visit(account.folders);
+  }
+  return result;
+}
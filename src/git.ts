@@ -0,0 +1,292 @@
+/**
+ * Git-backed exports.
+ *
+ * With the `git` option, the output directory is kept as a git repository.
+ * After each export every change is staged and committed, with a message
+ * summarizing the notes that were added, modified, deleted or renamed, so
+ * the history holds every version of every note:
+ *
+ * ```text
+ * Export Work: 1 added, 2 modified, 1 deleted
+ *
+ * Added:
+ *   Work/Budget -- p7.html
+ * Modified:
+ *   Work/Plan -- p1.html
+ *   Work/Sub/Deep -- s1.html
+ * Deleted:
+ *   Work/Old idea -- p3.html
+ * ```
+ *
+ * The output directory is its own repository: if it has no `.git` yet, one
+ * is created, with a `.gitignore` for the search index and the `.archive/`
+ * directory. Only the local repository is used; nothing is pushed. So that
+ * a commit only ever holds what an export wrote, exporting into a
+ * repository with uncommitted changes fails before anything is written.
+ *
+ * Git is run with the `git` executable on the `PATH`.
+ *
+ * @module
+ */
+
+import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { GitError, GitRepositoryDirtyError } from "./errors";
+
+/** Note file extensions summarized in commit messages. */
+const NOTE_EXTENSIONS = [".html", ".md"];
+
+/** Most files listed per section of a commit message. */
+const MAX_LISTED_FILES = 100;
+
+/** Identity used for commits when git has none configured. */
+const FALLBACK_IDENTITY = [
+  "user.name=apple-notes-exporter",
+  "user.email=apple-notes-exporter@localhost",
+];
+
+/** The `.gitignore` written to new repositories. */
+const GITIGNORE = `# Written by apple-notes-exporter
+.notes-search-index.json
+.archive/
+`;
+
+/**
+ * Options for git-backed exports.
+ */
+export interface GitOptions {
+  /**
+   * The commit subject. Defaults to a summary of the note changes, such as
+   * `Export Work: 2 added, 1 modified`. The list of changed notes always
+   * follows in the message body.
+   */
+  message?: string;
+}
+
+/**
+ * A note file renamed or moved between two commits.
+ */
+export interface RenamedFile {
+  from: string;
+  to: string;
+}
+
+/**
+ * The commit made after a git-backed export.
+ */
+export interface GitCommitResult {
+  /** The absolute path of the repository (the output directory). */
+  repository: string;
+  /** Whether the repository was created by this export. */
+  initialized: boolean;
+  /** The commit hash, or `undefined` if the export changed nothing. */
+  commit?: string;
+  /** The commit message, if a commit was made. */
+  message?: string;
+  /** Note files, relative to the repository, by how they changed. */
+  added: string[];
+  modified: string[];
+  deleted: string[];
+  renamed: RenamedFile[];
+  /** Number of other files changed, such as sidecars, assets and `index.json`. */
+  otherFiles: number;
+}
+
+/**
+ * Runs git in a repository.
+ *
+ * @param config - `name=value` settings for this command only.
+ * @returns The standard output.
+ * @throws {GitError} If git is not installed or exits unsuccessfully.
+ */
+function runGit(repository: string, args: string[], input?: string, config: string[] = []): string {
+  const result = spawnSync("git", [...config.flatMap((setting) => ["-c", setting]), ...args], {
+    cwd: repository,
+    encoding: "utf8",
+    input,
+  });
+  if (result.error) {
+    const reason =
+      (result.error as NodeJS.ErrnoException).code === "ENOENT"
+        ? "git is not installed or not on the PATH"
+        : result.error.message;
+    throw new GitError(repository, reason);
+  }
+  if (result.status !== 0) {
+    const output = result.stderr.trim() || result.stdout.trim();
+    throw new GitError(
+      repository,
+      `'git ${args[0]}' exited with code ${result.status}${output ? `: ${output}` : ""}`
+    );
+  }
+  return result.stdout;
+}
+
+function isRepository(dir: string): boolean {
+  return fs.existsSync(path.join(dir, ".git"));
+}
+
+function isNoteFile(filePath: string): boolean {
+  return (
+    NOTE_EXTENSIONS.includes(path.posix.extname(filePath).toLowerCase()) &&
+    !filePath.split("/").some((segment) => segment.startsWith("."))
+  );
+}
+
+/**
+ * Checks that an output directory can be used for a git-backed export:
+ * git is installed and, if the directory already is a repository, it has no
+ * uncommitted changes.
+ *
+ * @throws {GitError} If git cannot be run.
+ * @throws {GitRepositoryDirtyError} If the repository has uncommitted changes.
+ */
+export function checkGitRepository(dir: string): void {
+  const repository = path.resolve(dir);
+  if (!isRepository(repository)) {
+    runGit(process.cwd(), ["--version"]);
+    return;
+  }
+  const entries = runGit(repository, ["status", "--porcelain", "-z"]).split("\0");
+  const changed: string[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.length < 4) {
+      continue;
+    }
+    changed.push(entry.slice(3));
+    // Renames and copies are followed by their original path
+    if (entry[0] === "R" || entry[0] === "C") {
+      i++;
+    }
+  }
+  if (changed.length > 0) {
+    throw new GitRepositoryDirtyError(repository, changed);
+  }
+}
+
+function formatMessage(subject: string, result: GitCommitResult): string {
+  const lines = [subject];
+  const section = (title: string, files: string[]): void => {
+    if (files.length === 0) {
+      return;
+    }
+    lines.push("", `${title}:`, ...files.slice(0, MAX_LISTED_FILES).map((file) => `  ${file}`));
+    if (files.length > MAX_LISTED_FILES) {
+      lines.push(`  ... and ${files.length - MAX_LISTED_FILES} more`);
+    }
+  };
+  section("Added", result.added);
+  section("Modified", result.modified);
+  section("Deleted", result.deleted);
+  section("Renamed", result.renamed.map((file) => `${file.from} -> ${file.to}`));
+  if (result.otherFiles > 0) {
+    lines.push("", `${result.otherFiles} other file${result.otherFiles === 1 ? "" : "s"} changed.`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function summarize(label: string, result: GitCommitResult): string {
+  const counts: Array<[number, string]> = [
+    [result.added.length, "added"],
+    [result.modified.length, "modified"],
+    [result.deleted.length, "deleted"],
+    [result.renamed.length, "renamed"],
+  ];
+  const changes = counts
+    .filter(([count]) => count > 0)
+    .map(([count, change]) => `${count} ${change}`);
+  return `${label}: ${changes.length > 0 ? changes.join(", ") : "no note changes"}`;
+}
+
+/**
+ * Commits everything in an exported output directory, creating the
+ * repository first if needed.
+ *
+ * @param dir - The output directory.
+ * @param label - Start of the generated subject, e.g. `Export Work`.
+ * @param options - The commit subject, if not generated.
+ * @returns What was committed. No commit is made if nothing changed.
+ * @throws {GitError} If a git command fails.
+ *
+ * @example
+ * ```typescript
+ * checkGitRepository('./backup');
+ * // ... export into ./backup ...
+ * const { commit, added } = commitExport('./backup', 'Export Work');
+ * ```
+ */
+export function commitExport(
+  dir: string,
+  label: string,
+  options: GitOptions = {}
+): GitCommitResult {
+  const repository = path.resolve(dir);
+  const result: GitCommitResult = {
+    repository,
+    initialized: false,
+    added: [],
+    modified: [],
+    deleted: [],
+    renamed: [],
+    otherFiles: 0,
+  };
+
+  if (!isRepository(repository)) {
+    fs.mkdirSync(repository, { recursive: true });
+    runGit(repository, ["init", "--quiet"]);
+    const gitignore = path.join(repository, ".gitignore");
+    if (!fs.existsSync(gitignore)) {
+      fs.writeFileSync(gitignore, GITIGNORE, "utf8");
+    }
+    result.initialized = true;
+  }
+
+  runGit(repository, ["add", "--all"]);
+  const entries = runGit(repository, ["diff", "--cached", "--name-status", "-M", "-z"]).split(
+    "\0"
+  );
+  for (let i = 0; i + 1 < entries.length; i += 2) {
+    const status = entries[i][0];
+    const file = entries[i + 1];
+    if (status === "R" || status === "C") {
+      const to = entries[i + 2];
+      i++;
+      if (status === "R" && isNoteFile(file) && isNoteFile(to)) {
+        result.renamed.push({ from: file, to });
+      } else if (isNoteFile(to)) {
+        result.added.push(to);
+      } else {
+        result.otherFiles++;
+      }
+      continue;
+    }
+    if (!isNoteFile(file)) {
+      result.otherFiles++;
+    } else if (status === "A") {
+      result.added.push(file);
+    } else if (status === "D") {
+      result.deleted.push(file);
+    } else {
+      result.modified.push(file);
+    }
+  }
+  if (entries.length < 2) {
+    return result;
+  }
+
+  result.message = formatMessage(options.message ?? summarize(label, result), result);
+  // Commit as the exporter when git has no identity configured
+  const hasIdentity = ["user.name", "user.email"].every(
+    (key) => spawnSync("git", ["config", key], { cwd: repository }).status === 0
+  );
+  runGit(
+    repository,
+    ["commit", "--quiet", "--file=-"],
+    result.message,
+    hasIdentity ? [] : FALLBACK_IDENTITY
+  );
+  result.commit = runGit(repository, ["rev-parse", "HEAD"]).trim();
+  return result;
+}
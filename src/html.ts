@@ -0,0 +1,345 @@
+/**
+ * A small, forgiving HTML parser.
+ *
+ * Apple Notes produces simple HTML fragments, so this parser does not aim to
+ * implement the full HTML5 algorithm. It handles what the exported notes
+ * contain: nested elements, void elements, attributes, comments, entities and
+ * the common implicitly-closed elements (`<p>`, `<li>`, table cells and rows).
+ *
+ * @module
+ */
+
+/**
+ * An element node.
+ */
+export interface HtmlElement {
+  type: "element";
+  /** Lower-case tag name. */
+  tag: string;
+  /** Attributes with lower-case names and decoded values. */
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+/**
+ * A text node with entities decoded.
+ */
+export interface HtmlText {
+  type: "text";
+  value: string;
+}
+
+/**
+ * A node in a parsed HTML tree. Comments and doctypes are dropped.
+ */
+export type HtmlNode = HtmlElement | HtmlText;
+
+/** Elements that never have children or a closing tag. */
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/** Elements whose content is raw text up to the matching closing tag. */
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title"]);
+
+/**
+ * For each element, the open elements it implicitly closes, and the elements
+ * that stop the search (so a nested list's `<li>` doesn't close its parent's).
+ */
+const IMPLICIT_CLOSES: Record<string, { closes: string[]; scope: string[] }> = {
+  li: { closes: ["li"], scope: ["ul", "ol"] },
+  p: { closes: ["p"], scope: ["div", "li", "td", "th", "blockquote", "body"] },
+  td: { closes: ["td", "th"], scope: ["tr", "table"] },
+  th: { closes: ["td", "th"], scope: ["tr", "table"] },
+  tr: { closes: ["tr", "td", "th"], scope: ["table", "tbody", "thead", "tfoot"] },
+  tbody: { closes: ["thead", "tbody", "tr", "td", "th"], scope: ["table"] },
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  euro: "€",
+  deg: "°",
+  times: "×",
+};
+
+const TAG_PATTERN = /^<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/;
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/**
+ * Decodes named and numeric character references.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const codePoint =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Escapes text for use in HTML content or a double-quoted attribute value.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? "";
+    if (!(name in attrs)) {
+      attrs[name] = decodeEntities(value);
+    }
+  }
+  return attrs;
+}
+
+/**
+ * Parses an HTML document or fragment into a list of top-level nodes.
+ *
+ * @example
+ * ```typescript
+ * const nodes = parseHtml('<div><b>Hello</b> world</div>');
+ * ```
+ */
+export function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { type: "element", tag: "#root", attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = (): HtmlElement => stack[stack.length - 1];
+
+  const appendText = (value: string): void => {
+    if (value === "") {
+      return;
+    }
+    const children = current().children;
+    const last = children[children.length - 1];
+    if (last && last.type === "text") {
+      last.value += value;
+    } else {
+      children.push({ type: "text", value });
+    }
+  };
+
+  const closeImplicitly = (tag: string): void => {
+    const rule = IMPLICIT_CLOSES[tag];
+    if (!rule) {
+      return;
+    }
+    for (let i = stack.length - 1; i > 0; i--) {
+      const open = stack[i].tag;
+      if (rule.scope.includes(open)) {
+        return;
+      }
+      if (rule.closes.includes(open)) {
+        stack.length = i;
+        return;
+      }
+    }
+  };
+
+  let pos = 0;
+  while (pos < html.length) {
+    const lt = html.indexOf("<", pos);
+    if (lt === -1) {
+      appendText(decodeEntities(html.slice(pos)));
+      break;
+    }
+    if (lt > pos) {
+      appendText(decodeEntities(html.slice(pos, lt)));
+      pos = lt;
+    }
+
+    if (html.startsWith("<!--", pos)) {
+      const end = html.indexOf("-->", pos + 4);
+      pos = end === -1 ? html.length : end + 3;
+      continue;
+    }
+
+    if (html.startsWith("<!", pos) || html.startsWith("<?", pos)) {
+      const end = html.indexOf(">", pos);
+      pos = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const match = TAG_PATTERN.exec(html.slice(pos));
+    if (!match) {
+      appendText("<");
+      pos += 1;
+      continue;
+    }
+    pos += match[0].length;
+
+    const isClosing = match[1] === "/";
+    const tag = match[2].toLowerCase();
+
+    if (isClosing) {
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tag === tag) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+
+    closeImplicitly(tag);
+    const element: HtmlElement = {
+      type: "element",
+      tag,
+      attrs: parseAttributes(match[3]),
+      children: [],
+    };
+    current().children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const closeIndex = html.toLowerCase().indexOf(`</${tag}`, pos);
+      const end = closeIndex === -1 ? html.length : closeIndex;
+      const raw = html.slice(pos, end);
+      if (raw !== "") {
+        element.children.push({
+          type: "text",
+          value: tag === "script" || tag === "style" ? raw : decodeEntities(raw),
+        });
+      }
+      const closeEnd = closeIndex === -1 ? -1 : html.indexOf(">", closeIndex);
+      pos = closeEnd === -1 ? html.length : closeEnd + 1;
+      continue;
+    }
+
+    if (!VOID_ELEMENTS.has(tag) && match[4] !== "/") {
+      stack.push(element);
+    }
+  }
+
+  return root.children;
+}
+
+/**
+ * Returns the concatenated text content of the given nodes.
+ */
+export function textContent(nodes: HtmlNode[]): string {
+  let text = "";
+  for (const node of nodes) {
+    text += node.type === "text" ? node.value : textContent(node.children);
+  }
+  return text;
+}
+
+/** Elements whose text runs on with the surrounding text. */
+const INLINE_ELEMENTS = new Set([
+  "a",
+  "b",
+  "code",
+  "em",
+  "font",
+  "i",
+  "mark",
+  "s",
+  "small",
+  "span",
+  "strike",
+  "strong",
+  "sub",
+  "sup",
+  "u",
+]);
+
+/** Elements whose content is not note text. */
+const NON_TEXT_ELEMENTS = new Set(["head", "script", "style", "title"]);
+
+/**
+ * Returns the text of the nodes with whitespace collapsed. Unlike
+ * `textContent`, the text of separate blocks (such as the `<div>` per line in
+ * a note) is kept apart by a space, and scripts, styles and the document
+ * `<head>` are left out.
+ */
+export function plainText(nodes: HtmlNode[]): string {
+  const collect = (node: HtmlNode): string => {
+    if (node.type === "text") {
+      return node.value;
+    }
+    if (NON_TEXT_ELEMENTS.has(node.tag)) {
+      return "";
+    }
+    const text = node.children.map(collect).join("");
+    return INLINE_ELEMENTS.has(node.tag) ? text : ` ${text} `;
+  };
+  return nodes.map(collect).join("").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Returns the text of the nodes as lines. Each block element (such as the
+ * `<div>` per line in a note) and each `<br>` starts a new line; whitespace
+ * within a line is collapsed and empty lines are dropped.
+ */
+export function textLines(nodes: HtmlNode[]): string[] {
+  let text = "";
+  const collect = (node: HtmlNode): void => {
+    if (node.type === "text") {
+      text += node.value.replace(/\s+/g, " ");
+      return;
+    }
+    if (node.tag === "br") {
+      text += "\n";
+      return;
+    }
+    if (NON_TEXT_ELEMENTS.has(node.tag)) {
+      return;
+    }
+    const block = !INLINE_ELEMENTS.has(node.tag);
+    if (block) {
+      text += "\n";
+    }
+    node.children.forEach(collect);
+    if (block) {
+      text += "\n";
+    }
+  };
+  nodes.forEach(collect);
+  return text
+    .split("\n")
+    .map((line) => line.replace(/ +/g, " ").trim())
+    .filter((line) => line !== "");
+}
@@ -21,6 +21,9 @@
  * // List all available folders
  * await listFolders();
  *
+ * // Get the folders as structured data
+ * const accounts = await getFolders();
+ *
  * // Export a folder to a directory (searches all accounts)
  * await exportFolder('My Notes', './exports');
  *
@@ -28,6 +31,19 @@
  * await exportFolderFromAccount('iCloud', 'Work', './exports');
  * ```
  *
+ * ## Running Without macOS
+ *
+ * The `Exporter` runs the script through a `ScriptRunner`. Pass a
+ * `FakeScriptRunner` to emulate the script from a fixture, e.g. in tests on Linux:
+ *
+ * ```typescript
+ * import { Exporter, FakeScriptRunner } from 'apple-notes-exporter';
+ *
+ * const runner = new FakeScriptRunner({ accounts: [{ name: 'iCloud', folders: [{ name: 'Work' }] }] });
+ * const exporter = Exporter.create({ runner });
+ * await exporter.exportFolder('Work', './exports');
+ * ```
+ *
  * ## Using a Custom Script
  *
  * If you need to use a custom AppleScript (e.g., a modified version), use the Exporter class:
@@ -46,6 +62,218 @@
 
 // Re-export the Exporter class
 export { Exporter } from "./exporter";
+export type {
+  ExporterOptions,
+  ExportFormat,
+  ExportOptions,
+  ExportResult,
+  RunOptions,
+  BatchExportOptions,
+} from "./exporter";
+
+// Re-export script runners
+export { OsascriptRunner } from "./runner";
+export type { ScriptRunner, ScriptRunOptions, ScriptResult } from "./runner";
+export { FakeScriptRunner } from "./fake-runner";
+export type {
+  FakeAccount,
+  FakeFixture,
+  FakeFolder,
+  FakeNote,
+  FakeScriptCall,
+  FakeScriptRunnerOptions,
+} from "./fake-runner";
+
+// Re-export folder listing types
+export type { Account, Folder } from "./folders";
+export { parseFolderListing, flattenFolders } from "./folders";
+
+// Re-export exported-file helpers
+export {
+  listExportedNotes,
+  parseNoteFileName,
+  sanitizeFileName,
+  readNoteNames,
+  NOTE_NAMES_FILE_NAME,
+} from "./notes";
+export type { ExportedNote, NoteNames } from "./notes";
+export { htmlToMarkdown, convertExportToMarkdown } from "./markdown";
+
+export {
+  applyIncrementalExport,
+  readManifest,
+  MANIFEST_FILE_NAME,
+  ARCHIVE_DIR_NAME,
+} from "./manifest";
+export type {
+  IncrementalOptions,
+  IncrementalResult,
+  Manifest,
+  ManifestEntry,
+  RemovedNotesAction,
+} from "./manifest";
+
+export { parseProgressLine } from "./progress";
+export type {
+  ExportEvent,
+  ExportFinishedEvent,
+  ExportMessageEvent,
+  ExportProgress,
+  FolderStartedEvent,
+  NoteExportedEvent,
+  NoteFailedEvent,
+} from "./progress";
+
+export { parseFolderSpec, expandFolderSpecs } from "./batch";
+export type {
+  BatchExportEntry,
+  BatchExportJob,
+  BatchExportResult,
+  ParsedFolderSpec,
+} from "./batch";
+
+export {
+  loadConfig,
+  parseConfig,
+  validateConfig,
+  findConfigFile,
+  getConfigJob,
+  CONFIG_FILE_NAMES,
+} from "./config";
+export type { ExportConfig, ExportJobConfig } from "./config";
+
+export { buildSite, SITE_ASSETS_DIR } from "./site";
+export type { SiteOptions, SiteResult, SiteSearchEntry } from "./site";
+
+export {
+  searchNotes,
+  searchIndex,
+  updateSearchIndex,
+  readSearchIndex,
+  tokenize,
+  SEARCH_INDEX_FILE_NAME,
+} from "./search";
+export type {
+  SearchIndex,
+  SearchIndexDocument,
+  SearchIndexUpdate,
+  SearchOptions,
+  SearchResult,
+} from "./search";
+
+export {
+  extractAttachments,
+  parseDataUri,
+  assetFileName,
+  mediaTypeForFile,
+  ASSETS_DIR_NAME,
+} from "./attachments";
+export type { AttachmentResult, DataUri } from "./attachments";
+
+export {
+  parseMetadataOutput,
+  formatFrontMatter,
+  readNoteIndex,
+  NOTE_INDEX_FILE_NAME,
+} from "./metadata";
+export type { NoteIndex, NoteMetadata } from "./metadata";
+
+export { applyFilters, validateFilters, parseFilterDate, globToRegExp } from "./filters";
+export type { NoteFilters, FilterResult } from "./filters";
+
+export { writeArchive, writeZipEntries, getArchiveFormat, crc32 } from "./archive";
+export type { ArchiveFormat, ArchiveOptions, ArchiveResult, ZipEntry } from "./archive";
+
+export {
+  applyNaming,
+  nameDirectoryEntries,
+  slugify,
+  validateNaming,
+  DEFAULT_NAME_TEMPLATE,
+} from "./naming";
+export type {
+  DirectoryNames,
+  NameSource,
+  NamingOptions,
+  NamingResult,
+  SlugOptions,
+} from "./naming";
+
+export { checkGitRepository, commitExport } from "./git";
+export type { GitCommitResult, GitOptions, RenamedFile } from "./git";
+
+export { diffExports, formatDiffReport } from "./diff";
+export type {
+  DiffHunk,
+  DiffLine,
+  DiffOptions,
+  DiffReportFormat,
+  ExportDiff,
+  NoteChange,
+  NoteChangeType,
+} from "./diff";
+
+export { findFolderMatches, planFolderExport, createExportPlan } from "./plan";
+export type {
+  ExportPlan,
+  PlannedFile,
+  PlannedFileAction,
+  PlannedFolderExport,
+  PlanOptions,
+} from "./plan";
+
+export {
+  nextCycleDelay,
+  DEFAULT_WATCH_INTERVAL_MS,
+  DEFAULT_MAX_BACKOFF_MS,
+  FATAL_WATCH_ERROR_CODES,
+} from "./watch";
+export type { WatchCycle, WatchOptions, WatchResult } from "./watch";
+
+export { formatLaunchAgentPlist, writeLaunchAgentPlist } from "./launchd";
+export type { LaunchAgentOptions } from "./launchd";
+
+export {
+  serveNotes,
+  createNotesRequestHandler,
+  DEFAULT_SERVE_PORT,
+  DEFAULT_SERVE_HOST,
+} from "./server";
+export type {
+  FolderSummary,
+  NoteDetail,
+  NotesHandlerOptions,
+  NotesServer,
+  NoteSummary,
+  ServeOptions,
+} from "./server";
+
+export { normalizeExport, normalizeNoteHtml, validateNormalizeOptions } from "./normalize";
+export type { NormalizeOptions, NormalizeResult, NoteDocumentOptions } from "./normalize";
+
+export { linkNotes, parseNoteLink, readLinkIndex, LINK_INDEX_FILE_NAME } from "./links";
+export type {
+  LinkIndex,
+  LinkIndexEntry,
+  LinkOptions,
+  LinkResult,
+  NoteLink,
+  UnresolvedLink,
+} from "./links";
+
+export { convertExport, readConvertSource, getConvertFormat, CONVERT_FORMATS } from "./convert";
+export type {
+  ConvertAttachment,
+  ConvertFormat,
+  ConvertNote,
+  ConvertResult,
+  ConvertSource,
+  NoteReference,
+} from "./convert";
+export { formatEnex } from "./enex";
+
+export { renderExport, validateRenderOptions } from "./render";
+export type { RenderOptions, RenderResult } from "./render";
 
 // Re-export error types
 export {
@@ -56,9 +284,37 @@ export {
   InvalidPathError,
   LaunchError,
   ScriptFailedError,
+  FolderNotFoundError,
+  AmbiguousFolderError,
+  AutomationPermissionError,
+  NotesNotRunningError,
+  ExportCancelledError,
+  ExportTimeoutError,
+  AccountNotFoundError,
+  ConfigError,
+  InvalidFilterError,
+  ArchiveError,
+  InvalidNamingError,
+  GitError,
+  GitRepositoryDirtyError,
+  ServerError,
+  RenderError,
+  parseScriptFailure,
 } from "./errors";
+export type { ExportErrorCode } from "./errors";
 
-import { Exporter } from "./exporter";
+import {
+  BatchExportOptions,
+  Exporter,
+  ExportOptions,
+  ExportResult,
+  RunOptions,
+} from "./exporter";
+import { BatchExportResult } from "./batch";
+import { Account } from "./folders";
+import { ExportPlan } from "./plan";
+import { ExportEvent } from "./progress";
+import { WatchOptions, WatchResult } from "./watch";
 
 /**
  * Lists all available top-level folders across all Apple Notes accounts.
@@ -73,9 +329,9 @@ import { Exporter } from "./exporter";
  * await listFolders();
  * ```
  */
-export async function listFolders(): Promise<void> {
+export async function listFolders(options: RunOptions = {}): Promise<void> {
   const exporter = Exporter.create();
-  await exporter.listFolders();
+  await exporter.listFolders(options);
 }
 
 /**
@@ -86,6 +342,33 @@ export function listFoldersSync(): void {
   exporter.listFoldersSync();
 }
 
+/**
+ * Returns the folders across all Apple Notes accounts as structured data.
+ *
+ * This is a convenience function that uses the vendored AppleScript.
+ * For more control, use the `Exporter` class.
+ *
+ * @example
+ * ```typescript
+ * import { getFolders, flattenFolders } from 'apple-notes-exporter';
+ *
+ * const accounts = await getFolders();
+ * const specs = flattenFolders(accounts).map((folder) => folder.spec);
+ * ```
+ */
+export async function getFolders(options: RunOptions = {}): Promise<Account[]> {
+  const exporter = Exporter.create();
+  return exporter.getFolders(options);
+}
+
+/**
+ * Returns the folders across all accounts as structured data (synchronous version).
+ */
+export function getFoldersSync(): Account[] {
+  const exporter = Exporter.create();
+  return exporter.getFoldersSync();
+}
+
 /**
  * Exports a folder recursively to HTML files.
  *
@@ -98,28 +381,170 @@ export function listFoldersSync(): void {
  *
  * @param folder - The folder name to export.
  * @param outputDir - The directory where exported notes will be saved.
+ * @param options - Export options, such as the output format.
  *
  * @example
  * ```typescript
  * import { exportFolder } from 'apple-notes-exporter';
  *
  * await exportFolder('My Notes', './exports');
+ * await exportFolder('My Notes', './markdown', { format: 'markdown' });
  * ```
  */
 export async function exportFolder(
   folder: string,
-  outputDir: string
-): Promise<void> {
+  outputDir: string,
+  options: ExportOptions = {}
+): Promise<ExportResult> {
   const exporter = Exporter.create();
-  await exporter.exportFolder(folder, outputDir);
+  return exporter.exportFolder(folder, outputDir, options);
 }
 
 /**
  * Exports a folder recursively to HTML files (synchronous version).
  */
-export function exportFolderSync(folder: string, outputDir: string): void {
+export function exportFolderSync(
+  folder: string,
+  outputDir: string,
+  options: ExportOptions = {}
+): ExportResult {
+  const exporter = Exporter.create();
+  return exporter.exportFolderSync(folder, outputDir, options);
+}
+
+/**
+ * Exports several folders in one run, each into its own subdirectory.
+ *
+ * This is a convenience function that uses the vendored AppleScript.
+ * For more control, use the `Exporter` class.
+ *
+ * Specs can be `Folder`, `Account:Folder`, `Account:*` (every top-level
+ * folder of an account) or `*` (every folder of every account).
+ *
+ * @example
+ * ```typescript
+ * import { exportFolders } from 'apple-notes-exporter';
+ *
+ * // Nightly backup of everything
+ * const batch = await exportFolders(['*'], './backup', { incremental: true });
+ * console.log(`${batch.succeeded} succeeded, ${batch.failed} failed`);
+ * ```
+ */
+export async function exportFolders(
+  specs: string[],
+  outputDir: string,
+  options: BatchExportOptions = {}
+): Promise<BatchExportResult> {
+  const exporter = Exporter.create();
+  return exporter.exportFolders(specs, outputDir, options);
+}
+
+/**
+ * Exports several folders in one run (synchronous version).
+ */
+export function exportFoldersSync(
+  specs: string[],
+  outputDir: string,
+  options: BatchExportOptions = {}
+): BatchExportResult {
+  const exporter = Exporter.create();
+  return exporter.exportFoldersSync(specs, outputDir, options);
+}
+
+/**
+ * Works out what an export would do, without writing anything.
+ *
+ * This is a convenience function that uses the vendored AppleScript.
+ * For more control, use the `Exporter` class.
+ *
+ * @param specs - A folder spec, planned like `exportFolder`, or a list of
+ *   specs, planned like `exportFolders`.
+ * @param outputDir - The directory the export would write to.
+ * @param options - The options the export would use.
+ *
+ * @example
+ * ```typescript
+ * import { planExport } from 'apple-notes-exporter';
+ *
+ * const plan = await planExport('Work', './exports');
+ * console.log(plan.folders[0].folder?.spec, plan.folders[0].otherMatches.length);
+ * ```
+ */
+export async function planExport(
+  specs: string | string[],
+  outputDir: string,
+  options: BatchExportOptions = {}
+): Promise<ExportPlan> {
+  const exporter = Exporter.create();
+  return exporter.planExport(specs, outputDir, options);
+}
+
+/**
+ * Works out what an export would do (synchronous version).
+ */
+export function planExportSync(
+  specs: string | string[],
+  outputDir: string,
+  options: BatchExportOptions = {}
+): ExportPlan {
+  const exporter = Exporter.create();
+  return exporter.planExportSync(specs, outputDir, options);
+}
+
+/**
+ * Keeps an export up to date by exporting incrementally on an interval,
+ * until `options.signal` is aborted or `options.maxCycles` is reached.
+ *
+ * This is a convenience function that uses the vendored AppleScript.
+ * For more control, use the `Exporter` class.
+ *
+ * @param specs - A folder spec, exported like `exportFolder`, or a list of
+ *   specs, exported like `exportFolders`.
+ * @param outputDir - The directory to keep up to date.
+ * @param options - Export options, the interval and a per-cycle callback.
+ *
+ * @example
+ * ```typescript
+ * import { watchFolders } from 'apple-notes-exporter';
+ *
+ * const controller = new AbortController();
+ * process.on('SIGTERM', () => controller.abort());
+ * await watchFolders('Work', './backup', { git: true, signal: controller.signal });
+ * ```
+ */
+export async function watchFolders(
+  specs: string | string[],
+  outputDir: string,
+  options: WatchOptions = {}
+): Promise<WatchResult> {
+  const exporter = Exporter.create();
+  return exporter.watchFolders(specs, outputDir, options);
+}
+
+/**
+ * Exports a folder, yielding progress events as they happen.
+ *
+ * This is a convenience function that uses the vendored AppleScript.
+ * For more control, use the `Exporter` class.
+ *
+ * @example
+ * ```typescript
+ * import { exportFolderEvents } from 'apple-notes-exporter';
+ *
+ * for await (const event of exportFolderEvents('My Notes', './exports')) {
+ *   if (event.type === 'finished') {
+ *     console.log(`${event.notesExported} notes exported`);
+ *   }
+ * }
+ * ```
+ */
+export function exportFolderEvents(
+  folder: string,
+  outputDir: string,
+  options: ExportOptions = {}
+): AsyncIterableIterator<ExportEvent> {
   const exporter = Exporter.create();
-  exporter.exportFolderSync(folder, outputDir);
+  return exporter.exportFolderEvents(folder, outputDir, options);
 }
 
 /**
@@ -133,6 +558,7 @@ export function exportFolderSync(folder: string, outputDir: string): void {
  * @param account - The account name (e.g., "iCloud", "Google", "On My Mac").
  * @param folder - The folder name to export.
  * @param outputDir - The directory where exported notes will be saved.
+ * @param options - Export options, such as the output format.
  *
  * @example
  * ```typescript
@@ -148,10 +574,11 @@ export function exportFolderSync(folder: string, outputDir: string): void {
 export async function exportFolderFromAccount(
   account: string,
   folder: string,
-  outputDir: string
-): Promise<void> {
+  outputDir: string,
+  options: ExportOptions = {}
+): Promise<ExportResult> {
   const exporter = Exporter.create();
-  await exporter.exportFolderFromAccount(account, folder, outputDir);
+  return exporter.exportFolderFromAccount(account, folder, outputDir, options);
 }
 
 /**
@@ -160,8 +587,9 @@ export async function exportFolderFromAccount(
 export function exportFolderFromAccountSync(
   account: string,
   folder: string,
-  outputDir: string
-): void {
+  outputDir: string,
+  options: ExportOptions = {}
+): ExportResult {
   const exporter = Exporter.create();
-  exporter.exportFolderFromAccountSync(account, folder, outputDir);
+  return exporter.exportFolderFromAccountSync(account, folder, outputDir, options);
 }
@@ -0,0 +1,167 @@
+/**
+ * Joplin RAW export directories from exported notes.
+ *
+ * A RAW export holds every item, notes, notebooks and resources, as a
+ * Markdown file named after its id, with the item's properties at the end,
+ * and the resource files in `resources/`:
+ *
+ * ```text
+ * joplin/
+ * ├── 0c6f…e1.md                # notebook "Work" (type_: 2)
+ * ├── 5b1d…9a.md                # note "Plan" (type_: 1), linking to :/a3e4…
+ * ├── a3e4…70.md                # resource (type_: 4)
+ * └── resources/
+ *     └── a3e4…70.png
+ * ```
+ *
+ * Each folder of the export becomes a notebook, nested like the folders.
+ * Notes at the root of the export go into a notebook named after the export
+ * directory, as Joplin keeps every note in a notebook. Links between notes
+ * and references to files become `:/id` links, which Joplin resolves.
+ * Ids are derived from the note paths and file contents, so converting the
+ * same export again gives the same ids.
+ *
+ * Use `convertExport` with the `joplin` format to write a directory, and
+ * import it in Joplin with File > Import > RAW - Joplin Export Directory.
+ *
+ * @module
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ConvertNote, ConvertSource } from "./convert";
+import { htmlToMarkdown } from "./markdown";
+import { formatNoteBlocks } from "./normalize";
+
+/** Directory of a RAW export holding the resource files. */
+export const JOPLIN_RESOURCES_DIR = "resources";
+
+/** Application recorded as the source of imported notes. */
+const SOURCE_APPLICATION = "apple-notes-exporter";
+
+/** Joplin item types. */
+const NOTE_TYPE = 1;
+const FOLDER_TYPE = 2;
+const RESOURCE_TYPE = 4;
+
+/** Markdown, as opposed to HTML, in the `markup_language` property. */
+const MARKDOWN_MARKUP = 1;
+
+/** Returns a Joplin item id: 32 hex digits, derived from a key. */
+function itemId(key: string): string {
+  return createHash("md5").update(key).digest("hex");
+}
+
+/**
+ * Formats an item the way Joplin serializes it: the title, the body if the
+ * item has one, and one `name: value` line per property.
+ */
+function formatItem(
+  title: string,
+  body: string | undefined,
+  properties: Record<string, string | number>
+): string {
+  const lines = Object.entries(properties).map(([name, value]) => `${name}: ${value}`);
+  return [title, "", ...(body === undefined ? [] : [body, ""]), lines.join("\n")].join("\n");
+}
+
+function writeItem(dir: string, id: string, content: string): void {
+  fs.writeFileSync(path.join(dir, `${id}.md`), content, "utf8");
+}
+
+/**
+ * Writes the notes and attachments of an export as a Joplin RAW export
+ * directory.
+ *
+ * @param source - The export, read by `readConvertSource`.
+ * @param outputDir - The directory to write. It is created if needed.
+ */
+export function writeJoplinDirectory(source: ConvertSource, outputDir: string): void {
+  fs.mkdirSync(outputDir, { recursive: true });
+  const now = new Date().toISOString();
+
+  // Notebooks, by folder path joined with "/"; "" is the export root
+  const folders = new Map<string, string>();
+  const addFolder = (folderPath: string[]): string => {
+    const key = folderPath.join("/");
+    const existing = folders.get(key);
+    if (existing !== undefined) {
+      return existing;
+    }
+    const parentId = folderPath.length > 1 ? addFolder(folderPath.slice(0, -1)) : "";
+    const id = itemId(`folder:${key}`);
+    folders.set(key, id);
+    const title = key === "" ? path.basename(source.exportDir) : folderPath[folderPath.length - 1];
+    writeItem(
+      outputDir,
+      id,
+      formatItem(title, undefined, {
+        id,
+        created_time: now,
+        updated_time: now,
+        user_created_time: now,
+        user_updated_time: now,
+        parent_id: parentId,
+        type_: FOLDER_TYPE,
+      })
+    );
+    return id;
+  };
+
+  const noteIds = new Map<ConvertNote, string>(
+    source.notes.map((note) => [note, itemId(`note:${note.noteId ?? note.relativePath}`)])
+  );
+  for (const note of source.notes) {
+    for (const [element, reference] of note.references) {
+      const id =
+        reference.type === "note" ? noteIds.get(reference.note)! : reference.attachment.hash;
+      element.attrs[element.tag === "img" ? "src" : "href"] = `:/${id}`;
+    }
+    const id = noteIds.get(note)!;
+    const created = note.createdAt ?? note.modifiedAt;
+    writeItem(
+      outputDir,
+      id,
+      formatItem(note.title, htmlToMarkdown(formatNoteBlocks(note.blocks)).trim(), {
+        id,
+        parent_id: addFolder(note.folderPath),
+        created_time: created,
+        updated_time: note.modifiedAt,
+        user_created_time: created,
+        user_updated_time: note.modifiedAt,
+        is_todo: 0,
+        source_application: SOURCE_APPLICATION,
+        markup_language: MARKDOWN_MARKUP,
+        type_: NOTE_TYPE,
+      })
+    );
+  }
+
+  if (source.attachments.length > 0) {
+    fs.mkdirSync(path.join(outputDir, JOPLIN_RESOURCES_DIR), { recursive: true });
+  }
+  for (const attachment of source.attachments) {
+    // The MD5 hash is 32 hex digits, like Joplin ids
+    const id = attachment.hash;
+    const extension = path.extname(attachment.fileName).slice(1).toLowerCase();
+    const fileName = extension === "" ? id : `${id}.${extension}`;
+    fs.writeFileSync(path.join(outputDir, JOPLIN_RESOURCES_DIR, fileName), attachment.data);
+    writeItem(
+      outputDir,
+      id,
+      formatItem(attachment.fileName, undefined, {
+        id,
+        mime: attachment.mediaType,
+        filename: attachment.fileName,
+        created_time: now,
+        updated_time: now,
+        user_created_time: now,
+        user_updated_time: now,
+        file_extension: extension,
+        size: attachment.data.length,
+        type_: RESOURCE_TYPE,
+      })
+    );
+  }
+}
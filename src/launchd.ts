@@ -0,0 +1,132 @@
+/**
+ * launchd property lists for running the exporter as a macOS user agent.
+ *
+ * A user agent is started by launchd when the user logs in and restarted if
+ * it crashes, which suits a long-running `sync`. The plist is only written
+ * here; load it yourself:
+ *
+ * ```bash
+ * cp com.example.notes-sync.plist ~/Library/LaunchAgents/
+ * launchctl bootstrap gui/$(id -u) ~/Library/LaunchAgents/com.example.notes-sync.plist
+ * ```
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { InvalidPathError } from "./errors";
+import { escapeHtml } from "./html";
+
+/**
+ * Options for a launchd user agent.
+ */
+export interface LaunchAgentOptions {
+  /** The job label, such as `com.example.notes-sync`. */
+  label: string;
+  /** The program and its arguments. */
+  programArguments: string[];
+  /** The directory the program runs in, so relative paths keep working. */
+  workingDirectory?: string;
+  /**
+   * File that stdout and stderr are appended to. Defaults to
+   * `~/Library/Logs/{label}.log`.
+   */
+  logPath?: string;
+  /** Environment variables, e.g. a `PATH` that includes `git`. */
+  environment?: Record<string, string>;
+}
+
+/** A value in a property list. */
+type PlistValue = string | boolean | PlistValue[] | { [key: string]: PlistValue };
+
+function plistValue(value: PlistValue, indent: string): string {
+  if (typeof value === "boolean") {
+    return `${indent}<${value}/>`;
+  }
+  if (typeof value === "string") {
+    return `${indent}<string>${escapeHtml(value)}</string>`;
+  }
+  if (Array.isArray(value)) {
+    return [
+      `${indent}<array>`,
+      ...value.map((item) => plistValue(item, `${indent}\t`)),
+      `${indent}</array>`,
+    ].join("\n");
+  }
+  return [
+    `${indent}<dict>`,
+    ...Object.entries(value).flatMap(([key, item]) => [
+      `${indent}\t<key>${escapeHtml(key)}</key>`,
+      plistValue(item, `${indent}\t`),
+    ]),
+    `${indent}</dict>`,
+  ].join("\n");
+}
+
+/**
+ * Formats a launchd property list that runs a program as a user agent: at
+ * login, in the background, and again if it exits unsuccessfully.
+ *
+ * @example
+ * ```typescript
+ * const plist = formatLaunchAgentPlist({
+ *   label: 'com.example.notes-sync',
+ *   programArguments: ['/usr/local/bin/apple-notes-exporter', 'sync', 'Work', '/Users/me/backup'],
+ * });
+ * ```
+ */
+export function formatLaunchAgentPlist(options: LaunchAgentOptions): string {
+  const logPath =
+    options.logPath ?? path.join(os.homedir(), "Library", "Logs", `${options.label}.log`);
+  const plist: Record<string, PlistValue> = {
+    Label: options.label,
+    ProgramArguments: options.programArguments,
+  };
+  if (options.workingDirectory !== undefined) {
+    plist.WorkingDirectory = options.workingDirectory;
+  }
+  if (options.environment !== undefined) {
+    plist.EnvironmentVariables = options.environment;
+  }
+  plist.RunAtLoad = true;
+  // Restart after crashes, but not after a clean shutdown. 'sync' exits with
+  // status 0 on errors that a restart would only repeat.
+  plist.KeepAlive = { SuccessfulExit: false };
+  plist.ProcessType = "Background";
+  plist.StandardOutPath = logPath;
+  plist.StandardErrorPath = logPath;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" ' +
+      '"http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+    plistValue(plist, ""),
+    "</plist>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Writes a launchd property list for a user agent. The agent is not loaded.
+ *
+ * @param plistPath - The file to write. Its name without `.plist` is used
+ *   as the label if `options.label` is not set.
+ * @returns The absolute path of the written file.
+ * @throws {InvalidPathError} If the file name does not end in `.plist`.
+ */
+export function writeLaunchAgentPlist(
+  plistPath: string,
+  options: Omit<LaunchAgentOptions, "label"> & { label?: string }
+): string {
+  const absolutePath = path.resolve(plistPath);
+  if (!absolutePath.endsWith(".plist")) {
+    throw new InvalidPathError(plistPath, "a launchd property list must end in .plist");
+  }
+  const label = options.label ?? path.basename(absolutePath, ".plist");
+  fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+  fs.writeFileSync(absolutePath, formatLaunchAgentPlist({ ...options, label }), "utf8");
+  return absolutePath;
+}
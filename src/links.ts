@@ -0,0 +1,476 @@
+/**
+ * Links between exported notes.
+ *
+ * Notes link to each other with URLs that only the Notes app understands,
+ * such as `applenotes:note/{id}`, `notes://showNote?identifier={id}` or
+ * `x-coredata://…/ICNote/p123`. Exported, they are dead links. `linkNotes`
+ * resolves them to the exported files of the notes they point at and
+ * rewrites them as relative paths:
+ *
+ * ```html
+ * <!-- Work/Plan -- p1.html -->
+ * <a href="applenotes:note/p7?ownerIdentifier=…">Budget</a>
+ * <!-- becomes -->
+ * <a href="Finance/Budget%20--%20p7.html">Budget</a>
+ * ```
+ *
+ * A link is resolved by the note id in its URL (matched against the ids in
+ * the file names, and the full ids in `index.json` when the export has
+ * metadata), and otherwise by its text, when exactly one note has that title.
+ * Links that cannot be resolved are left as they are and reported.
+ *
+ * Every link found is recorded in a `links.json` file in the export
+ * directory, with the notes linking to each note (its backlinks). Running
+ * `linkNotes` again, for example after notes were moved, resolves rewritten
+ * links again from what `links.json` recorded. Optionally, a "Linked from"
+ * section listing a note's backlinks is added to the end of the note.
+ *
+ * Both HTML and Markdown exports are supported.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { InvalidPathError } from "./errors";
+import { decodeEntities, escapeHtml, parseHtml, plainText } from "./html";
+import { readNoteIndex, shortNoteId } from "./metadata";
+import { ExportedNote, listExportedNotes } from "./notes";
+
+/** Name of the link index file in the export directory. */
+export const LINK_INDEX_FILE_NAME = "links.json";
+
+/** Current link index format version. */
+const LINK_INDEX_VERSION = 1;
+
+/** Note file extensions whose links are rewritten. */
+const NOTE_EXTENSIONS = ["html", "md"];
+
+/** URL schemes of links to notes. */
+const NOTE_LINK_SCHEMES = ["applenotes:", "notes:", "mobilenotes:", "x-coredata:"];
+
+/** Query parameters that can hold the id of the linked note. */
+const NOTE_ID_PARAMETERS = ["identifier", "noteid", "id"];
+
+/** Markers around the backlinks section added to notes. */
+const BACKLINKS_START = "<!-- backlinks -->";
+const BACKLINKS_END = "<!-- /backlinks -->";
+const BACKLINKS_PATTERN = /<!-- backlinks -->[\s\S]*?<!-- \/backlinks -->\n?/g;
+
+/** Links in HTML notes. The href cannot contain its own quote character. */
+const HTML_LINK_PATTERN = /(<a\b[^>]*?\shref\s*=\s*)(["'])([^"']*)\2([^>]*>)([\s\S]*?)<\/a>/gi;
+
+/** Links in Markdown notes, with plain or `<angle-bracketed>` destinations. */
+const MARKDOWN_LINK_PATTERN = /(?<!!)\[((?:[^[\]\\]|\\.)*)\]\((<[^>\n]*>|[^)\s]+)\)/g;
+
+/**
+ * Options for `linkNotes`.
+ */
+export interface LinkOptions {
+  /**
+   * Add a "Linked from" section to the end of every note other notes link
+   * to, listing those notes. Defaults to `false`.
+   */
+  backlinks?: boolean;
+}
+
+/**
+ * A link from one note to another.
+ */
+export interface NoteLink {
+  /** The link's original URL, as written by the Notes app. */
+  href: string;
+  /** The link text. */
+  text: string;
+  /** The id of the linked note, if the link was resolved. */
+  targetId?: string;
+  /** The linked note's file, relative to the export directory, if resolved. */
+  target?: string;
+  /** The relative URL the link was rewritten to, if resolved. */
+  url?: string;
+}
+
+/**
+ * A note in the link index.
+ */
+export interface LinkIndexEntry {
+  id: string;
+  title: string;
+  /** Links from this note to other notes. */
+  links: NoteLink[];
+  /** Files of the notes linking to this note, relative to the export directory. */
+  backlinks: string[];
+}
+
+/**
+ * The `links.json` file of an export directory.
+ */
+export interface LinkIndex {
+  version: number;
+  /**
+   * Notes with links or backlinks, by file path relative to the export
+   * directory, using `/` separators.
+   */
+  notes: Record<string, LinkIndexEntry>;
+}
+
+/**
+ * A link that could not be resolved to an exported note.
+ */
+export interface UnresolvedLink {
+  /** The file of the note containing the link, relative to the export directory. */
+  from: string;
+  href: string;
+  text: string;
+}
+
+/**
+ * The result of resolving the links of an export directory.
+ */
+export interface LinkResult {
+  /** Number of links to notes found. */
+  links: number;
+  /** Number of links resolved to exported notes. */
+  resolved: number;
+  /** Links that could not be resolved. */
+  unresolved: UnresolvedLink[];
+  /** Files of the notes that were rewritten, relative to the export directory. */
+  updated: string[];
+}
+
+/** A link found in a note file, with where it is. */
+interface FoundLink {
+  href: string;
+  text: string;
+  /** Rewrites the matched text with a new URL. */
+  replace: (url: string) => string;
+}
+
+/**
+ * Returns the ids a note link may refer to, or `undefined` if the URL is not
+ * a link to a note.
+ *
+ * @example
+ * ```typescript
+ * parseNoteLink('applenotes:note/p7?ownerIdentifier=abc'); // ['p7']
+ * parseNoteLink('x-coredata://STORE/ICNote/p7'); // ['x-coredata://STORE/ICNote/p7', 'p7']
+ * parseNoteLink('https://example.com'); // undefined
+ * ```
+ */
+export function parseNoteLink(href: string): string[] | undefined {
+  const lower = href.trim().toLowerCase();
+  if (!NOTE_LINK_SCHEMES.some((scheme) => lower.startsWith(scheme))) {
+    return undefined;
+  }
+  const ids = new Set<string>();
+  if (lower.startsWith("x-coredata:")) {
+    ids.add(href.trim());
+    ids.add(shortNoteId(href.trim()));
+  }
+  const notePath = /^[a-z-]+:(?:\/\/)?note\/([^/?#]+)/i.exec(href.trim());
+  if (notePath) {
+    ids.add(safeDecode(notePath[1]));
+  }
+  const query = href.indexOf("?");
+  if (query !== -1) {
+    for (const [name, value] of new URLSearchParams(href.slice(query + 1).split("#")[0])) {
+      if (NOTE_ID_PARAMETERS.includes(name.toLowerCase()) && value !== "") {
+        ids.add(value);
+      }
+    }
+  }
+  return [...ids];
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Reads the `links.json` file of an export directory.
+ *
+ * @returns The link index, or `undefined` if there is none or it cannot be read.
+ */
+export function readLinkIndex(exportDir: string): LinkIndex | undefined {
+  try {
+    const parsed = JSON.parse(
+      fs.readFileSync(path.join(exportDir, LINK_INDEX_FILE_NAME), "utf8")
+    ) as LinkIndex;
+    return parsed.notes && typeof parsed.notes === "object" ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds the relative URL of a note file from the directory of another.
+ */
+function relativeUrl(from: ExportedNote, to: ExportedNote): string {
+  const relative = path.posix.relative(from.folderPath.join("/"), to.relativePath);
+  // Parentheses would end a Markdown link destination
+  return relative
+    .split("/")
+    .map((segment) =>
+      segment === ".."
+        ? segment
+        : encodeURIComponent(segment).replace(/\(/g, "%28").replace(/\)/g, "%29")
+    )
+    .join("/");
+}
+
+function findLinks(note: ExportedNote, content: string): FoundLink[] {
+  const links: FoundLink[] = [];
+  if (note.extension === "html") {
+    for (const match of content.matchAll(HTML_LINK_PATTERN)) {
+      const [whole, before, quote, href, rest, inner] = match;
+      links.push({
+        href: decodeEntities(href),
+        text: plainText(parseHtml(inner)).trim(),
+        replace: (url) =>
+          whole.replace(
+            `${before}${quote}${href}${quote}${rest}`,
+            `${before}${quote}${escapeHtml(url)}${quote}${rest}`
+          ),
+      });
+    }
+    return links;
+  }
+  for (const match of content.matchAll(MARKDOWN_LINK_PATTERN)) {
+    const [, text, destination] = match;
+    links.push({
+      href: destination.startsWith("<") ? destination.slice(1, -1) : destination,
+      text: text.replace(/\\(.)/g, "$1").trim(),
+      replace: (url) => `[${text}](${/[\s()<>]/.test(url) ? `<${url}>` : url})`,
+    });
+  }
+  return links;
+}
+
+/**
+ * Rewrites the links found in a note with `rewrite`, which returns the new
+ * URL of a link or `undefined` to leave it.
+ */
+function rewriteLinks(
+  note: ExportedNote,
+  content: string,
+  rewrite: (link: FoundLink) => string | undefined
+): string {
+  const pattern = note.extension === "html" ? HTML_LINK_PATTERN : MARKDOWN_LINK_PATTERN;
+  const links = findLinks(note, content);
+  let index = 0;
+  return content.replace(pattern, (whole) => {
+    const link = links[index++];
+    const url = rewrite(link);
+    return url === undefined ? whole : link.replace(url);
+  });
+}
+
+/**
+ * Formats the backlinks section of an HTML note from its links.
+ */
+export function formatHtmlBacklinks(links: Array<{ href: string; title: string }>): string {
+  const items = links.map(
+    (link) => `<li><a href="${escapeHtml(link.href)}">${escapeHtml(link.title)}</a></li>`
+  );
+  return (
+    `${BACKLINKS_START}\n<div class="backlinks"><h2>Linked from</h2>` +
+    `<ul>${items.join("")}</ul></div>\n${BACKLINKS_END}`
+  );
+}
+
+function formatBacklinks(note: ExportedNote, sources: ExportedNote[]): string {
+  if (note.extension === "html") {
+    return formatHtmlBacklinks(
+      sources.map((source) => ({ href: relativeUrl(note, source), title: source.title }))
+    );
+  }
+  const items = sources.map(
+    (source) => `- [${source.title.replace(/[[\]\\]/g, "\\$&")}](${relativeUrl(note, source)})`
+  );
+  return `${BACKLINKS_START}\n## Linked from\n\n${items.join("\n")}\n${BACKLINKS_END}`;
+}
+
+/**
+ * Splits the backlinks sections added by `linkNotes` off a note, so a stage
+ * that rewrites the note can put them back unchanged.
+ *
+ * @returns The note without the sections, and the sections.
+ */
+export function splitBacklinks(content: string): { content: string; backlinks: string } {
+  const sections = content.match(BACKLINKS_PATTERN) ?? [];
+  return { content: content.replace(BACKLINKS_PATTERN, ""), backlinks: sections.join("") };
+}
+
+function addBacklinks(note: ExportedNote, content: string, section: string): string {
+  if (note.extension === "html") {
+    const bodyEnd = content.search(/<\/body>/i);
+    if (bodyEnd !== -1) {
+      return `${content.slice(0, bodyEnd)}${section}\n${content.slice(bodyEnd)}`;
+    }
+    return `${content.replace(/\n*$/, "")}\n${section}\n`;
+  }
+  return `${content.replace(/\n*$/, "")}\n\n${section}\n`;
+}
+
+/**
+ * Resolves the links between the notes of an export directory, rewrites
+ * them as relative paths and records them in `links.json`.
+ *
+ * Run it again after the export changes: links rewritten before are
+ * resolved again, so they follow notes that moved. Notes whose links do not
+ * change are left untouched.
+ *
+ * @param exportDir - The export directory.
+ * @param options - Whether to add backlinks sections to the notes.
+ * @returns The links found, and those that could not be resolved.
+ * @throws {InvalidPathError} If the export directory does not exist.
+ *
+ * @example
+ * ```typescript
+ * import { linkNotes } from 'apple-notes-exporter';
+ *
+ * const { resolved, unresolved } = linkNotes('./exports', { backlinks: true });
+ * for (const link of unresolved) {
+ *   console.log(`${link.from}: no note for '${link.text}' (${link.href})`);
+ * }
+ * ```
+ */
+export function linkNotes(exportDir: string, options: LinkOptions = {}): LinkResult {
+  const root = path.resolve(exportDir);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new InvalidPathError(exportDir, "export directory does not exist");
+  }
+
+  const notes = listExportedNotes(root, NOTE_EXTENSIONS);
+  const previous = readLinkIndex(root);
+  const previousById = new Map(
+    Object.values(previous?.notes ?? {}).map((entry) => [entry.id, entry])
+  );
+
+  // Every id a link may use for a note, lower-cased: UUIDs are case-insensitive
+  const notesById = new Map<string, ExportedNote>();
+  const notesByTitle = new Map<string, ExportedNote[]>();
+  const notesByPath = new Map(notes.map((note) => [note.relativePath, note]));
+  for (const note of notes) {
+    notesById.set(note.id.toLowerCase(), note);
+    const title = note.title.trim().toLowerCase();
+    notesByTitle.set(title, [...(notesByTitle.get(title) ?? []), note]);
+  }
+  for (const entry of readNoteIndex(root)?.notes ?? []) {
+    const note = notesByPath.get(entry.path);
+    if (note) {
+      notesById.set(entry.noteId.toLowerCase(), note);
+    }
+  }
+
+  const resolve = (from: ExportedNote, ids: string[], text: string): ExportedNote | undefined => {
+    for (const id of ids) {
+      const note = notesById.get(id.toLowerCase());
+      if (note) {
+        return note;
+      }
+    }
+    const candidates = notesByTitle.get(text.toLowerCase()) ?? [];
+    if (candidates.length === 1) {
+      return candidates[0];
+    }
+    // Several notes have the title: only a note in the same folder is a safe guess
+    const sameFolder = candidates.filter(
+      (note) => note.folderPath.join("/") === from.folderPath.join("/")
+    );
+    return sameFolder.length === 1 ? sameFolder[0] : undefined;
+  };
+
+  const result: LinkResult = { links: 0, resolved: 0, unresolved: [], updated: [] };
+  const entries = new Map<string, LinkIndexEntry>();
+  const contents = new Map<ExportedNote, { original: string; updated: string }>();
+
+  for (const note of notes) {
+    const original = fs.readFileSync(note.filePath, "utf8");
+    const recorded = previous?.notes[note.relativePath] ?? previousById.get(note.id);
+    const links: NoteLink[] = [];
+
+    const updated = rewriteLinks(note, original.replace(BACKLINKS_PATTERN, ""), (link) => {
+      let href = link.href;
+      let ids = parseNoteLink(href);
+      if (!ids) {
+        // A link rewritten by an earlier run
+        const earlier = recorded?.links.find((candidate) => candidate.url === link.href);
+        if (!earlier) {
+          return undefined;
+        }
+        href = earlier.href;
+        ids = [...(earlier.targetId ? [earlier.targetId] : []), ...(parseNoteLink(href) ?? [])];
+      }
+
+      result.links++;
+      const target = resolve(note, ids, link.text);
+      if (!target) {
+        links.push({ href, text: link.text });
+        result.unresolved.push({ from: note.relativePath, href, text: link.text });
+        return href;
+      }
+      const url = relativeUrl(note, target);
+      links.push({ href, text: link.text, targetId: target.id, target: target.relativePath, url });
+      result.resolved++;
+      return url;
+    });
+
+    contents.set(note, { original, updated });
+    if (links.length > 0) {
+      entries.set(note.relativePath, { id: note.id, title: note.title, links, backlinks: [] });
+    }
+  }
+
+  // Backlinks, in the order of the linking notes' paths
+  const backlinks = new Map<string, ExportedNote[]>();
+  for (const [from, entry] of entries) {
+    for (const link of entry.links) {
+      if (!link.target || link.target === from) {
+        continue;
+      }
+      const sources = backlinks.get(link.target) ?? [];
+      if (!sources.some((source) => source.relativePath === from)) {
+        sources.push(notesByPath.get(from)!);
+      }
+      backlinks.set(link.target, sources);
+    }
+  }
+  for (const [target, sources] of backlinks) {
+    const note = notesByPath.get(target)!;
+    const entry = entries.get(target) ?? {
+      id: note.id,
+      title: note.title,
+      links: [],
+      backlinks: [],
+    };
+    entry.backlinks = sources.map((source) => source.relativePath);
+    entries.set(target, entry);
+  }
+
+  for (const note of notes) {
+    let { original, updated } = contents.get(note)!;
+    const sources = backlinks.get(note.relativePath);
+    if (options.backlinks && sources) {
+      updated = addBacklinks(note, updated, formatBacklinks(note, sources));
+    }
+    if (updated !== original) {
+      fs.writeFileSync(note.filePath, updated, "utf8");
+      result.updated.push(note.relativePath);
+    }
+  }
+
+  const sorted = [...entries].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const index: LinkIndex = { version: LINK_INDEX_VERSION, notes: Object.fromEntries(sorted) };
+  const indexPath = path.join(root, LINK_INDEX_FILE_NAME);
+  const serialized = `${JSON.stringify(index, null, 2)}\n`;
+  // Exports without links get no index, and an unchanged index is not rewritten
+  if (previous ? fs.readFileSync(indexPath, "utf8") !== serialized : entries.size > 0) {
+    fs.writeFileSync(indexPath, serialized, "utf8");
+  }
+  return result;
+}
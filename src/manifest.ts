@@ -0,0 +1,324 @@
+/**
+ * Incremental export support.
+ *
+ * An incremental export runs the script into a staging directory and then
+ * synchronizes the result into the output directory, using a manifest file
+ * stored alongside the notes to detect what changed since the previous run:
+ *
+ * - notes that are new are written,
+ * - notes whose content or location changed are rewritten,
+ * - unchanged notes are left untouched (their files keep their timestamps),
+ * - notes that no longer exist are deleted or moved to an archive directory.
+ *
+ * Notes left out of an export by filters still exist, so their files are
+ * kept as they were.
+ *
+ * @module
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  listExportedNotes,
+  NOTE_NAMES_FILE_NAME,
+  NoteNames,
+  readNoteNames,
+  writeNoteNames,
+} from "./notes";
+
+/** Name of the manifest file in the output directory. */
+export const MANIFEST_FILE_NAME = ".notes-manifest.json";
+
+/** Name of the directory removed notes are archived into. */
+export const ARCHIVE_DIR_NAME = ".archive";
+
+/** Current manifest format version. */
+const MANIFEST_VERSION = 1;
+
+/** Note file extensions tracked in the manifest. */
+const NOTE_EXTENSIONS = ["html", "md"];
+
+/**
+ * What to do with the files of notes that no longer exist.
+ *
+ * - `delete`: remove the files.
+ * - `archive`: move them into `.archive/{timestamp}/` in the output directory.
+ */
+export type RemovedNotesAction = "delete" | "archive";
+
+/**
+ * Options for incremental exports.
+ */
+export interface IncrementalOptions {
+  /** What to do with notes that no longer exist. Defaults to `"delete"`. */
+  removedNotes?: RemovedNotesAction;
+  /**
+   * Ids of notes that still exist but were left out of the export, such as
+   * notes excluded by filters or notes the script failed to export. Their
+   * files and manifest entries are kept.
+   */
+  excludedNotes?: string[];
+  /**
+   * Modification dates of the notes in Notes (ISO 8601), by note id. Manifest
+   * entries record them as `modifiedAt` instead of the time of the export.
+   */
+  noteModifiedAt?: Map<string, string>;
+}
+
+/**
+ * A note recorded in the manifest.
+ */
+export interface ManifestEntry {
+  /** The note id. */
+  id: string;
+  /** The note file path relative to the output directory, using `/` separators. */
+  path: string;
+  /** SHA-256 hash of the note file contents. */
+  hash: string;
+  /**
+   * When the note was last modified in Notes (ISO 8601), if the export read
+   * the note dates; otherwise when the exporter last saw the note's content
+   * or location change.
+   */
+  modifiedAt: string;
+}
+
+/**
+ * The manifest stored in an incrementally exported directory.
+ */
+export interface Manifest {
+  version: number;
+  /** When the manifest last changed (ISO 8601). */
+  updatedAt: string;
+  /** Manifest entries keyed by note id. */
+  notes: Record<string, ManifestEntry>;
+}
+
+/**
+ * The changes applied by an incremental export.
+ */
+export interface IncrementalResult {
+  /** Relative paths of notes that were written for the first time. */
+  added: string[];
+  /** Relative paths of notes that were rewritten because they changed. */
+  updated: string[];
+  /** Relative paths of notes that were deleted or archived. */
+  removed: string[];
+  /** Number of notes that were left untouched. */
+  unchanged: number;
+  /** The archive directory removed notes were moved into, if any. */
+  archiveDir?: string;
+}
+
+function hashFile(filePath: string): string {
+  return createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+}
+
+function toNativePath(root: string, relativePath: string): string {
+  return path.join(root, ...relativePath.split("/"));
+}
+
+/**
+ * Removes `dir` and its empty parents, stopping at `root`. A directory whose
+ * only entry is its `.notes-names.json` file counts as empty.
+ */
+function removeEmptyDirectories(dir: string, root: string): void {
+  let current = dir;
+  while (current !== root && current.startsWith(root)) {
+    const entries = fs.readdirSync(current);
+    if (entries.some((entry) => entry !== NOTE_NAMES_FILE_NAME)) {
+      return;
+    }
+    fs.rmSync(current, { recursive: true });
+    current = path.dirname(current);
+  }
+}
+
+/**
+ * Reads the manifest from an output directory.
+ *
+ * @returns The manifest, or `undefined` if the directory has none.
+ */
+export function readManifest(outputDir: string): Manifest | undefined {
+  const manifestPath = path.join(outputDir, MANIFEST_FILE_NAME);
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+  const parsed = JSON.parse(fs.readFileSync(manifestPath, "utf8")) as Partial<Manifest>;
+  return {
+    version: parsed.version ?? MANIFEST_VERSION,
+    updatedAt: parsed.updatedAt ?? new Date(0).toISOString(),
+    notes: parsed.notes ?? {},
+  };
+}
+
+/**
+ * Writes the manifest to an output directory.
+ */
+export function writeManifest(outputDir: string, manifest: Manifest): void {
+  const manifestPath = path.join(outputDir, MANIFEST_FILE_NAME);
+  fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+}
+
+/**
+ * Synchronizes a freshly exported staging directory into the output directory.
+ *
+ * Only the top-level folders present in the staging directory are considered,
+ * so several folders can be exported incrementally into the same output
+ * directory without removing each other's notes. Files that are not notes are
+ * copied when their contents differ.
+ *
+ * @param stagingDir - The directory the script exported into.
+ * @param outputDir - The output directory holding the previous export.
+ * @param options - Incremental export options.
+ * @returns The changes that were applied.
+ */
+export function applyIncrementalExport(
+  stagingDir: string,
+  outputDir: string,
+  options: IncrementalOptions = {}
+): IncrementalResult {
+  const now = new Date().toISOString();
+  const previous = readManifest(outputDir);
+  const manifest: Manifest = {
+    version: MANIFEST_VERSION,
+    updatedAt: now,
+    notes: { ...(previous?.notes ?? {}) },
+  };
+  const result: IncrementalResult = { added: [], updated: [], removed: [], unchanged: 0 };
+
+  const stagedNotes = listExportedNotes(stagingDir, NOTE_EXTENSIONS);
+  // Notes left out of the export still exist, so they are not removed either
+  const keptIds = new Set([
+    ...stagedNotes.map((note) => note.id),
+    ...(options.excludedNotes ?? []),
+  ]);
+  // Paths notes are written to. With naming templates, a note can take over
+  // the path of a removed or renamed note, so these paths are never deleted.
+  const notePaths = new Set(stagedNotes.map((note) => note.relativePath));
+
+  // Names files are copied from the staging directory, which lacks the notes
+  // left out of the export, so their names are carried over
+  const excludedNames = new Map<string, NoteNames>();
+  for (const id of options.excludedNotes ?? []) {
+    const entry = manifest.notes[id];
+    if (!entry) {
+      continue;
+    }
+    if (notePaths.has(entry.path)) {
+      // Another note is written in its place
+      delete manifest.notes[id];
+      continue;
+    }
+    const dir = path.posix.dirname(entry.path);
+    const name = path.posix.basename(entry.path).replace(/\.[^.]+$/, "");
+    const known = readNoteNames(toNativePath(outputDir, dir)).get(name);
+    if (known) {
+      const names = excludedNames.get(dir) ?? new Map();
+      excludedNames.set(dir, names.set(name, known));
+    }
+  }
+
+  // Only notes under the exported top-level folders can have been removed
+  const exportedRoots = fs
+    .readdirSync(stagingDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => `${entry.name}/`);
+
+  // Removed notes go first, so archived files are moved before other notes
+  // are written in their place
+  for (const entry of Object.values(manifest.notes)) {
+    if (keptIds.has(entry.id) || !exportedRoots.some((root) => entry.path.startsWith(root))) {
+      continue;
+    }
+
+    const filePath = toNativePath(outputDir, entry.path);
+    if (fs.existsSync(filePath)) {
+      if (options.removedNotes === "archive") {
+        result.archiveDir ??= path.join(outputDir, ARCHIVE_DIR_NAME, now.replace(/[:.]/g, "-"));
+        const archivedPath = toNativePath(result.archiveDir, entry.path);
+        fs.mkdirSync(path.dirname(archivedPath), { recursive: true });
+        fs.renameSync(filePath, archivedPath);
+      } else {
+        fs.unlinkSync(filePath);
+      }
+      removeEmptyDirectories(path.dirname(filePath), outputDir);
+    }
+
+    delete manifest.notes[entry.id];
+    result.removed.push(entry.path);
+  }
+
+  for (const note of stagedNotes) {
+    const hash = hashFile(note.filePath);
+    const entry = manifest.notes[note.id];
+    const targetPath = toNativePath(outputDir, note.relativePath);
+
+    if (entry && entry.hash === hash && entry.path === note.relativePath && fs.existsSync(targetPath)) {
+      result.unchanged++;
+      continue;
+    }
+
+    if (entry && entry.path !== note.relativePath && !notePaths.has(entry.path)) {
+      const oldPath = toNativePath(outputDir, entry.path);
+      if (fs.existsSync(oldPath)) {
+        fs.unlinkSync(oldPath);
+        removeEmptyDirectories(path.dirname(oldPath), outputDir);
+      }
+    }
+
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+    fs.copyFileSync(note.filePath, targetPath);
+    manifest.notes[note.id] = {
+      id: note.id,
+      path: note.relativePath,
+      hash,
+      modifiedAt: options.noteModifiedAt?.get(note.id) ?? now,
+    };
+    (entry ? result.updated : result.added).push(note.relativePath);
+  }
+
+  copyChangedFiles(stagingDir, outputDir, "", notePaths);
+  for (const [dir, names] of excludedNames) {
+    const dirPath = toNativePath(outputDir, dir);
+    writeNoteNames(dirPath, new Map([...readNoteNames(dirPath), ...names]));
+  }
+
+  // Leave the manifest as it was if nothing changed, so its timestamp stays put
+  if (!previous || result.added.length + result.updated.length + result.removed.length > 0) {
+    writeManifest(outputDir, manifest);
+  }
+  return result;
+}
+
+/**
+ * Copies files other than notes from the staging directory when they are new
+ * or their contents differ.
+ */
+function copyChangedFiles(
+  stagingDir: string,
+  outputDir: string,
+  relativeDir: string,
+  notePaths: Set<string>
+): void {
+  const sourceDir = toNativePath(stagingDir, relativeDir);
+  for (const entry of fs.readdirSync(sourceDir, { withFileTypes: true })) {
+    const relativePath = relativeDir === "" ? entry.name : `${relativeDir}/${entry.name}`;
+    const sourcePath = path.join(sourceDir, entry.name);
+    const targetPath = toNativePath(outputDir, relativePath);
+
+    if (entry.isDirectory()) {
+      fs.mkdirSync(targetPath, { recursive: true });
+      copyChangedFiles(stagingDir, outputDir, relativePath, notePaths);
+      continue;
+    }
+    if (notePaths.has(relativePath)) {
+      continue;
+    }
+    if (fs.existsSync(targetPath) && hashFile(targetPath) === hashFile(sourcePath)) {
+      continue;
+    }
+    fs.copyFileSync(sourcePath, targetPath);
+  }
+}
@@ -0,0 +1,430 @@
+/**
+ * HTML to Markdown conversion for exported notes.
+ *
+ * Apple Notes stores each line of a note in its own `<div>`, with
+ * `<div><br></div>` for blank lines, and uses ordinary HTML for headings,
+ * lists, tables and inline formatting. This module converts that HTML into
+ * CommonMark, using the GitHub-flavored extensions for tables, task lists and
+ * strikethrough where CommonMark has no equivalent.
+ *
+ * The conversion is pure TypeScript and works on any platform.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { HtmlElement, HtmlNode, parseHtml, textContent } from "./html";
+import { listExportedNotes } from "./notes";
+
+/** Elements rendered as blocks; everything else is treated as inline. */
+const BLOCK_ELEMENTS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "div",
+  "dl",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "html",
+  "main",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+]);
+
+/** Elements whose content is never rendered. */
+const SKIPPED_ELEMENTS = new Set(["head", "script", "style", "title"]);
+
+function isElement(node: HtmlNode): node is HtmlElement {
+  return node.type === "element";
+}
+
+function isTag<T extends string>(
+  node: HtmlNode,
+  ...tags: T[]
+): node is HtmlElement & { tag: T } {
+  return node.type === "element" && (tags as string[]).includes(node.tag);
+}
+
+function isBlock(node: HtmlNode): boolean {
+  return node.type === "element" && BLOCK_ELEMENTS.has(node.tag);
+}
+
+function hasClass(element: HtmlElement, pattern: RegExp): boolean {
+  return pattern.test(element.attrs.class ?? "");
+}
+
+/**
+ * Escapes characters that would otherwise be read as Markdown syntax.
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>])/g, "\\$1");
+}
+
+/**
+ * Escapes characters that start a block construct at the beginning of a line.
+ */
+function escapeLineStart(line: string): string {
+  return line
+    .replace(/^(\s*)([#>+-])(?=\s|$)/, "$1\\$2")
+    .replace(/^(\s*)(\d+)([.)])(?=\s|$)/, "$1$2\\$3");
+}
+
+/**
+ * Wraps inline content in a delimiter, keeping surrounding whitespace outside
+ * so the result is still a valid emphasis span.
+ */
+function wrapInline(content: string, delimiter: string): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)!;
+  if (match[2] === "") {
+    return content;
+  }
+  return `${match[1]}${delimiter}${match[2]}${delimiter}${match[3]}`;
+}
+
+function renderInline(nodes: HtmlNode[]): string {
+  let result = "";
+  for (const node of nodes) {
+    if (node.type === "text") {
+      result += escapeMarkdown(node.value.replace(/\s+/g, " "));
+      continue;
+    }
+    if (SKIPPED_ELEMENTS.has(node.tag)) {
+      continue;
+    }
+    switch (node.tag) {
+      case "br":
+        result += "\\\n";
+        break;
+      case "b":
+      case "strong":
+        result += wrapInline(renderInline(node.children), "**");
+        break;
+      case "i":
+      case "em":
+        result += wrapInline(renderInline(node.children), "*");
+        break;
+      case "s":
+      case "strike":
+      case "del":
+        result += wrapInline(renderInline(node.children), "~~");
+        break;
+      case "code":
+      case "tt":
+        result += renderCodeSpan(textContent(node.children));
+        break;
+      case "a": {
+        const text = renderInline(node.children).trim();
+        const href = node.attrs.href;
+        result += href ? `[${text || href}](${formatDestination(href)})` : text;
+        break;
+      }
+      case "img": {
+        const src = node.attrs.src;
+        if (src) {
+          result += `![${escapeMarkdown(node.attrs.alt ?? "")}](${formatDestination(src)})`;
+        }
+        break;
+      }
+      case "input":
+        break;
+      default:
+        result += isBlock(node)
+          ? ` ${renderBlocks(node.children).join(" ")} `
+          : renderInline(node.children);
+    }
+  }
+  return result;
+}
+
+function renderCodeSpan(code: string): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  const padding = code.startsWith("`") || code.endsWith("`") ? " " : "";
+  return `${fence}${padding}${code}${padding}${fence}`;
+}
+
+function formatDestination(url: string): string {
+  return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+}
+
+/**
+ * Cleans up rendered inline content: trims each line and drops a trailing
+ * hard break, which Markdown would otherwise render literally.
+ */
+function finishParagraph(inline: string): string {
+  return inline
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/(\\\n)+$/, "")
+    .replace(/\\$/, "")
+    .trim();
+}
+
+/**
+ * Renders a list of nodes as Markdown blocks. Runs of inline nodes become
+ * paragraphs; block elements are rendered by `renderBlock`.
+ */
+function renderBlocks(nodes: HtmlNode[]): string[] {
+  const blocks: string[] = [];
+  let inlineRun: HtmlNode[] = [];
+
+  const flush = (): void => {
+    const paragraph = finishParagraph(renderInline(inlineRun));
+    if (paragraph !== "") {
+      blocks.push(paragraph.split("\n").map(escapeLineStart).join("\n"));
+    }
+    inlineRun = [];
+  };
+
+  for (const node of nodes) {
+    if (isBlock(node)) {
+      flush();
+      blocks.push(...renderBlock(node as HtmlElement));
+    } else {
+      inlineRun.push(node);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+function renderBlock(element: HtmlElement): string[] {
+  switch (element.tag) {
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const text = finishParagraph(renderInline(element.children)).replace(/\\?\n/g, " ");
+      return text === "" ? [] : [`${"#".repeat(Number(element.tag[1]))} ${text}`];
+    }
+    case "ul":
+    case "ol": {
+      const list = renderList(element);
+      return list === "" ? [] : [list];
+    }
+    case "table": {
+      const table = renderTable(element);
+      return table === "" ? [] : [table];
+    }
+    case "blockquote":
+      return renderBlocks(element.children).map((block) =>
+        block
+          .split("\n")
+          .map((line) => (line === "" ? ">" : `> ${line}`))
+          .join("\n")
+      );
+    case "pre": {
+      const code = textContent(element.children).replace(/\n$/, "");
+      const longestRun = Math.max(2, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+      const fence = "`".repeat(longestRun + 1);
+      return [`${fence}\n${code}\n${fence}`];
+    }
+    case "hr":
+      return ["---"];
+    default:
+      return renderBlocks(element.children);
+  }
+}
+
+/**
+ * Returns whether a list item is a checked or unchecked checklist item, or
+ * `undefined` if it is not part of a checklist. Notes marks checklist items
+ * with a checkbox or with classes, depending on its version.
+ */
+export function checklistItemState(list: HtmlElement, item: HtmlElement): boolean | undefined {
+  const checkbox = findCheckbox(item.children);
+  if (checkbox) {
+    return "checked" in checkbox.attrs;
+  }
+  if (hasClass(item, /\bchecked\b|\bdone\b/)) {
+    return true;
+  }
+  if (hasClass(list, /checklist/i) || hasClass(item, /unchecked|todo/i)) {
+    return false;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the task marker for a list item, or an empty string if the item is
+ * not part of a checklist.
+ */
+function taskMarker(list: HtmlElement, item: HtmlElement): string {
+  const checked = checklistItemState(list, item);
+  return checked === undefined ? "" : checked ? "[x] " : "[ ] ";
+}
+
+function findCheckbox(nodes: HtmlNode[]): HtmlElement | undefined {
+  for (const node of nodes) {
+    if (node.type !== "element") {
+      continue;
+    }
+    if (node.tag === "input" && (node.attrs.type ?? "").toLowerCase() === "checkbox") {
+      return node;
+    }
+    if (node.tag === "ul" || node.tag === "ol") {
+      continue;
+    }
+    const nested = findCheckbox(node.children);
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+function indent(text: string, width: number): string {
+  const padding = " ".repeat(width);
+  return text
+    .split("\n")
+    .map((line) => (line === "" ? line : `${padding}${line}`))
+    .join("\n");
+}
+
+function renderList(list: HtmlElement): string {
+  const ordered = list.tag === "ol";
+  let number = Number(list.attrs.start ?? "1");
+  if (!Number.isFinite(number)) {
+    number = 1;
+  }
+
+  const items: string[] = [];
+  for (const child of list.children) {
+    if (isTag(child, "ul", "ol")) {
+      // Notes nests lists directly inside lists; attach them to the previous item.
+      const nested = renderList(child);
+      if (nested === "") {
+        continue;
+      }
+      if (items.length === 0) {
+        items.push(nested);
+      } else {
+        const markerWidth = ordered ? `${number - 1}. `.length : 2;
+        items[items.length - 1] += `\n${indent(nested, markerWidth)}`;
+      }
+      continue;
+    }
+    if (!isTag(child, "li")) {
+      continue;
+    }
+
+    const marker = ordered ? `${number}. ` : "- ";
+    number++;
+    const blocks = renderBlocks(child.children);
+    const task = taskMarker(list, child);
+    const [first = "", ...rest] = blocks;
+    let item = `${marker}${task}${indent(first, marker.length).trimStart()}`;
+    if (rest.length > 0) {
+      item += `\n${indent(rest.join("\n"), marker.length)}`;
+    }
+    items.push(item.trimEnd());
+  }
+
+  return items.join("\n");
+}
+
+function renderTable(table: HtmlElement): string {
+  const rows: string[][] = [];
+  const collectRows = (nodes: HtmlNode[]): void => {
+    for (const node of nodes) {
+      if (!isElement(node)) {
+        continue;
+      }
+      if (node.tag === "tr") {
+        rows.push(
+          node.children
+            .filter((cell): cell is HtmlElement => isTag(cell, "td", "th"))
+            .map((cell) =>
+              renderBlocks(cell.children)
+                .join(" ")
+                .replace(/\\?\n/g, " ")
+                .replace(/\|/g, "\\|")
+                .trim()
+            )
+        );
+      } else if (node.tag !== "table") {
+        collectRows(node.children);
+      }
+    }
+  };
+  collectRows(table.children);
+
+  if (rows.length === 0) {
+    return "";
+  }
+
+  const columns = Math.max(...rows.map((row) => row.length));
+  const formatRow = (row: string[]): string => {
+    const cells = Array.from({ length: columns }, (_, i) => row[i] ?? "");
+    return `| ${cells.join(" | ")} |`;
+  };
+
+  const [header, ...body] = rows;
+  return [
+    formatRow(header),
+    `| ${Array.from({ length: columns }, () => "---").join(" | ")} |`,
+    ...body.map(formatRow),
+  ].join("\n");
+}
+
+/**
+ * Converts Apple Notes HTML into Markdown.
+ *
+ * @param html - The note HTML (a fragment or a full document).
+ * @returns The Markdown text, ending with a single newline (or empty if the
+ *   note has no content).
+ *
+ * @example
+ * ```typescript
+ * htmlToMarkdown('<div><h1>Title</h1></div><div>Some <b>bold</b> text</div>');
+ * // => '# Title\n\nSome **bold** text\n'
+ * ```
+ */
+export function htmlToMarkdown(html: string): string {
+  const markdown = renderBlocks(parseHtml(html)).join("\n\n");
+  return markdown === "" ? "" : `${markdown}\n`;
+}
+
+/**
+ * Converts every exported HTML note in a directory to Markdown in place.
+ *
+ * Each `{note_title} -- {id}.html` file is replaced by a
+ * `{note_title} -- {id}.md` file in the same directory, so the folder
+ * hierarchy is preserved.
+ *
+ * @param exportDir - The export directory.
+ * @returns The absolute paths of the written Markdown files.
+ */
+export function convertExportToMarkdown(exportDir: string): string[] {
+  const written: string[] = [];
+  for (const note of listExportedNotes(exportDir)) {
+    const html = fs.readFileSync(note.filePath, "utf8");
+    const markdownPath = path.join(
+      path.dirname(note.filePath),
+      `${path.basename(note.filePath, path.extname(note.filePath))}.md`
+    );
+    fs.writeFileSync(markdownPath, htmlToMarkdown(html), "utf8");
+    fs.unlinkSync(note.filePath);
+    written.push(markdownPath);
+  }
+  return written;
+}
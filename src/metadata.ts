@@ -0,0 +1,418 @@
+/**
+ * Per-note metadata.
+ *
+ * Exported file names only carry a note's title and id. With metadata
+ * enabled, the exporter also asks the Notes app for each note's dates,
+ * account, folder path and status, using a small AppleScript bundled with
+ * this package, and records them:
+ *
+ * - HTML exports get a JSON sidecar next to each note (`{note_title} -- {id}.json`).
+ * - Markdown exports get YAML front matter at the top of each note.
+ * - The output directory gets an `index.json` catalog of every exported note.
+ *
+ * The metadata script prints one tab-separated line per note:
+ *
+ * ```text
+ * Time zone offset:	3600
+ * Note metadata:	x-coredata://…/ICNote/p1	2024-01-02T09:30:00	2024-03-04T18:00:00	false	false		iCloud	Plan	Work	Projects
+ * ```
+ *
+ * The fields are the full note id, creation and modification dates (local
+ * time), locked, shared and pinned flags (empty when unknown), account, title
+ * and the folder path. The time zone offset, in seconds east of UTC, turns the
+ * local dates into ISO 8601 timestamps.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { TempFileError } from "./errors";
+import { ExportedNote, listExportedNotes } from "./notes";
+
+/** The catalog of exported notes, written to the output directory. */
+export const NOTE_INDEX_FILE_NAME = "index.json";
+
+/** Current note index format version. */
+const NOTE_INDEX_VERSION = 1;
+
+/** Note file extensions metadata is written for. */
+const NOTE_EXTENSIONS = ["html", "md"];
+
+const TIME_ZONE_PREFIX = "Time zone offset:\t";
+const NOTE_METADATA_PREFIX = "Note metadata:\t";
+
+/**
+ * Metadata of an exported note.
+ */
+export interface NoteMetadata {
+  /** The note id used in the exported file name. */
+  id: string;
+  /** The full note id assigned by the Notes app, e.g. `x-coredata://…/ICNote/p123`. */
+  noteId: string;
+  title: string;
+  /** The account the note belongs to, if known. */
+  account?: string;
+  /** Folder names from the account root down to the note's folder. */
+  folderPath: string[];
+  /** When the note was created (ISO 8601), if known. */
+  createdAt?: string;
+  /** When the note was last modified (ISO 8601), if known. */
+  modifiedAt?: string;
+  /**
+   * Whether the note is pinned. The Notes scripting dictionary does not
+   * expose this, so it is only set by runners that know it.
+   */
+  pinned?: boolean;
+  /** Whether the note is password protected, if known. */
+  locked?: boolean;
+  /** Whether the note is shared with other people, if known. */
+  shared?: boolean;
+  /** The note file, relative to the output directory, using `/` separators. */
+  path: string;
+}
+
+/**
+ * The `index.json` catalog of an output directory.
+ */
+export interface NoteIndex {
+  version: number;
+  /** When the index last changed (ISO 8601). */
+  updatedAt: string;
+  /** Every exported note, sorted by path. */
+  notes: NoteMetadata[];
+}
+
+/**
+ * AppleScript printing the metadata of every note in a folder and its
+ * subfolders. Takes the same `Folder` or `Account:Folder` spec as the
+ * exporter's script and finds the folder the same way (breadth-first).
+ */
+export const METADATA_SCRIPT = `on run argv
+	if (count of argv) < 2 or item 1 of argv is not "metadata" then
+		error "Usage: metadata <folder>" number 2
+	end if
+	set folderSpec to item 2 of argv
+	set accountName to missing value
+	set folderName to folderSpec
+	set AppleScript's text item delimiters to ":"
+	if (count of text items of folderSpec) > 1 then
+		set accountName to text item 1 of folderSpec
+		set folderName to (text items 2 thru -1 of folderSpec) as text
+	end if
+	set AppleScript's text item delimiters to ""
+
+	set outputLines to {"Time zone offset:" & tab & (time to GMT)}
+	tell application "Notes"
+		set targetFolder to missing value
+		set targetAccount to missing value
+		repeat with acc in accounts
+			if accountName is missing value or name of acc is accountName then
+				set targetFolder to my findFolder(folders of acc, folderName)
+				if targetFolder is not missing value then
+					set targetAccount to name of acc
+					exit repeat
+				end if
+			end if
+		end repeat
+		if targetFolder is missing value then
+			error "Could not find folder named: " & folderName number 1
+		end if
+		set parentPath to my parentFolderPath(targetFolder)
+	end tell
+	set outputLines to outputLines & my describeFolder(targetFolder, targetAccount, parentPath)
+
+	set AppleScript's text item delimiters to linefeed
+	set output to outputLines as text
+	set AppleScript's text item delimiters to ""
+	return output
+end run
+
+on findFolder(topFolders, folderName)
+	tell application "Notes"
+		set queue to topFolders as list
+		repeat while (count of queue) > 0
+			set candidate to item 1 of queue
+			if (count of queue) > 1 then
+				set queue to items 2 thru -1 of queue
+			else
+				set queue to {}
+			end if
+			if name of candidate is folderName then return candidate
+			set queue to queue & (folders of candidate as list)
+		end repeat
+	end tell
+	return missing value
+end findFolder
+
+on parentFolderPath(f)
+	set names to {}
+	tell application "Notes"
+		set current to container of f
+		repeat while class of current is folder
+			set beginning of names to my clean(name of current)
+			set current to container of current
+		end repeat
+	end tell
+	return names
+end parentFolderPath
+
+on describeFolder(f, accountName, parentPath)
+	set outputLines to {}
+	tell application "Notes"
+		set folderPath to parentPath & {my clean(name of f)}
+		repeat with n in notes of f
+			set fields to {"Note metadata:", id of n, my isoDate(creation date of n), my isoDate(modification date of n), (password protected of n) as text, (shared of n) as text, "", my clean(accountName), my clean(name of n)} & folderPath
+			set AppleScript's text item delimiters to tab
+			set end of outputLines to fields as text
+			set AppleScript's text item delimiters to ""
+		end repeat
+		repeat with subfolder in folders of f
+			set outputLines to outputLines & my describeFolder(subfolder, accountName, folderPath)
+		end repeat
+	end tell
+	return outputLines
+end describeFolder
+
+on isoDate(d)
+	return d as «class isot» as string
+end isoDate
+
+on clean(value)
+	set AppleScript's text item delimiters to {tab, return, linefeed}
+	set parts to text items of (value as text)
+	set AppleScript's text item delimiters to " "
+	set cleaned to parts as text
+	set AppleScript's text item delimiters to ""
+	return cleaned
+end clean
+`;
+
+/**
+ * Writes `METADATA_SCRIPT` to a temporary file.
+ *
+ * @returns The script path. Remove its directory when done.
+ * @throws {TempFileError} If the file cannot be written.
+ */
+export function writeMetadataScript(): string {
+  try {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "apple-notes-metadata-"));
+    const scriptPath = path.join(dir, "note_metadata.applescript");
+    fs.writeFileSync(scriptPath, METADATA_SCRIPT, "utf8");
+    return scriptPath;
+  } catch (error) {
+    throw new TempFileError(error as Error);
+  }
+}
+
+/**
+ * Formats a time zone offset in seconds as `+HH:MM`.
+ */
+function formatOffset(seconds: number): string {
+  const sign = seconds < 0 ? "-" : "+";
+  const minutes = Math.abs(Math.round(seconds / 60));
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+  return `${sign}${hh}:${mm}`;
+}
+
+function parseFlag(value: string | undefined): boolean | undefined {
+  if (value === "true") {
+    return true;
+  }
+  if (value === "false") {
+    return false;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the id used in exported file names: the last component of the
+ * full note id.
+ */
+export function shortNoteId(noteId: string): string {
+  return noteId.slice(noteId.lastIndexOf("/") + 1);
+}
+
+/**
+ * Parses the output of the metadata script.
+ *
+ * @returns The metadata of each note, without `path`, keyed by the id used in
+ *   exported file names.
+ */
+export function parseMetadataOutput(output: string): Map<string, Omit<NoteMetadata, "path">> {
+  const notes = new Map<string, Omit<NoteMetadata, "path">>();
+  let offset = "";
+
+  for (const line of output.split(/\r?\n/)) {
+    if (line.startsWith(TIME_ZONE_PREFIX)) {
+      const seconds = Number(line.slice(TIME_ZONE_PREFIX.length).trim());
+      offset = Number.isFinite(seconds) ? formatOffset(seconds) : "";
+      continue;
+    }
+    if (!line.startsWith(NOTE_METADATA_PREFIX)) {
+      continue;
+    }
+
+    const [noteId, created, modified, locked, shared, pinned, account, title, ...folderPath] = line
+      .slice(NOTE_METADATA_PREFIX.length)
+      .split("\t");
+    if (!noteId || title === undefined) {
+      continue;
+    }
+
+    const id = shortNoteId(noteId);
+    notes.set(id, {
+      id,
+      noteId,
+      title,
+      account: account || undefined,
+      folderPath,
+      createdAt: created ? `${created}${offset}` : undefined,
+      modifiedAt: modified ? `${modified}${offset}` : undefined,
+      pinned: parseFlag(pinned),
+      locked: parseFlag(locked),
+      shared: parseFlag(shared),
+    });
+  }
+
+  return notes;
+}
+
+/**
+ * Formats metadata as YAML front matter. Strings are written as
+ * double-quoted scalars, which are also valid JSON strings.
+ */
+export function formatFrontMatter(metadata: NoteMetadata): string {
+  const lines = ["---"];
+  for (const [key, value] of Object.entries(metadata)) {
+    if (value === undefined || key === "path") {
+      continue;
+    }
+    const formatted = Array.isArray(value)
+      ? `[${value.map((item) => JSON.stringify(item)).join(", ")}]`
+      : JSON.stringify(value);
+    lines.push(`${key}: ${formatted}`);
+  }
+  lines.push("---", "");
+  return `${lines.join("\n")}\n`;
+}
+
+function sidecarPath(notePath: string): string {
+  return `${notePath.slice(0, -path.extname(notePath).length)}.json`;
+}
+
+function toMetadata(
+  note: ExportedNote,
+  known: Map<string, Omit<NoteMetadata, "path">>
+): NoteMetadata {
+  const metadata = known.get(note.id);
+  if (metadata) {
+    return { ...metadata, path: note.relativePath };
+  }
+  // Not reported by the script, e.g. created between the two runs
+  return {
+    id: note.id,
+    noteId: note.id,
+    title: note.title,
+    folderPath: note.folderPath,
+    path: note.relativePath,
+  };
+}
+
+/**
+ * Writes the metadata of each note in an export directory: YAML front matter
+ * for Markdown notes, and a JSON sidecar for other notes.
+ *
+ * @param exportDir - The export directory.
+ * @param known - Metadata from `parseMetadataOutput`.
+ * @returns The metadata of every note, with paths relative to `exportDir`.
+ */
+export function writeNoteMetadata(
+  exportDir: string,
+  known: Map<string, Omit<NoteMetadata, "path">>
+): NoteMetadata[] {
+  const written: NoteMetadata[] = [];
+  for (const note of listExportedNotes(exportDir, NOTE_EXTENSIONS)) {
+    const metadata = toMetadata(note, known);
+    if (note.extension === "md") {
+      const content = fs.readFileSync(note.filePath, "utf8");
+      fs.writeFileSync(note.filePath, `${formatFrontMatter(metadata)}${content}`, "utf8");
+    } else {
+      fs.writeFileSync(sidecarPath(note.filePath), `${JSON.stringify(metadata, null, 2)}\n`, "utf8");
+    }
+    written.push(metadata);
+  }
+  return written;
+}
+
+/**
+ * Reads the `index.json` catalog of an output directory.
+ *
+ * @returns The index, or `undefined` if there is none or it cannot be read.
+ */
+export function readNoteIndex(outputDir: string): NoteIndex | undefined {
+  try {
+    const parsed = JSON.parse(
+      fs.readFileSync(path.join(outputDir, NOTE_INDEX_FILE_NAME), "utf8")
+    ) as NoteIndex;
+    return Array.isArray(parsed.notes) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Updates the `index.json` catalog of an output directory after an export.
+ *
+ * Entries under the top-level directories written by the export, and entries
+ * for the exported notes under their previous paths, are replaced by `notes`;
+ * entries for other directories, written by other exports into the same
+ * output directory, are kept. Sidecars of notes whose files are gone are
+ * removed.
+ *
+ * @param outputDir - The output directory.
+ * @param notes - The metadata of the exported notes.
+ * @param exportedDirs - The top-level directories the export wrote.
+ */
+export function updateNoteIndex(
+  outputDir: string,
+  notes: NoteMetadata[],
+  exportedDirs: string[]
+): NoteIndex {
+  const ids = new Set(notes.map((note) => note.id));
+  const replaced = (entry: NoteMetadata): boolean =>
+    ids.has(entry.id) || exportedDirs.some((dir) => entry.path.startsWith(`${dir}/`));
+  const current = new Set(notes.map((note) => note.path));
+  const previousIndex = readNoteIndex(outputDir);
+  const previous = previousIndex?.notes ?? [];
+
+  for (const entry of previous) {
+    if (!replaced(entry) || current.has(entry.path)) {
+      continue;
+    }
+    const notePath = path.join(outputDir, ...entry.path.split("/"));
+    const sidecar = sidecarPath(notePath);
+    if (!fs.existsSync(notePath) && fs.existsSync(sidecar)) {
+      fs.unlinkSync(sidecar);
+    }
+  }
+
+  const entries = [...previous.filter((entry) => !replaced(entry)), ...notes].sort((a, b) =>
+    a.path.localeCompare(b.path)
+  );
+  // Keep the timestamp when no entry changed, so unchanged exports leave the file as it was
+  const changed = !previousIndex || JSON.stringify(entries) !== JSON.stringify(previous);
+  const index: NoteIndex = {
+    version: NOTE_INDEX_VERSION,
+    updatedAt: changed ? new Date().toISOString() : previousIndex.updatedAt,
+    notes: entries,
+  };
+  fs.writeFileSync(
+    path.join(outputDir, NOTE_INDEX_FILE_NAME),
+    `${JSON.stringify(index, null, 2)}\n`,
+    "utf8"
+  );
+  return index;
+}
@@ -0,0 +1,436 @@
+/**
+ * File naming for exported notes and folders.
+ *
+ * The AppleScript names note files `{note_title} -- {id}.html` and folder
+ * directories after the folders. With naming options, the export is renamed
+ * before it is written to the output directory:
+ *
+ * ```typescript
+ * await exportFolder('Work', './exports', {
+ *   naming: { template: '{date}-{slug}', folders: 'slug', maxLength: 100 },
+ * });
+ * // Work/2026-03-01-quarterly-plan.html instead of Work/Quarterly Plan -- p42.html
+ * ```
+ *
+ * Renamed files are portable: characters Windows does not allow are replaced
+ * with `-`, leading dots and trailing dots and spaces are removed, and
+ * reserved device names such as `CON` get a `_` suffix. Names are cut to a
+ * maximum length in UTF-8 bytes. Names that differ only in case collide on
+ * case-insensitive file systems (the macOS and Windows default), so such
+ * names get numbered suffixes: `plan.html`, `plan-2.html`. Notes claim names
+ * in id order, so the same notes get the same names on every run.
+ *
+ * Renamed notes may no longer carry their id in the file name, so each
+ * directory records its notes in a `.notes-names.json` file, which
+ * `listExportedNotes` reads.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { ASSETS_DIR_NAME } from "./attachments";
+import { InvalidNamingError } from "./errors";
+import type { NoteMetadata } from "./metadata";
+import { ExportedNote, listExportedNotes, NoteNames, writeNoteNames } from "./notes";
+
+/**
+ * How slugs are built from titles and folder names.
+ */
+export interface SlugOptions {
+  /** Replaces each run of other characters. Defaults to `"-"`. */
+  separator?: string;
+  /** Lowercase the slug. Defaults to `true`. */
+  lowercase?: boolean;
+  /**
+   * Only keep ASCII letters and digits, removing accents first (`é` becomes
+   * `e`). Defaults to `true`; when `false`, letters and digits of any script
+   * are kept.
+   */
+  ascii?: boolean;
+}
+
+/**
+ * How exported note files and folder directories are named.
+ */
+export interface NamingOptions {
+  /**
+   * The note file name, without extension. Placeholders: `{title}`, `{slug}`
+   * (the slugified title), `{id}`, `{date}` (the modification date, as
+   * `YYYY-MM-DD`), `{created}` and `{modified}`. Dates are read with the
+   * bundled metadata script. Defaults to `"{title} -- {id}"`.
+   */
+  template?: string;
+  /**
+   * How folder directories are named: `name`, the folder name (the
+   * default), or `slug`, the slugified folder name.
+   */
+  folders?: "name" | "slug";
+  /** How `{slug}` and slugified folder names are built. */
+  slug?: SlugOptions;
+  /**
+   * The longest file or directory name, in UTF-8 bytes, including the
+   * extension and any collision suffix. Defaults to 255, the limit of most
+   * file systems.
+   */
+  maxLength?: number;
+}
+
+/**
+ * A note to name.
+ */
+export interface NameSource {
+  id: string;
+  title: string;
+  /** The file extension without the dot, e.g. `html` or `md`. */
+  extension: string;
+  createdAt?: string;
+  modifiedAt?: string;
+}
+
+/**
+ * The names given to the entries of one directory.
+ */
+export interface DirectoryNames {
+  /** File names by note id. */
+  notes: Map<string, string>;
+  /** New directory names by current name. */
+  directories: Map<string, string>;
+}
+
+/**
+ * The result of renaming an export.
+ */
+export interface NamingResult {
+  /** Number of note files renamed. */
+  files: number;
+  /** Number of folder directories renamed. */
+  directories: number;
+}
+
+/** The template matching the file names the AppleScript writes. */
+export const DEFAULT_NAME_TEMPLATE = "{title} -- {id}";
+
+const DEFAULT_MAX_LENGTH = 255;
+/** Leaves room for a collision suffix and an extension. */
+const MIN_MAX_LENGTH = 16;
+
+const PLACEHOLDERS = ["title", "slug", "id", "date", "created", "modified"];
+const DATE_PLACEHOLDERS = ["date", "created", "modified"];
+const PLACEHOLDER = /\{([^{}]*)\}/g;
+
+const NOTE_EXTENSIONS = ["html", "md"];
+
+/** Characters Windows does not allow in file names, and control characters. */
+const UNSAFE_CHARACTERS = /[<>:"/\\|?*\u0000-\u001f\u007f]/g;
+/** Device names Windows reserves, with or without an extension. */
+const RESERVED_NAME = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i;
+/**
+ * Leading dots hide files, trailing dots and spaces are dropped by Windows,
+ * and separators left over from empty placeholders look odd.
+ */
+const TRIMMED = /^[\s._-]+|[\s._-]+$/g;
+
+/** Sorts note ids so that `p9` comes before `p10`. */
+const ID_ORDER = new Intl.Collator("en", { numeric: true });
+
+/**
+ * Converts text into a slug: runs of characters other than letters and
+ * digits become the separator.
+ *
+ * @example
+ * ```typescript
+ * slugify('Café: Plans & Ideas');                          // => 'cafe-plans-ideas'
+ * slugify('Café: Plans', { separator: '_', lowercase: false }); // => 'Cafe_Plans'
+ * slugify('会议 记录', { ascii: false });                    // => '会议-记录'
+ * ```
+ */
+export function slugify(text: string, options: SlugOptions = {}): string {
+  const ascii = options.ascii ?? true;
+  const words = ascii
+    ? text.normalize("NFKD").replace(/\p{M}/gu, "").split(/[^A-Za-z0-9]+/)
+    : text.normalize("NFC").split(/[^\p{L}\p{M}\p{N}]+/u);
+  const slug = words.filter((word) => word !== "").join(options.separator ?? "-");
+  return options.lowercase ?? true ? slug.toLowerCase() : slug;
+}
+
+/**
+ * Checks naming options without applying them.
+ *
+ * @throws {InvalidNamingError} If an option cannot be used.
+ */
+export function validateNaming(naming: NamingOptions): void {
+  if (naming.template !== undefined) {
+    const template = naming.template;
+    const placeholders = [...template.matchAll(PLACEHOLDER)].map((match) => match[1]);
+    const unknown = placeholders.find((name) => !PLACEHOLDERS.includes(name));
+    if (unknown !== undefined) {
+      const expected = PLACEHOLDERS.map((name) => `{${name}}`).join(", ");
+      throw new InvalidNamingError(
+        "template",
+        template,
+        `unknown placeholder {${unknown}} (expected one of: ${expected})`
+      );
+    }
+    if (placeholders.length === 0) {
+      throw new InvalidNamingError(
+        "template",
+        template,
+        "must contain a placeholder such as {title}"
+      );
+    }
+    if (/[/\\]/.test(template)) {
+      throw new InvalidNamingError("template", template, "must not contain / or \\");
+    }
+  }
+  if (naming.folders !== undefined && naming.folders !== "name" && naming.folders !== "slug") {
+    throw new InvalidNamingError("folders", naming.folders, "expected name or slug");
+  }
+  if (
+    naming.maxLength !== undefined &&
+    (!Number.isInteger(naming.maxLength) ||
+      naming.maxLength < MIN_MAX_LENGTH ||
+      naming.maxLength > DEFAULT_MAX_LENGTH)
+  ) {
+    throw new InvalidNamingError(
+      "maxLength",
+      naming.maxLength,
+      `expected a whole number from ${MIN_MAX_LENGTH} to ${DEFAULT_MAX_LENGTH}`
+    );
+  }
+  const separator = naming.slug?.separator;
+  if (
+    separator !== undefined &&
+    (separator.length > 3 || separator.replace(UNSAFE_CHARACTERS, "") !== separator)
+  ) {
+    throw new InvalidNamingError(
+      "slug separator",
+      separator,
+      "expected up to 3 characters allowed in file names, such as - or _"
+    );
+  }
+}
+
+/**
+ * Whether the naming template needs note dates, which only the metadata
+ * script reports.
+ */
+export function usesNoteDates(naming: NamingOptions | undefined): boolean {
+  return [...(naming?.template ?? "").matchAll(PLACEHOLDER)].some((match) =>
+    DATE_PLACEHOLDERS.includes(match[1])
+  );
+}
+
+function formatDate(value: string | undefined): string {
+  // Dates are ISO 8601 with the Mac's offset, so the date part is local
+  return value === undefined ? "undated" : value.slice(0, 10);
+}
+
+/**
+ * Makes a name safe to use on macOS, Linux and Windows.
+ */
+function toPortableName(name: string): string {
+  const portable = name.replace(UNSAFE_CHARACTERS, "-").replace(TRIMMED, "");
+  return RESERVED_NAME.test(portable) ? portable.replace(/^[^.]*/, "$&_") : portable;
+}
+
+/**
+ * Cuts a name so that it fits `maxLength` bytes together with its suffix and
+ * extension, without splitting characters.
+ */
+function fitName(base: string, suffix: string, extension: string, maxLength: number): string {
+  const tail = `${suffix}${extension === "" ? "" : `.${extension}`}`;
+  const budget = maxLength - Buffer.byteLength(tail);
+  let fitted = base;
+  if (Buffer.byteLength(fitted) > budget) {
+    const characters = Array.from(fitted);
+    while (characters.length > 0 && Buffer.byteLength(characters.join("")) > budget) {
+      characters.pop();
+    }
+    fitted = characters.join("").replace(TRIMMED, "");
+  }
+  return `${fitted}${tail}`;
+}
+
+/**
+ * Hands out names within one directory, adding `-2`, `-3`, ... to names
+ * already taken. Names are compared ignoring case and Unicode normalization.
+ */
+class NameClaims {
+  private readonly taken = new Set<string>();
+
+  constructor(taken: string[], private readonly maxLength: number) {
+    for (const name of taken) {
+      this.taken.add(this.key(name));
+    }
+  }
+
+  claim(base: string, extension: string): string {
+    for (let count = 1; ; count++) {
+      const name = fitName(base, count === 1 ? "" : `-${count}`, extension, this.maxLength);
+      if (!this.taken.has(this.key(name))) {
+        this.taken.add(this.key(name));
+        return name;
+      }
+    }
+  }
+
+  private key(name: string): string {
+    return name.normalize("NFC").toLowerCase();
+  }
+}
+
+/**
+ * Renders the note file name template, without extension.
+ */
+function renderNoteName(note: NameSource, naming: NamingOptions): string {
+  const name = (naming.template ?? DEFAULT_NAME_TEMPLATE).replace(
+    PLACEHOLDER,
+    (_match, placeholder: string) => {
+      switch (placeholder) {
+        case "title":
+          return note.title;
+        case "slug":
+          return slugify(note.title, naming.slug);
+        case "id":
+          return note.id;
+        case "date":
+          return formatDate(note.modifiedAt ?? note.createdAt);
+        case "created":
+          return formatDate(note.createdAt);
+        default:
+          return formatDate(note.modifiedAt);
+      }
+    }
+  );
+  return toPortableName(name) || toPortableName(note.id);
+}
+
+/**
+ * Names the notes and subdirectories of one directory.
+ *
+ * Subdirectories claim names first, in name order, then notes, in id order,
+ * so the result does not depend on the order of the arguments.
+ *
+ * @param notes - The notes in the directory.
+ * @param subdirectories - The current names of the folder directories in it.
+ * @param naming - The naming options.
+ * @param taken - Names of other entries the new names must not collide with.
+ */
+export function nameDirectoryEntries(
+  notes: NameSource[],
+  subdirectories: string[],
+  naming: NamingOptions,
+  taken: string[] = []
+): DirectoryNames {
+  const claims = new NameClaims(taken, naming.maxLength ?? DEFAULT_MAX_LENGTH);
+  const result: DirectoryNames = { notes: new Map(), directories: new Map() };
+
+  for (const name of [...subdirectories].sort()) {
+    const base =
+      naming.folders === "slug"
+        ? toPortableName(slugify(name, naming.slug)) || toPortableName(name)
+        : toPortableName(name);
+    result.directories.set(name, claims.claim(base || "untitled", ""));
+  }
+  for (const note of [...notes].sort((a, b) => ID_ORDER.compare(a.id, b.id))) {
+    result.notes.set(note.id, claims.claim(renderNoteName(note, naming), note.extension));
+  }
+  return result;
+}
+
+/**
+ * Renames the note files and folder directories of an export directory.
+ *
+ * @param exportDir - The directory an export was written to.
+ * @param naming - The naming options.
+ * @param metadata - Note metadata by note id, as read by the metadata script.
+ *   Needed for date placeholders, and used for titles when available.
+ * @returns How many files and directories were renamed.
+ * @throws {InvalidNamingError} If an option cannot be used.
+ *
+ * @example
+ * ```typescript
+ * import { applyNaming } from 'apple-notes-exporter';
+ *
+ * applyNaming('./exports', { template: '{slug}', folders: 'slug' });
+ * ```
+ */
+export function applyNaming(
+  exportDir: string,
+  naming: NamingOptions,
+  metadata?: Map<string, Omit<NoteMetadata, "path">>
+): NamingResult {
+  validateNaming(naming);
+  const root = path.resolve(exportDir);
+  const result: NamingResult = { files: 0, directories: 0 };
+
+  // Group the notes by directory before anything is renamed
+  const notesByDir = new Map<string, ExportedNote[]>();
+  for (const note of listExportedNotes(root, NOTE_EXTENSIONS)) {
+    const key = note.folderPath.join("/");
+    notesByDir.set(key, [...(notesByDir.get(key) ?? []), note]);
+  }
+
+  const visit = (dir: string, relativeDir: string): void => {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+    const notes = notesByDir.get(relativeDir) ?? [];
+    const noteFiles = new Set(notes.map((note) => path.basename(note.filePath)));
+    const subdirectories = entries
+      .filter(
+        (entry) =>
+          entry.isDirectory() && !entry.name.startsWith(".") && entry.name !== ASSETS_DIR_NAME
+      )
+      .map((entry) => entry.name);
+    const others = entries
+      .map((entry) => entry.name)
+      .filter((name) => !noteFiles.has(name) && !subdirectories.includes(name));
+
+    const sources = notes.map((note): NameSource => {
+      const known = metadata?.get(note.id);
+      return {
+        id: note.id,
+        title: known?.title ?? note.title,
+        extension: note.extension,
+        createdAt: known?.createdAt,
+        modifiedAt: known?.modifiedAt,
+      };
+    });
+    const names = nameDirectoryEntries(sources, subdirectories, naming, others);
+
+    // Rename in two steps, so a new name can be the old name of another entry
+    const moves: Array<[string, string]> = [
+      ...notes.map((note): [string, string] => [
+        path.basename(note.filePath),
+        names.notes.get(note.id)!,
+      ]),
+      ...subdirectories.map((name): [string, string] => [name, names.directories.get(name)!]),
+    ].filter(([from, to]) => from !== to);
+    moves.forEach(([from], index) => {
+      fs.renameSync(path.join(dir, from), path.join(dir, `.naming-${index}`));
+    });
+    moves.forEach(([, to], index) => {
+      fs.renameSync(path.join(dir, `.naming-${index}`), path.join(dir, to));
+    });
+    result.files += moves.filter(([from]) => noteFiles.has(from)).length;
+    result.directories += moves.filter(([from]) => !noteFiles.has(from)).length;
+
+    const recorded: NoteNames = new Map();
+    for (const source of sources) {
+      const fileName = names.notes.get(source.id)!;
+      recorded.set(fileName.slice(0, -(source.extension.length + 1)), {
+        id: source.id,
+        title: source.title,
+      });
+    }
+    writeNoteNames(dir, recorded);
+
+    for (const name of subdirectories) {
+      const childDir = relativeDir === "" ? name : `${relativeDir}/${name}`;
+      visit(path.join(dir, names.directories.get(name)!), childDir);
+    }
+  };
+
+  visit(root, "");
+  return result;
+}
@@ -0,0 +1,814 @@
+/**
+ * Normalization of exported HTML notes into clean, safe HTML5 documents.
+ *
+ * The HTML of a note is the fragment the Notes app stores: a `<div>` per
+ * line, inline styles, `<font>` and `<span>` wrappers, and whatever markup
+ * was pasted into the note, scripts included. Normalizing a note rewrites it
+ * as a standalone document with semantic markup:
+ *
+ * ```html
+ * <!-- before -->
+ * <div><h1>Plan</h1></div>
+ * <div><font color="#333"><b>Goals</b></font></div>
+ * <ul class="checklist"><li class="checked">Draft</li><ul><li>Review</li></ul></ul>
+ *
+ * <!-- after (inside <body>) -->
+ * <h1>Plan</h1>
+ * <p><strong>Goals</strong></p>
+ * <ul class="checklist">
+ * <li><input type="checkbox" disabled checked> Draft
+ * <ul>
+ * <li>Review</li>
+ * </ul>
+ * </li>
+ * </ul>
+ * ```
+ *
+ * Lines become paragraphs (large text becomes headings), nested lists are
+ * moved into their parent item, checklist items get checkboxes and tables
+ * lose their layout attributes. Only an allowlist of elements and
+ * attributes is kept: scripts, frames, forms, event handlers and
+ * `javascript:` URLs are removed, so the notes can be served as they are.
+ * Each note is wrapped in a document with a charset, a viewport and the note
+ * title, optionally with a stylesheet of your own.
+ *
+ * Normalizing a normalized note leaves it unchanged.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { InvalidPathError } from "./errors";
+import { escapeHtml, HtmlElement, HtmlNode, parseHtml, plainText } from "./html";
+import { formatHtmlBacklinks, splitBacklinks } from "./links";
+import { checklistItemState } from "./markdown";
+import { listExportedNotes } from "./notes";
+
+/** Inline elements that are kept, by their normalized tag. */
+const INLINE_ELEMENTS = new Set(["a", "strong", "em", "s", "u", "code", "sub", "sup", "mark"]);
+
+/** Presentational or obsolete tags and the element they become. */
+const INLINE_ALIASES: Record<string, string> = {
+  b: "strong",
+  i: "em",
+  strike: "s",
+  del: "s",
+  ins: "u",
+  tt: "code",
+  kbd: "code",
+  samp: "code",
+};
+
+/** Elements that can run scripts, load content or submit data; removed with their content. */
+const UNSAFE_ELEMENTS = new Set([
+  "applet",
+  "base",
+  "button",
+  "embed",
+  "form",
+  "frame",
+  "frameset",
+  "iframe",
+  "input",
+  "link",
+  "math",
+  "meta",
+  "noscript",
+  "select",
+  "script",
+  "svg",
+  "template",
+  "textarea",
+]);
+
+/** Elements that are not note content; removed with their content. */
+const SKIPPED_ELEMENTS = new Set(["head", "style", "title"]);
+
+/** Blocks that hold other blocks in the output. */
+const CONTAINER_BLOCKS = new Set(["blockquote", "ol", "table", "tbody", "thead", "tr", "ul"]);
+
+/** Blocks that hold inline content in the output. */
+const LEAF_BLOCKS = new Set(["h1", "h2", "h3", "h4", "h5", "h6", "li", "p", "pre", "td", "th"]);
+
+/** Elements without content or a closing tag in the output. */
+const VOID_ELEMENTS = new Set(["br", "hr", "img", "input"]);
+
+/** Attributes kept only when their value is a number. */
+const NUMERIC_ATTRIBUTES = new Set(["colspan", "height", "rowspan", "start", "width"]);
+
+/** URL schemes allowed in links and images; relative URLs are always allowed. */
+const SAFE_URL_SCHEMES = new Set([
+  "applenotes",
+  "data",
+  "ftp",
+  "http",
+  "https",
+  "mailto",
+  "mobilenotes",
+  "notes",
+  "sms",
+  "tel",
+  "x-coredata",
+]);
+
+/** Media types of `data:` URIs that a browser could run scripts from. */
+const UNSAFE_DATA_TYPES = new Set([
+  "application/javascript",
+  "application/xhtml+xml",
+  "application/xml",
+  "image/svg+xml",
+  "text/html",
+  "text/javascript",
+  "text/xml",
+]);
+
+/** Smallest font sizes, in pixels, of lines turned into headings. */
+const HEADING_FONT_SIZES: [number, string][] = [
+  [24, "h1"],
+  [18, "h2"],
+];
+
+/**
+ * Options for normalizing the notes of an export.
+ */
+export interface NormalizeOptions {
+  /** Path of a CSS file whose rules are embedded in every note. */
+  stylesheet?: string;
+}
+
+/**
+ * Options for normalizing a single note.
+ */
+export interface NoteDocumentOptions {
+  /** The document title. Defaults to the first line of the note. */
+  title?: string;
+  /** CSS rules embedded in the document. */
+  css?: string;
+}
+
+/**
+ * The result of normalizing the notes of an export.
+ */
+export interface NormalizeResult {
+  /** Number of notes that were rewritten. */
+  notes: number;
+  /**
+   * Number of unsafe elements, attributes and URLs removed, such as scripts,
+   * event handlers and `javascript:` links.
+   */
+  unsafe: number;
+}
+
+/** State of normalizing one note. */
+interface Context {
+  /** Number of unsafe elements, attributes and URLs removed so far. */
+  unsafe: number;
+}
+
+function element(
+  tag: string,
+  children: HtmlNode[] = [],
+  attrs: Record<string, string> = {}
+): HtmlElement {
+  return { type: "element", tag, attrs, children };
+}
+
+function isBlank(nodes: HtmlNode[]): boolean {
+  return nodes.every((node) =>
+    node.type === "text"
+      ? node.value.trim() === ""
+      : node.tag === "br" || (INLINE_ELEMENTS.has(node.tag) && isBlank(node.children))
+  );
+}
+
+function isBlockOutput(node: HtmlNode): boolean {
+  return (
+    node.type === "element" &&
+    (CONTAINER_BLOCKS.has(node.tag) || LEAF_BLOCKS.has(node.tag) || node.tag === "hr")
+  );
+}
+
+/**
+ * Returns a URL if it is safe to keep, or `undefined`.
+ *
+ * @param image - Whether the URL is an image source, which cannot run scripts.
+ */
+function safeUrl(url: string | undefined, image = false): string | undefined {
+  if (url === undefined) {
+    return undefined;
+  }
+  // Browsers ignore control characters and whitespace in the scheme
+  const compact = url.replace(/[\u0000- ]/g, "").toLowerCase();
+  const scheme = /^([a-z][a-z0-9+.-]*):/.exec(compact)?.[1];
+  if (scheme === undefined) {
+    return url.trim();
+  }
+  if (!SAFE_URL_SCHEMES.has(scheme)) {
+    return undefined;
+  }
+  if (scheme === "data") {
+    const mediaType = /^data:([^;,]*)/.exec(compact)![1];
+    if (UNSAFE_DATA_TYPES.has(mediaType) && !(image && mediaType === "image/svg+xml")) {
+      return undefined;
+    }
+  }
+  return url.trim();
+}
+
+/**
+ * Copies the attributes of an element that are kept, counting removed
+ * event handlers and unsafe URLs.
+ */
+function keepAttributes(
+  source: HtmlElement,
+  names: string[],
+  context: Context
+): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [name, value] of Object.entries(source.attrs)) {
+    if (name.startsWith("on")) {
+      context.unsafe++;
+      continue;
+    }
+    if (!names.includes(name)) {
+      continue;
+    }
+    if (name === "href" || name === "src") {
+      const url = safeUrl(value, source.tag === "img");
+      if (url === undefined) {
+        context.unsafe++;
+        continue;
+      }
+      attrs[name] = url;
+    } else if (NUMERIC_ATTRIBUTES.has(name)) {
+      if (/^\d+$/.test(value.trim())) {
+        attrs[name] = value.trim();
+      }
+    } else {
+      attrs[name] = value;
+    }
+  }
+  return attrs;
+}
+
+/** Returns the font size of an element in pixels, if it sets one. */
+function fontSize(node: HtmlElement): number | undefined {
+  const style = /(?:^|;)\s*font-size\s*:\s*([\d.]+)px/i.exec(node.attrs.style ?? "");
+  return style ? Number(style[1]) : undefined;
+}
+
+/**
+ * Returns the heading a line of text is, judging by its font size: older
+ * versions of Notes style titles and headings with large fonts instead of
+ * heading elements.
+ */
+function lineHeading(nodes: HtmlNode[]): string | undefined {
+  let smallest = Infinity;
+  const visit = (children: HtmlNode[], size: number): void => {
+    for (const node of children) {
+      if (node.type === "text") {
+        if (node.value.trim() !== "") {
+          smallest = Math.min(smallest, size);
+        }
+      } else {
+        visit(node.children, fontSize(node) ?? size);
+      }
+    }
+  };
+  visit(nodes, 0);
+  return HEADING_FONT_SIZES.find(([minimum]) => smallest !== Infinity && smallest >= minimum)?.[1];
+}
+
+function hasBlocks(nodes: HtmlNode[]): boolean {
+  return nodes.some(
+    (node) =>
+      node.type === "element" &&
+      node.tag !== "br" &&
+      (!isInline(node) || hasBlocks(node.children))
+  );
+}
+
+function isInline(node: HtmlElement): boolean {
+  return (
+    INLINE_ELEMENTS.has(node.tag) ||
+    node.tag in INLINE_ALIASES ||
+    ["br", "font", "img", "span"].includes(node.tag)
+  );
+}
+
+/**
+ * Normalizes inline content: presentational tags become semantic ones,
+ * wrappers such as `<span>` and `<font>` are removed and unsafe content is
+ * dropped.
+ */
+function normalizeInline(nodes: HtmlNode[], context: Context): HtmlNode[] {
+  const result: HtmlNode[] = [];
+  for (const node of nodes) {
+    if (node.type === "text") {
+      result.push({ type: "text", value: node.value.replace(/[ \t\r\n]+/g, " ") });
+      continue;
+    }
+    if (UNSAFE_ELEMENTS.has(node.tag)) {
+      // Checkboxes are part of checklists, recreated on their items
+      if (node.tag !== "input" || (node.attrs.type ?? "").toLowerCase() !== "checkbox") {
+        context.unsafe++;
+      }
+      continue;
+    }
+    if (SKIPPED_ELEMENTS.has(node.tag)) {
+      continue;
+    }
+    const tag = INLINE_ALIASES[node.tag] ?? node.tag;
+    if (tag === "br") {
+      result.push(element("br"));
+    } else if (tag === "img") {
+      const attrs = keepAttributes(node, ["src", "alt", "title", "width", "height"], context);
+      if (attrs.src !== undefined) {
+        result.push(element("img", [], attrs));
+      }
+    } else if (tag === "a") {
+      const attrs = keepAttributes(node, ["href", "title"], context);
+      const children = normalizeInline(node.children, context);
+      if (attrs.href === undefined) {
+        result.push(...children);
+      } else if (children.length > 0) {
+        result.push(element("a", children, attrs));
+      }
+    } else if (tag === "object") {
+      // Notes wraps tables in objects; others embed files, kept as links
+      const data = safeUrl(node.attrs.data);
+      if (node.attrs.data !== undefined && data === undefined) {
+        context.unsafe++;
+      }
+      const children = normalizeInline(node.children, context);
+      result.push(
+        ...(data === undefined || !isBlank(children)
+          ? children
+          : [element("a", [{ type: "text", value: "Attachment" }], { href: data })])
+      );
+    } else if (INLINE_ELEMENTS.has(tag)) {
+      keepAttributes(node, [], context);
+      const children = normalizeInline(node.children, context);
+      if (children.length > 0) {
+        result.push(element(tag, children));
+      }
+    } else {
+      keepAttributes(node, [], context);
+      result.push(...normalizeInline(node.children, context));
+    }
+  }
+  return result;
+}
+
+/**
+ * Trims whitespace and line breaks from both ends of a line.
+ */
+function trimLine(nodes: HtmlNode[]): HtmlNode[] {
+  const result = [...nodes];
+  const isEdge = (node: HtmlNode | undefined): boolean =>
+    node !== undefined &&
+    ((node.type === "text" && node.value.trim() === "") ||
+      (node.type === "element" && node.tag === "br"));
+  while (isEdge(result[0])) {
+    result.shift();
+  }
+  while (isEdge(result[result.length - 1])) {
+    result.pop();
+  }
+  const first = result[0];
+  if (first?.type === "text") {
+    result[0] = { type: "text", value: first.value.trimStart() };
+  }
+  const last = result[result.length - 1];
+  if (last?.type === "text") {
+    result[result.length - 1] = { type: "text", value: last.value.trimEnd() };
+  }
+  return result;
+}
+
+/**
+ * Normalizes a sequence of nodes into blocks. Lines (the `<div>`s of a note)
+ * and runs of inline content become paragraphs.
+ */
+function normalizeBlocks(nodes: HtmlNode[], context: Context, dir?: string): HtmlNode[] {
+  const blocks: HtmlNode[] = [];
+  let run: HtmlNode[] = [];
+
+  const flush = (): void => {
+    const line = trimLine(normalizeInline(run, context));
+    run = [];
+    if (!isBlank(line)) {
+      blocks.push(element("p", line, dir ? { dir } : {}));
+    }
+  };
+
+  for (const node of nodes) {
+    if (node.type === "text" || isInline(node) || node.tag === "object") {
+      if (node.type === "element" && node.tag === "object" && hasBlocks(node.children)) {
+        flush();
+        keepAttributes(node, [], context);
+        blocks.push(...normalizeBlocks(node.children, context, dir));
+      } else {
+        run.push(node);
+      }
+      continue;
+    }
+    if (UNSAFE_ELEMENTS.has(node.tag) || SKIPPED_ELEMENTS.has(node.tag)) {
+      run.push(node);
+      continue;
+    }
+    flush();
+    blocks.push(...normalizeBlock(node, context, dir));
+  }
+  flush();
+  return blocks;
+}
+
+function normalizeBlock(node: HtmlElement, context: Context, dir?: string): HtmlNode[] {
+  if (node.tag === "ul" || node.tag === "ol") {
+    return normalizeList(node, context);
+  }
+  if (node.tag === "table") {
+    return normalizeTable(node, context);
+  }
+  const attrs = keepAttributes(node, ["dir"], context);
+  const lineDir = /^(ltr|rtl|auto)$/i.test(attrs.dir ?? "") ? attrs.dir.toLowerCase() : dir;
+  const withDir: Record<string, string> = lineDir ? { dir: lineDir } : {};
+
+  if (/^h[1-6]$/.test(node.tag)) {
+    return heading(node.tag, node.children, context, withDir);
+  }
+  switch (node.tag) {
+    case "blockquote": {
+      const children = normalizeBlocks(node.children, context, lineDir);
+      return children.length === 0 ? [] : [element("blockquote", children)];
+    }
+    case "pre": {
+      const text = plainPreText(node.children);
+      return text.trim() === "" ? [] : [element("pre", [{ type: "text", value: text }])];
+    }
+    case "hr":
+      return [element("hr")];
+  }
+
+  // A line, or a group of lines
+  if (!hasBlocks(node.children)) {
+    const tag = lineHeading(node.children);
+    if (tag) {
+      return heading(tag, node.children, context, withDir);
+    }
+  }
+  return normalizeBlocks(node.children, context, lineDir);
+}
+
+function heading(
+  tag: string,
+  nodes: HtmlNode[],
+  context: Context,
+  attrs: Record<string, string>
+): HtmlNode[] {
+  let line = trimLine(normalizeInline(nodes, context));
+  // Headings are bold already
+  if (line.length === 1 && line[0].type === "element" && line[0].tag === "strong") {
+    line = line[0].children;
+  }
+  return isBlank(line) ? [] : [element(tag, line, attrs)];
+}
+
+function plainPreText(nodes: HtmlNode[]): string {
+  return nodes
+    .map((node) =>
+      node.type === "text"
+        ? node.value
+        : node.tag === "br"
+          ? "\n"
+          : UNSAFE_ELEMENTS.has(node.tag) || SKIPPED_ELEMENTS.has(node.tag)
+            ? ""
+            : plainPreText(node.children)
+    )
+    .join("");
+}
+
+/**
+ * Normalizes the content of a list item or table cell: its lines are kept on
+ * separate lines with `<br>`, and nested lists and tables stay blocks.
+ */
+function normalizeItemContent(nodes: HtmlNode[], context: Context): HtmlNode[] {
+  const result: HtmlNode[] = [];
+  for (const block of normalizeBlocks(nodes, context)) {
+    if (block.type === "element" && block.tag === "p") {
+      const previous = result[result.length - 1];
+      if (previous !== undefined && !isBlockOutput(previous)) {
+        result.push(element("br"));
+      }
+      result.push(...block.children);
+    } else {
+      result.push(block);
+    }
+  }
+  return result;
+}
+
+function normalizeList(list: HtmlElement, context: Context): HtmlNode[] {
+  const attrs = keepAttributes(list, list.tag === "ol" ? ["start"] : [], context);
+  const items: HtmlElement[] = [];
+  let checklist = false;
+
+  for (const child of list.children) {
+    if (child.type !== "element") {
+      continue;
+    }
+    if (child.tag === "ul" || child.tag === "ol") {
+      // Notes nests lists directly inside lists; move them into the previous item
+      const nested = normalizeList(child, context);
+      if (items.length === 0) {
+        items.push(element("li", nested));
+      } else {
+        items[items.length - 1].children.push(...nested);
+      }
+      continue;
+    }
+    if (child.tag !== "li") {
+      continue;
+    }
+    const content = normalizeItemContent(child.children, context);
+    const checked = checklistItemState(list, child);
+    const itemAttrs = keepAttributes(child, ["dir"], context);
+    if (checked !== undefined) {
+      checklist = true;
+      const checkbox = element("input", [], {
+        type: "checkbox",
+        disabled: "",
+        ...(checked ? { checked: "" } : {}),
+      });
+      content.unshift(checkbox, { type: "text", value: " " });
+    }
+    items.push(element("li", content, itemAttrs));
+  }
+
+  if (items.length === 0) {
+    return [];
+  }
+  return [element(list.tag, items, checklist ? { ...attrs, class: "checklist" } : attrs)];
+}
+
+function normalizeTable(table: HtmlElement, context: Context): HtmlNode[] {
+  const head: HtmlElement[] = [];
+  const body: HtmlElement[] = [];
+  const collectRows = (nodes: HtmlNode[], rows: HtmlElement[]): void => {
+    for (const node of nodes) {
+      if (node.type !== "element") {
+        continue;
+      }
+      keepAttributes(node, [], context);
+      if (node.tag === "tr") {
+        const cells = node.children
+          .filter(
+            (cell): cell is HtmlElement =>
+              cell.type === "element" && (cell.tag === "td" || cell.tag === "th")
+          )
+          .map((cell) =>
+            element(
+              cell.tag,
+              trimLine(normalizeItemContent(cell.children, context)),
+              keepAttributes(cell, ["colspan", "rowspan"], context)
+            )
+          );
+        if (cells.length > 0) {
+          rows.push(element("tr", cells));
+        }
+      } else if (node.tag !== "table") {
+        collectRows(node.children, node.tag === "thead" ? head : rows);
+      }
+    }
+  };
+  collectRows(table.children, body);
+
+  const sections = [
+    ...(head.length > 0 ? [element("thead", head)] : []),
+    ...(body.length > 0 ? [element("tbody", body)] : []),
+  ];
+  return sections.length === 0 ? [] : [element("table", sections)];
+}
+
+function serializeAttributes(attrs: Record<string, string>): string {
+  return Object.entries(attrs)
+    .map(([name, value]) => (value === "" ? ` ${name}` : ` ${name}="${escapeHtml(value)}"`))
+    .join("");
+}
+
+function serializeNodes(nodes: HtmlNode[]): string {
+  let html = "";
+  for (const node of nodes) {
+    // Blocks start on their own line
+    if (isBlockOutput(node) && html !== "" && !html.endsWith("\n")) {
+      html += "\n";
+    }
+    html += serializeNode(node);
+  }
+  return html;
+}
+
+function serializeNode(node: HtmlNode): string {
+  if (node.type === "text") {
+    return escapeHtml(node.value);
+  }
+  const open = `<${node.tag}${serializeAttributes(node.attrs)}>`;
+  if (VOID_ELEMENTS.has(node.tag)) {
+    return node.tag === "hr" ? `${open}\n` : open;
+  }
+  const close = `</${node.tag}>`;
+  if (CONTAINER_BLOCKS.has(node.tag)) {
+    return `${open}\n${serializeNodes(node.children)}${close}\n`;
+  }
+  const inner = serializeNodes(node.children);
+  if (LEAF_BLOCKS.has(node.tag)) {
+    return `${open}${inner}${close}\n`;
+  }
+  return `${open}${inner}${close}`;
+}
+
+/**
+ * Finds the `<body>` of a document, so a note that is already a full
+ * document is normalized from its content.
+ */
+function findBody(nodes: HtmlNode[]): HtmlElement | undefined {
+  for (const node of nodes) {
+    if (node.type !== "element") {
+      continue;
+    }
+    if (node.tag === "body") {
+      return node;
+    }
+    if (node.tag === "html") {
+      return findBody(node.children);
+    }
+  }
+  return undefined;
+}
+
+function normalizeBody(html: string, context: Context): { body: string; blocks: HtmlNode[] } {
+  const nodes = parseHtml(html);
+  const blocks = normalizeBlocks(findBody(nodes)?.children ?? nodes, context);
+  return { body: serializeNodes(blocks), blocks };
+}
+
+/**
+ * Sanitizes the backlinks sections split off a note. Only their links are
+ * kept, and the section is rebuilt the way `linkNotes` writes it, so a note
+ * cannot hide markup from normalization inside the section markers.
+ */
+function normalizeBacklinks(backlinks: string, context: Context): string {
+  if (backlinks === "") {
+    return "";
+  }
+  const links: Array<{ href: string; title: string }> = [];
+  const collect = (nodes: HtmlNode[]): void => {
+    for (const node of nodes) {
+      if (node.type !== "element") {
+        continue;
+      }
+      if (node.tag === "a" && node.attrs.href !== undefined) {
+        links.push({ href: node.attrs.href, title: plainText(node.children) });
+      } else {
+        collect(node.children);
+      }
+    }
+  };
+  collect(normalizeBody(backlinks, context).blocks);
+  return links.length === 0 ? "" : `${formatHtmlBacklinks(links)}\n`;
+}
+
+/**
+ * Wraps the body of a note in a standalone HTML5 document.
+ */
+function formatDocument(body: string, title: string, css?: string): string {
+  // A stylesheet cannot end the <style> element early
+  const style =
+    css === undefined || css.trim() === ""
+      ? ""
+      : `<style>\n${css.trim().replace(/<\/style/gi, "<\\/style")}\n</style>\n`;
+  return (
+    "<!DOCTYPE html>\n" +
+    "<html>\n" +
+    "<head>\n" +
+    '<meta charset="utf-8">\n' +
+    '<meta name="viewport" content="width=device-width, initial-scale=1">\n' +
+    `<title>${escapeHtml(title)}</title>\n` +
+    style +
+    "</head>\n" +
+    `<body>\n${body}</body>\n` +
+    "</html>\n"
+  );
+}
+
+/**
+ * Normalizes the HTML of a note into a clean, standalone HTML5 document.
+ *
+ * @param html - The note HTML (a fragment or a full document).
+ * @param options - The document title and embedded CSS.
+ *
+ * @example
+ * ```typescript
+ * normalizeNoteHtml('<div><b>Hi</b><script>alert(1)</script></div>', { title: 'Greeting' });
+ * // => '<!DOCTYPE html>\n<html>\n<head>\n…<title>Greeting</title>\n</head>\n<body>\n' +
+ * //    '<p><strong>Hi</strong></p>\n</body>\n</html>\n'
+ * ```
+ */
+export function normalizeNoteHtml(html: string, options: NoteDocumentOptions = {}): string {
+  const { body, blocks } = normalizeBody(html, { unsafe: 0 });
+  const title = options.title ?? plainText(blocks.slice(0, 1));
+  return formatDocument(body, title, options.css);
+}
+
+/**
+ * Normalizes the HTML of a note into semantic blocks, for code that writes
+ * notes in other formats. Serialize the blocks with `formatNoteBlocks`.
+ *
+ * @param html - The note HTML (a fragment or a full document).
+ */
+export function normalizeNoteBlocks(html: string): HtmlNode[] {
+  return normalizeBody(html, { unsafe: 0 }).blocks;
+}
+
+/**
+ * Serializes blocks returned by `normalizeNoteBlocks` as HTML.
+ */
+export function formatNoteBlocks(blocks: HtmlNode[]): string {
+  return serializeNodes(blocks);
+}
+
+/**
+ * Reads the CSS file of the `stylesheet` option.
+ *
+ * @throws {InvalidPathError} If the file cannot be read.
+ */
+function readStylesheet(stylesheet: string): string {
+  try {
+    return fs.readFileSync(path.resolve(stylesheet), "utf8");
+  } catch {
+    throw new InvalidPathError(stylesheet, "stylesheet does not exist or cannot be read");
+  }
+}
+
+/**
+ * Checks normalization options before anything is exported.
+ *
+ * @throws {InvalidPathError} If the stylesheet cannot be read.
+ */
+export function validateNormalizeOptions(options: NormalizeOptions): void {
+  if (options.stylesheet !== undefined) {
+    readStylesheet(options.stylesheet);
+  }
+}
+
+/**
+ * Normalizes every HTML note in an export directory in place. Markdown notes
+ * are left alone. Notes whose normalized form is unchanged, such as notes
+ * normalized before with the same stylesheet, are not rewritten.
+ *
+ * Backlinks sections added by `linkNotes` are kept, rebuilt from their links.
+ *
+ * @param exportDir - The export directory.
+ * @param options - A stylesheet to embed in the notes.
+ * @returns The number of notes rewritten and of unsafe items removed.
+ * @throws {InvalidPathError} If the export directory does not exist, or the
+ *   stylesheet cannot be read.
+ *
+ * @example
+ * ```typescript
+ * import { normalizeExport } from 'apple-notes-exporter';
+ *
+ * const { notes, unsafe } = normalizeExport('./exports', { stylesheet: './notes.css' });
+ * ```
+ */
+export function normalizeExport(
+  exportDir: string,
+  options: NormalizeOptions = {}
+): NormalizeResult {
+  const root = path.resolve(exportDir);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new InvalidPathError(exportDir, "export directory does not exist");
+  }
+  const css = options.stylesheet === undefined ? undefined : readStylesheet(options.stylesheet);
+  const result: NormalizeResult = { notes: 0, unsafe: 0 };
+
+  for (const note of listExportedNotes(root)) {
+    const original = fs.readFileSync(note.filePath, "utf8");
+    const { content, backlinks } = splitBacklinks(original);
+    const context: Context = { unsafe: 0 };
+    const { body } = normalizeBody(content, context);
+    const normalized = formatDocument(
+      `${body}${normalizeBacklinks(backlinks, context)}`,
+      note.title,
+      css
+    );
+    result.unsafe += context.unsafe;
+    if (normalized !== original) {
+      fs.writeFileSync(note.filePath, normalized, "utf8");
+      result.notes++;
+    }
+  }
+  return result;
+}
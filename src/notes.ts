@@ -0,0 +1,185 @@
+/**
+ * Discovery of exported note files.
+ *
+ * The AppleScript writes one file per note, named `{note_title} -- {id}.html`,
+ * inside a directory tree mirroring the Notes folder hierarchy. The helpers in
+ * this module find those files in an export directory and recover the title,
+ * id and folder path from their location, so post-processing stages can work
+ * purely on the file output.
+ *
+ * Exports renamed with a naming template (see `naming.ts`) keep each
+ * directory's note ids and titles in a `.notes-names.json` file, which takes
+ * precedence over the file name pattern.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/** Separator between the note title and id in exported filenames. */
+const ID_SEPARATOR = " -- ";
+
+/** Name of the file recording the notes of a renamed directory. */
+export const NOTE_NAMES_FILE_NAME = ".notes-names.json";
+
+/**
+ * The notes of a directory whose files were renamed, by file name without
+ * extension.
+ */
+export type NoteNames = Map<string, { id: string; title: string }>;
+
+/**
+ * A note file found in an export directory.
+ */
+export interface ExportedNote {
+  /** Absolute path to the note file. */
+  filePath: string;
+  /** Path relative to the export root, using `/` separators. */
+  relativePath: string;
+  /** Folder names from the export root down to the note's directory. */
+  folderPath: string[];
+  /** The note title recovered from the filename. */
+  title: string;
+  /** The note id recovered from the filename. */
+  id: string;
+  /** The file extension without the dot, e.g. `html` or `md`. */
+  extension: string;
+}
+
+/**
+ * Splits a note file name into its title and id.
+ *
+ * @returns The title and id, or `undefined` if the name does not follow the
+ *   `{note_title} -- {id}.{ext}` pattern.
+ */
+export function parseNoteFileName(
+  fileName: string
+): { title: string; id: string; extension: string } | undefined {
+  const extension = path.extname(fileName);
+  if (extension === "") {
+    return undefined;
+  }
+  const stem = fileName.slice(0, -extension.length);
+  const separator = stem.lastIndexOf(ID_SEPARATOR);
+  if (separator === -1) {
+    return undefined;
+  }
+  const id = stem.slice(separator + ID_SEPARATOR.length);
+  if (id === "") {
+    return undefined;
+  }
+  return {
+    title: stem.slice(0, separator),
+    id,
+    extension: extension.slice(1).toLowerCase(),
+  };
+}
+
+/**
+ * Replaces the characters the export script cannot use in file and directory
+ * names (`/` and `:`) with `-`.
+ */
+export function sanitizeFileName(name: string): string {
+  return name.replace(/[/:]/g, "-");
+}
+
+/**
+ * Builds a note file name from a title, id and extension.
+ */
+export function formatNoteFileName(title: string, id: string, extension: string): string {
+  return `${title}${ID_SEPARATOR}${id}.${extension}`;
+}
+
+/**
+ * Reads the `.notes-names.json` file of a directory.
+ *
+ * @returns The recorded notes, or an empty map if the directory has no
+ *   readable names file.
+ */
+export function readNoteNames(dir: string): NoteNames {
+  try {
+    const parsed = JSON.parse(
+      fs.readFileSync(path.join(dir, NOTE_NAMES_FILE_NAME), "utf8")
+    ) as { notes?: Record<string, { id: string; title: string }> };
+    return new Map(Object.entries(parsed.notes ?? {}));
+  } catch {
+    return new Map();
+  }
+}
+
+/**
+ * Writes the `.notes-names.json` file of a directory, or removes it if there
+ * are no notes to record.
+ */
+export function writeNoteNames(dir: string, notes: NoteNames): void {
+  const namesPath = path.join(dir, NOTE_NAMES_FILE_NAME);
+  if (notes.size === 0) {
+    fs.rmSync(namesPath, { force: true });
+    return;
+  }
+  const sorted = Object.fromEntries([...notes].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+  fs.writeFileSync(namesPath, `${JSON.stringify({ version: 1, notes: sorted }, null, 2)}\n`, "utf8");
+}
+
+/**
+ * Recursively finds the note files in an export directory.
+ *
+ * Hidden directories (starting with `.`) are skipped, as are files whose
+ * names neither follow the exported note pattern nor are recorded in their
+ * directory's `.notes-names.json`. Note files may start with `.` when the
+ * note title does.
+ *
+ * @param rootDir - The export directory.
+ * @param extensions - File extensions to include. Defaults to `["html"]`.
+ * @returns The notes, sorted by relative path.
+ */
+export function listExportedNotes(
+  rootDir: string,
+  extensions: string[] = ["html"]
+): ExportedNote[] {
+  const root = path.resolve(rootDir);
+  const notes: ExportedNote[] = [];
+
+  const visit = (dir: string, folderPath: string[]): void => {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+    const names = entries.some((entry) => entry.name === NOTE_NAMES_FILE_NAME)
+      ? readNoteNames(dir)
+      : new Map();
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith(".")) {
+          continue;
+        }
+        visit(entryPath, [...folderPath, entry.name]);
+        continue;
+      }
+      if (!entry.isFile()) {
+        continue;
+      }
+      const extension = path.extname(entry.name);
+      const named = extension === "" ? undefined : names.get(entry.name.slice(0, -extension.length));
+      const parsed = named
+        ? { ...named, extension: extension.slice(1).toLowerCase() }
+        : parseNoteFileName(entry.name);
+      if (!parsed || !extensions.includes(parsed.extension)) {
+        continue;
+      }
+      notes.push({
+        filePath: entryPath,
+        relativePath: [...folderPath, entry.name].join("/"),
+        folderPath,
+        title: parsed.title,
+        id: parsed.id,
+        extension: parsed.extension,
+      });
+    }
+  };
+
+  if (fs.existsSync(root)) {
+    visit(root, []);
+  }
+
+  return notes.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
@@ -0,0 +1,146 @@
+/**
+ * Obsidian vaults from exported notes.
+ *
+ * The vault mirrors the folders of the export, with a Markdown file per note
+ * named after its title, and every attachment in one `attachments/`
+ * directory:
+ *
+ * ```text
+ * vault/
+ * ├── .obsidian/app.json        # new attachments also go to attachments/
+ * ├── Work/
+ * │   ├── Plan.md               # [[Budget]], ![[3f2a9c0e1b7d4c55.png]]
+ * │   └── Finance/
+ * │       └── Budget.md
+ * └── attachments/
+ *     └── 3f2a9c0e1b7d4c55.png
+ * ```
+ *
+ * Links between notes become wikilinks, using the note name alone when it is
+ * unique in the vault and its path otherwise. Creation and modification
+ * dates are kept as `created` and `modified` properties, and as the
+ * modification time of the file.
+ *
+ * Use `convertExport` with the `obsidian` format to write a vault.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ConvertNote, ConvertSource } from "./convert";
+import { htmlToMarkdown } from "./markdown";
+import { formatNoteBlocks } from "./normalize";
+
+/** Directory of the vault holding the attachments. */
+export const OBSIDIAN_ATTACHMENTS_DIR = "attachments";
+
+/**
+ * Scheme of the placeholder URLs links are converted with, replaced by
+ * wikilinks in the Markdown.
+ */
+const WIKILINK_SCHEME = "x-wikilink:";
+
+/**
+ * Placeholder links in converted Markdown: `[text](x-wikilink:…)` or
+ * `![alt](x-wikilink:…)`. The opening bracket is not an escaped `\[`.
+ */
+const WIKILINK_PATTERN = /(?<!\\)(!?)\[((?:\\.|[^\]\\\n])*)\]\(x-wikilink:([^)\s]*)\)/g;
+
+/**
+ * Returns a file name for a note title that Obsidian accepts and can link to.
+ */
+function vaultFileName(title: string): string {
+  const name = title.replace(/[\\/:*?"<>|#^[\]]/g, "-").replace(/^\.+/, "").trim();
+  return name === "" ? "Untitled" : name;
+}
+
+function frontMatter(note: ConvertNote): string {
+  const lines = [
+    ...(note.createdAt ? [`created: ${note.createdAt}`] : []),
+    `modified: ${note.modifiedAt}`,
+  ];
+  return `---\n${lines.join("\n")}\n---\n\n`;
+}
+
+function placeholder(target: string): string {
+  // Parentheses would end the Markdown link destination
+  const encoded = encodeURIComponent(target).replace(/\(/g, "%28").replace(/\)/g, "%29");
+  return `${WIKILINK_SCHEME}${encoded}`;
+}
+
+/**
+ * Writes the notes and attachments of an export as an Obsidian vault.
+ *
+ * @param source - The export, read by `readConvertSource`.
+ * @param vaultDir - The vault directory. It is created if needed.
+ */
+export function writeObsidianVault(source: ConvertSource, vaultDir: string): void {
+  // Vault paths of the notes, without the .md extension
+  const paths = new Map<ConvertNote, string>();
+  const taken = new Set<string>();
+  for (const note of source.notes) {
+    const folder = note.folderPath.map(vaultFileName);
+    const name = vaultFileName(note.title);
+    let notePath = [...folder, name].join("/");
+    if (taken.has(notePath.toLowerCase())) {
+      notePath = [...folder, `${name} (${vaultFileName(note.id)})`].join("/");
+    }
+    taken.add(notePath.toLowerCase());
+    paths.set(note, notePath);
+  }
+
+  const nameCounts = new Map<string, number>();
+  for (const notePath of paths.values()) {
+    const name = path.posix.basename(notePath).toLowerCase();
+    nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1);
+  }
+  const linkTarget = (note: ConvertNote): string => {
+    const notePath = paths.get(note)!;
+    const name = path.posix.basename(notePath);
+    return nameCounts.get(name.toLowerCase()) === 1 ? name : notePath;
+  };
+
+  for (const note of source.notes) {
+    for (const [element, reference] of note.references) {
+      const target =
+        reference.type === "note" ? linkTarget(reference.note) : reference.attachment.fileName;
+      element.attrs[element.tag === "img" ? "src" : "href"] = placeholder(target);
+    }
+    const markdown = htmlToMarkdown(formatNoteBlocks(note.blocks)).replace(
+      WIKILINK_PATTERN,
+      (_link: string, image: string, text: string, target: string) => {
+        const decoded = decodeURIComponent(target);
+        const label = text.replace(/\\(.)/g, "$1").replace(/[[\]|]/g, " ").trim();
+        if (image || label === "" || label === path.posix.basename(decoded)) {
+          return `${image}[[${decoded}]]`;
+        }
+        return `[[${decoded}|${label}]]`;
+      }
+    );
+
+    const filePath = path.join(vaultDir, ...`${paths.get(note)!}.md`.split("/"));
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `${frontMatter(note)}${markdown}`, "utf8");
+    const modified = new Date(note.modifiedAt);
+    if (!Number.isNaN(modified.getTime())) {
+      fs.utimesSync(filePath, modified, modified);
+    }
+  }
+
+  if (source.attachments.length > 0) {
+    const attachmentsDir = path.join(vaultDir, OBSIDIAN_ATTACHMENTS_DIR);
+    fs.mkdirSync(attachmentsDir, { recursive: true });
+    for (const attachment of source.attachments) {
+      fs.writeFileSync(path.join(attachmentsDir, attachment.fileName), attachment.data);
+    }
+  }
+
+  const settings = { attachmentFolderPath: OBSIDIAN_ATTACHMENTS_DIR, useMarkdownLinks: false };
+  fs.mkdirSync(path.join(vaultDir, ".obsidian"), { recursive: true });
+  fs.writeFileSync(
+    path.join(vaultDir, ".obsidian", "app.json"),
+    `${JSON.stringify(settings, null, 2)}\n`,
+    "utf8"
+  );
+}
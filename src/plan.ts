@@ -0,0 +1,332 @@
+/**
+ * Export plans: what an export would do, worked out without writing anything.
+ *
+ * A plan is built from the folder listing and the note metadata, which the
+ * exporter reads with the `list` command and the metadata script. Both only
+ * read from Notes. The plan shows:
+ *
+ * - which folder each spec matches. A name without an account is looked up
+ *   breadth-first across all accounts and all nesting levels, so `Work` may
+ *   match a nested `Clients > Work` folder; every other folder with the same
+ *   name is listed too.
+ * - how many notes would be exported, after filters.
+ * - which files would be created or overwritten, and, for incremental
+ *   exports, which would be removed.
+ *
+ * @module
+ */
+
+import * as path from "node:path";
+import { BatchExportJob, parseFolderSpec } from "./batch";
+import { createNoteMatcher, NoteFilters } from "./filters";
+import type { ExportFormat } from "./exporter";
+import { Account, Folder } from "./folders";
+import type { IncrementalOptions, RemovedNotesAction } from "./manifest";
+import type { NoteMetadata } from "./metadata";
+import { nameDirectoryEntries, NameSource, NamingOptions } from "./naming";
+import { ExportedNote, formatNoteFileName, listExportedNotes, sanitizeFileName } from "./notes";
+
+/**
+ * What an export would do with a file.
+ *
+ * - `create`: the note has not been exported to this directory before.
+ * - `overwrite`: a file for the same note exists and would be replaced.
+ * - `remove`: the note no longer exists, and an incremental export would
+ *   delete or archive its file.
+ */
+export type PlannedFileAction = "create" | "overwrite" | "remove";
+
+/**
+ * A file an export would write or remove.
+ */
+export interface PlannedFile {
+  action: PlannedFileAction;
+  /** Path relative to the plan's output directory, using `/` separators. */
+  path: string;
+  /** The note id from the file name. */
+  id: string;
+  title: string;
+  /**
+   * For `overwrite`, the existing file's path if the note was renamed since,
+   * relative to the plan's output directory.
+   */
+  previousPath?: string;
+}
+
+/**
+ * The plan for exporting one folder.
+ */
+export interface PlannedFolderExport {
+  /** The folder spec passed to the script. */
+  spec: string;
+  /** The folder the script would export, if one matches. */
+  folder?: Folder;
+  /**
+   * Other folders with the same name, which the script would not export. A
+   * spec without an account matches the first folder found breadth-first.
+   */
+  otherMatches: Folder[];
+  /** The absolute directory the folder would be exported into. */
+  outputDir: string;
+  /** Number of notes that would be exported. */
+  notes: number;
+  /** Number of notes left out by filters. */
+  filteredOut: number;
+  files: PlannedFile[];
+  /** Why the folder cannot be exported, if it cannot. */
+  error?: string;
+}
+
+/**
+ * What an export would do.
+ */
+export interface ExportPlan {
+  /** The absolute output directory. */
+  outputDir: string;
+  format: ExportFormat;
+  /** For incremental exports, what would happen to removed notes. */
+  removedNotes?: RemovedNotesAction;
+  folders: PlannedFolderExport[];
+  /** Totals over all folders. */
+  notes: number;
+  create: number;
+  overwrite: number;
+  remove: number;
+}
+
+/**
+ * Options for building a plan.
+ */
+export interface PlanOptions {
+  format?: ExportFormat;
+  incremental?: boolean | IncrementalOptions;
+  filters?: NoteFilters;
+  naming?: NamingOptions;
+}
+
+/**
+ * Finds the folders a spec matches, in the order the script searches them:
+ * accounts in listing order, and breadth-first within each account.
+ *
+ * @returns The matching folders; the script exports the first one.
+ */
+export function findFolderMatches(accounts: Account[], spec: string): Folder[] {
+  const { account, folder } = parseFolderSpec(spec);
+  const matches: Folder[] = [];
+  for (const candidate of accounts) {
+    if (account !== undefined && candidate.name !== account) {
+      continue;
+    }
+    const queue = [...candidate.folders];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current.name === folder) {
+        matches.push(current);
+      }
+      queue.push(...current.subfolders);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Counts the notes in a folder and its subfolders, as reported by the listing.
+ */
+function countNotes(folder: Folder): number {
+  return folder.subfolders.reduce(
+    (total, subfolder) => total + countNotes(subfolder),
+    folder.noteCount ?? 0
+  );
+}
+
+/**
+ * A note that would be exported, with its folder path below the export root.
+ */
+interface PlannedNote extends Omit<NameSource, "extension"> {
+  folderPath: string[];
+}
+
+/**
+ * Works out where the notes of a folder would be written, naming directories
+ * and files the way the export would.
+ *
+ * @returns The name of the folder's directory, and each note's path
+ *   segments by note id.
+ */
+function planNotePaths(
+  folder: Folder,
+  notes: PlannedNote[],
+  extension: string,
+  options: PlanOptions
+): { folderDir: string; paths: Map<string, string[]> } {
+  const paths = new Map<string, string[]>();
+  const naming = options.naming;
+  if (!naming) {
+    for (const note of notes) {
+      const fileName = formatNoteFileName(sanitizeFileName(note.title), note.id, extension);
+      paths.set(note.id, [...note.folderPath.map(sanitizeFileName), fileName]);
+    }
+    return { folderDir: sanitizeFileName(folder.name), paths };
+  }
+
+  // Name each directory from the top down, as the export renames them
+  const excluded = new Set(options.filters?.excludeFolders ?? []);
+  let folderDir = "";
+  const visit = (children: Folder[], scriptDirs: string[], namedDirs: string[]): void => {
+    const key = scriptDirs.join("/");
+    const here = notes.filter((note) => note.folderPath.map(sanitizeFileName).join("/") === key);
+    const subdirectories = children
+      .map((child) => sanitizeFileName(child.name))
+      .filter((name) => scriptDirs.length === 0 || !excluded.has(name));
+    const names = nameDirectoryEntries(
+      here.map((note) => ({ ...note, extension })),
+      subdirectories,
+      naming
+    );
+    for (const note of here) {
+      paths.set(note.id, [...namedDirs, names.notes.get(note.id)!]);
+    }
+    for (const child of children) {
+      const name = sanitizeFileName(child.name);
+      const named = names.directories.get(name);
+      if (named === undefined) {
+        continue;
+      }
+      if (scriptDirs.length === 0) {
+        folderDir = named;
+      }
+      visit(child.subfolders, [...scriptDirs, name], [...namedDirs, named]);
+    }
+  };
+  visit([folder], [], []);
+  return { folderDir, paths };
+}
+
+/**
+ * Plans the export of one folder.
+ *
+ * @param accounts - The folder listing.
+ * @param job - The export, with its output subdirectory.
+ * @param outputDir - The absolute output directory of the whole export.
+ * @param notes - The folder's note metadata, as read by the metadata script.
+ *   Without it, only the note count from the listing is planned.
+ * @param options - The export settings.
+ */
+export function planFolderExport(
+  accounts: Account[],
+  job: BatchExportJob,
+  outputDir: string,
+  notes: Map<string, Omit<NoteMetadata, "path">> | undefined,
+  options: PlanOptions
+): PlannedFolderExport {
+  const [folder, ...otherMatches] = findFolderMatches(accounts, job.spec);
+  const jobOutputDir = path.resolve(outputDir, job.subdirectory);
+  const plan: PlannedFolderExport = {
+    spec: job.spec,
+    folder,
+    otherMatches,
+    outputDir: jobOutputDir,
+    notes: 0,
+    filteredOut: 0,
+    files: [],
+  };
+  if (!folder) {
+    plan.error = `Could not find folder named: ${parseFolderSpec(job.spec).folder}`;
+    return plan;
+  }
+  if (!notes) {
+    plan.notes = countNotes(folder);
+    return plan;
+  }
+
+  const extension = options.format === "markdown" ? "md" : "html";
+  const toPlanPath = (relativePath: string): string =>
+    path.relative(outputDir, path.join(jobOutputDir, relativePath)).split(path.sep).join("/");
+
+  // Existing files, by directory and note id
+  const existing = new Map<string, ExportedNote>();
+  for (const note of listExportedNotes(jobOutputDir, [extension])) {
+    existing.set(`${note.folderPath.join("/")}/${note.id}`, note);
+  }
+
+  const matches = options.filters ? createNoteMatcher(options.filters) : () => true;
+  // Paths in the metadata start at the account root; the export starts at the folder
+  const depth = folder.path.length - 1;
+  const kept: PlannedNote[] = [];
+  const filteredOut = new Set<string>();
+  for (const [id, note] of notes) {
+    const folderPath = note.folderPath.slice(depth);
+    if (!matches({ ...note, folderPath })) {
+      plan.filteredOut++;
+      filteredOut.add(id);
+      continue;
+    }
+    kept.push({ ...note, id, folderPath });
+  }
+  plan.notes = kept.length;
+
+  const { folderDir, paths } = planNotePaths(folder, kept, extension, options);
+  const planned = new Set<string>();
+  for (const note of kept) {
+    const segments = paths.get(note.id)!;
+    const relativePath = segments.join("/");
+    const key = `${segments.slice(0, -1).join("/")}/${note.id}`;
+    const previous = existing.get(key);
+    planned.add(key);
+    plan.files.push({
+      action: previous === undefined ? "create" : "overwrite",
+      path: toPlanPath(relativePath),
+      id: note.id,
+      title: note.title,
+      previousPath:
+        previous !== undefined && previous.relativePath !== relativePath
+          ? toPlanPath(previous.relativePath)
+          : undefined,
+    });
+  }
+
+  // Incremental exports remove notes that are gone from the exported folder,
+  // and keep the notes left out by filters
+  if (options.incremental) {
+    for (const [key, note] of existing) {
+      if (!planned.has(key) && !filteredOut.has(note.id) && note.folderPath[0] === folderDir) {
+        plan.files.push({
+          action: "remove",
+          path: toPlanPath(note.relativePath),
+          id: note.id,
+          title: note.title,
+        });
+      }
+    }
+  }
+
+  plan.files.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  return plan;
+}
+
+/**
+ * Combines folder plans into the plan of a whole export.
+ */
+export function createExportPlan(
+  outputDir: string,
+  folders: PlannedFolderExport[],
+  options: PlanOptions
+): ExportPlan {
+  const count = (action: PlannedFileAction): number =>
+    folders.reduce(
+      (total, folder) => total + folder.files.filter((file) => file.action === action).length,
+      0
+    );
+  return {
+    outputDir,
+    format: options.format ?? "html",
+    removedNotes: options.incremental
+      ? (options.incremental === true ? undefined : options.incremental.removedNotes) ?? "delete"
+      : undefined,
+    folders,
+    notes: folders.reduce((total, folder) => total + folder.notes, 0),
+    create: count("create"),
+    overwrite: count("overwrite"),
+    remove: count("remove"),
+  };
+}
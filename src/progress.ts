@@ -0,0 +1,322 @@
+/**
+ * Export progress events.
+ *
+ * While exporting, the AppleScript prints a line per folder and per note:
+ *
+ * ```text
+ * Exporting folder: /path/to/output/Work
+ * Exported note: /path/to/output/Work/Plan -- p1.html
+ * Failed to export note: Secret -- p2: Note is locked
+ * ```
+ *
+ * This module parses those lines into typed `ExportEvent`s and keeps running
+ * totals, so callers can show progress instead of the raw script output.
+ *
+ * @module
+ */
+
+import * as path from "node:path";
+import type { ExportResult } from "./exporter";
+import { parseNoteFileName } from "./notes";
+
+/**
+ * Emitted when the script starts exporting a folder.
+ */
+export interface FolderStartedEvent {
+  type: "folderStarted";
+  /** The folder name. */
+  folder: string;
+  /** The folder's directory in the output directory. */
+  path: string;
+}
+
+/**
+ * Emitted when a note has been exported. With naming templates or filters,
+ * these events are emitted once the script has finished, with the final
+ * file names and only for the notes kept by the filters.
+ */
+export interface NoteExportedEvent {
+  type: "noteExported";
+  /** The note id. */
+  id: string;
+  /** The note title. */
+  title: string;
+  /** The note's file in the output directory. */
+  path: string;
+}
+
+/**
+ * Emitted when the script could not export a note.
+ */
+export interface NoteFailedEvent {
+  type: "noteFailed";
+  /** The note id, if the script reported it. */
+  id?: string;
+  /** The note title, if the script reported it. */
+  title?: string;
+  /** The reason reported by the script. */
+  message: string;
+}
+
+/**
+ * Emitted for script output lines that are not progress lines.
+ */
+export interface ExportMessageEvent {
+  type: "message";
+  text: string;
+}
+
+/**
+ * Emitted once the export, including post-processing, has completed.
+ */
+export interface ExportFinishedEvent {
+  type: "finished";
+  foldersExported: number;
+  notesExported: number;
+  notesFailed: number;
+  /** The export result. */
+  result: ExportResult;
+}
+
+/**
+ * A progress event emitted during an export.
+ */
+export type ExportEvent =
+  | FolderStartedEvent
+  | NoteExportedEvent
+  | NoteFailedEvent
+  | ExportMessageEvent
+  | ExportFinishedEvent;
+
+/**
+ * Running totals of an export in progress.
+ */
+export interface ExportProgress {
+  foldersExported: number;
+  notesExported: number;
+  notesFailed: number;
+}
+
+const FOLDER_STARTED_PREFIX = "Exporting folder: ";
+const NOTE_EXPORTED_PREFIX = "Exported note: ";
+const NOTE_FAILED_PREFIX = "Failed to export note: ";
+
+/**
+ * Parses a line of script output into an event.
+ *
+ * Paths are returned as printed by the script. Blank lines yield `undefined`;
+ * any other unrecognized line yields a `message` event.
+ */
+export function parseProgressLine(line: string): Exclude<ExportEvent, ExportFinishedEvent> | undefined {
+  const text = line.trim();
+  if (text === "") {
+    return undefined;
+  }
+
+  if (text.startsWith(FOLDER_STARTED_PREFIX)) {
+    const folderPath = text.slice(FOLDER_STARTED_PREFIX.length);
+    return { type: "folderStarted", folder: path.basename(folderPath), path: folderPath };
+  }
+
+  if (text.startsWith(NOTE_EXPORTED_PREFIX)) {
+    const notePath = text.slice(NOTE_EXPORTED_PREFIX.length);
+    const parsed = parseNoteFileName(path.basename(notePath));
+    return {
+      type: "noteExported",
+      id: parsed?.id ?? "",
+      title: parsed?.title ?? path.basename(notePath, path.extname(notePath)),
+      path: notePath,
+    };
+  }
+
+  if (text.startsWith(NOTE_FAILED_PREFIX)) {
+    const rest = text.slice(NOTE_FAILED_PREFIX.length);
+    const separator = rest.lastIndexOf(": ");
+    const name = separator === -1 ? rest : rest.slice(0, separator);
+    const message = separator === -1 ? "Unknown error" : rest.slice(separator + 2);
+    const parsed = parseNoteFileName(`${name}.html`);
+    return parsed
+      ? { type: "noteFailed", id: parsed.id, title: parsed.title, message }
+      : { type: "noteFailed", title: name, message };
+  }
+
+  return { type: "message", text };
+}
+
+/**
+ * Turns script output lines into events with paths relative to the final
+ * output directory, and keeps running totals.
+ */
+export class ProgressTracker {
+  readonly progress: ExportProgress = {
+    foldersExported: 0,
+    notesExported: 0,
+    notesFailed: 0,
+  };
+  /** Ids of the notes the script failed to export, if it reported them. */
+  readonly failedNotes: string[] = [];
+  /** `noteExported` events held back until the final paths are known. */
+  private readonly deferred: NoteExportedEvent[] = [];
+
+  /**
+   * @param emit - Receives each event.
+   * @param scriptOutputDir - The directory the script writes into.
+   * @param outputDir - The final output directory.
+   * @param noteExtension - The extension of the final note files, if it
+   *   differs from the one written by the script.
+   * @param deferNotes - Hold `noteExported` events back until `emitNotes`
+   *   is called, for exports that rename notes or leave some out.
+   */
+  constructor(
+    private readonly emit: (event: ExportEvent) => void,
+    private readonly scriptOutputDir: string,
+    private readonly outputDir: string,
+    private readonly noteExtension?: string,
+    private readonly deferNotes = false
+  ) {}
+
+  /** Handles a line of script output. */
+  handleLine(line: string): void {
+    const event = parseProgressLine(line);
+    if (!event) {
+      return;
+    }
+
+    switch (event.type) {
+      case "folderStarted":
+        this.progress.foldersExported++;
+        event.path = this.toOutputPath(event.path);
+        break;
+      case "noteExported":
+        this.progress.notesExported++;
+        event.path = this.toOutputPath(event.path);
+        if (this.noteExtension) {
+          event.path = `${event.path.slice(0, -path.extname(event.path).length)}.${this.noteExtension}`;
+        }
+        if (this.deferNotes && event.id !== "") {
+          this.deferred.push(event);
+          return;
+        }
+        break;
+      case "noteFailed":
+        this.progress.notesFailed++;
+        if (event.id) {
+          this.failedNotes.push(event.id);
+        }
+        break;
+    }
+
+    this.emit(event);
+  }
+
+  /**
+   * Emits the `noteExported` events held back, with the final paths of the
+   * notes. Notes without a final path were left out of the export, and are
+   * no longer counted as exported.
+   *
+   * @param finalPaths - The note files in the output directory, by note id.
+   */
+  emitNotes(finalPaths: Map<string, string>): void {
+    for (const event of this.deferred.splice(0)) {
+      const finalPath = finalPaths.get(event.id);
+      if (finalPath === undefined) {
+        this.progress.notesExported--;
+      } else {
+        this.emit({ ...event, path: finalPath });
+      }
+    }
+  }
+
+  /** Emits the `finished` event. */
+  finish(result: ExportResult): void {
+    this.emit({ type: "finished", ...this.progress, result });
+  }
+
+  private toOutputPath(scriptPath: string): string {
+    const relative = path.relative(this.scriptOutputDir, scriptPath);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      return scriptPath;
+    }
+    return path.join(this.outputDir, relative);
+  }
+}
+
+/**
+ * A push-based queue exposed as an async iterator.
+ */
+export class EventQueue<T> implements AsyncIterableIterator<T> {
+  private readonly items: T[] = [];
+  private readonly waiters: Array<{
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  private done = false;
+  private error: unknown;
+  private failed = false;
+
+  /**
+   * @param onReturn - Called when the consumer stops early, e.g. by breaking
+   *   out of a `for await` loop, to stop whatever produces the items.
+   */
+  constructor(private readonly onReturn?: () => void) {}
+
+  /** Adds an item, handing it to a waiting consumer if there is one. */
+  push(item: T): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value: item, done: false });
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  /** Ends the iteration once the queued items have been consumed. */
+  end(): void {
+    this.done = true;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.resolve({ value: undefined, done: true });
+    }
+  }
+
+  /** Fails the iteration once the queued items have been consumed. */
+  fail(error: unknown): void {
+    // A consumer that stopped early does not see errors caused by stopping
+    if (this.done) {
+      return;
+    }
+    this.failed = true;
+    this.error = error;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.items.length > 0) {
+      return Promise.resolve({ value: this.items.shift()!, done: false });
+    }
+    if (this.failed) {
+      return Promise.reject(this.error);
+    }
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  /** Ends the iteration early, dropping queued items. */
+  return(): Promise<IteratorResult<T>> {
+    if (!this.done && !this.failed) {
+      this.items.length = 0;
+      this.end();
+      this.onReturn?.();
+    }
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+}
@@ -0,0 +1,701 @@
+/**
+ * Books rendered from an export directory.
+ *
+ * `renderExport` turns the notes of an HTML export into documents that can
+ * be read and archived without the Notes app:
+ *
+ * - An EPUB 3 book with a chapter per note and a table of contents that
+ *   mirrors the folder hierarchy. Each folder opens with a page listing its
+ *   notes and subfolders:
+ *
+ *   ```text
+ *   notes.epub
+ *   ├── mimetype
+ *   ├── META-INF/container.xml
+ *   └── EPUB/
+ *       ├── package.opf
+ *       ├── nav.xhtml              # table of contents
+ *       ├── toc.ncx                # the same, for EPUB 2 readers
+ *       ├── style.css
+ *       ├── text/folder-1.xhtml    # "Work"
+ *       ├── text/note-1.xhtml      # "Plan"
+ *       └── media/3f2a9c0e1b7d4c55.png
+ *   ```
+ *
+ * - A single HTML page with the same contents, styled for printing: every
+ *   note starts on a new page and images are embedded, so the page can be
+ *   printed or saved as a PDF from a browser, or converted with a tool such
+ *   as `chrome --headless --print-to-pdf`.
+ *
+ * Every chapter starts with the note's folder and dates, taken from
+ * `index.json` when the export has metadata. Links between notes lead to
+ * their chapters. Notes are normalized first (see `normalizeNoteHtml`), so
+ * scripts and other unsafe content never reach the book.
+ *
+ * The EPUB is zipped with the writer behind `writeArchive`, so books can be
+ * rendered on any platform.
+ *
+ * @module
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { writeZipEntries, ZipEntry } from "./archive";
+import { ConvertNote, ConvertSource, readConvertSource } from "./convert";
+import { ArchiveError, RenderError } from "./errors";
+import { escapeHtml, HtmlElement, HtmlNode, plainText } from "./html";
+
+/** Directory of the EPUB holding the package, relative to its root. */
+const EPUB_DIR = "EPUB";
+
+/** Image types every EPUB reader supports; other images are left out of EPUB books. */
+const EPUB_IMAGE_TYPES = new Set([
+  "image/gif",
+  "image/jpeg",
+  "image/png",
+  "image/svg+xml",
+  "image/webp",
+]);
+
+/** Elements written without content or end tag. */
+const VOID_ELEMENTS = new Set(["br", "hr", "img", "input"]);
+
+/** Elements followed by a line break, so the markup is readable. */
+const BLOCK_ELEMENTS = new Set([
+  "blockquote",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "table",
+  "tbody",
+  "thead",
+  "tr",
+  "ul",
+]);
+
+/** URLs with a scheme, which links and images keep; `data:` URIs are attachments. */
+const ABSOLUTE_URL = /^(?!data:)[a-z][a-z0-9+.-]*:/i;
+
+/** Styles shared by the EPUB and the HTML book. */
+const BOOK_STYLE = `body { font-family: Georgia, "Times New Roman", serif; line-height: 1.5; }
+img { max-width: 100%; height: auto; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #999; padding: 0.25em 0.5em; vertical-align: top; }
+pre { white-space: pre-wrap; }
+blockquote { border-left: 3px solid #ccc; color: #444; margin-left: 0; padding-left: 1em; }
+ul.checklist { list-style: none; padding-left: 1em; }
+.details { color: #666; font-size: 0.85em; }
+.contents ol { list-style: none; padding-left: 1.25em; }
+`;
+
+/** Styles of the HTML book, which is read on screen and printed. */
+const PRINT_STYLE = `body { margin: 0 auto; max-width: 42em; padding: 1em; }
+a { color: inherit; }
+.title-page { padding-top: 30vh; text-align: center; }
+.contents, .folder, .note { break-before: page; page-break-before: always; }
+@page { margin: 2cm; }
+@media print { body { max-width: none; padding: 0; } }
+`;
+
+/**
+ * Options for `renderExport`.
+ */
+export interface RenderOptions {
+  /** The EPUB file to write. Its name must end in `.epub`. */
+  epub?: string;
+  /** The printable HTML book to write. Its name must end in `.html` or `.htm`. */
+  book?: string;
+  /** The book title. Defaults to the name of the export directory. */
+  title?: string;
+  /** The author recorded in the book. */
+  author?: string;
+  /** The language of the notes, as a BCP 47 tag such as `de`. Defaults to `en`. */
+  language?: string;
+}
+
+/**
+ * The result of rendering an export.
+ */
+export interface RenderResult {
+  /** The absolute path of the EPUB file, if one was written. */
+  epubPath?: string;
+  /** The absolute path of the HTML book, if one was written. */
+  bookPath?: string;
+  /** Number of notes, each a chapter. */
+  notes: number;
+  /** Number of folders, each a section of the book. */
+  folders: number;
+}
+
+/**
+ * A folder of the book, with its notes and subfolders sorted by name.
+ */
+interface BookFolder {
+  name: string;
+  /** Folder names from the export root; empty for the root. */
+  path: string[];
+  notes: ConvertNote[];
+  folders: BookFolder[];
+}
+
+/**
+ * A chapter of the book: a note, or the page opening a folder.
+ */
+interface Chapter {
+  /** The chapter id, used in file names and anchors, e.g. `note-3`. */
+  id: string;
+  title: string;
+  note?: ConvertNote;
+  folder?: BookFolder;
+}
+
+/**
+ * An export laid out as a book.
+ */
+interface Book {
+  title: string;
+  author?: string;
+  language: string;
+  root: BookFolder;
+  /** The chapters in reading order. */
+  chapters: Chapter[];
+  /** Chapter ids of the notes and folders. */
+  ids: Map<ConvertNote | BookFolder, string>;
+  /** The latest modification date of the notes, as the book's date. */
+  modifiedAt: Date;
+}
+
+function isInside(dir: string, candidate: string): boolean {
+  const relative = path.relative(dir, candidate);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * Checks render options before anything is exported or read.
+ *
+ * @param options - The options to check.
+ * @param exportDir - The export directory, which the book files must be
+ *   outside of, so they are not read as notes or exported again.
+ * @throws {RenderError} If no book file is set, a file name has the wrong
+ *   extension, or a file is inside the export directory.
+ */
+export function validateRenderOptions(options: RenderOptions, exportDir?: string): void {
+  if (options.epub === undefined && options.book === undefined) {
+    throw new RenderError(undefined, "set an EPUB file, an HTML book file or both");
+  }
+  if (options.epub !== undefined && !options.epub.toLowerCase().endsWith(".epub")) {
+    throw new RenderError(options.epub, "an EPUB file name must end in .epub");
+  }
+  if (options.book !== undefined && !/\.html?$/i.test(options.book)) {
+    throw new RenderError(options.book, "an HTML book file name must end in .html or .htm");
+  }
+  if (exportDir !== undefined) {
+    for (const file of [options.epub, options.book]) {
+      if (file !== undefined && isInside(path.resolve(exportDir), path.resolve(file))) {
+        throw new RenderError(file, "the file must be outside the export directory");
+      }
+    }
+  }
+}
+
+function compareNames(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+}
+
+function buildFolderTree(notes: ConvertNote[]): BookFolder {
+  const root: BookFolder = { name: "", path: [], notes: [], folders: [] };
+  for (const note of notes) {
+    let folder = root;
+    for (const name of note.folderPath) {
+      let child = folder.folders.find((candidate) => candidate.name === name);
+      if (!child) {
+        child = { name, path: [...folder.path, name], notes: [], folders: [] };
+        folder.folders.push(child);
+      }
+      folder = child;
+    }
+    folder.notes.push(note);
+  }
+  const sort = (folder: BookFolder): void => {
+    folder.notes.sort((a, b) => compareNames(a.title, b.title));
+    folder.folders.sort((a, b) => compareNames(a.name, b.name));
+    folder.folders.forEach(sort);
+  };
+  sort(root);
+  return root;
+}
+
+function createBook(source: ConvertSource, options: RenderOptions): Book {
+  const root = buildFolderTree(source.notes);
+  const chapters: Chapter[] = [];
+  const ids = new Map<ConvertNote | BookFolder, string>();
+  let folderCount = 0;
+  let noteCount = 0;
+
+  // A folder's page comes first, then its notes, then its subfolders
+  const visit = (folder: BookFolder): void => {
+    if (folder !== root) {
+      const id = `folder-${++folderCount}`;
+      ids.set(folder, id);
+      chapters.push({ id, title: folder.name, folder });
+    }
+    for (const note of folder.notes) {
+      const id = `note-${++noteCount}`;
+      ids.set(note, id);
+      chapters.push({ id, title: note.title, note });
+    }
+    folder.folders.forEach(visit);
+  };
+  visit(root);
+
+  const times = source.notes
+    .map((note) => new Date(note.modifiedAt).getTime())
+    .filter((time) => !Number.isNaN(time));
+  return {
+    title: options.title ?? path.basename(source.exportDir),
+    author: options.author,
+    language: options.language ?? "en",
+    root,
+    chapters,
+    ids,
+    modifiedAt: times.length > 0 ? new Date(Math.max(...times)) : new Date(),
+  };
+}
+
+/**
+ * Escapes text for XHTML, dropping the control characters XML cannot hold.
+ */
+function escapeXml(text: string): string {
+  return escapeHtml(text.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, ""));
+}
+
+/**
+ * Serializes normalized note content as XHTML (for EPUB chapters) or HTML.
+ *
+ * @param url - Returns the URL a link or image should have, or `undefined`
+ *   to replace the link by its text and the image by its description.
+ */
+function formatContent(
+  nodes: HtmlNode[],
+  url: (element: HtmlElement) => string | undefined,
+  xml: boolean
+): string {
+  const escape = xml ? escapeXml : escapeHtml;
+  let html = "";
+  for (const node of nodes) {
+    if (node.type === "text") {
+      html += escape(node.value);
+      continue;
+    }
+    const attrs = { ...node.attrs };
+    if (node.tag === "a" || node.tag === "img") {
+      const target = url(node);
+      if (target === undefined) {
+        html += node.tag === "a" ? formatContent(node.children, url, xml) : escape(attrs.alt ?? "");
+        continue;
+      }
+      attrs[node.tag === "a" ? "href" : "src"] = target;
+    }
+    const attributes = Object.entries(attrs)
+      .map(([name, value]) =>
+        value === "" ? (xml ? ` ${name}="${name}"` : ` ${name}`) : ` ${name}="${escape(value)}"`
+      )
+      .join("");
+    if (VOID_ELEMENTS.has(node.tag)) {
+      html += xml ? `<${node.tag}${attributes}/>` : `<${node.tag}${attributes}>`;
+    } else {
+      const inner = formatContent(node.children, url, xml);
+      if (node.tag === "p" && inner.trim() === "" && node.children.length > 0) {
+        // Only dropped images were in the paragraph
+        continue;
+      }
+      html += `<${node.tag}${attributes}>${inner}</${node.tag}>`;
+    }
+    if (BLOCK_ELEMENTS.has(node.tag)) {
+      html += "\n";
+    }
+  }
+  return html;
+}
+
+/** Formats an ISO 8601 date for the details of a chapter. */
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime())
+    ? iso
+    : `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function noteDetails(note: ConvertNote): string {
+  return [
+    ...(note.folderPath.length > 0 ? [note.folderPath.join(" / ")] : []),
+    ...(note.createdAt ? [`Created ${formatDate(note.createdAt)}`] : []),
+    `Modified ${formatDate(note.modifiedAt)}`,
+  ].join(" · ");
+}
+
+/** The details of a folder page: its path, if nested, and its number of notes. */
+function folderDetails(folder: BookFolder): string {
+  const notes = folder.notes.length === 1 ? "1 note" : `${folder.notes.length} notes`;
+  return [...(folder.path.length > 1 ? [folder.path.join(" / ")] : []), notes].join(" · ");
+}
+
+/**
+ * Formats a note as a chapter: its title, its folder and dates, and its
+ * content. Notes usually start with their title, which then is the heading.
+ */
+function formatChapter(
+  note: ConvertNote,
+  url: (element: HtmlElement) => string | undefined,
+  xml: boolean
+): string {
+  const escape = xml ? escapeXml : escapeHtml;
+  const [first, ...rest] = note.blocks;
+  const titled =
+    first?.type === "element" &&
+    /^(h[1-6]|p)$/.test(first.tag) &&
+    plainText([first]).trim() === note.title.trim();
+  const heading = titled
+    ? formatContent([first], url, xml)
+    : `<h1>${escape(note.title)}</h1>\n`;
+  return (
+    heading +
+    `<p class="details">${escape(noteDetails(note))}</p>\n` +
+    formatContent(titled ? rest : note.blocks, url, xml)
+  );
+}
+
+/**
+ * Formats the contents of a folder as nested lists: its notes, then its
+ * subfolders with their contents.
+ *
+ * @param href - Returns the URL of a chapter from its id.
+ */
+function formatContents(
+  book: Book,
+  folder: BookFolder,
+  href: (id: string) => string,
+  escape: (text: string) => string
+): string {
+  const link = (id: string, title: string): string =>
+    `<a href="${escape(href(id))}">${escape(title)}</a>`;
+  const items = [
+    ...folder.notes.map((note) => `<li>${link(book.ids.get(note)!, note.title)}</li>`),
+    ...folder.folders.map(
+      (child) =>
+        `<li>${link(book.ids.get(child)!, child.name)}` +
+        `${formatContents(book, child, href, escape)}</li>`
+    ),
+  ];
+  return items.length === 0 ? "" : `\n<ol>\n${items.join("\n")}\n</ol>\n`;
+}
+
+/** Returns a stable `urn:uuid:` identifier for the book, from its contents. */
+function bookIdentifier(book: Book): string {
+  const hash = createHash("sha1")
+    .update(JSON.stringify([book.title, book.chapters.map((chapter) => chapter.title)]))
+    .digest("hex");
+  // Formatted as a name-based (version 5) UUID
+  const variant = ((parseInt(hash[16], 16) & 0x3) | 0x8).toString(16);
+  return (
+    `urn:uuid:${hash.slice(0, 8)}-${hash.slice(8, 12)}-5${hash.slice(13, 16)}-` +
+    `${variant}${hash.slice(17, 20)}-${hash.slice(20, 32)}`
+  );
+}
+
+function xhtmlDocument(book: Book, title: string, stylesheet: string, body: string): string {
+  const language = escapeXml(book.language);
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    "<!DOCTYPE html>\n" +
+    '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" ' +
+    `lang="${language}" xml:lang="${language}">\n` +
+    "<head>\n" +
+    '<meta charset="utf-8"/>\n' +
+    `<title>${escapeXml(title)}</title>\n` +
+    `<link rel="stylesheet" type="text/css" href="${stylesheet}"/>\n` +
+    "</head>\n" +
+    `<body>\n${body}</body>\n` +
+    "</html>\n"
+  );
+}
+
+/**
+ * Builds the files of an EPUB book, `mimetype` first.
+ */
+function formatEpub(book: Book): ZipEntry[] {
+  const identifier = bookIdentifier(book);
+  const modified = book.modifiedAt.toISOString().replace(/\.\d+Z$/, "Z");
+  const text = (content: string): Buffer => Buffer.from(content, "utf8");
+  const chapterHref = (id: string): string => `${id}.xhtml`;
+
+  // Images of the chapters, by attachment hash
+  const media = new Map<string, { href: string; mediaType: string; data: Buffer }>();
+  const files: ZipEntry[] = [];
+  for (const chapter of book.chapters) {
+    let body: string;
+    if (chapter.note) {
+      const note = chapter.note;
+      body = formatChapter(
+        note,
+        (element) => {
+          const reference = note.references.get(element);
+          if (reference?.type === "note") {
+            return chapterHref(book.ids.get(reference.note)!);
+          }
+          if (reference?.type === "attachment") {
+            const { fileName, mediaType, data, hash } = reference.attachment;
+            if (element.tag !== "img" || !EPUB_IMAGE_TYPES.has(mediaType)) {
+              return undefined;
+            }
+            const href = `media/${encodeURIComponent(fileName)}`;
+            media.set(hash, { href, mediaType, data });
+            return `../${href}`;
+          }
+          // Remote images would need a network connection
+          const value = element.tag === "a" ? element.attrs.href : undefined;
+          return value !== undefined && ABSOLUTE_URL.test(value) ? value : undefined;
+        },
+        true
+      );
+    } else {
+      const folder = chapter.folder!;
+      body =
+        `<h1>${escapeXml(folder.name)}</h1>\n` +
+        `<p class="details">${escapeXml(folderDetails(folder))}</p>\n` +
+        `<nav class="contents">${formatContents(book, folder, chapterHref, escapeXml)}</nav>\n`;
+    }
+    files.push({
+      name: `${EPUB_DIR}/text/${chapter.id}.xhtml`,
+      data: text(xhtmlDocument(book, chapter.title, "../style.css", body)),
+    });
+  }
+
+  const nav = xhtmlDocument(
+    book,
+    book.title,
+    "style.css",
+    `<nav epub:type="toc" id="toc" class="contents">\n<h1>${escapeXml(book.title)}</h1>` +
+      formatContents(book, book.root, (id) => `text/${chapterHref(id)}`, escapeXml) +
+      "</nav>\n"
+  );
+
+  const playOrder = new Map(book.chapters.map((chapter, index) => [chapter.id, index + 1]));
+  const navPoints = (folder: BookFolder, indent: string): string => {
+    const points: { id: string; title: string; folder?: BookFolder }[] = [
+      ...folder.notes.map((note) => ({ id: book.ids.get(note)!, title: note.title })),
+      ...folder.folders.map((child) => ({
+        id: book.ids.get(child)!,
+        title: child.name,
+        folder: child,
+      })),
+    ];
+    return points
+      .map(
+        (point) =>
+          `${indent}<navPoint id="nav-${point.id}" playOrder="${playOrder.get(point.id)}">\n` +
+          `${indent}  <navLabel><text>${escapeXml(point.title)}</text></navLabel>\n` +
+          `${indent}  <content src="text/${chapterHref(point.id)}"/>\n` +
+          (point.folder ? navPoints(point.folder, `${indent}  `) : "") +
+          `${indent}</navPoint>\n`
+      )
+      .join("");
+  };
+  const ncx =
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">\n' +
+    "  <head>\n" +
+    `    <meta name="dtb:uid" content="${identifier}"/>\n` +
+    "  </head>\n" +
+    `  <docTitle><text>${escapeXml(book.title)}</text></docTitle>\n` +
+    "  <navMap>\n" +
+    navPoints(book.root, "    ") +
+    "  </navMap>\n" +
+    "</ncx>\n";
+
+  const mediaItems = [...media.values()];
+  const manifest = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+    '<item id="style" href="style.css" media-type="text/css"/>',
+    ...book.chapters.map(
+      (chapter) =>
+        `<item id="${chapter.id}" href="text/${chapterHref(chapter.id)}" ` +
+        'media-type="application/xhtml+xml"/>'
+    ),
+    ...mediaItems.map(
+      (item, index) =>
+        `<item id="media-${index + 1}" href="${escapeXml(item.href)}" ` +
+        `media-type="${item.mediaType}"/>`
+    ),
+  ];
+  const spine = [
+    '<itemref idref="nav"/>',
+    ...book.chapters.map((chapter) => `<itemref idref="${chapter.id}"/>`),
+  ];
+  const opf =
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" ' +
+    `xml:lang="${escapeXml(book.language)}">\n` +
+    '  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">\n' +
+    `    <dc:identifier id="book-id">${identifier}</dc:identifier>\n` +
+    `    <dc:title>${escapeXml(book.title)}</dc:title>\n` +
+    `    <dc:language>${escapeXml(book.language)}</dc:language>\n` +
+    (book.author ? `    <dc:creator>${escapeXml(book.author)}</dc:creator>\n` : "") +
+    `    <meta property="dcterms:modified">${modified}</meta>\n` +
+    "  </metadata>\n" +
+    `  <manifest>\n${manifest.map((item) => `    ${item}\n`).join("")}  </manifest>\n` +
+    `  <spine toc="ncx">\n${spine.map((item) => `    ${item}\n`).join("")}  </spine>\n` +
+    "</package>\n";
+
+  const container =
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">\n' +
+    "  <rootfiles>\n" +
+    `    <rootfile full-path="${EPUB_DIR}/package.opf" ` +
+    'media-type="application/oebps-package+xml"/>\n' +
+    "  </rootfiles>\n" +
+    "</container>\n";
+
+  // Readers identify the file by an uncompressed mimetype entry at the start
+  return [
+    { name: "mimetype", data: text("application/epub+zip"), store: true },
+    { name: "META-INF/container.xml", data: text(container) },
+    { name: `${EPUB_DIR}/package.opf`, data: text(opf) },
+    { name: `${EPUB_DIR}/nav.xhtml`, data: text(nav) },
+    { name: `${EPUB_DIR}/toc.ncx`, data: text(ncx) },
+    { name: `${EPUB_DIR}/style.css`, data: text(BOOK_STYLE) },
+    ...files,
+    ...mediaItems.map((item) => ({ name: `${EPUB_DIR}/${item.href}`, data: item.data })),
+  ].map((entry) => ({ ...entry, modifiedAt: book.modifiedAt }));
+}
+
+/**
+ * Formats the printable HTML book: a title page, the table of contents, and
+ * every folder and note on pages of their own, with images embedded.
+ */
+function formatBook(book: Book): string {
+  const anchor = (id: string): string => `#${id}`;
+  const sections = book.chapters.map((chapter) => {
+    if (!chapter.note) {
+      const folder = chapter.folder!;
+      return (
+        `<section class="folder" id="${chapter.id}">\n` +
+        `<h1>${escapeHtml(folder.name)}</h1>\n` +
+        `<p class="details">${escapeHtml(folderDetails(folder))}</p>\n` +
+        "</section>\n"
+      );
+    }
+    const note = chapter.note;
+    const content = formatChapter(
+      note,
+      (element) => {
+        const reference = note.references.get(element);
+        if (reference?.type === "note") {
+          return anchor(book.ids.get(reference.note)!);
+        }
+        if (reference?.type === "attachment") {
+          const { mediaType, data } = reference.attachment;
+          return element.tag === "img"
+            ? `data:${mediaType};base64,${data.toString("base64")}`
+            : undefined;
+        }
+        const value = element.tag === "a" ? element.attrs.href : element.attrs.src;
+        return value !== undefined && ABSOLUTE_URL.test(value) ? value : undefined;
+      },
+      false
+    );
+    return `<article class="note" id="${chapter.id}">\n${content}</article>\n`;
+  });
+
+  const details = [
+    ...(book.author ? [book.author] : []),
+    `${book.chapters.filter((chapter) => chapter.note).length} notes`,
+    `Last modified ${formatDate(book.modifiedAt.toISOString())}`,
+  ].join(" · ");
+  return (
+    "<!DOCTYPE html>\n" +
+    `<html lang="${escapeHtml(book.language)}">\n` +
+    "<head>\n" +
+    '<meta charset="utf-8">\n' +
+    '<meta name="viewport" content="width=device-width, initial-scale=1">\n' +
+    `<title>${escapeHtml(book.title)}</title>\n` +
+    `<style>\n${BOOK_STYLE}${PRINT_STYLE}</style>\n` +
+    "</head>\n" +
+    "<body>\n" +
+    '<header class="title-page">\n' +
+    `<h1>${escapeHtml(book.title)}</h1>\n` +
+    `<p class="details">${escapeHtml(details)}</p>\n` +
+    "</header>\n" +
+    '<nav class="contents">\n<h2>Contents</h2>' +
+    formatContents(book, book.root, anchor, escapeHtml) +
+    "</nav>\n" +
+    sections.join("") +
+    "</body>\n" +
+    "</html>\n"
+  );
+}
+
+/**
+ * Renders an HTML export as an EPUB book, a printable HTML book, or both.
+ *
+ * @param exportDir - The directory an HTML export was written to.
+ * @param options - The files to write and the book's title, author and
+ *   language.
+ * @returns The files written and the number of notes and folders in them.
+ * @throws {RenderError} If no file is set, a file name has the wrong
+ *   extension, a file is inside the export directory, or a file cannot be
+ *   written.
+ * @throws {InvalidPathError} If the export directory does not exist or holds
+ *   a Markdown export.
+ *
+ * @example
+ * ```typescript
+ * import { exportFolder, renderExport } from 'apple-notes-exporter';
+ *
+ * await exportFolder('Work', './exports', { metadata: true });
+ * renderExport('./exports', { epub: './Work.epub', book: './Work.html', title: 'Work' });
+ * ```
+ */
+export function renderExport(exportDir: string, options: RenderOptions): RenderResult {
+  validateRenderOptions(options, exportDir);
+  const source = readConvertSource(exportDir);
+  const book = createBook(source, options);
+  const result: RenderResult = {
+    notes: source.notes.length,
+    folders: book.chapters.filter((chapter) => chapter.folder).length,
+  };
+
+  if (options.epub !== undefined) {
+    const epubPath = path.resolve(options.epub);
+    try {
+      writeZipEntries(formatEpub(book), epubPath);
+    } catch (error) {
+      throw new RenderError(
+        epubPath,
+        error instanceof ArchiveError ? error.reason : (error as Error).message
+      );
+    }
+    result.epubPath = epubPath;
+  }
+  if (options.book !== undefined) {
+    const bookPath = path.resolve(options.book);
+    try {
+      fs.mkdirSync(path.dirname(bookPath), { recursive: true });
+      fs.writeFileSync(bookPath, formatBook(book), "utf8");
+    } catch (error) {
+      throw new RenderError(bookPath, (error as Error).message);
+    }
+    result.bookPath = bookPath;
+  }
+  return result;
+}
@@ -0,0 +1,305 @@
+/**
+ * Script runners.
+ *
+ * A `ScriptRunner` executes the exporter's AppleScript with a list of
+ * arguments. The default `OsascriptRunner` shells out to `osascript` and only
+ * works on macOS; `FakeScriptRunner` (see `fake-runner.ts`) emulates the
+ * script from a fixture so the exporter can be exercised on any platform.
+ *
+ * @module
+ */
+
+import { spawn, spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import {
+  ExportCancelledError,
+  ExportTimeoutError,
+  LaunchError,
+  parseScriptFailure,
+  ScriptFailedError,
+  ScriptNotFoundError,
+  UnsupportedPlatformError,
+} from "./errors";
+
+/**
+ * Options for a single script invocation.
+ */
+export interface ScriptRunOptions {
+  /**
+   * Capture stdout and return it in the result instead of forwarding it to
+   * this process's stdout. Defaults to `false`.
+   */
+  captureOutput?: boolean;
+  /**
+   * Called with each line the script writes to stdout. When set, stdout is
+   * not forwarded to this process's stdout. Synchronous runs call it for every
+   * line after the script exits.
+   */
+  onOutputLine?: (line: string) => void;
+  /**
+   * With `onOutputLine`, still forward stdout to this process's stdout, as
+   * the runner does without it. Ignored when `captureOutput` is set.
+   * Defaults to `false`.
+   */
+  echoOutput?: boolean;
+  /**
+   * Aborts the script when signalled; the run then rejects with an
+   * `ExportCancelledError`. Only honoured by asynchronous runs.
+   */
+  signal?: AbortSignal;
+  /**
+   * Stops the script if it runs longer than this many milliseconds; the run
+   * then fails with an `ExportTimeoutError`.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * The result of a successful script invocation.
+ */
+export interface ScriptResult {
+  /** The captured stdout, or an empty string if output was not captured. */
+  stdout: string;
+}
+
+/**
+ * Executes the exporter's AppleScript.
+ *
+ * Implementations must reject (or throw, for `runSync`) with an `ExportError`
+ * when the script cannot be run or exits unsuccessfully. Failed runs should be
+ * reported with `parseScriptFailure`, so callers can tell causes apart by the
+ * error's `code`.
+ */
+export interface ScriptRunner {
+  /**
+   * Runs the script at `scriptPath` with the given arguments.
+   */
+  run(
+    scriptPath: string,
+    args: string[],
+    options?: ScriptRunOptions
+  ): Promise<ScriptResult>;
+
+  /**
+   * Runs the script at `scriptPath` with the given arguments (synchronous version).
+   */
+  runSync(
+    scriptPath: string,
+    args: string[],
+    options?: ScriptRunOptions
+  ): ScriptResult;
+}
+
+/**
+ * Checks if the current platform is macOS.
+ * @throws {UnsupportedPlatformError} If not running on macOS.
+ */
+function checkPlatform(): void {
+  if (process.platform !== "darwin") {
+    throw new UnsupportedPlatformError(process.platform);
+  }
+}
+
+/**
+ * Checks that the script file exists.
+ * @throws {ScriptNotFoundError} If the script file does not exist.
+ */
+function checkScriptExists(scriptPath: string): void {
+  if (!fs.existsSync(scriptPath)) {
+    throw new ScriptNotFoundError(scriptPath);
+  }
+}
+
+/** How long to wait after SIGTERM before killing the script with SIGKILL. */
+const KILL_GRACE_PERIOD_MS = 2000;
+
+/**
+ * How much of the script's stderr is kept for error reporting. The error
+ * osascript reports comes last, so older output is dropped first.
+ */
+const MAX_STDERR_LENGTH = 64 * 1024;
+
+/**
+ * Splits a stream of output chunks into lines.
+ */
+class LineSplitter {
+  private buffer = "";
+
+  constructor(private readonly onLine: (line: string) => void) {}
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      this.onLine(line);
+    }
+  }
+
+  end(): void {
+    if (this.buffer !== "") {
+      this.onLine(this.buffer);
+      this.buffer = "";
+    }
+  }
+}
+
+/**
+ * Returns the stdio configuration for a script run. stderr is always piped so
+ * failures can be diagnosed; the runner echoes it to this process's stderr.
+ */
+function getStdio(options: ScriptRunOptions): ["inherit", "pipe" | "inherit", "pipe"] {
+  const pipeStdout = Boolean(options.captureOutput || options.onOutputLine);
+  return ["inherit", pipeStdout ? "pipe" : "inherit", "pipe"];
+}
+
+/**
+ * Runs AppleScripts with the macOS `osascript` command.
+ *
+ * This is the default runner used by `Exporter`.
+ */
+export class OsascriptRunner implements ScriptRunner {
+  run(
+    scriptPath: string,
+    args: string[],
+    options: ScriptRunOptions = {}
+  ): Promise<ScriptResult> {
+    checkPlatform();
+    checkScriptExists(scriptPath);
+
+    if (options.signal?.aborted) {
+      return Promise.reject(new ExportCancelledError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const child = spawn("osascript", [scriptPath, ...args], { stdio: getStdio(options) });
+
+      let stdout = "";
+      const lines = options.onOutputLine ? new LineSplitter(options.onOutputLine) : undefined;
+      child.stdout?.setEncoding("utf8");
+      child.stdout?.on("data", (chunk: string) => {
+        if (options.captureOutput) {
+          stdout += chunk;
+        } else if (options.echoOutput) {
+          process.stdout.write(chunk);
+        }
+        lines?.push(chunk);
+      });
+
+      let stderr = "";
+      child.stderr?.setEncoding("utf8");
+      child.stderr?.on("data", (chunk: string) => {
+        process.stderr.write(chunk);
+        stderr = (stderr + chunk).slice(-MAX_STDERR_LENGTH);
+      });
+
+      // Set when the script is stopped on purpose, and reported instead of
+      // the exit status once the process has exited.
+      let stopError: ExportCancelledError | ExportTimeoutError | undefined;
+      let killTimer: NodeJS.Timeout | undefined;
+      const stop = (error: ExportCancelledError | ExportTimeoutError): void => {
+        if (stopError) {
+          return;
+        }
+        stopError = error;
+        child.kill("SIGTERM");
+        killTimer = setTimeout(() => child.kill("SIGKILL"), KILL_GRACE_PERIOD_MS);
+      };
+
+      const onAbort = (): void => stop(new ExportCancelledError());
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+      const timeoutTimer =
+        options.timeoutMs !== undefined
+          ? setTimeout(() => stop(new ExportTimeoutError(options.timeoutMs!)), options.timeoutMs)
+          : undefined;
+
+      const cleanup = (): void => {
+        options.signal?.removeEventListener("abort", onAbort);
+        clearTimeout(timeoutTimer);
+        clearTimeout(killTimer);
+      };
+
+      child.on("error", (error) => {
+        cleanup();
+        reject(new LaunchError(error));
+      });
+
+      child.on("close", (code, signal) => {
+        cleanup();
+        lines?.end();
+
+        if (stopError) {
+          reject(stopError);
+          return;
+        }
+
+        if (code === 0) {
+          resolve({ stdout });
+          return;
+        }
+
+        if (code !== null) {
+          reject(parseScriptFailure(code, stderr || undefined));
+          return;
+        }
+
+        if (signal) {
+          reject(
+            new ScriptFailedError(
+              -1,
+              stderr || undefined,
+              `AppleScript was terminated by signal: ${signal}`
+            )
+          );
+          return;
+        }
+
+        reject(new ScriptFailedError(-1, stderr || undefined, "AppleScript failed: unknown error"));
+      });
+    });
+  }
+
+  runSync(
+    scriptPath: string,
+    args: string[],
+    options: ScriptRunOptions = {}
+  ): ScriptResult {
+    checkPlatform();
+    checkScriptExists(scriptPath);
+
+    const result = spawnSync("osascript", [scriptPath, ...args], {
+      stdio: getStdio(options),
+      encoding: "utf8",
+      timeout: options.timeoutMs,
+    });
+    // A synchronous run cannot stream stderr, so echo it once the script exits
+    if (result.stderr) {
+      process.stderr.write(result.stderr);
+    }
+
+    if (result.error) {
+      if ((result.error as NodeJS.ErrnoException).code === "ETIMEDOUT") {
+        throw new ExportTimeoutError(options.timeoutMs!);
+      }
+      throw new LaunchError(result.error);
+    }
+
+    if (options.onOutputLine && options.echoOutput && !options.captureOutput && result.stdout) {
+      process.stdout.write(result.stdout);
+    }
+    if (options.onOutputLine && result.stdout) {
+      const lines = new LineSplitter(options.onOutputLine);
+      lines.push(result.stdout);
+      lines.end();
+    }
+
+    if (result.status !== 0) {
+      throw parseScriptFailure(
+        result.status ?? -1,
+        result.stderr ? result.stderr.slice(-MAX_STDERR_LENGTH) : undefined
+      );
+    }
+
+    return { stdout: options.captureOutput ? result.stdout ?? "" : "" };
+  }
+}
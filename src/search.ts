@@ -0,0 +1,408 @@
+/**
+ * Full-text search over export directories.
+ *
+ * The text of each exported note is extracted, tokenized and stored in a
+ * search index file (`.notes-search-index.json`) in the export directory.
+ * Searching first brings the index up to date: only notes whose files were
+ * added, changed (by size or modification time) or removed since the last
+ * search are re-read. Results are ranked with BM25, with a boost for matches
+ * in the note title, and come with a snippet of the matching text.
+ *
+ * Both HTML and Markdown exports can be searched.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { InvalidPathError } from "./errors";
+import { parseHtml, plainText } from "./html";
+import { ExportedNote, listExportedNotes } from "./notes";
+
+/** The search index file, written to the export directory. */
+export const SEARCH_INDEX_FILE_NAME = ".notes-search-index.json";
+
+/**
+ * Current search index format version. Version 2 no longer indexes the text
+ * of scripts, styles and the document head, so older indexes are rebuilt.
+ */
+const SEARCH_INDEX_VERSION = 2;
+
+/** Note file extensions that are indexed. */
+const INDEXED_EXTENSIONS = ["html", "md"];
+
+/** BM25 term frequency saturation. */
+const BM25_K1 = 1.2;
+/** BM25 document length normalization. */
+const BM25_B = 0.75;
+/** Weight of a query term matching only as a prefix of a word. */
+const PREFIX_MATCH_WEIGHT = 0.5;
+/** Extra weight of a query term found in the note title. */
+const TITLE_MATCH_WEIGHT = 2;
+
+/** Characters of context shown around the first match in a snippet. */
+const SNIPPET_LENGTH = 160;
+
+/**
+ * A note in the search index.
+ */
+export interface SearchIndexDocument {
+  /** The note id. */
+  id: string;
+  /** The note title. */
+  title: string;
+  /** Path relative to the export directory, using `/` separators. */
+  path: string;
+  /** Folder names from the export root down to the note's directory. */
+  folderPath: string[];
+  /** File size when indexed, used to detect changes. */
+  size: number;
+  /** File modification time in milliseconds when indexed. */
+  modifiedAt: number;
+  /** The note's plain text. */
+  text: string;
+  /** Number of occurrences of each token in the note's title and text. */
+  terms: Record<string, number>;
+  /** Total number of tokens. */
+  length: number;
+}
+
+/**
+ * The search index stored in an export directory.
+ */
+export interface SearchIndex {
+  version: number;
+  /** ISO 8601 timestamp of the last update. */
+  updatedAt: string;
+  documents: SearchIndexDocument[];
+}
+
+/**
+ * What changed when updating a search index.
+ */
+export interface SearchIndexUpdate {
+  index: SearchIndex;
+  /** Relative paths of newly indexed notes. */
+  added: string[];
+  /** Relative paths of re-indexed notes. */
+  updated: string[];
+  /** Relative paths of notes dropped from the index. */
+  removed: string[];
+  /** Number of notes whose index entries were reused. */
+  unchanged: number;
+}
+
+/**
+ * Options for `searchNotes`.
+ */
+export interface SearchOptions {
+  /** Maximum number of results. Defaults to `20`. */
+  limit?: number;
+  /** Only return notes in this folder (folder names from the export root) or below. */
+  folderPath?: string[];
+}
+
+/**
+ * A note matching a search.
+ */
+export interface SearchResult {
+  id: string;
+  title: string;
+  /** Absolute path to the note file. */
+  filePath: string;
+  /** Path relative to the export directory, using `/` separators. */
+  relativePath: string;
+  folderPath: string[];
+  /** Relevance score; higher is better. */
+  score: number;
+  /** An excerpt of the note text around the first match. */
+  snippet: string;
+  /** `[start, end)` offsets of matched words within `snippet`. */
+  highlights: Array<[number, number]>;
+}
+
+/**
+ * Lower-cases text and strips diacritics, so `Café` matches `cafe`.
+ */
+function normalize(text: string): string {
+  return text.normalize("NFKD").replace(/\p{M}+/gu, "").toLowerCase();
+}
+
+/**
+ * Splits text into normalized word tokens.
+ */
+export function tokenize(text: string): string[] {
+  return normalize(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function countTerms(tokens: string[]): Record<string, number> {
+  // No prototype, so words like "constructor" count from zero
+  const terms: Record<string, number> = Object.create(null);
+  for (const token of tokens) {
+    terms[token] = (terms[token] ?? 0) + 1;
+  }
+  return terms;
+}
+
+function extractText(note: ExportedNote, content: string): string {
+  if (note.extension === "html") {
+    return plainText(parseHtml(content));
+  }
+  return content.replace(/\s+/g, " ").trim();
+}
+
+function indexNote(note: ExportedNote, stats: fs.Stats): SearchIndexDocument {
+  const text = extractText(note, fs.readFileSync(note.filePath, "utf8"));
+  const tokens = [...tokenize(note.title), ...tokenize(text)];
+  return {
+    id: note.id,
+    title: note.title,
+    path: note.relativePath,
+    folderPath: note.folderPath,
+    size: stats.size,
+    modifiedAt: stats.mtimeMs,
+    text,
+    terms: countTerms(tokens),
+    length: tokens.length,
+  };
+}
+
+/**
+ * Reads the search index of an export directory.
+ *
+ * @returns The index, or `undefined` if there is none or it cannot be read.
+ */
+export function readSearchIndex(exportDir: string): SearchIndex | undefined {
+  const indexPath = path.join(exportDir, SEARCH_INDEX_FILE_NAME);
+  try {
+    const parsed = JSON.parse(fs.readFileSync(indexPath, "utf8")) as SearchIndex;
+    if (parsed.version !== SEARCH_INDEX_VERSION || !Array.isArray(parsed.documents)) {
+      return undefined;
+    }
+    return parsed;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Brings the search index of an export directory up to date, re-reading only
+ * the notes that changed since it was last written.
+ *
+ * The index file is only rewritten if something changed.
+ *
+ * @throws {InvalidPathError} If the export directory does not exist.
+ *
+ * @example
+ * ```typescript
+ * import { updateSearchIndex } from 'apple-notes-exporter';
+ *
+ * const { added, updated, removed } = updateSearchIndex('./exports');
+ * ```
+ */
+export function updateSearchIndex(exportDir: string): SearchIndexUpdate {
+  const root = path.resolve(exportDir);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new InvalidPathError(exportDir, "export directory does not exist");
+  }
+  const previous = new Map(
+    (readSearchIndex(root)?.documents ?? []).map((doc) => [doc.path, doc])
+  );
+
+  const update: SearchIndexUpdate = {
+    index: { version: SEARCH_INDEX_VERSION, updatedAt: new Date().toISOString(), documents: [] },
+    added: [],
+    updated: [],
+    removed: [],
+    unchanged: 0,
+  };
+
+  for (const note of listExportedNotes(root, INDEXED_EXTENSIONS)) {
+    const stats = fs.statSync(note.filePath);
+    const existing = previous.get(note.relativePath);
+    previous.delete(note.relativePath);
+
+    if (existing && existing.size === stats.size && existing.modifiedAt === stats.mtimeMs) {
+      update.index.documents.push(existing);
+      update.unchanged++;
+      continue;
+    }
+
+    update.index.documents.push(indexNote(note, stats));
+    (existing ? update.updated : update.added).push(note.relativePath);
+  }
+  update.removed = [...previous.keys()].sort();
+
+  const changed = update.added.length + update.updated.length + update.removed.length > 0;
+  if (changed || !fs.existsSync(path.join(root, SEARCH_INDEX_FILE_NAME))) {
+    fs.writeFileSync(
+      path.join(root, SEARCH_INDEX_FILE_NAME),
+      `${JSON.stringify(update.index)}\n`,
+      "utf8"
+    );
+  }
+  return update;
+}
+
+/**
+ * Finds the document tokens each query term matches: the term itself, and
+ * words it is a prefix of.
+ */
+function matchTerms(
+  doc: SearchIndexDocument,
+  queryTerm: string
+): Array<{ token: string; exact: boolean }> {
+  const matches: Array<{ token: string; exact: boolean }> = [];
+  for (const token of Object.keys(doc.terms)) {
+    if (token === queryTerm) {
+      matches.push({ token, exact: true });
+    } else if (token.startsWith(queryTerm)) {
+      matches.push({ token, exact: false });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Builds a snippet around the first occurrence of any query term, with the
+ * offsets of matching words.
+ */
+function buildSnippet(
+  text: string,
+  queryTerms: string[]
+): { snippet: string; highlights: Array<[number, number]> } {
+  // Find word positions in the original text, matched on normalized words
+  const words = [...text.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    matches: queryTerms.some((term) => normalize(match[0]).startsWith(term)),
+  }));
+
+  const first = words.find((word) => word.matches);
+  let start = first ? Math.max(0, first.start - SNIPPET_LENGTH / 4) : 0;
+  // Start at a word boundary
+  if (start > 0) {
+    const boundary = words.find((word) => word.start >= start);
+    start = boundary ? boundary.start : start;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const last = [...words].reverse().find((word) => word.end <= end);
+    end = last && last.end > start ? last.end : end;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const highlights = words
+    .filter((word) => word.matches && word.start >= start && word.end <= end)
+    .map((word): [number, number] => [
+      word.start - start + prefix.length,
+      word.end - start + prefix.length,
+    ]);
+  return { snippet: `${prefix}${text.slice(start, end)}${suffix}`, highlights };
+}
+
+/**
+ * Searches the notes of an index. Every query term must match a word of the
+ * note, either exactly or as a prefix.
+ */
+export function searchIndex(
+  index: SearchIndex,
+  exportDir: string,
+  query: string,
+  options: SearchOptions = {}
+): SearchResult[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  const folderPath = options.folderPath ?? [];
+  const documents = index.documents.filter((doc) =>
+    folderPath.every((name, i) => doc.folderPath[i] === name)
+  );
+  if (documents.length === 0) {
+    return [];
+  }
+
+  const averageLength =
+    documents.reduce((total, doc) => total + doc.length, 0) / documents.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const doc of documents) {
+    for (const token of Object.keys(doc.terms)) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+  const idf = (token: string): number => {
+    const df = documentFrequency.get(token) ?? 0;
+    return Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+  };
+
+  const results: SearchResult[] = [];
+  for (const doc of documents) {
+    let score = 0;
+    let matchesAll = true;
+    const titleTokens = new Set(tokenize(doc.title));
+
+    for (const term of queryTerms) {
+      const matches = matchTerms(doc, term);
+      if (matches.length === 0) {
+        matchesAll = false;
+        break;
+      }
+      for (const { token, exact } of matches) {
+        const tf = doc.terms[token];
+        const weight =
+          (tf * (BM25_K1 + 1)) /
+          (tf + BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / averageLength));
+        score += idf(token) * weight * (exact ? 1 : PREFIX_MATCH_WEIGHT);
+        if (titleTokens.has(token)) {
+          score += idf(token) * TITLE_MATCH_WEIGHT * (exact ? 1 : PREFIX_MATCH_WEIGHT);
+        }
+      }
+    }
+    if (!matchesAll) {
+      continue;
+    }
+
+    results.push({
+      id: doc.id,
+      title: doc.title,
+      filePath: path.resolve(exportDir, ...doc.path.split("/")),
+      relativePath: doc.path,
+      folderPath: doc.folderPath,
+      score,
+      ...buildSnippet(doc.text, queryTerms),
+    });
+  }
+
+  results.sort((a, b) => b.score - a.score || a.relativePath.localeCompare(b.relativePath));
+  return results.slice(0, options.limit ?? 20);
+}
+
+/**
+ * Searches the notes of an export directory, updating its search index first.
+ *
+ * @param exportDir - The export directory.
+ * @param query - Words to search for. Every word must match, either exactly
+ *   or as the start of a word in the note; case and accents are ignored.
+ * @returns The matching notes, best match first.
+ * @throws {InvalidPathError} If the export directory does not exist.
+ *
+ * @example
+ * ```typescript
+ * import { searchNotes } from 'apple-notes-exporter';
+ *
+ * for (const result of searchNotes('./exports', 'quarterly plan')) {
+ *   console.log(result.title, result.snippet);
+ * }
+ * ```
+ */
+export function searchNotes(
+  exportDir: string,
+  query: string,
+  options: SearchOptions = {}
+): SearchResult[] {
+  const { index } = updateSearchIndex(exportDir);
+  return searchIndex(index, path.resolve(exportDir), query, options);
+}
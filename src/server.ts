@@ -0,0 +1,700 @@
+/**
+ * A local HTTP server for browsing and querying an export directory.
+ *
+ * `serveNotes` serves a JSON API over the notes of an existing export, and
+ * pages that render them in the browser:
+ *
+ * | Route | Response |
+ * |-------|----------|
+ * | `GET /folders` | The folder tree, with note counts |
+ * | `GET /notes?folder=Work/Projects` | The notes of a folder, or all notes |
+ * | `GET /notes/:id` | A note with its content and plain text |
+ * | `GET /search?q=budget&limit=20&folder=Work` | Search results, best match first |
+ * | `GET /` | Browser page with the folder tree, folder contents and search |
+ * | `GET /view/:id` | Browser page showing a note |
+ * | `GET /files/...` | Files of the export, such as note attachments |
+ *
+ * Folders are given as folder names from the export root joined with `/`.
+ * `/notes` only lists the notes directly in the folder unless
+ * `recursive=true` is given.
+ * Errors are returned as `{ "error": { "status": 404, "message": "..." } }`.
+ *
+ * The export directory is read on every request, so the server keeps up
+ * with exports written while it runs (for example by `sync`). Only the file
+ * output is read, so the server runs on any platform. Hidden files, such as
+ * the manifest and `.git`, are never served.
+ *
+ * Notes are sanitized before they are shown in the browser pages (see
+ * `normalizeNoteHtml`), and the pages are sent with a Content Security
+ * Policy that allows no scripts. HTML and SVG files under `/files` are sent
+ * with a sandboxing policy, so a note opened directly cannot run scripts
+ * either.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import * as path from "node:path";
+import { InvalidPathError, ServerError } from "./errors";
+import type { ExportFormat } from "./exporter";
+import { escapeHtml, parseHtml, plainText } from "./html";
+import { NoteMetadata, readNoteIndex } from "./metadata";
+import { formatNoteBlocks, normalizeNoteBlocks } from "./normalize";
+import { ExportedNote, listExportedNotes } from "./notes";
+import { searchNotes, SearchResult } from "./search";
+import { countNotes, extractBody, readFolderTree, SITE_CSS, SiteFolder } from "./site";
+
+/** Port the server listens on by default. */
+export const DEFAULT_SERVE_PORT = 8080;
+
+/** Host the server listens on by default: only this computer can connect. */
+export const DEFAULT_SERVE_HOST = "127.0.0.1";
+
+/** Note file extensions that are served as notes. */
+const NOTE_EXTENSIONS = ["html", "md"];
+
+/** Most results returned by `/search`. */
+const MAX_SEARCH_LIMIT = 100;
+
+/** Content types of the files served from `/files`, by extension. */
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".md": "text/markdown; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+  ".heic": "image/heic",
+  ".tiff": "image/tiff",
+  ".pdf": "application/pdf",
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+};
+
+/**
+ * Content Security Policy of the browser pages: no scripts, and only
+ * images, audio and video from the export itself.
+ */
+const PAGE_CSP =
+  "default-src 'none'; img-src 'self' data:; media-src 'self'; " +
+  "style-src 'unsafe-inline'; form-action 'self'; base-uri 'self'";
+
+/**
+ * Content Security Policy of files that browsers can run scripts in, such as
+ * note files opened through `/files`: they are shown in a sandbox.
+ */
+const FILE_CSP = `sandbox; ${PAGE_CSP}`;
+
+/** Extensions of files served with `FILE_CSP`. */
+const SANDBOXED_EXTENSIONS = new Set([".html", ".svg"]);
+
+/**
+ * Options for the notes server's request handler.
+ */
+export interface NotesHandlerOptions {
+  /** Title of the browser pages. Defaults to `"Notes"`. */
+  title?: string;
+  /**
+   * The path the handler is mounted at when embedded in another server,
+   * such as `/notes`, so links in the browser pages include it. Request URLs
+   * must not include it. Defaults to the root.
+   */
+  basePath?: string;
+  /**
+   * Value of the `Access-Control-Allow-Origin` header sent with JSON
+   * responses, so pages served from other origins can call the API.
+   * Not sent by default.
+   */
+  allowOrigin?: string;
+}
+
+/**
+ * Options for `serveNotes`.
+ */
+export interface ServeOptions extends NotesHandlerOptions {
+  /** The port to listen on. `0` picks a free port. Defaults to `8080`. */
+  port?: number;
+  /** The host to listen on. Defaults to `127.0.0.1`. */
+  host?: string;
+  /** Stops the server when aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A running notes server.
+ */
+export interface NotesServer {
+  server: http.Server;
+  /** The server's root URL, such as `http://127.0.0.1:8080`. */
+  url: string;
+  /** Stops the server, closing open connections. */
+  close(): Promise<void>;
+}
+
+/**
+ * A folder in the `/folders` response.
+ */
+export interface FolderSummary {
+  name: string;
+  /** Folder names from the export root. */
+  path: string[];
+  /** Number of notes directly in the folder. */
+  notes: number;
+  /** Number of notes in the folder and its subfolders. */
+  totalNotes: number;
+  subfolders: FolderSummary[];
+}
+
+/**
+ * A note in the `/notes` response.
+ */
+export interface NoteSummary {
+  id: string;
+  title: string;
+  folderPath: string[];
+  /** The note file, relative to the export directory, using `/` separators. */
+  path: string;
+  format: ExportFormat;
+  /** The note's entry in the export's `index.json`, if it has one. */
+  metadata?: NoteMetadata;
+}
+
+/**
+ * A note in the `/notes/:id` response.
+ */
+export interface NoteDetail extends NoteSummary {
+  /** The contents of the note file. */
+  content: string;
+  /** The note's plain text. */
+  text: string;
+}
+
+/** The notes and folders of the export, read for one request. */
+interface ExportSnapshot {
+  root: SiteFolder;
+  notes: ExportedNote[];
+  metadata: Map<string, NoteMetadata>;
+}
+
+function readSnapshot(exportDir: string): ExportSnapshot {
+  const notes = listExportedNotes(exportDir, NOTE_EXTENSIONS);
+  const index = readNoteIndex(exportDir);
+  return {
+    root: readFolderTree(exportDir, notes, () => false),
+    notes,
+    metadata: new Map(index?.notes.map((entry) => [entry.path, entry]) ?? []),
+  };
+}
+
+function findFolder(root: SiteFolder, folderPath: string[]): SiteFolder | undefined {
+  let folder: SiteFolder | undefined = root;
+  for (const name of folderPath) {
+    folder = folder.subfolders.find((sub) => sub.name === name);
+    if (!folder) {
+      return undefined;
+    }
+  }
+  return folder;
+}
+
+function parseFolderParam(value: string | null): string[] {
+  return (value ?? "").split("/").filter((name) => name !== "");
+}
+
+function summarizeFolder(folder: SiteFolder): FolderSummary {
+  return {
+    name: folder.name,
+    path: folder.path,
+    notes: folder.notes.length,
+    totalNotes: countNotes(folder),
+    subfolders: folder.subfolders.map(summarizeFolder),
+  };
+}
+
+function summarizeNote(note: ExportedNote, snapshot: ExportSnapshot): NoteSummary {
+  const metadata = snapshot.metadata.get(note.relativePath);
+  return {
+    id: note.id,
+    title: note.title,
+    folderPath: note.folderPath,
+    path: note.relativePath,
+    format: note.extension === "md" ? "markdown" : "html",
+    ...(metadata ? { metadata } : {}),
+  };
+}
+
+/**
+ * Reads a note file, leaving out Markdown front matter from its text.
+ */
+function readNote(note: ExportedNote, snapshot: ExportSnapshot): NoteDetail {
+  const content = fs.readFileSync(note.filePath, "utf8");
+  let text: string;
+  if (note.extension === "html") {
+    text = plainText(parseHtml(extractBody(content)));
+  } else {
+    const end = content.startsWith("---\n") ? content.indexOf("\n---\n", 3) : -1;
+    text = (end === -1 ? content : content.slice(end + 5)).replace(/\s+/g, " ").trim();
+  }
+  return { ...summarizeNote(note, snapshot), content, text };
+}
+
+function send(
+  res: http.ServerResponse,
+  status: number,
+  contentType: string,
+  body: string | Buffer,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, {
+    "Content-Type": contentType,
+    "Content-Length": String(Buffer.byteLength(body)),
+    "X-Content-Type-Options": "nosniff",
+    ...headers,
+  });
+  res.end(res.req.method === "HEAD" ? undefined : body);
+}
+
+/**
+ * Renders a browser page: the folder tree, a search box and the content.
+ */
+function renderPage(options: {
+  title: string;
+  siteTitle: string;
+  basePath: string;
+  root: SiteFolder;
+  current: string[];
+  query?: string;
+  content: string;
+  /** Base URL for relative links in the content, such as note attachments. */
+  contentBase?: string;
+}): string {
+  const base = options.basePath;
+  const currentKey = options.current.join("/");
+  const renderFolders = (folders: SiteFolder[]): string => {
+    if (folders.length === 0) {
+      return "";
+    }
+    const items = folders.map((folder) => {
+      const key = folder.path.join("/");
+      const className = key === currentKey ? ' class="current"' : "";
+      return (
+        `<li><a${className} href="${base}/?folder=${encodeURIComponent(key)}">` +
+        `${escapeHtml(folder.name)}</a> <span class="count">${countNotes(folder)}</span>` +
+        `${renderFolders(folder.subfolders)}</li>`
+      );
+    });
+    return `<ul>${items.join("")}</ul>`;
+  };
+  const rootClass = options.current.length === 0 ? " current" : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(options.title)}</title>
+${options.contentBase ? `<base href="${escapeHtml(options.contentBase)}">\n` : ""}<style>
+${SITE_CSS}.snippet { display: block; font-size: 13px; color: #424245; }
+.folder { display: block; color: #86868b; font-size: 12px; }
+</style>
+</head>
+<body>
+<nav class="sidebar">
+<a class="site-title${rootClass}" href="${base}/">${escapeHtml(options.siteTitle)}</a>
+<form action="${base}/" method="get">
+<input id="search-input" name="q" type="search" placeholder="Search notes" value="${escapeHtml(
+    options.query ?? ""
+  )}">
+</form>
+${renderFolders(options.root.subfolders)}
+</nav>
+<main>
+${options.content}
+</main>
+</body>
+</html>
+`;
+}
+
+function renderBreadcrumbs(folderPath: string[], basePath: string, siteTitle: string): string {
+  const crumbs = [`<li><a href="${basePath}/">${escapeHtml(siteTitle)}</a></li>`];
+  folderPath.forEach((name, i) => {
+    const key = folderPath.slice(0, i + 1).join("/");
+    crumbs.push(
+      `<li><a href="${basePath}/?folder=${encodeURIComponent(key)}">${escapeHtml(name)}</a></li>`
+    );
+  });
+  return `<ol class="breadcrumbs">${crumbs.join("")}</ol>`;
+}
+
+function renderFolderContent(folder: SiteFolder, basePath: string, siteTitle: string): string {
+  const parts =
+    folder.path.length === 0
+      ? [`<h1>${escapeHtml(siteTitle)}</h1>`]
+      : [
+          renderBreadcrumbs(folder.path.slice(0, -1), basePath, siteTitle),
+          `<h1>${escapeHtml(folder.name)}</h1>`,
+        ];
+  if (folder.subfolders.length > 0) {
+    const items = folder.subfolders.map(
+      (sub) =>
+        `<li><a href="${basePath}/?folder=${encodeURIComponent(sub.path.join("/"))}">` +
+        `${escapeHtml(sub.name)}</a> <span class="count">${countNotes(sub)}</span></li>`
+    );
+    parts.push(`<h2>Folders</h2>\n<ul class="folders">${items.join("")}</ul>`);
+  }
+  if (folder.notes.length > 0) {
+    const items = folder.notes.map(
+      (note) =>
+        `<li><a href="${basePath}/view/${encodeURIComponent(note.id)}">` +
+        `${escapeHtml(note.title)}</a></li>`
+    );
+    parts.push(`<h2>Notes</h2>\n<ul class="notes">${items.join("")}</ul>`);
+  }
+  if (folder.subfolders.length === 0 && folder.notes.length === 0) {
+    parts.push(`<p class="empty">This folder is empty.</p>`);
+  }
+  return parts.join("\n");
+}
+
+function renderSnippet(result: SearchResult): string {
+  let html = "";
+  let offset = 0;
+  for (const [start, end] of result.highlights) {
+    html +=
+      escapeHtml(result.snippet.slice(offset, start)) +
+      `<mark>${escapeHtml(result.snippet.slice(start, end))}</mark>`;
+    offset = end;
+  }
+  return html + escapeHtml(result.snippet.slice(offset));
+}
+
+function renderSearchContent(query: string, results: SearchResult[], basePath: string): string {
+  const parts = [`<h1>Search: ${escapeHtml(query)}</h1>`];
+  if (results.length === 0) {
+    parts.push(`<p class="empty">No notes match.</p>`);
+    return parts.join("\n");
+  }
+  const items = results.map(
+    (result) =>
+      `<li><a href="${basePath}/view/${encodeURIComponent(result.id)}">` +
+      `${escapeHtml(result.title)}</a>` +
+      `<span class="folder">${escapeHtml(result.folderPath.join(" / "))}</span>` +
+      `<span class="snippet">${renderSnippet(result)}</span></li>`
+  );
+  parts.push(`<ol class="search-results">${items.join("")}</ol>`);
+  return parts.join("\n");
+}
+
+function renderNoteContent(note: NoteDetail, basePath: string, siteTitle: string): string {
+  let body: string;
+  if (note.format === "html") {
+    // Notes can hold anything pasted into them, scripts included
+    body = formatNoteBlocks(normalizeNoteBlocks(note.content)).trimEnd();
+  } else {
+    body = `<pre class="markdown">${escapeHtml(note.content)}</pre>`;
+  }
+  // Notes usually start with their title; only add a heading if not
+  const heading = note.text.startsWith(note.title)
+    ? ""
+    : `<h1 class="note-title">${escapeHtml(note.title)}</h1>\n`;
+  return (
+    `${renderBreadcrumbs(note.folderPath, basePath, siteTitle)}\n` +
+    `<article class="note">\n${heading}${body}\n</article>`
+  );
+}
+
+/**
+ * Creates a request handler serving the notes of an export directory. Use
+ * it to embed the notes API in another Node.js HTTP server; `serveNotes`
+ * starts a server with it.
+ *
+ * @param exportDir - The export directory.
+ * @throws {InvalidPathError} If the export directory does not exist.
+ *
+ * @example
+ * ```typescript
+ * import * as http from 'node:http';
+ * import { createNotesRequestHandler } from 'apple-notes-exporter';
+ *
+ * const notes = createNotesRequestHandler('./backup', { basePath: '/notes' });
+ * http.createServer((req, res) => {
+ *   if (req.url?.startsWith('/notes/')) {
+ *     req.url = req.url.slice('/notes'.length);
+ *     notes(req, res);
+ *   }
+ * }).listen(3000);
+ * ```
+ */
+export function createNotesRequestHandler(
+  exportDir: string,
+  options: NotesHandlerOptions = {}
+): (req: http.IncomingMessage, res: http.ServerResponse) => void {
+  const root = path.resolve(exportDir);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new InvalidPathError(exportDir, "export directory does not exist");
+  }
+  const title = options.title ?? "Notes";
+  const basePath = (options.basePath ?? "").replace(/\/+$/, "");
+  const corsHeaders: Record<string, string> = options.allowOrigin
+    ? { "Access-Control-Allow-Origin": options.allowOrigin }
+    : {};
+
+  const sendJson = (res: http.ServerResponse, status: number, body: unknown): void => {
+    send(
+      res,
+      status,
+      "application/json; charset=utf-8",
+      `${JSON.stringify(body, null, 2)}\n`,
+      corsHeaders
+    );
+  };
+  const sendJsonError = (res: http.ServerResponse, status: number, message: string): void => {
+    sendJson(res, status, { error: { status, message } });
+  };
+  const sendHtml = (res: http.ServerResponse, status: number, html: string): void => {
+    send(res, status, "text/html; charset=utf-8", html, {
+      "Content-Security-Policy": PAGE_CSP,
+    });
+  };
+
+  const handle = (req: http.IncomingMessage, res: http.ServerResponse): void => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    let segments: string[];
+    try {
+      segments = url.pathname
+        .split("/")
+        .filter((segment) => segment !== "")
+        .map(decodeURIComponent);
+    } catch {
+      sendJsonError(res, 400, "The URL is not valid.");
+      return;
+    }
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.setHeader("Allow", "GET, HEAD");
+      sendJsonError(res, 405, `Method ${req.method} is not allowed.`);
+      return;
+    }
+
+    const [route, ...rest] = segments;
+
+    if (route === "files") {
+      // Hidden files hold the manifest, search index and git history
+      if (rest.length === 0 || rest.some((segment) => segment.startsWith("."))) {
+        sendJsonError(res, 404, "File not found.");
+        return;
+      }
+      const filePath = path.join(root, ...rest);
+      const stats = fs.statSync(filePath, { throwIfNoEntry: false });
+      if (!filePath.startsWith(root + path.sep) || !stats?.isFile()) {
+        sendJsonError(res, 404, "File not found.");
+        return;
+      }
+      const extension = path.extname(filePath).toLowerCase();
+      const contentType = CONTENT_TYPES[extension] ?? "application/octet-stream";
+      send(
+        res,
+        200,
+        contentType,
+        fs.readFileSync(filePath),
+        SANDBOXED_EXTENSIONS.has(extension) ? { "Content-Security-Policy": FILE_CSP } : {}
+      );
+      return;
+    }
+
+    const snapshot = readSnapshot(root);
+    const sendHtmlNotFound = (message: string): void => {
+      sendHtml(
+        res,
+        404,
+        renderPage({
+          title: `Not found - ${title}`,
+          siteTitle: title,
+          basePath,
+          root: snapshot.root,
+          current: [],
+          content: `<h1>Not found</h1>\n<p class="empty">${escapeHtml(message)}</p>`,
+        })
+      );
+    };
+
+    if (route === "folders" && rest.length === 0) {
+      sendJson(res, 200, { folders: snapshot.root.subfolders.map(summarizeFolder) });
+      return;
+    }
+
+    if (route === "notes" && rest.length === 0) {
+      const folderPath = parseFolderParam(url.searchParams.get("folder"));
+      if (!findFolder(snapshot.root, folderPath)) {
+        sendJsonError(res, 404, `Folder '${folderPath.join("/")}' not found.`);
+        return;
+      }
+      const recursive = url.searchParams.get("recursive") === "true";
+      const notes = snapshot.notes.filter(
+        (note) =>
+          folderPath.every((name, i) => note.folderPath[i] === name) &&
+          (recursive || note.folderPath.length === folderPath.length)
+      );
+      sendJson(res, 200, { notes: notes.map((note) => summarizeNote(note, snapshot)) });
+      return;
+    }
+
+    if ((route === "notes" || route === "view") && rest.length === 1) {
+      const note = snapshot.notes.find((candidate) => candidate.id === rest[0]);
+      if (!note) {
+        if (route === "notes") {
+          sendJsonError(res, 404, "Note not found.");
+        } else {
+          sendHtmlNotFound("Note not found.");
+        }
+        return;
+      }
+      const detail = readNote(note, snapshot);
+      if (route === "notes") {
+        sendJson(res, 200, detail);
+        return;
+      }
+      const noteDir = note.folderPath.map((name) => `${encodeURIComponent(name)}/`).join("");
+      sendHtml(
+        res,
+        200,
+        renderPage({
+          title: `${note.title} - ${title}`,
+          siteTitle: title,
+          basePath,
+          root: snapshot.root,
+          current: note.folderPath,
+          content: renderNoteContent(detail, basePath, title),
+          contentBase: `${basePath}/files/${noteDir}`,
+        })
+      );
+      return;
+    }
+
+    if (route === "search" && rest.length === 0) {
+      const query = url.searchParams.get("q") ?? "";
+      const limit = Number(url.searchParams.get("limit") ?? 20);
+      if (query.trim() === "") {
+        sendJsonError(res, 400, "The 'q' parameter is required.");
+        return;
+      }
+      if (!Number.isInteger(limit) || limit < 1) {
+        sendJsonError(res, 400, "The 'limit' parameter must be a positive number.");
+        return;
+      }
+      const results = searchNotes(root, query, {
+        limit: Math.min(limit, MAX_SEARCH_LIMIT),
+        folderPath: parseFolderParam(url.searchParams.get("folder")),
+      });
+      // Absolute paths are of no use to clients
+      sendJson(res, 200, {
+        results: results.map((result) => ({ ...result, filePath: undefined })),
+      });
+      return;
+    }
+
+    if (route === undefined) {
+      const query = url.searchParams.get("q")?.trim() ?? "";
+      const folderPath = parseFolderParam(url.searchParams.get("folder"));
+      const folder = findFolder(snapshot.root, folderPath);
+      if (!folder) {
+        sendHtmlNotFound(`Folder '${folderPath.join("/")}' not found.`);
+        return;
+      }
+      const content =
+        query === ""
+          ? renderFolderContent(folder, basePath, title)
+          : renderSearchContent(query, searchNotes(root, query, { folderPath }), basePath);
+      sendHtml(
+        res,
+        200,
+        renderPage({
+          title: query === "" && folderPath.length > 0 ? `${folder.name} - ${title}` : title,
+          siteTitle: title,
+          basePath,
+          root: snapshot.root,
+          current: folderPath,
+          query,
+          content,
+        })
+      );
+      return;
+    }
+
+    sendJsonError(res, 404, `No route for ${url.pathname}.`);
+  };
+
+  return (req, res) => {
+    try {
+      handle(req, res);
+    } catch (error) {
+      if (!res.headersSent) {
+        sendJsonError(res, 500, error instanceof Error ? error.message : String(error));
+      } else {
+        res.destroy();
+      }
+    }
+  };
+}
+
+/**
+ * Starts a local HTTP server for browsing and querying an export directory.
+ *
+ * @param exportDir - The export directory.
+ * @param options - Where to listen, and the page title.
+ * @returns The running server. It runs until `close()` is called or
+ *   `options.signal` is aborted.
+ * @throws {InvalidPathError} If the export directory does not exist.
+ * @throws {ServerError} If the server cannot listen, e.g. because the port
+ *   is in use.
+ *
+ * @example
+ * ```typescript
+ * import { serveNotes } from 'apple-notes-exporter';
+ *
+ * const { url, close } = await serveNotes('./backup', { port: 0 });
+ * const { folders } = await (await fetch(`${url}/folders`)).json();
+ * await close();
+ * ```
+ */
+export async function serveNotes(
+  exportDir: string,
+  options: ServeOptions = {}
+): Promise<NotesServer> {
+  const handler = createNotesRequestHandler(exportDir, options);
+  const host = options.host ?? DEFAULT_SERVE_HOST;
+  const port = options.port ?? DEFAULT_SERVE_PORT;
+  const server = http.createServer(handler);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", (error) => reject(new ServerError(`${host}:${port}`, error.message)));
+    server.listen(port, host, () => resolve());
+  });
+
+  const address = server.address() as AddressInfo;
+  const urlHost = address.family === "IPv6" ? `[${address.address}]` : address.address;
+  const close = (): Promise<void> =>
+    new Promise((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  if (options.signal) {
+    if (options.signal.aborted) {
+      await close();
+    } else {
+      options.signal.addEventListener("abort", () => void close(), { once: true });
+    }
+  }
+
+  return { server, url: `http://${urlHost}:${address.port}`, close };
+}
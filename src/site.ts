@@ -0,0 +1,573 @@
+/**
+ * Static HTML site generation from an export directory.
+ *
+ * `buildSite` turns the note files written by an HTML export into a
+ * self-contained website that can be opened straight from disk:
+ *
+ * ```text
+ * site/
+ * ├── index.html                 # root index: top-level folders
+ * ├── Work/
+ * │   ├── index.html             # folder index: subfolders and notes
+ * │   └── Plan -- p1.html        # note page
+ * └── _site/
+ *     ├── style.css
+ *     ├── search.js
+ *     └── search-index.js        # client-side search index
+ * ```
+ *
+ * Every page has a sidebar with the folder tree, breadcrumbs and a search box.
+ * The search index is a script rather than JSON so it also loads from
+ * `file://` URLs. Files in the export that are not HTML notes (such as
+ * attachments) are copied unchanged, so relative references keep working.
+ *
+ * Only the file output is read, so sites can be built on any platform.
+ *
+ * @module
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { InvalidPathError } from "./errors";
+import { escapeHtml, parseHtml, plainText } from "./html";
+import { ExportedNote, listExportedNotes } from "./notes";
+
+/** Directory in the site holding the stylesheet and scripts. */
+export const SITE_ASSETS_DIR = "_site";
+
+/** Maximum number of characters of note text stored in the search index. */
+const MAX_INDEXED_TEXT_LENGTH = 20000;
+
+/**
+ * Options for `buildSite`.
+ */
+export interface SiteOptions {
+  /** The site title, shown in the header and on the root index. Defaults to `"Notes"`. */
+  title?: string;
+}
+
+/**
+ * The result of building a site.
+ */
+export interface SiteResult {
+  /** The absolute path of the site directory. */
+  siteDir: string;
+  /** Number of folder index pages written, including the root index. */
+  folders: number;
+  /** Number of note pages written. */
+  notes: number;
+}
+
+/**
+ * An entry in the client-side search index.
+ */
+export interface SiteSearchEntry {
+  title: string;
+  /** The folder path, joined with ` / `. */
+  folder: string;
+  /** The page URL, relative to the site root. */
+  url: string;
+  /** The note's plain text, possibly truncated. */
+  text: string;
+}
+
+/**
+ * A folder of the export, with its notes.
+ */
+export interface SiteFolder {
+  name: string;
+  /** Folder names from the export root; empty for the root. */
+  path: string[];
+  notes: ExportedNote[];
+  subfolders: SiteFolder[];
+}
+
+interface Breadcrumb {
+  label: string;
+  /** The link target relative to the site root, if the crumb is a link. */
+  url?: string;
+}
+
+/** Encodes a `/`-separated relative path for use in an `href`. */
+function toUrl(relativePath: string): string {
+  return relativePath.split("/").map(encodeURIComponent).join("/");
+}
+
+function folderIndexUrl(folderPath: string[]): string {
+  return [...folderPath, "index.html"].join("/");
+}
+
+export function countNotes(folder: SiteFolder): number {
+  return folder.subfolders.reduce((total, sub) => total + countNotes(sub), folder.notes.length);
+}
+
+/**
+ * Returns the HTML inside the note's `<body>`, or the whole document without
+ * its `<head>` when there is no body element.
+ */
+export function extractBody(html: string): string {
+  const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html);
+  if (body) {
+    return body[1];
+  }
+  return html.replace(/<!doctype[^>]*>|<\/?html[^>]*>|<head[\s\S]*?<\/head>/gi, "");
+}
+
+function containsFiles(dir: string): boolean {
+  return fs.readdirSync(dir, { withFileTypes: true }).some(
+    (entry) => entry.isFile() || (entry.isDirectory() && containsFiles(path.join(dir, entry.name)))
+  );
+}
+
+function isInside(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * Builds the folder tree of an export directory, skipping hidden directories
+ * and those `isSkipped` matches. Directories without notes that hold other files, such as
+ * attachment directories, are not folders of the export and are left out.
+ */
+export function readFolderTree(
+  exportDir: string,
+  notes: ExportedNote[],
+  isSkipped: (dir: string) => boolean
+): SiteFolder {
+  const notesByFolder = new Map<string, ExportedNote[]>();
+  for (const note of notes) {
+    const key = note.folderPath.join("/");
+    notesByFolder.set(key, [...(notesByFolder.get(key) ?? []), note]);
+  }
+
+  const visit = (dir: string, folderPath: string[]): SiteFolder | undefined => {
+    const subfolders: SiteFolder[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (
+        !entry.isDirectory() ||
+        entry.name.startsWith(".") ||
+        (folderPath.length === 0 && entry.name === SITE_ASSETS_DIR) ||
+        isSkipped(entryPath)
+      ) {
+        continue;
+      }
+      const subfolder = visit(entryPath, [...folderPath, entry.name]);
+      if (subfolder) {
+        subfolders.push(subfolder);
+      }
+    }
+    subfolders.sort((a, b) => a.name.localeCompare(b.name));
+
+    const folderNotes = [...(notesByFolder.get(folderPath.join("/")) ?? [])];
+    folderNotes.sort((a, b) => a.title.localeCompare(b.title));
+    const folder: SiteFolder = {
+      name: folderPath[folderPath.length - 1] ?? "",
+      path: folderPath,
+      notes: folderNotes,
+      subfolders,
+    };
+    if (folderPath.length > 0 && countNotes(folder) === 0 && containsFiles(dir)) {
+      return undefined;
+    }
+    return folder;
+  };
+
+  return visit(exportDir, [])!;
+}
+
+function renderSidebar(root: SiteFolder, current: string[], rootPrefix: string, title: string): string {
+  const currentKey = current.join("/");
+
+  const renderFolders = (folders: SiteFolder[]): string => {
+    if (folders.length === 0) {
+      return "";
+    }
+    const items = folders.map((folder) => {
+      const key = folder.path.join("/");
+      const className = key === currentKey ? ' class="current"' : "";
+      return (
+        `<li><a${className} href="${rootPrefix}${toUrl(folderIndexUrl(folder.path))}">` +
+        `${escapeHtml(folder.name)}</a> <span class="count">${countNotes(folder)}</span>` +
+        `${renderFolders(folder.subfolders)}</li>`
+      );
+    });
+    return `<ul>${items.join("")}</ul>`;
+  };
+
+  const rootClass = current.length === 0 ? ' class="current"' : "";
+  return (
+    `<nav class="sidebar">` +
+    `<a class="site-title"${rootClass} href="${rootPrefix}index.html">${escapeHtml(title)}</a>` +
+    `<input id="search-input" type="search" placeholder="Search notes" autocomplete="off">` +
+    `<ol id="search-results" hidden></ol>` +
+    `${renderFolders(root.subfolders)}</nav>`
+  );
+}
+
+function renderBreadcrumbs(crumbs: Breadcrumb[], rootPrefix: string): string {
+  const items = crumbs.map((crumb) =>
+    crumb.url === undefined
+      ? `<li aria-current="page">${escapeHtml(crumb.label)}</li>`
+      : `<li><a href="${rootPrefix}${toUrl(crumb.url)}">${escapeHtml(crumb.label)}</a></li>`
+  );
+  return `<ol class="breadcrumbs">${items.join("")}</ol>`;
+}
+
+/**
+ * Breadcrumbs from the root down to a folder. The folder itself is linked
+ * only if `linkLast` is set.
+ */
+function folderBreadcrumbs(folderPath: string[], title: string, linkLast: boolean): Breadcrumb[] {
+  const crumbs: Breadcrumb[] = [{ label: title, url: "index.html" }];
+  folderPath.forEach((name, i) => {
+    crumbs.push({ label: name, url: folderIndexUrl(folderPath.slice(0, i + 1)) });
+  });
+  if (!linkLast) {
+    crumbs[crumbs.length - 1] = { label: crumbs[crumbs.length - 1].label };
+  }
+  return crumbs;
+}
+
+function renderPage(options: {
+  title: string;
+  siteTitle: string;
+  depth: number;
+  root: SiteFolder;
+  current: string[];
+  breadcrumbs: Breadcrumb[];
+  content: string;
+}): string {
+  const rootPrefix = "../".repeat(options.depth);
+  const assets = `${rootPrefix}${SITE_ASSETS_DIR}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(options.title)}</title>
+<link rel="stylesheet" href="${assets}/style.css">
+</head>
+<body data-root="${rootPrefix}">
+${renderSidebar(options.root, options.current, rootPrefix, options.siteTitle)}
+<main>
+${renderBreadcrumbs(options.breadcrumbs, rootPrefix)}
+${options.content}
+</main>
+<script src="${assets}/search-index.js"></script>
+<script src="${assets}/search.js"></script>
+</body>
+</html>
+`;
+}
+
+function renderFolderContent(folder: SiteFolder, title: string, depth: number): string {
+  const rootPrefix = "../".repeat(depth);
+  const parts = [`<h1>${escapeHtml(folder.path.length === 0 ? title : folder.name)}</h1>`];
+
+  if (folder.subfolders.length > 0) {
+    const items = folder.subfolders.map(
+      (sub) =>
+        `<li><a href="${rootPrefix}${toUrl(folderIndexUrl(sub.path))}">${escapeHtml(sub.name)}</a>` +
+        ` <span class="count">${countNotes(sub)}</span></li>`
+    );
+    parts.push(`<h2>Folders</h2>\n<ul class="folders">${items.join("")}</ul>`);
+  }
+
+  if (folder.notes.length > 0) {
+    const items = folder.notes.map(
+      (note) =>
+        `<li><a href="${rootPrefix}${toUrl(note.relativePath)}">${escapeHtml(note.title)}</a></li>`
+    );
+    parts.push(`<h2>Notes</h2>\n<ul class="notes">${items.join("")}</ul>`);
+  }
+
+  if (folder.subfolders.length === 0 && folder.notes.length === 0) {
+    parts.push(`<p class="empty">This folder is empty.</p>`);
+  }
+
+  return parts.join("\n");
+}
+
+/**
+ * Copies the files of the export that are not note pages, such as
+ * attachments, into the site.
+ */
+function copyOtherFiles(
+  sourceDir: string,
+  targetDir: string,
+  notePaths: Set<string>,
+  isSkipped: (dir: string) => boolean
+): void {
+  for (const entry of fs.readdirSync(sourceDir, { withFileTypes: true })) {
+    const sourcePath = path.join(sourceDir, entry.name);
+    if (entry.name.startsWith(".") || (entry.isDirectory() && isSkipped(sourcePath))) {
+      continue;
+    }
+    const targetPath = path.join(targetDir, entry.name);
+    if (entry.isDirectory()) {
+      copyOtherFiles(sourcePath, targetPath, notePaths, isSkipped);
+    } else if (entry.isFile() && !notePaths.has(sourcePath)) {
+      fs.mkdirSync(targetDir, { recursive: true });
+      fs.copyFileSync(sourcePath, targetPath);
+    }
+  }
+}
+
+/**
+ * Empties the site directory if it holds a previous build, and refuses to
+ * write into any other non-empty directory.
+ */
+function prepareSiteDir(siteDir: string): void {
+  if (!fs.existsSync(siteDir)) {
+    fs.mkdirSync(siteDir, { recursive: true });
+    return;
+  }
+  const entries = fs.readdirSync(siteDir);
+  if (entries.length === 0) {
+    return;
+  }
+  if (!entries.includes(SITE_ASSETS_DIR)) {
+    throw new InvalidPathError(siteDir, "directory is not empty and does not contain a site");
+  }
+  for (const entry of entries) {
+    fs.rmSync(path.join(siteDir, entry), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Builds a static website from an HTML export directory.
+ *
+ * The site directory is created if needed. If it already contains a site
+ * built by this function, that site is replaced.
+ *
+ * @param exportDir - The directory an HTML export was written to.
+ * @param siteDir - The directory to write the site into. It must not be the
+ *   export directory or contain it.
+ * @throws {InvalidPathError} If the export directory does not exist, the
+ *   directories overlap, or the site directory holds unrelated files.
+ *
+ * @example
+ * ```typescript
+ * import { exportFolder, buildSite } from 'apple-notes-exporter';
+ *
+ * await exportFolder('Work', './exports');
+ * buildSite('./exports', './site', { title: 'Work notes' });
+ * // open ./site/index.html
+ * ```
+ */
+export function buildSite(exportDir: string, siteDir: string, options: SiteOptions = {}): SiteResult {
+  const sourceDir = path.resolve(exportDir);
+  const targetDir = path.resolve(siteDir);
+  const title = options.title ?? "Notes";
+
+  if (!fs.existsSync(sourceDir) || !fs.statSync(sourceDir).isDirectory()) {
+    throw new InvalidPathError(exportDir, "export directory does not exist");
+  }
+  if (isInside(sourceDir, targetDir)) {
+    throw new InvalidPathError(siteDir, "site directory must not contain the export directory");
+  }
+
+  prepareSiteDir(targetDir);
+
+  // Leave out the site itself and any other site built inside the export
+  const isSkipped = (dir: string): boolean =>
+    dir === targetDir || fs.existsSync(path.join(dir, SITE_ASSETS_DIR));
+  const inSkippedDir = (filePath: string): boolean => {
+    for (let dir = path.dirname(filePath); dir !== sourceDir; dir = path.dirname(dir)) {
+      if (isSkipped(dir)) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const notes = listExportedNotes(sourceDir).filter((note) => !inSkippedDir(note.filePath));
+  const root = readFolderTree(sourceDir, notes, isSkipped);
+  const searchIndex: SiteSearchEntry[] = [];
+  let folderCount = 0;
+
+  const writeFolder = (folder: SiteFolder): void => {
+    const depth = folder.path.length;
+    const page = renderPage({
+      title: folder.path.length === 0 ? title : `${folder.name} - ${title}`,
+      siteTitle: title,
+      depth,
+      root,
+      current: folder.path,
+      breadcrumbs: folderBreadcrumbs(folder.path, title, false),
+      content: renderFolderContent(folder, title, depth),
+    });
+    const folderDir = path.join(targetDir, ...folder.path);
+    fs.mkdirSync(folderDir, { recursive: true });
+    fs.writeFileSync(path.join(folderDir, "index.html"), page, "utf8");
+    folderCount++;
+
+    for (const note of folder.notes) {
+      const html = fs.readFileSync(note.filePath, "utf8");
+      const body = extractBody(html);
+      const text = plainText(parseHtml(body));
+      // Notes usually start with their title; only add a heading if not
+      const heading = text.startsWith(note.title)
+        ? ""
+        : `<h1 class="note-title">${escapeHtml(note.title)}</h1>\n`;
+      const notePage = renderPage({
+        title: `${note.title} - ${title}`,
+        siteTitle: title,
+        depth,
+        root,
+        current: folder.path,
+        breadcrumbs: [...folderBreadcrumbs(folder.path, title, true), { label: note.title }],
+        content: `<article class="note">\n${heading}${body}\n</article>`,
+      });
+      fs.writeFileSync(path.join(targetDir, ...note.relativePath.split("/")), notePage, "utf8");
+
+      searchIndex.push({
+        title: note.title,
+        folder: note.folderPath.join(" / "),
+        url: note.relativePath,
+        text: text.slice(0, MAX_INDEXED_TEXT_LENGTH),
+      });
+    }
+
+    folder.subfolders.forEach(writeFolder);
+  };
+
+  writeFolder(root);
+  copyOtherFiles(sourceDir, targetDir, new Set(notes.map((note) => note.filePath)), isSkipped);
+
+  const assetsDir = path.join(targetDir, SITE_ASSETS_DIR);
+  fs.mkdirSync(assetsDir, { recursive: true });
+  fs.writeFileSync(path.join(assetsDir, "style.css"), SITE_CSS, "utf8");
+  fs.writeFileSync(path.join(assetsDir, "search.js"), SEARCH_SCRIPT, "utf8");
+  fs.writeFileSync(
+    path.join(assetsDir, "search-index.js"),
+    `window.NOTES_SEARCH_INDEX = ${JSON.stringify(searchIndex).replace(/</g, "\\u003c")};\n`,
+    "utf8"
+  );
+
+  return { siteDir: targetDir, folders: folderCount, notes: searchIndex.length };
+}
+
+/** The stylesheet of the site, also used by the pages of `serveNotes`. */
+export const SITE_CSS = `* { box-sizing: border-box; }
+body {
+  margin: 0;
+  display: flex;
+  min-height: 100vh;
+  font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Helvetica Neue", Arial, sans-serif;
+  color: #1d1d1f;
+  background: #fff;
+}
+a { color: #0066cc; text-decoration: none; }
+a:hover { text-decoration: underline; }
+.sidebar {
+  flex: 0 0 280px;
+  padding: 16px;
+  overflow-y: auto;
+  max-height: 100vh;
+  position: sticky;
+  top: 0;
+  background: #f5f5f7;
+  border-right: 1px solid #d2d2d7;
+}
+.sidebar ul { list-style: none; margin: 0; padding-left: 14px; }
+.sidebar > ul { padding-left: 0; }
+.sidebar li { margin: 2px 0; }
+.sidebar a.current { font-weight: 600; color: #1d1d1f; }
+.site-title { display: block; font-size: 18px; font-weight: 600; margin-bottom: 12px; color: #1d1d1f; }
+.count { color: #86868b; font-size: 12px; }
+#search-input {
+  width: 100%;
+  padding: 6px 8px;
+  margin-bottom: 12px;
+  border: 1px solid #d2d2d7;
+  border-radius: 6px;
+  font: inherit;
+}
+#search-results { margin: 0 0 12px; padding-left: 20px; }
+#search-results li { margin-bottom: 8px; }
+#search-results .folder { display: block; color: #86868b; font-size: 12px; }
+#search-results .snippet { display: block; font-size: 13px; color: #424245; }
+main { flex: 1; min-width: 0; max-width: 860px; padding: 24px 40px; }
+.breadcrumbs { list-style: none; margin: 0 0 16px; padding: 0; font-size: 13px; color: #86868b; }
+.breadcrumbs li { display: inline; }
+.breadcrumbs li + li::before { content: " / "; }
+.note img { max-width: 100%; height: auto; }
+.note table { border-collapse: collapse; }
+.note td, .note th { border: 1px solid #d2d2d7; padding: 4px 8px; }
+.note pre { overflow-x: auto; background: #f5f5f7; padding: 8px; }
+.empty { color: #86868b; }
+@media (max-width: 700px) {
+  body { display: block; }
+  .sidebar { position: static; max-height: none; border-right: none; border-bottom: 1px solid #d2d2d7; }
+  main { padding: 16px; }
+}
+`;
+
+const SEARCH_SCRIPT = `(function () {
+  var input = document.getElementById("search-input");
+  var results = document.getElementById("search-results");
+  if (!input || !results) {
+    return;
+  }
+  var root = document.body.getAttribute("data-root") || "";
+  var index = window.NOTES_SEARCH_INDEX || [];
+
+  function encodePath(url) {
+    return url.split("/").map(encodeURIComponent).join("/");
+  }
+
+  function snippet(text, term) {
+    var at = text.toLowerCase().indexOf(term);
+    if (at === -1) {
+      return text.slice(0, 120);
+    }
+    var start = Math.max(0, at - 40);
+    return (start > 0 ? "\\u2026" : "") + text.slice(start, start + 120);
+  }
+
+  input.addEventListener("input", function () {
+    var terms = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+    results.innerHTML = "";
+    if (terms.length === 0) {
+      results.hidden = true;
+      return;
+    }
+
+    var matches = [];
+    index.forEach(function (entry) {
+      var title = entry.title.toLowerCase();
+      var haystack = title + "\\n" + entry.folder.toLowerCase() + "\\n" + entry.text.toLowerCase();
+      if (terms.every(function (term) { return haystack.indexOf(term) !== -1; })) {
+        var score = terms.filter(function (term) { return title.indexOf(term) !== -1; }).length;
+        matches.push({ entry: entry, score: score });
+      }
+    });
+    matches.sort(function (a, b) { return b.score - a.score; });
+
+    if (matches.length === 0) {
+      var empty = document.createElement("li");
+      empty.textContent = "No matching notes";
+      results.appendChild(empty);
+    }
+    matches.slice(0, 50).forEach(function (match) {
+      var item = document.createElement("li");
+      var link = document.createElement("a");
+      link.href = root + encodePath(match.entry.url);
+      link.textContent = match.entry.title;
+      item.appendChild(link);
+      var folder = document.createElement("span");
+      folder.className = "folder";
+      folder.textContent = match.entry.folder;
+      item.appendChild(folder);
+      var text = document.createElement("span");
+      text.className = "snippet";
+      text.textContent = snippet(match.entry.text, terms[0]);
+      item.appendChild(text);
+      results.appendChild(item);
+    });
+    results.hidden = false;
+  });
+})();
+`;
@@ -0,0 +1,149 @@
+/**
+ * Watch mode: keeping an export up to date by re-exporting on an interval.
+ *
+ * Each cycle is an incremental export, so only notes that changed since the
+ * previous cycle are rewritten. A failed cycle does not stop watching: the
+ * next cycle runs after the usual interval, and after repeated failures (for
+ * example while Notes is not responding) the wait doubles with each failure,
+ * up to a maximum:
+ *
+ * ```text
+ * # with a 15 minute interval
+ * ok, wait 15m → failed, wait 15m → failed, wait 30m → failed, wait 1h → ok, wait 15m
+ * ```
+ *
+ * Watching stops when its `AbortSignal` is aborted. A running cycle is then
+ * cancelled like any other export, leaving the output directory as it was.
+ *
+ * @module
+ */
+
+import type { BatchExportResult } from "./batch";
+import type { ExportError, ExportErrorCode } from "./errors";
+import type { BatchExportOptions, ExportResult } from "./exporter";
+
+/** Default time between the starts of two cycles: 15 minutes. */
+export const DEFAULT_WATCH_INTERVAL_MS = 15 * 60 * 1000;
+
+/** Default longest wait after repeated failures: 1 hour. */
+export const DEFAULT_MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+/**
+ * Errors that stop watching instead of being retried, because the next
+ * cycle would fail the same way.
+ */
+export const FATAL_WATCH_ERROR_CODES: ReadonlySet<ExportErrorCode> = new Set<ExportErrorCode>([
+  "UNSUPPORTED_PLATFORM",
+  "SCRIPT_NOT_FOUND",
+  "INVALID_PATH",
+  "INVALID_FILTER",
+  "INVALID_NAMING",
+  "ARCHIVE_FAILED",
+  "GIT_REPOSITORY_DIRTY",
+  "CONFIG_INVALID",
+  "ACCOUNT_NOT_FOUND",
+  "AMBIGUOUS_FOLDER",
+]);
+
+/**
+ * Options for watching folders.
+ */
+export interface WatchOptions extends BatchExportOptions {
+  /**
+   * Time between the starts of two cycles, in milliseconds. A cycle that
+   * takes longer is followed by the next one right away. Defaults to 15
+   * minutes.
+   */
+  intervalMs?: number;
+  /**
+   * Longest wait after repeated failures, in milliseconds. Defaults to 1
+   * hour, or the interval if that is longer.
+   */
+  maxBackoffMs?: number;
+  /** Stop after this many cycles. Defaults to watching until aborted. */
+  maxCycles?: number;
+  /** Called after each cycle, whether it succeeded or failed. */
+  onCycle?: (cycle: WatchCycle) => void;
+}
+
+/**
+ * The outcome of one watch cycle.
+ */
+export interface WatchCycle {
+  /** The cycle number, counting from 1. */
+  cycle: number;
+  startedAt: Date;
+  durationMs: number;
+  /** The export result, when a single folder is watched. */
+  result?: ExportResult;
+  /** The batch result, when several folders are watched. */
+  batch?: BatchExportResult;
+  /** Why the cycle failed, if it did. */
+  error?: ExportError;
+  /**
+   * Number of failed cycles in a row, including this one. Batch cycles fail
+   * when any folder fails.
+   */
+  consecutiveFailures: number;
+  /** Milliseconds until the next cycle, or `undefined` if watching stops. */
+  nextCycleInMs?: number;
+}
+
+/**
+ * The outcome of watching, once it stops.
+ */
+export interface WatchResult {
+  /** Number of cycles started. */
+  cycles: number;
+  /** Number of cycles that failed. */
+  failedCycles: number;
+  /** Whether watching stopped because its signal was aborted. */
+  cancelled: boolean;
+}
+
+/**
+ * Works out how long to wait before the next cycle.
+ *
+ * @param intervalMs - Time between the starts of two cycles.
+ * @param durationMs - How long the last cycle took.
+ * @param consecutiveFailures - Failed cycles in a row, including the last.
+ * @param maxBackoffMs - Longest wait after repeated failures.
+ *
+ * @example
+ * ```typescript
+ * nextCycleDelay(15 * 60_000, 60_000, 0, 3_600_000); // 14 minutes
+ * nextCycleDelay(15 * 60_000, 60_000, 3, 3_600_000); // 1 hour
+ * ```
+ */
+export function nextCycleDelay(
+  intervalMs: number,
+  durationMs: number,
+  consecutiveFailures: number,
+  maxBackoffMs: number = DEFAULT_MAX_BACKOFF_MS
+): number {
+  if (consecutiveFailures <= 1) {
+    return Math.max(0, intervalMs - durationMs);
+  }
+  // Back off from the end of the failed cycle, not its start
+  const backoff = intervalMs * 2 ** (consecutiveFailures - 1);
+  return Math.min(backoff, Math.max(maxBackoffMs, intervalMs));
+}
+
+/**
+ * Waits for a number of milliseconds, or until the signal is aborted.
+ */
+export function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
@@ -0,0 +1,334 @@
+/**
+ * A parser for the subset of YAML used by configuration files.
+ *
+ * Supported: block mappings and sequences (including mappings inside sequence
+ * items), flow sequences of scalars (`[a, b]`), empty flow mappings (`{}`),
+ * single- and double-quoted strings, numbers, booleans, `null`/`~` and
+ * comments. Anchors, tags, multi-document streams and block scalars (`|`,
+ * `>`) are not supported and are reported as errors, as are unquoted values
+ * containing `: ` such as `a: b: c`.
+ *
+ * @module
+ */
+
+/**
+ * A YAML value.
+ */
+export type YamlValue =
+  | string
+  | number
+  | boolean
+  | null
+  | YamlValue[]
+  | { [key: string]: YamlValue };
+
+/**
+ * Error thrown for YAML the parser cannot read.
+ */
+export class YamlSyntaxError extends SyntaxError {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = "YamlSyntaxError";
+    this.line = line;
+  }
+}
+
+interface Line {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+/**
+ * Removes a trailing comment, ignoring `#` inside quoted strings.
+ */
+function stripComment(text: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+/**
+ * Finds the `:` separating a mapping key from its value, or -1.
+ */
+function findKeySeparator(text: string): number {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+    if ((char === '"' || char === "'") && i === 0) {
+      quote = char;
+    } else if (char === ":" && (i === text.length - 1 || text[i + 1] === " ")) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function splitFlowItems(text: string, lineNumber: number): string[] {
+  const items: string[] = [];
+  let current = "";
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      current += char;
+      if (char === "\\" && quote === '"') {
+        current += text[++i] ?? "";
+      } else if (char === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === "[" || char === "{") {
+      throw new YamlSyntaxError("Nested flow collections are not supported", lineNumber);
+    } else if (char === ",") {
+      items.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim() !== "") {
+    items.push(current.trim());
+  }
+  return items;
+}
+
+function parseScalar(text: string, lineNumber: number): YamlValue {
+  const value = text.trim();
+
+  if (value.startsWith('"')) {
+    if (!value.endsWith('"') || value.length < 2) {
+      throw new YamlSyntaxError("Unterminated double-quoted string", lineNumber);
+    }
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      throw new YamlSyntaxError("Invalid double-quoted string", lineNumber);
+    }
+  }
+
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) {
+      throw new YamlSyntaxError("Unterminated single-quoted string", lineNumber);
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+
+  if (value.startsWith("[")) {
+    if (!value.endsWith("]")) {
+      throw new YamlSyntaxError("Unterminated flow sequence", lineNumber);
+    }
+    return splitFlowItems(value.slice(1, -1), lineNumber).map((item) =>
+      parseScalar(item, lineNumber)
+    );
+  }
+
+  if (value.startsWith("{")) {
+    if (value.replace(/\s+/g, "") === "{}") {
+      return {};
+    }
+    throw new YamlSyntaxError("Flow mappings are not supported", lineNumber);
+  }
+
+  if (/^[|>][+-]?$/.test(value)) {
+    throw new YamlSyntaxError("Block scalars are not supported", lineNumber);
+  }
+
+  if (/^[&*!]/.test(value)) {
+    throw new YamlSyntaxError("Anchors, aliases and tags are not supported", lineNumber);
+  }
+
+  if (value === "" || value === "~" || value === "null" || value === "Null" || value === "NULL") {
+    return null;
+  }
+  if (/^(true|True|TRUE)$/.test(value)) {
+    return true;
+  }
+  if (/^(false|False|FALSE)$/.test(value)) {
+    return false;
+  }
+  if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  if (/:( |$)/.test(value)) {
+    // YAML does not allow this in a plain value, and `a: b: c` is likely a typo
+    throw new YamlSyntaxError("Unexpected ': ' in an unquoted value; quote the value", lineNumber);
+  }
+  return value;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly lines: Line[]) {}
+
+  parseDocument(): YamlValue {
+    if (this.lines.length === 0) {
+      return null;
+    }
+    const value = this.parseBlock(this.lines[0].indent);
+    if (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      throw new YamlSyntaxError("Unexpected indentation", line.number);
+    }
+    return value;
+  }
+
+  private parseBlock(indent: number): YamlValue {
+    const line = this.lines[this.index];
+    if (this.isSequenceItem(line)) {
+      return this.parseSequence(indent);
+    }
+    if (findKeySeparator(line.text) !== -1) {
+      return this.parseMapping(indent);
+    }
+    this.index++;
+    return parseScalar(line.text, line.number);
+  }
+
+  private isSequenceItem(line: Line): boolean {
+    return line.text === "-" || line.text.startsWith("- ");
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent || !this.isSequenceItem(line)) {
+        break;
+      }
+      if (line.indent > indent) {
+        throw new YamlSyntaxError("Unexpected indentation", line.number);
+      }
+
+      const rest = line.text.slice(1).trimStart();
+      if (rest === "") {
+        this.index++;
+        items.push(this.parseNested(indent));
+        continue;
+      }
+
+      if (findKeySeparator(rest) !== -1 || rest.startsWith("- ")) {
+        // An inline collection in the item: re-read the rest as its own line
+        const offset = line.text.length - rest.length;
+        this.lines[this.index] = { indent: indent + offset, text: rest, number: line.number };
+        items.push(this.parseBlock(indent + offset));
+        continue;
+      }
+
+      this.index++;
+      items.push(parseScalar(rest, line.number));
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): { [key: string]: YamlValue } {
+    const mapping: { [key: string]: YamlValue } = {};
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent < indent) {
+        break;
+      }
+      if (line.indent > indent) {
+        throw new YamlSyntaxError("Unexpected indentation", line.number);
+      }
+      if (this.isSequenceItem(line)) {
+        throw new YamlSyntaxError("Expected a mapping key, found a sequence item", line.number);
+      }
+
+      const separator = findKeySeparator(line.text);
+      if (separator === -1) {
+        throw new YamlSyntaxError("Expected a mapping key", line.number);
+      }
+      const keyValue = parseScalar(line.text.slice(0, separator), line.number);
+      const key = keyValue === null ? "" : String(keyValue);
+      if (key in mapping) {
+        throw new YamlSyntaxError(`Duplicate key '${key}'`, line.number);
+      }
+
+      const rest = line.text.slice(separator + 1).trim();
+      this.index++;
+      if (rest !== "") {
+        mapping[key] = parseScalar(rest, line.number);
+        continue;
+      }
+
+      const next = this.lines[this.index];
+      if (next && next.indent === indent && this.isSequenceItem(next)) {
+        // A sequence may sit at the same indentation as its key
+        mapping[key] = this.parseSequence(indent);
+      } else {
+        mapping[key] = this.parseNested(indent);
+      }
+    }
+    return mapping;
+  }
+
+  /**
+   * Parses the block nested under the current position, if it is indented
+   * more than `parentIndent`; otherwise the value is `null`.
+   */
+  private parseNested(parentIndent: number): YamlValue {
+    const next = this.lines[this.index];
+    if (!next || next.indent <= parentIndent) {
+      return null;
+    }
+    return this.parseBlock(next.indent);
+  }
+}
+
+/**
+ * Parses a YAML document.
+ *
+ * @throws {YamlSyntaxError} If the document uses unsupported or invalid syntax.
+ *
+ * @example
+ * ```typescript
+ * parseYaml('jobs:\n  work:\n    folders: [iCloud:Work]\n');
+ * // => { jobs: { work: { folders: ['iCloud:Work'] } } }
+ * ```
+ */
+export function parseYaml(text: string): YamlValue {
+  const lines: Line[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (/^\t/.test(raw)) {
+      throw new YamlSyntaxError("Tabs are not allowed for indentation", i + 1);
+    }
+    const content = stripComment(raw).trimEnd();
+    if (content.trim() === "" || content === "---" || content === "...") {
+      return;
+    }
+    const indent = content.length - content.trimStart().length;
+    lines.push({ indent, text: content.trim(), number: i + 1 });
+  });
+  return new Parser(lines).parseDocument();
+}
@@ -0,0 +1,82 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as zlib from "node:zlib";
+import { describe, it } from "node:test";
+import { ArchiveError, crc32, getArchiveFormat, writeArchive, writeZipEntries } from "../src";
+import { readZip, tempDir } from "./helpers";
+
+function createSourceDir(): string {
+  const dir = tempDir();
+  fs.mkdirSync(path.join(dir, "Work", "Finance"), { recursive: true });
+  fs.writeFileSync(path.join(dir, "Work", "Plan -- p1.html"), "<div>Plan</div>".repeat(50));
+  fs.writeFileSync(path.join(dir, "Work", "Finance", "Q1 -- f1.html"), "<div>Q1</div>");
+  return dir;
+}
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    assert.equal(crc32(Buffer.from("123456789")), 0xcbf43926);
+  });
+});
+
+describe("getArchiveFormat", () => {
+  it("recognizes archive extensions", () => {
+    assert.equal(getArchiveFormat("a.zip"), "zip");
+    assert.equal(getArchiveFormat("a.TGZ"), "tar.gz");
+    assert.equal(getArchiveFormat("a.tar.gz"), "tar.gz");
+    assert.equal(getArchiveFormat("a.rar"), undefined);
+  });
+});
+
+describe("writeArchive", () => {
+  it("writes a zip file", () => {
+    const source = createSourceDir();
+    const archivePath = path.join(tempDir(), "export.zip");
+    const result = writeArchive(source, archivePath);
+    assert.equal(result.files, 2);
+    assert.equal(result.directories, 2);
+    const files = readZip(archivePath);
+    const plan = files.find((file) => file.name === "Work/Plan -- p1.html");
+    assert.equal(plan?.method, 8);
+    assert.equal(plan?.data.toString(), "<div>Plan</div>".repeat(50));
+    assert.ok(files.some((file) => file.name === "Work/Finance/"));
+  });
+
+  it("writes a gzipped tar file", () => {
+    const source = createSourceDir();
+    const archivePath = path.join(tempDir(), "export.tar.gz");
+    writeArchive(source, archivePath);
+    const tar = zlib.gunzipSync(fs.readFileSync(archivePath));
+    const names: string[] = [];
+    for (let offset = 0; offset + 512 <= tar.length && tar[offset] !== 0; ) {
+      names.push(tar.toString("utf8", offset, offset + 100).replace(/\0.*$/s, ""));
+      const size = parseInt(tar.toString("utf8", offset + 124, offset + 136).trim(), 8) || 0;
+      offset += 512 + Math.ceil(size / 512) * 512;
+    }
+    assert.ok(names.includes("Work/Finance/Q1 -- f1.html"));
+  });
+
+  it("fails for an unsupported format", () => {
+    assert.throws(
+      () => writeArchive(createSourceDir(), path.join(tempDir(), "export.rar")),
+      ArchiveError
+    );
+  });
+});
+
+describe("writeZipEntries", () => {
+  it("stores entries that ask for it", () => {
+    const archivePath = path.join(tempDir(), "book.zip");
+    writeZipEntries(
+      [
+        { name: "mimetype", data: Buffer.from("application/epub+zip"), store: true },
+        { name: "text.txt", data: Buffer.from("text ".repeat(100)) },
+      ],
+      archivePath
+    );
+    const [mimetype, text] = readZip(archivePath);
+    assert.deepEqual([mimetype.name, mimetype.method], ["mimetype", 0]);
+    assert.deepEqual([text.name, text.method], ["text.txt", 8]);
+  });
+});
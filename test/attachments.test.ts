@@ -0,0 +1,56 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { extractAttachments, InvalidPathError, parseDataUri } from "../src";
+import { createExporter, createFixture, listFiles, PNG_BASE64, readText, tempDir } from "./helpers";
+
+describe("parseDataUri", () => {
+  it("decodes base64 and percent-encoded data", () => {
+    assert.deepEqual(parseDataUri("data:text/plain;base64,aGk="), {
+      mediaType: "text/plain",
+      data: Buffer.from("hi"),
+    });
+    assert.equal(parseDataUri("data:,a%20b")?.data.toString(), "a b");
+    assert.equal(parseDataUri("https://example.com/a.png"), undefined);
+  });
+});
+
+describe("extractAttachments", () => {
+  it("writes embedded files once and references them by path", async () => {
+    const fixture = createFixture();
+    const image = `<img src="data:image/png;base64,${PNG_BASE64}">`;
+    const [plan, budget] = fixture.accounts[0].folders[0].notes!;
+    plan.body = `<div>Plan${image}</div>`;
+    budget.body = `<div>Budget${image}</div>`;
+    const { exporter } = createExporter(fixture);
+    const out = tempDir();
+    await exporter.exportFolder("Work", out);
+
+    const result = extractAttachments(out);
+    assert.equal(result.notes, 2);
+    assert.equal(result.extracted, 2);
+    assert.equal(result.deduplicated, 1);
+    assert.equal(result.assets.length, 1);
+    const asset = path.basename(result.assets[0]);
+    assert.match(asset, /^[0-9a-f]+\.png$/);
+    assert.deepEqual(fs.readFileSync(result.assets[0]), Buffer.from(PNG_BASE64, "base64"));
+    assert.ok(listFiles(out).includes(`Work/assets/${asset}`));
+    assert.equal(
+      readText(out, "Work/Plan -- p1.html"),
+      `<div>Plan<img src="assets/${asset}"></div>`
+    );
+
+    // Nothing is left to extract the second time
+    assert.deepEqual(extractAttachments(out), {
+      notes: 0,
+      extracted: 0,
+      assets: [],
+      deduplicated: 0,
+    });
+  });
+
+  it("fails for a directory that does not exist", () => {
+    assert.throws(() => extractAttachments(path.join(tempDir(), "missing")), InvalidPathError);
+  });
+});
@@ -0,0 +1,53 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AccountNotFoundError, expandFolderSpecs, parseFolderSpec } from "../src";
+import { createExporter, listFiles, tempDir } from "./helpers";
+
+describe("parseFolderSpec", () => {
+  it("splits an account from a folder name", () => {
+    assert.deepEqual(parseFolderSpec("iCloud:Work"), { account: "iCloud", folder: "Work" });
+    assert.deepEqual(parseFolderSpec("Work"), { folder: "Work" });
+  });
+});
+
+describe("batch exports", () => {
+  it("expands account wildcards", async () => {
+    const { exporter } = createExporter();
+    const { jobs, errors } = expandFolderSpecs(["iCloud:*", "Nope:*"], await exporter.getFolders());
+    assert.deepEqual(
+      jobs.map((job) => job.spec),
+      ["iCloud:Work", "iCloud:Home"]
+    );
+    assert.equal(errors.length, 1);
+    assert.ok(errors[0].error instanceof AccountNotFoundError);
+  });
+
+  it("exports every folder into its own directory", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    const batch = await exporter.exportFolders(["*"], out);
+    assert.equal(batch.succeeded, 3);
+    assert.equal(batch.failed, 0);
+    assert.deepEqual(listFiles(out), [
+      "Google/Notes/Ideas -- g1.html",
+      "iCloud/Home/Shopping -- h1.html",
+      "iCloud/Work/Budget -- p2.html",
+      "iCloud/Work/Finance/Q1 -- f1.html",
+      "iCloud/Work/Plan -- p1.html",
+    ]);
+  });
+
+  it("continues after a failed folder unless asked to stop", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    const batch = exporter.exportFoldersSync(["Nope", "Home"], out);
+    assert.equal(batch.succeeded, 1);
+    assert.equal(batch.failed, 1);
+    assert.equal(batch.exports[0].error?.code, "FOLDER_NOT_FOUND");
+
+    const stopped = exporter.exportFoldersSync(["Nope", "Home"], tempDir(), {
+      stopOnError: true,
+    });
+    assert.equal(stopped.exports.length, 1);
+  });
+});
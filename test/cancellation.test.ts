@@ -0,0 +1,61 @@
+import * as assert from "node:assert/strict";
+import { describe, it, mock } from "node:test";
+import { ExportCancelledError, ExportTimeoutError } from "../src";
+import { createExporter, createFixture, listFiles, tempDir } from "./helpers";
+
+describe("cancellation", () => {
+  it("rejects at once when the signal is already aborted", async () => {
+    const { exporter, runner } = createExporter();
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(
+      exporter.exportFolder("Work", tempDir(), { signal: controller.signal }),
+      ExportCancelledError
+    );
+    assert.equal(runner.calls.length, 0);
+  });
+
+  it("stops a running export when the signal is aborted", async () => {
+    const { exporter } = createExporter(createFixture(), { noteDelayMs: 20 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 30);
+    await assert.rejects(
+      exporter.exportFolder("Work", tempDir(), { signal: controller.signal }),
+      ExportCancelledError
+    );
+  });
+
+  it("stops the export when the event iteration stops early", async () => {
+    const { exporter } = createExporter(createFixture(), { noteDelayMs: 20 });
+    const out = tempDir();
+    for await (const event of exporter.exportFolderEvents("Work", out)) {
+      if (event.type === "noteExported") {
+        break;
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.ok(listFiles(out).length < 3);
+  });
+
+  it("stops an export that takes longer than its timeout", async () => {
+    const { exporter } = createExporter(createFixture(), { noteDelayMs: 20 });
+    await assert.rejects(
+      exporter.exportFolder("Work", tempDir(), { timeoutMs: 30 }),
+      (error: unknown) => error instanceof ExportTimeoutError && error.timeoutMs === 30
+    );
+  });
+
+  it("prints the script output only when the runner echoes it", async () => {
+    for (const echo of [false, true]) {
+      const { exporter } = createExporter(createFixture(), { echo });
+      const write = mock.method(process.stdout, "write", () => true);
+      try {
+        await exporter.exportFolder("Home", tempDir(), { timeoutMs: 10_000 });
+      } finally {
+        write.mock.restore();
+      }
+      const printed = write.mock.calls.map((call) => String(call.arguments[0])).join("");
+      assert.equal(/Shopping/.test(printed), echo);
+    }
+  });
+});
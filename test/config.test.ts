@@ -0,0 +1,138 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { ConfigError, findConfigFile, getConfigJob, loadConfig, parseConfig } from "../src";
+import { tempDir } from "./helpers";
+
+const YAML_CONFIG = `# .notes-export.yaml
+script: ./scripts/export.applescript
+jobs:
+  work:
+    folders: ["iCloud:Work", 'iCloud:Projects']  # both accounts
+    output: ./backups/work
+    format: markdown
+    incremental: true
+    removed: archive
+    filters:
+      modifiedSince: 90d
+      excludeFolders:
+        - Archive
+    naming:
+      template: "{date}-{slug}"
+  everything:
+    folders: "*"
+    output: /backups/all
+    archive: ./all.zip
+    timeout: 30m
+`;
+
+describe("parseConfig", () => {
+  it("reads YAML jobs and resolves paths against the config file", () => {
+    const config = parseConfig(YAML_CONFIG, "/configs/.notes-export.yaml");
+    assert.equal(config.path, "/configs/.notes-export.yaml");
+    assert.deepEqual(Object.keys(config.jobs), ["work", "everything"]);
+    const work = config.jobs.work;
+    assert.deepEqual(work.folders, ["iCloud:Work", "iCloud:Projects"]);
+    assert.equal(work.outputDir, "/configs/backups/work");
+    assert.equal(work.format, "markdown");
+    assert.equal(work.removedNotes, "archive");
+    assert.deepEqual(work.filters, { modifiedSince: "90d", excludeFolders: ["Archive"] });
+    assert.deepEqual(work.naming, { template: "{date}-{slug}" });
+    assert.equal(work.scriptPath, "/configs/scripts/export.applescript");
+    const everything = config.jobs.everything;
+    assert.deepEqual(everything.folders, ["*"]);
+    assert.equal(everything.outputDir, "/backups/all");
+    assert.equal(everything.archive?.path, "/configs/all.zip");
+    assert.equal(everything.timeoutMs, 30 * 60 * 1000);
+  });
+
+  it("reads JSON the same way", () => {
+    const json = JSON.stringify({ jobs: { work: { folders: "Work", output: "out" } } });
+    const config = parseConfig(json, "/configs/.notes-export.json");
+    assert.deepEqual(config.jobs.work.folders, ["Work"]);
+    assert.equal(config.jobs.work.outputDir, "/configs/out");
+  });
+
+  it("reports every problem in the config at once", () => {
+    const yaml =
+      "jobs:\n  work:\n    folders: []\n    format: pdf\n    colour: blue\n" +
+      "  books:\n    folders: Work\n    output: ./out\n    format: markdown\n" +
+      "    epub: ./book.epub\n";
+    assert.throws(
+      () => parseConfig(yaml, "/configs/.notes-export.yaml"),
+      (error) => {
+        assert.ok(error instanceof ConfigError);
+        assert.equal(error.code, "CONFIG_INVALID");
+        assert.equal(error.configPath, "/configs/.notes-export.yaml");
+        assert.equal(error.problems.length, 5);
+        for (const key of ["colour", "folders", "output", "format", "books"]) {
+          assert.ok(error.problems.some((problem) => problem.includes(key)), key);
+        }
+        return true;
+      }
+    );
+  });
+
+  it("reports YAML it cannot read with the line number", () => {
+    for (const [yaml, line] of [
+      ["jobs:\n  work: &anchor\n", 2],
+      ["jobs:\n  work:\n    folders: Work\n   output: ./out\n", 4],
+      ["jobs:\n\tfolders: Work\n", 2],
+      ['jobs:\n  work:\n    output: "./out\n', 3],
+    ] as const) {
+      assert.throws(
+        () => parseConfig(yaml, "/configs/.notes-export.yaml"),
+        (error) =>
+          error instanceof ConfigError &&
+          error.message.includes("could not be parsed") &&
+          error.message.includes(`(line ${line})`),
+        yaml
+      );
+    }
+  });
+
+  it("rejects an unquoted ': ' in a YAML value, naming its line", () => {
+    const yaml = "jobs:\n  work:\n    folders: Work\n    output: a: b\n";
+    assert.throws(
+      () => parseConfig(yaml, "/configs/.notes-export.yaml"),
+      (error) => error instanceof ConfigError && /\(line 4\)/.test(error.message)
+    );
+    const quoted = parseConfig(yaml.replace("a: b", '"a: b"'), "/configs/.notes-export.yaml");
+    assert.equal(quoted.jobs.work.outputDir, "/configs/a: b");
+  });
+});
+
+describe("loadConfig", () => {
+  it("finds the nearest config file in a parent directory", () => {
+    const dir = tempDir();
+    fs.writeFileSync(
+      path.join(dir, ".notes-export.yml"),
+      "jobs:\n  work:\n    folders: Work\n    output: ./out\n"
+    );
+    const nested = path.join(dir, "a", "b");
+    fs.mkdirSync(nested, { recursive: true });
+    const found = findConfigFile(nested);
+    assert.equal(found, path.join(dir, ".notes-export.yml"));
+    assert.equal(loadConfig(found).jobs.work.outputDir, path.join(dir, "out"));
+  });
+
+  it("fails for a config file that cannot be read", () => {
+    const missing = path.join(tempDir(), ".notes-export.json");
+    assert.throws(() => loadConfig(missing), /could not be read/);
+  });
+});
+
+describe("getConfigJob", () => {
+  it("names the available jobs when a job does not exist", () => {
+    const config = parseConfig(YAML_CONFIG, "/configs/.notes-export.yaml");
+    assert.equal(getConfigJob(config, "work").name, "work");
+    assert.throws(
+      () => getConfigJob(config, "home"),
+      (error) =>
+        error instanceof ConfigError &&
+        error.message.includes("unknown job 'home' (available jobs: work, everything)")
+    );
+    assert.throws(() => getConfigJob(config, "toString"), ConfigError);
+  });
+});
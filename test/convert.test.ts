@@ -0,0 +1,72 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { before, describe, it } from "node:test";
+import { convertExport, formatEnex, InvalidPathError, readConvertSource } from "../src";
+import { createExporter, createFixture, listFiles, PNG_BASE64, readText, tempDir } from "./helpers";
+
+describe("converting exports", () => {
+  let exportDir: string;
+
+  before(async () => {
+    const fixture = createFixture();
+    fixture.accounts[0].folders[0].notes![1].body +=
+      `<div><img src="data:image/png;base64,${PNG_BASE64}"></div>`;
+    const { exporter } = createExporter(fixture);
+    exportDir = tempDir();
+    await exporter.exportFolder("Work", exportDir, { metadata: true });
+  });
+
+  it("reads notes with their references and dates", () => {
+    const source = readConvertSource(exportDir);
+    assert.deepEqual(
+      source.notes.map((note) => note.relativePath).sort(),
+      ["Work/Budget -- p2.html", "Work/Finance/Q1 -- f1.html", "Work/Plan -- p1.html"]
+    );
+    const plan = source.notes.find((note) => note.id === "p1")!;
+    assert.equal(plan.createdAt, "2026-01-05T10:00:00+00:00");
+    const [reference] = plan.references.values();
+    assert.equal(reference.type === "note" && reference.note.id, "p2");
+    assert.equal(source.attachments.length, 1);
+    assert.equal(source.attachments[0].mediaType, "image/png");
+  });
+
+  it("writes an Obsidian vault", () => {
+    const vault = path.join(tempDir(), "vault");
+    const result = convertExport(exportDir, vault, "obsidian");
+    assert.equal(result.notes, 3);
+    assert.equal(result.attachments, 1);
+    const files = listFiles(vault);
+    assert.ok(files.includes("Work/Plan.md"));
+    assert.ok(files.includes("Work/Finance/Q1.md"));
+    assert.ok(files.some((file) => /^attachments\/[0-9a-f]+\.png$/.test(file)));
+    assert.match(readText(vault, "Work/Plan.md"), /\[\[Budget\]\]/);
+    assert.match(readText(vault, "Work/Plan.md"), /^---\ncreated: 2026-01-05/);
+  });
+
+  it("writes an Evernote export file", () => {
+    const enexPath = path.join(tempDir(), "notes.enex");
+    convertExport(exportDir, enexPath, "enex");
+    const enex = fs.readFileSync(enexPath, "utf8");
+    assert.equal(enex.match(/<note>/g)?.length, 3);
+    assert.match(enex, /<tag>Work\/Finance<\/tag>/);
+    assert.match(enex, /<en-media type="image\/png" hash="[0-9a-f]{32}"\/>/);
+    assert.equal(formatEnex(readConvertSource(exportDir)).match(/<resource>/g)?.length, 1);
+  });
+
+  it("writes a Joplin RAW export directory", () => {
+    const dir = path.join(tempDir(), "joplin");
+    convertExport(exportDir, dir, "joplin");
+    const items = listFiles(dir).filter((file) => file.endsWith(".md"));
+    // Three notes, two notebooks and one resource
+    assert.equal(items.length, 6);
+    assert.equal(listFiles(path.join(dir, "resources")).length, 1);
+  });
+
+  it("rejects destinations that overlap the export", () => {
+    assert.throws(
+      () => convertExport(exportDir, path.join(exportDir, "vault"), "obsidian"),
+      InvalidPathError
+    );
+  });
+});
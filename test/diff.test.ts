@@ -0,0 +1,57 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { diffExports, formatDiffReport } from "../src";
+import { tempDir } from "./helpers";
+
+function writeExport(files: Record<string, string>): string {
+  const dir = tempDir();
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = path.join(dir, ...relativePath.split("/"));
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+  return dir;
+}
+
+describe("diffExports", () => {
+  const oldDir = writeExport({
+    "Work/Plan -- p1.html": "<div>Plan</div><div>one</div>",
+    "Work/Budget -- p2.html": "<div>Budget</div>",
+    "Work/Old -- p3.html": "<div>Old</div>",
+    "Work/Q1 -- f1.html": "<div>Q1</div>",
+  });
+  const newDir = writeExport({
+    "Work/Plan -- p1.html": "<div>Plan</div><div>two</div>",
+    "Work/Budget 2026 -- p2.html": "<div>Budget</div>",
+    "Work/New -- p4.html": "<div>New</div>",
+    "Work/Finance/Q1 -- f1.html": "<div>Q1</div>",
+  });
+
+  it("classifies the changes between two exports", () => {
+    const diff = diffExports(oldDir, newDir, { content: true });
+    assert.deepEqual(
+      [diff.added, diff.removed, diff.moved, diff.renamed, diff.edited, diff.unchanged],
+      [1, 1, 1, 1, 1, 0]
+    );
+    const byId = new Map(diff.changes.map((change) => [change.id, change]));
+    assert.deepEqual(byId.get("p1")?.types, ["edited"]);
+    assert.deepEqual(byId.get("p2")?.types, ["renamed"]);
+    assert.equal(byId.get("p2")?.previousTitle, "Budget");
+    assert.deepEqual(byId.get("f1")?.types, ["moved"]);
+    assert.deepEqual(byId.get("p3")?.types, ["removed"]);
+    assert.deepEqual(byId.get("p4")?.types, ["added"]);
+
+    const lines = byId.get("p1")?.hunks?.flatMap((hunk) => hunk.lines);
+    assert.ok(lines?.some((line) => line.type === "removed" && line.text === "one"));
+    assert.ok(lines?.some((line) => line.type === "added" && line.text === "two"));
+  });
+
+  it("formats reports", () => {
+    const diff = diffExports(oldDir, newDir);
+    assert.equal(JSON.parse(formatDiffReport(diff, "json")).added, 1);
+    assert.match(formatDiffReport(diff, "text"), /New/);
+    assert.match(formatDiffReport(diff, "html"), /^<!DOCTYPE html>/i);
+  });
+});
@@ -0,0 +1,161 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import {
+  AmbiguousFolderError,
+  AutomationPermissionError,
+  ExportEvent,
+  FolderNotFoundError,
+  readNoteIndex,
+  ScriptFailedError,
+} from "../src";
+import { createExporter, createFixture, listFiles, readText, tempDir } from "./helpers";
+
+describe("Exporter", () => {
+  it("lists the folders of every account", async () => {
+    const { exporter } = createExporter();
+    const accounts = await exporter.getFolders();
+    assert.deepEqual(
+      accounts.map((account) => account.name),
+      ["iCloud", "Google"]
+    );
+    const work = accounts[0].folders.find((folder) => folder.name === "Work");
+    assert.equal(work?.noteCount, 2);
+    assert.deepEqual(
+      work?.subfolders.map((folder) => folder.name),
+      ["Finance"]
+    );
+  });
+
+  it("exports a folder with its subfolders", async () => {
+    const { exporter, runner } = createExporter();
+    const out = tempDir();
+    const result = await exporter.exportFolder("Work", out);
+    assert.equal(result.outputDir, out);
+    assert.deepEqual(listFiles(out), [
+      "Work/Budget -- p2.html",
+      "Work/Finance/Q1 -- f1.html",
+      "Work/Plan -- p1.html",
+    ]);
+    assert.equal(readText(out, "Work/Finance/Q1 -- f1.html"), "<div>Q1 numbers</div>");
+    // The folder listing is checked for other folders named Work first
+    assert.deepEqual(
+      runner.calls.map((call) => call.args),
+      [["list"], ["export", "Work", out]]
+    );
+  });
+
+  it("exports synchronously", () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    exporter.exportFolderSync("Home", out);
+    assert.deepEqual(listFiles(out), ["Home/Shopping -- h1.html"]);
+  });
+
+  it("exports from a named account", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    await exporter.exportFolderFromAccount("Google", "Notes", out);
+    assert.deepEqual(listFiles(out), ["Notes/Ideas -- g1.html"]);
+  });
+
+  it("converts notes to Markdown", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    await exporter.exportFolder("Home", out, { format: "markdown" });
+    assert.deepEqual(listFiles(out), ["Home/Shopping -- h1.md"]);
+    assert.equal(readText(out, "Home/Shopping -- h1.md").trim(), "milk");
+  });
+
+  it("writes metadata sidecars and an index", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    const result = await exporter.exportFolder("Work", out, { metadata: true });
+    assert.equal(result.metadata?.length, 3);
+    const index = readNoteIndex(out);
+    const plan = index?.notes.find((note) => note.id === "p1");
+    assert.equal(plan?.path, "Work/Plan -- p1.html");
+    assert.equal(plan?.createdAt, "2026-01-05T10:00:00+00:00");
+    assert.ok(fs.existsSync(path.join(out, "Work", "Plan -- p1.json")));
+  });
+
+  it("fails for a folder name that exists in several accounts", async () => {
+    const fixture = createFixture();
+    fixture.accounts[1].folders.push({ name: "Work", notes: [] });
+    const { exporter, runner } = createExporter(fixture);
+    const error = await exporter.exportFolder("Work", tempDir()).catch((caught) => caught);
+    assert.ok(error instanceof AmbiguousFolderError);
+    assert.deepEqual(error.accounts, ["iCloud", "Google"]);
+    assert.throws(() => exporter.exportFolderSync("Work", tempDir()), AmbiguousFolderError);
+    assert.ok(runner.calls.every((call) => call.args[0] === "list"));
+
+    const out = tempDir();
+    await exporter.exportFolder("Google:Work", out);
+    assert.deepEqual(listFiles(out), []);
+  });
+
+  it("fails for a folder that does not exist", async () => {
+    const { exporter } = createExporter();
+    await assert.rejects(exporter.exportFolder("Nope", tempDir()), FolderNotFoundError);
+  });
+
+  it("reports script failures by cause", async () => {
+    const { exporter } = createExporter(createFixture(), {
+      stderr: "execution error: Not authorized to send Apple events to Notes. (-1743)",
+    });
+    await assert.rejects(exporter.getFolders(), AutomationPermissionError);
+    await assert.rejects(exporter.getFolders(), ScriptFailedError);
+  });
+
+  it("reports progress events", async () => {
+    const fixture = createFixture();
+    fixture.accounts[0].folders[0].notes!.push({
+      id: "p3",
+      title: "Broken",
+      body: "",
+      error: "Cannot read note",
+    });
+    const { exporter } = createExporter(fixture);
+    const events: ExportEvent[] = [];
+    for await (const event of exporter.exportFolderEvents("Work", tempDir())) {
+      events.push(event);
+    }
+    assert.deepEqual(
+      events.map((event) => event.type),
+      [
+        "folderStarted",
+        "noteExported",
+        "noteExported",
+        "noteFailed",
+        "folderStarted",
+        "noteExported",
+        "finished",
+      ]
+    );
+    const finished = events[events.length - 1];
+    assert.equal(finished.type === "finished" && finished.notesFailed, 1);
+  });
+
+  it("reports renamed notes with their final paths, and not filtered ones", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    const exported: string[] = [];
+    let notesExported: number | undefined;
+    const result = await exporter.exportFolder("Work", out, {
+      naming: { template: "{slug}" },
+      filters: { title: "Plan" },
+      onProgress: (event) => {
+        if (event.type === "noteExported") {
+          exported.push(path.relative(out, event.path).split(path.sep).join("/"));
+        } else if (event.type === "finished") {
+          notesExported = event.notesExported;
+        }
+      },
+    });
+    assert.equal(result.filtered?.kept, 1);
+    assert.deepEqual(exported, ["Work/plan.html"]);
+    assert.equal(notesExported, 1);
+    assert.ok(fs.existsSync(path.join(out, "Work", "plan.html")));
+  });
+});
@@ -0,0 +1,102 @@
+import * as assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { commitExport, GitError, GitRepositoryDirtyError } from "../src";
+import { createExporter, createFixture, readText, tempDir } from "./helpers";
+
+function git(dir: string, ...args: string[]): string {
+  return execFileSync("git", args, { cwd: dir, encoding: "utf8" });
+}
+
+describe("git exports", () => {
+  it("creates a repository and commits the first export", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    const result = await exporter.exportFolder("Work", out, { git: true });
+
+    assert.equal(result.git?.initialized, true);
+    assert.deepEqual(result.git?.added, [
+      "Work/Budget -- p2.html",
+      "Work/Finance/Q1 -- f1.html",
+      "Work/Plan -- p1.html",
+    ]);
+    assert.equal(git(out, "rev-parse", "HEAD").trim(), result.git?.commit);
+    assert.equal(git(out, "log", "--format=%s").trim(), "Export Work: 3 added");
+    assert.match(readText(out, ".gitignore"), /^\.archive\/$/m);
+    assert.equal(git(out, "status", "--porcelain"), "");
+  });
+
+  it("commits modified, renamed and deleted notes", async () => {
+    const fixture = createFixture();
+    const { exporter } = createExporter(fixture);
+    const out = tempDir();
+    await exporter.exportFolder("Work", out, { git: true, incremental: true });
+    const [plan, budget] = fixture.accounts[0].folders[0].notes!;
+    plan.title = "Plans";
+    budget.body = "<div><b>Budget</b></div><div>Rent</div>";
+    fixture.accounts[0].folders[0].subfolders![0].notes = [];
+
+    const result = await exporter.exportFolder("Work", out, { git: true, incremental: true });
+    assert.equal(result.git?.initialized, false);
+    assert.deepEqual(result.git?.modified, ["Work/Budget -- p2.html"]);
+    assert.deepEqual(result.git?.deleted, ["Work/Finance/Q1 -- f1.html"]);
+    assert.deepEqual(result.git?.renamed, [
+      { from: "Work/Plan -- p1.html", to: "Work/Plans -- p1.html" },
+    ]);
+    assert.match(result.git?.message ?? "", /^Export Work: 1 modified, 1 deleted, 1 renamed\n/);
+    assert.equal(git(out, "rev-list", "--count", "HEAD").trim(), "2");
+  });
+
+  it("makes no commit when nothing changed, and uses a given subject", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    await exporter.exportFolder("Work", out, { git: { message: "Back up notes" } });
+    const unchanged = await exporter.exportFolder("Work", out, { git: true });
+
+    assert.equal(unchanged.git?.commit, undefined);
+    assert.equal(git(out, "log", "--format=%s").trim(), "Back up notes");
+  });
+
+  it("refuses to export into a repository with uncommitted changes", async () => {
+    const fixture = createFixture();
+    const { exporter } = createExporter(fixture);
+    const out = tempDir();
+    await exporter.exportFolder("Work", out, { git: true });
+    fs.writeFileSync(path.join(out, "notes.txt"), "mine");
+    fixture.accounts[0].folders[0].notes![0].body = "<div>Changed</div>";
+
+    await assert.rejects(
+      exporter.exportFolder("Work", out, { git: true }),
+      (error) =>
+        error instanceof GitRepositoryDirtyError &&
+        error.code === "GIT_REPOSITORY_DIRTY" &&
+        error.changedFiles.includes("notes.txt")
+    );
+    assert.doesNotMatch(readText(out, "Work/Plan -- p1.html"), /Changed/);
+  });
+
+  it("refuses to commit an output directory that is removed after archiving", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    await assert.rejects(
+      exporter.exportFolder("Work", path.join(out, "export"), {
+        git: true,
+        archive: { path: path.join(out, "export.zip"), removeOutputDir: true },
+      }),
+      GitError
+    );
+  });
+
+  it("summarizes other files without listing them", () => {
+    const out = tempDir();
+    fs.writeFileSync(path.join(out, "index.json"), "[]");
+    fs.writeFileSync(path.join(out, "Note -- n1.md"), "# Note\n");
+    const result = commitExport(out, "Export Notes");
+
+    assert.deepEqual(result.added, ["Note -- n1.md"]);
+    assert.equal(result.otherFiles, 2);
+    assert.match(result.message ?? "", /\n2 other files changed\.\n$/);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Shared fixtures and helpers for the test suite.
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as zlib from "node:zlib";
+import { after } from "node:test";
+import { Exporter, FakeFixture, FakeScriptRunner, FakeScriptRunnerOptions } from "../src";
+
+/** A 1×1 PNG image, base64-encoded. */
+export const PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+/** Temporary directories created by the running test file. */
+const tempDirs: string[] = [];
+
+after(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+/**
+ * Creates a temporary directory, removed when the test file finishes.
+ */
+export function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "apple-notes-exporter-test-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+/**
+ * Returns a fixture with a `Work` folder (with a `Finance` subfolder) and a
+ * `Home` folder in an iCloud account, and a `Notes` folder in a Google account.
+ */
+export function createFixture(): FakeFixture {
+  return {
+    accounts: [
+      {
+        name: "iCloud",
+        folders: [
+          {
+            name: "Work",
+            notes: [
+              {
+                id: "p1",
+                title: "Plan",
+                body:
+                  '<div><h1>Plan</h1></div><div>See <a href="applenotes:note/p2">Budget</a></div>',
+                createdAt: "2026-01-05T10:00:00Z",
+                modifiedAt: "2026-02-01T09:30:00Z",
+              },
+              {
+                id: "p2",
+                title: "Budget",
+                body: "<div><b>Budget</b></div><div>Rent and #travel</div>",
+                createdAt: "2026-01-06T10:00:00Z",
+                modifiedAt: "2026-03-01T12:00:00Z",
+              },
+            ],
+            subfolders: [
+              {
+                name: "Finance",
+                notes: [
+                  {
+                    id: "f1",
+                    title: "Q1",
+                    body: "<div>Q1 numbers</div>",
+                    createdAt: "2026-01-07T10:00:00Z",
+                    modifiedAt: "2026-01-08T10:00:00Z",
+                  },
+                ],
+              },
+            ],
+          },
+          { name: "Home", notes: [{ id: "h1", title: "Shopping", body: "<div>milk</div>" }] },
+        ],
+      },
+      {
+        name: "Google",
+        folders: [
+          { name: "Notes", notes: [{ id: "g1", title: "Ideas", body: "<div>idea</div>" }] },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Creates an exporter that runs a `FakeScriptRunner` on a fixture.
+ */
+export function createExporter(
+  fixture: FakeFixture = createFixture(),
+  options: FakeScriptRunnerOptions = {}
+): { exporter: Exporter; runner: FakeScriptRunner } {
+  const runner = new FakeScriptRunner(fixture, options);
+  return { exporter: Exporter.create({ runner }), runner };
+}
+
+/**
+ * Lists the files under a directory, as sorted paths relative to it with `/`
+ * separators.
+ */
+export function listFiles(dir: string): string[] {
+  const files: string[] = [];
+  const visit = (relativeDir: string): void => {
+    for (const entry of fs.readdirSync(path.join(dir, relativeDir), { withFileTypes: true })) {
+      const relativePath = relativeDir === "" ? entry.name : `${relativeDir}/${entry.name}`;
+      if (entry.isDirectory()) {
+        visit(relativePath);
+      } else {
+        files.push(relativePath);
+      }
+    }
+  };
+  visit("");
+  return files.sort();
+}
+
+/** Reads a file under a directory as UTF-8, from a `/`-separated path. */
+export function readText(dir: string, relativePath: string): string {
+  return fs.readFileSync(path.join(dir, ...relativePath.split("/")), "utf8");
+}
+
+/**
+ * A file read back from a zip file.
+ */
+export interface ZipFile {
+  name: string;
+  /** 0 for stored, 8 for deflated. */
+  method: number;
+  data: Buffer;
+}
+
+/**
+ * Reads the files of a zip file, in the order of its central directory.
+ */
+export function readZip(zipPath: string): ZipFile[] {
+  const zip = fs.readFileSync(zipPath);
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  const files: ZipFile[] = [];
+  for (let i = 0; i < count; i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const dataStart =
+      localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const raw = zip.subarray(dataStart, dataStart + compressedSize);
+    files.push({ name, method, data: method === 8 ? zlib.inflateRawSync(raw) : raw });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
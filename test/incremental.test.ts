@@ -0,0 +1,192 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { FakeFixture, readManifest, readNoteNames } from "../src";
+import { createExporter, createFixture, listFiles, readText, tempDir } from "./helpers";
+
+describe("incremental exports", () => {
+  it("only rewrites notes that changed", async () => {
+    const fixture = createFixture();
+    const { exporter } = createExporter(fixture);
+    const out = tempDir();
+
+    const first = await exporter.exportFolder("Work", out, { incremental: true });
+    assert.equal(first.incremental?.added.length, 3);
+
+    const notes = fixture.accounts[0].folders[0].notes!;
+    notes[0].body = "<div>Plan v2</div>";
+    notes[1].title = "Budget 2026";
+    const second = await exporter.exportFolder("Work", out, { incremental: true });
+    assert.deepEqual(second.incremental?.added, []);
+    assert.deepEqual(second.incremental?.updated.sort(), [
+      "Work/Budget 2026 -- p2.html",
+      "Work/Plan -- p1.html",
+    ]);
+    assert.equal(second.incremental?.unchanged, 1);
+    assert.equal(readText(out, "Work/Plan -- p1.html"), "<div>Plan v2</div>");
+    assert.ok(!fs.existsSync(path.join(out, "Work", "Budget -- p2.html")));
+    assert.equal(readManifest(out)?.notes.p2.path, "Work/Budget 2026 -- p2.html");
+  });
+
+  it("records the modification dates from Notes when note dates are read", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    await exporter.exportFolder("Work", out, { incremental: true, metadata: true });
+    assert.equal(readManifest(out)?.notes.p1.modifiedAt, "2026-02-01T09:30:00+00:00");
+
+    const other = tempDir();
+    const before = new Date().toISOString();
+    await exporter.exportFolder("Work", other, { incremental: true });
+    assert.ok(readManifest(other)!.notes.p1.modifiedAt >= before);
+  });
+
+  it("deletes or archives removed notes", async () => {
+    const fixture = createFixture();
+    const { exporter } = createExporter(fixture);
+    const out = tempDir();
+    await exporter.exportFolder("Work", out, { incremental: true });
+
+    fixture.accounts[0].folders[0].notes!.splice(1, 1);
+    const result = await exporter.exportFolder("Work", out, {
+      incremental: { removedNotes: "archive" },
+    });
+    assert.deepEqual(result.incremental?.removed, ["Work/Budget -- p2.html"]);
+    const archiveDir = result.incremental!.archiveDir!;
+    assert.ok(fs.existsSync(path.join(archiveDir, "Work", "Budget -- p2.html")));
+
+    fixture.accounts[0].folders[0].subfolders = [];
+    const deleted = await exporter.exportFolder("Work", out, { incremental: true });
+    assert.deepEqual(deleted.incremental?.removed, ["Work/Finance/Q1 -- f1.html"]);
+    assert.ok(!fs.existsSync(path.join(out, "Work", "Finance")));
+  });
+
+  it("leaves the notes of other exported folders alone", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    await exporter.exportFolder("Work", out, { incremental: true });
+    const result = await exporter.exportFolder("Home", out, { incremental: true });
+    assert.deepEqual(result.incremental?.removed, []);
+    assert.equal(listFiles(out).filter((file) => file.endsWith(".html")).length, 4);
+  });
+
+  it("keeps notes left out by filters", async () => {
+    const fixture = createFixture();
+    const { exporter } = createExporter(fixture);
+    const out = tempDir();
+    const options = { incremental: { removedNotes: "archive" as const } };
+    await exporter.exportFolder("Work", out, options);
+
+    const filters = { title: "Plan" };
+    const plan = await exporter.planExport("Work", out, { ...options, filters });
+    assert.equal(plan.remove, 0);
+    const result = await exporter.exportFolder("Work", out, { ...options, filters });
+    assert.deepEqual(result.incremental?.removed, []);
+    assert.equal(result.incremental?.archiveDir, undefined);
+    assert.ok(fs.existsSync(path.join(out, "Work", "Budget -- p2.html")));
+    assert.ok(fs.existsSync(path.join(out, "Work", "Finance", "Q1 -- f1.html")));
+    assert.deepEqual(Object.keys(readManifest(out)!.notes).sort(), ["f1", "p1", "p2"]);
+
+    // Notes deleted from Notes are still removed
+    fixture.accounts[0].folders[0].notes!.splice(1, 1);
+    const removed = await exporter.exportFolder("Work", out, { ...options, filters });
+    assert.deepEqual(removed.incremental?.removed, ["Work/Budget -- p2.html"]);
+  });
+
+  it("keeps notes that failed to export", async () => {
+    const fixture = createFixture();
+    const { exporter } = createExporter(fixture);
+    const out = tempDir();
+    await exporter.exportFolder("Work", out, { incremental: true });
+
+    fixture.accounts[0].folders[0].notes![1].error = "Note is locked";
+    const result = await exporter.exportFolder("Work", out, { incremental: true });
+    assert.deepEqual(result.incremental?.removed, []);
+    assert.ok(fs.existsSync(path.join(out, "Work", "Budget -- p2.html")));
+    assert.equal(readManifest(out)?.notes.p2.path, "Work/Budget -- p2.html");
+  });
+
+  describe("with a naming template", () => {
+    const naming = { template: "{slug}" };
+
+    function createIdeasFixture(): FakeFixture {
+      return {
+        accounts: [
+          {
+            name: "iCloud",
+            folders: [
+              {
+                name: "Work",
+                notes: [
+                  { id: "n1", title: "Ideas", body: "<div>first</div>" },
+                  { id: "n2", title: "Ideas", body: "<div>second</div>" },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+    }
+
+    it("keeps a note that takes over the name of a removed note", async () => {
+      for (const removedNotes of ["delete", "archive"] as const) {
+        const fixture = createIdeasFixture();
+        const { exporter } = createExporter(fixture);
+        const out = tempDir();
+        const options = { naming, incremental: { removedNotes } };
+        await exporter.exportFolder("Work", out, options);
+        assert.equal(readText(out, "Work/ideas.html"), "<div>first</div>");
+        assert.equal(readText(out, "Work/ideas-2.html"), "<div>second</div>");
+
+        fixture.accounts[0].folders[0].notes!.shift();
+        const result = await exporter.exportFolder("Work", out, options);
+        assert.deepEqual(result.incremental?.updated, ["Work/ideas.html"]);
+        assert.deepEqual(result.incremental?.removed, ["Work/ideas.html"]);
+        assert.equal(readText(out, "Work/ideas.html"), "<div>second</div>");
+        assert.ok(!fs.existsSync(path.join(out, "Work", "ideas-2.html")));
+        assert.equal(readManifest(out)?.notes.n2.path, "Work/ideas.html");
+        assert.equal(readNoteNames(path.join(out, "Work")).get("ideas")?.id, "n2");
+        if (removedNotes === "archive") {
+          const archived = path.join(result.incremental!.archiveDir!, "Work", "ideas.html");
+          assert.equal(fs.readFileSync(archived, "utf8"), "<div>first</div>");
+        }
+      }
+    });
+
+    it("keeps the names of notes left out by filters", async () => {
+      const fixture = createIdeasFixture();
+      fixture.accounts[0].folders[0].notes![1].title = "Plans";
+      const { exporter } = createExporter(fixture);
+      const out = tempDir();
+      await exporter.exportFolder("Work", out, { naming, incremental: true });
+
+      const result = await exporter.exportFolder("Work", out, {
+        naming,
+        incremental: true,
+        filters: { title: "Ideas" },
+      });
+      assert.deepEqual(result.incremental?.removed, []);
+      assert.equal(readText(out, "Work/plans.html"), "<div>second</div>");
+      assert.equal(readNoteNames(path.join(out, "Work")).get("plans")?.id, "n2");
+    });
+
+    it("keeps both notes when they swap names", async () => {
+      const fixture = createIdeasFixture();
+      const [first, second] = fixture.accounts[0].folders[0].notes!;
+      first.title = "Alpha";
+      second.title = "Beta";
+      const { exporter } = createExporter(fixture);
+      const out = tempDir();
+      await exporter.exportFolder("Work", out, { naming, incremental: true });
+
+      first.title = "Beta";
+      second.title = "Alpha";
+      const result = await exporter.exportFolder("Work", out, { naming, incremental: true });
+      assert.deepEqual(result.incremental?.removed, []);
+      assert.equal(readText(out, "Work/beta.html"), "<div>first</div>");
+      assert.equal(readText(out, "Work/alpha.html"), "<div>second</div>");
+      assert.equal(readManifest(out)?.notes.n1.path, "Work/beta.html");
+      assert.equal(readManifest(out)?.notes.n2.path, "Work/alpha.html");
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import * as assert from "node:assert/strict";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { formatLaunchAgentPlist, InvalidPathError, writeLaunchAgentPlist } from "../src";
+import { readText, tempDir } from "./helpers";
+
+describe("formatLaunchAgentPlist", () => {
+  it("runs the program at login and restarts it only after a failure", () => {
+    const plist = formatLaunchAgentPlist({
+      label: "com.example.notes-sync",
+      programArguments: ["/usr/local/bin/node", "cli.js", "sync", "R&D", "/backup"],
+      workingDirectory: "/Users/me",
+      environment: { PATH: "/usr/bin:/bin" },
+    });
+    assert.match(plist, /^<\?xml version="1\.0" encoding="UTF-8"\?>\n<!DOCTYPE plist /);
+    assert.ok(plist.includes("<key>Label</key>\n\t<string>com.example.notes-sync</string>"));
+    assert.ok(plist.includes("\t\t<string>R&amp;D</string>\n"));
+    assert.ok(plist.includes("<key>WorkingDirectory</key>\n\t<string>/Users/me</string>"));
+    assert.ok(plist.includes("<key>PATH</key>\n\t\t<string>/usr/bin:/bin</string>"));
+    assert.ok(plist.includes("<key>RunAtLoad</key>\n\t<true/>"));
+    assert.ok(
+      plist.includes("<key>KeepAlive</key>\n\t<dict>\n\t\t<key>SuccessfulExit</key>\n\t\t<false/>")
+    );
+    const logPath = path.join(os.homedir(), "Library", "Logs", "com.example.notes-sync.log");
+    assert.ok(plist.includes(`<key>StandardErrorPath</key>\n\t<string>${logPath}</string>`));
+  });
+});
+
+describe("writeLaunchAgentPlist", () => {
+  it("takes the label from the file name", () => {
+    const dir = tempDir();
+    const written = writeLaunchAgentPlist(path.join(dir, "agents", "com.example.sync.plist"), {
+      programArguments: ["/usr/local/bin/apple-notes-exporter", "sync", "Work", "/backup"],
+      logPath: "/tmp/sync.log",
+    });
+    assert.equal(written, path.join(dir, "agents", "com.example.sync.plist"));
+    const plist = readText(dir, "agents/com.example.sync.plist");
+    assert.ok(plist.includes("<string>com.example.sync</string>"));
+    assert.ok(plist.includes("<string>/tmp/sync.log</string>"));
+  });
+
+  it("requires a .plist file name", () => {
+    assert.throws(
+      () => writeLaunchAgentPlist(path.join(tempDir(), "sync.xml"), { programArguments: ["x"] }),
+      InvalidPathError
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { linkNotes, parseNoteLink, readLinkIndex } from "../src";
+import { createExporter, createFixture, readText, tempDir } from "./helpers";
+
+describe("parseNoteLink", () => {
+  it("reads note ids from Notes URLs", () => {
+    assert.deepEqual(parseNoteLink("applenotes:note/p7?ownerIdentifier=abc"), ["p7"]);
+    assert.equal(parseNoteLink("https://example.com"), undefined);
+  });
+});
+
+describe("linkNotes", () => {
+  it("rewrites links between notes as relative paths", async () => {
+    const fixture = createFixture();
+    fixture.accounts[0].folders[0].subfolders![0].notes![0].body =
+      '<div>Q1 <a href="applenotes:note/p1">plan</a> <a href="applenotes:note/zz">gone</a></div>';
+    const { exporter } = createExporter(fixture);
+    const out = tempDir();
+    await exporter.exportFolder("Work", out);
+
+    const result = linkNotes(out, { backlinks: true });
+    assert.equal(result.links, 3);
+    assert.equal(result.resolved, 2);
+    assert.deepEqual(
+      result.unresolved.map((link) => [link.from, link.href]),
+      [["Work/Finance/Q1 -- f1.html", "applenotes:note/zz"]]
+    );
+    assert.match(readText(out, "Work/Plan -- p1.html"), /href="Budget%20--%20p2\.html"/);
+    assert.match(readText(out, "Work/Finance/Q1 -- f1.html"), /href="\.\.\/Plan%20--%20p1\.html"/);
+    assert.match(readText(out, "Work/Budget -- p2.html"), /Linked from/);
+
+    const index = readLinkIndex(out);
+    assert.deepEqual(index?.notes["Work/Plan -- p1.html"].backlinks, [
+      "Work/Finance/Q1 -- f1.html",
+    ]);
+  });
+
+  it("does not rewrite notes again when nothing changed", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    await exporter.exportFolder("Work", out, { links: true });
+    assert.deepEqual(linkNotes(out).updated, []);
+  });
+});
@@ -0,0 +1,53 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { applyIncrementalExport, MANIFEST_FILE_NAME, readManifest } from "../src";
+import { listFiles, tempDir } from "./helpers";
+
+/** Writes files into a new staging directory, by `/`-separated path. */
+function stage(files: Record<string, string>): string {
+  const dir = tempDir();
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = path.join(dir, ...relativePath.split("/"));
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+  return dir;
+}
+
+describe("applyIncrementalExport", () => {
+  it("records the notes it writes in the manifest", () => {
+    const out = tempDir();
+    const result = applyIncrementalExport(
+      stage({ "Work/Plan -- p1.html": "plan", "Work/style.css": "css" }),
+      out
+    );
+    assert.deepEqual(result.added, ["Work/Plan -- p1.html"]);
+    assert.deepEqual(listFiles(out), [
+      MANIFEST_FILE_NAME,
+      "Work/Plan -- p1.html",
+      "Work/style.css",
+    ]);
+    const manifest = readManifest(out);
+    assert.equal(manifest?.notes.p1.path, "Work/Plan -- p1.html");
+    assert.match(manifest!.notes.p1.hash, /^[0-9a-f]{64}$/);
+  });
+
+  it("leaves the manifest alone when nothing changed", () => {
+    const out = tempDir();
+    applyIncrementalExport(stage({ "Work/Plan -- p1.html": "plan" }), out);
+    const before = fs.readFileSync(path.join(out, MANIFEST_FILE_NAME), "utf8");
+    const result = applyIncrementalExport(stage({ "Work/Plan -- p1.html": "plan" }), out);
+    assert.equal(result.unchanged, 1);
+    assert.equal(fs.readFileSync(path.join(out, MANIFEST_FILE_NAME), "utf8"), before);
+  });
+
+  it("rewrites a note that was deleted from the output directory", () => {
+    const out = tempDir();
+    applyIncrementalExport(stage({ "Work/Plan -- p1.html": "plan" }), out);
+    fs.unlinkSync(path.join(out, "Work", "Plan -- p1.html"));
+    const result = applyIncrementalExport(stage({ "Work/Plan -- p1.html": "plan" }), out);
+    assert.deepEqual(result.updated, ["Work/Plan -- p1.html"]);
+  });
+});
@@ -0,0 +1,52 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { convertExportToMarkdown, htmlToMarkdown } from "../src";
+import { listFiles, tempDir } from "./helpers";
+
+describe("htmlToMarkdown", () => {
+  it("converts headings, emphasis and links", () => {
+    assert.equal(
+      htmlToMarkdown(
+        '<div><h1>Title</h1></div><div><b>bold</b> and <i>it</i> <a href="https://x.org">x</a></div>'
+      ).trim(),
+      "# Title\n\n**bold** and *it* [x](https://x.org)"
+    );
+  });
+
+  it("converts lists and checklists", () => {
+    assert.equal(
+      htmlToMarkdown("<ul><li>one</li><li>two</li></ul>").trim(),
+      "- one\n- two"
+    );
+    assert.equal(
+      htmlToMarkdown(
+        '<ul class="checklist"><li class="checked">done</li><li>todo</li></ul>'
+      ).trim(),
+      "- [x] done\n- [ ] todo"
+    );
+  });
+
+  it("converts tables to GitHub-flavored Markdown", () => {
+    const markdown = htmlToMarkdown(
+      "<table><tr><td>a</td><td>b</td></tr><tr><td>1</td><td>2</td></tr></table>"
+    ).trim();
+    assert.equal(markdown, "| a | b |\n| --- | --- |\n| 1 | 2 |");
+  });
+
+  it("escapes Markdown syntax in text", () => {
+    assert.equal(htmlToMarkdown("<div>*not emphasis*</div>").trim(), "\\*not emphasis\\*");
+  });
+});
+
+describe("convertExportToMarkdown", () => {
+  it("replaces the HTML notes of an export", () => {
+    const dir = tempDir();
+    fs.mkdirSync(path.join(dir, "Work"));
+    fs.writeFileSync(path.join(dir, "Work", "Plan -- p1.html"), "<div>Plan</div>");
+    const written = convertExportToMarkdown(dir);
+    assert.equal(written.length, 1);
+    assert.deepEqual(listFiles(dir), ["Work/Plan -- p1.md"]);
+  });
+});
@@ -0,0 +1,67 @@
+import * as assert from "node:assert/strict";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import {
+  InvalidNamingError,
+  nameDirectoryEntries,
+  readNoteNames,
+  slugify,
+  validateNaming,
+} from "../src";
+import { createExporter, listFiles, tempDir } from "./helpers";
+
+describe("slugify", () => {
+  it("builds ASCII slugs by default", () => {
+    assert.equal(slugify("Café Meeting: Q1 Plan!"), "cafe-meeting-q1-plan");
+    assert.equal(slugify("Café Plan", { separator: "_", lowercase: false }), "Cafe_Plan");
+  });
+});
+
+describe("validateNaming", () => {
+  it("rejects unknown placeholders", () => {
+    assert.throws(() => validateNaming({ template: "{nope}" }), InvalidNamingError);
+  });
+});
+
+describe("nameDirectoryEntries", () => {
+  it("numbers names that collide, in id order", () => {
+    const names = nameDirectoryEntries(
+      [
+        { id: "b", title: "Ideas", extension: "html" },
+        { id: "a", title: "ideas", extension: "html" },
+      ],
+      [],
+      { template: "{slug}" }
+    );
+    assert.equal(names.notes.get("a"), "ideas.html");
+    assert.equal(names.notes.get("b"), "ideas-2.html");
+  });
+
+  it("keeps names within the maximum length", () => {
+    const names = nameDirectoryEntries(
+      [{ id: "a", title: "x".repeat(300), extension: "html" }],
+      [],
+      { template: "{title}", maxLength: 20 }
+    );
+    assert.equal(names.notes.get("a"), `${"x".repeat(15)}.html`);
+  });
+});
+
+describe("naming an export", () => {
+  it("renames notes and folders and records the names", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    await exporter.exportFolder("Work", out, {
+      naming: { template: "{date}-{slug}", folders: "slug" },
+    });
+    assert.deepEqual(
+      listFiles(out).filter((file) => !file.endsWith(".notes-names.json")),
+      [
+        "work/2026-02-01-plan.html",
+        "work/2026-03-01-budget.html",
+        "work/finance/2026-01-08-q1.html",
+      ]
+    );
+    assert.equal(readNoteNames(path.join(out, "work")).get("2026-02-01-plan")?.id, "p1");
+  });
+});
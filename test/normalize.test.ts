@@ -0,0 +1,55 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { InvalidPathError, linkNotes, normalizeExport, normalizeNoteHtml } from "../src";
+import { createExporter, readText, tempDir } from "./helpers";
+
+describe("normalizeNoteHtml", () => {
+  it("rewrites note markup as semantic HTML without scripts", () => {
+    const html = normalizeNoteHtml(
+      '<div><b>Hi</b><script>alert(1)</script></div><div onclick="x()">there</div>',
+      { title: "Greeting" }
+    );
+    assert.match(html, /<title>Greeting<\/title>/);
+    assert.match(html, /<p><strong>Hi<\/strong><\/p>\n<p>there<\/p>/);
+    assert.doesNotMatch(html, /script|onclick/);
+  });
+
+  it("leaves a normalized note unchanged", () => {
+    const html = normalizeNoteHtml("<div><h1>Plan</h1></div><ul><li>Draft</li></ul>");
+    assert.equal(normalizeNoteHtml(html), html);
+  });
+});
+
+describe("normalizeExport", () => {
+  it("sanitizes backlinks sections too", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    await exporter.exportFolder("Work", out);
+    linkNotes(out, { backlinks: true });
+    const notePath = "Work/Budget -- p2.html";
+    const linked = readText(out, notePath);
+    assert.match(linked, /Linked from/);
+
+    const tampered = linked.replace(
+      "<!-- /backlinks -->",
+      '<script>steal()</script><img src="x" onerror="steal()"><!-- /backlinks -->'
+    );
+    fs.writeFileSync(path.join(out, notePath), tampered);
+    const result = normalizeExport(out);
+    assert.ok(result.unsafe >= 2);
+    const normalized = readText(out, notePath);
+    assert.doesNotMatch(normalized, /<script|onerror/);
+    assert.match(normalized, /<a href="Plan%20--%20p1\.html">Plan<\/a>/);
+
+    // Normalizing and linking again change nothing
+    assert.equal(normalizeExport(out).notes, 0);
+    linkNotes(out, { backlinks: true });
+    assert.equal(readText(out, notePath), normalized);
+  });
+
+  it("fails for a directory that does not exist", () => {
+    assert.throws(() => normalizeExport(path.join(tempDir(), "missing")), InvalidPathError);
+  });
+});
@@ -0,0 +1,87 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ExportPlan } from "../src";
+import { createExporter, createFixture, listFiles, tempDir } from "./helpers";
+
+function plannedPaths(plan: ExportPlan, action = "create"): string[] {
+  return plan.folders
+    .flatMap((folder) => folder.files)
+    .filter((file) => file.action === action)
+    .map((file) => file.path)
+    .sort();
+}
+
+describe("planExport", () => {
+  it("plans the files an export writes, without writing anything", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    const plan = await exporter.planExport("Work", out);
+
+    assert.deepEqual(listFiles(out), []);
+    assert.equal(plan.notes, 3);
+    assert.deepEqual([plan.create, plan.overwrite, plan.remove], [3, 0, 0]);
+    assert.deepEqual(plan.folders[0].folder?.path, ["Work"]);
+    await exporter.exportFolder("Work", out);
+    assert.deepEqual(plannedPaths(plan), listFiles(out));
+  });
+
+  it("plans the names the naming options give", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    const options = { naming: { template: "{slug}", folders: "slug" as const } };
+    const plan = await exporter.planExport("Work", out, options);
+    await exporter.exportFolder("Work", out, options);
+    const notes = listFiles(out).filter((file) => !file.split("/").pop()!.startsWith("."));
+    assert.deepEqual(plannedPaths(plan), notes);
+  });
+
+  it("plans overwrites, removals and notes left out by filters", async () => {
+    const fixture = createFixture();
+    const { exporter } = createExporter(fixture);
+    const out = tempDir();
+    await exporter.exportFolder("Work", out, { incremental: true });
+    fixture.accounts[0].folders[0].notes!.splice(1, 1);
+    fixture.accounts[0].folders[0].notes![0].title = "Plans";
+
+    const plan = await exporter.planExport("Work", out, {
+      incremental: { removedNotes: "archive" },
+      filters: { excludeFolders: ["Finance"] },
+    });
+    assert.equal(plan.removedNotes, "archive");
+    assert.deepEqual(plan.folders[0].files, [
+      { action: "remove", path: "Work/Budget -- p2.html", id: "p2", title: "Budget" },
+      {
+        action: "overwrite",
+        path: "Work/Plans -- p1.html",
+        id: "p1",
+        title: "Plans",
+        previousPath: "Work/Plan -- p1.html",
+      },
+    ]);
+    assert.equal(plan.folders[0].filteredOut, 1);
+  });
+
+  it("lists the other folders with the same name and folders that do not exist", async () => {
+    const fixture = createFixture();
+    fixture.accounts[1].folders.push({ name: "Work", notes: [] });
+    const { exporter } = createExporter(fixture);
+    const plan = await exporter.planExport(["iCloud:Work", "Work", "Travel"], tempDir());
+
+    assert.deepEqual(
+      plan.folders.map((folder) => [folder.spec, folder.otherMatches.length]),
+      [
+        ["iCloud:Work", 0],
+        ["Work", 1],
+        ["Travel", 0],
+      ]
+    );
+    assert.equal(plan.folders[1].otherMatches[0].account, "Google");
+    assert.match(plan.folders[2].error ?? "", /Could not find folder named: Travel/);
+  });
+
+  it("plans the same way synchronously", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    assert.deepEqual(exporter.planExportSync("Work", out), await exporter.planExport("Work", out));
+  });
+});
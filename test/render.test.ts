@@ -0,0 +1,79 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { before, describe, it } from "node:test";
+import { RenderError, renderExport } from "../src";
+import { createExporter, createFixture, PNG_BASE64, readZip, tempDir } from "./helpers";
+
+describe("rendering books", () => {
+  let exportDir: string;
+
+  before(async () => {
+    const fixture = createFixture();
+    fixture.accounts[0].folders[0].notes![0].body +=
+      `<div><img src="data:image/png;base64,${PNG_BASE64}"></div><script>alert(1)</script>`;
+    const { exporter } = createExporter(fixture);
+    exportDir = tempDir();
+    await exporter.exportFolder("Work", exportDir, { metadata: true });
+  });
+
+  it("writes an EPUB book with a chapter per note", () => {
+    const epubPath = path.join(tempDir(), "notes.epub");
+    const result = renderExport(exportDir, { epub: epubPath, title: "Work & Co" });
+    assert.deepEqual([result.notes, result.folders], [3, 2]);
+
+    const files = readZip(epubPath);
+    assert.deepEqual([files[0].name, files[0].method], ["mimetype", 0]);
+    assert.equal(files[0].data.toString(), "application/epub+zip");
+    const names = files.map((file) => file.name);
+    for (const name of ["META-INF/container.xml", "EPUB/package.opf", "EPUB/nav.xhtml"]) {
+      assert.ok(names.includes(name), name);
+    }
+    assert.equal(names.filter((name) => /^EPUB\/text\/note-\d+\.xhtml$/.test(name)).length, 3);
+    assert.ok(names.some((name) => name.startsWith("EPUB/media/")));
+
+    const read = (name: string): string =>
+      files.find((file) => file.name === name)!.data.toString();
+    assert.match(read("EPUB/package.opf"), /<dc:title>Work &amp; Co<\/dc:title>/);
+    // The table of contents nests Finance inside Work
+    assert.match(read("EPUB/nav.xhtml"), /Work<\/a>\n<ol>[\s\S]*Finance<\/a>\n<ol>/);
+    const chapters = names.filter((name) => name.startsWith("EPUB/text/"));
+    assert.ok(chapters.every((name) => !read(name).includes("<script")));
+  });
+
+  it("writes a printable HTML book", () => {
+    const bookPath = path.join(tempDir(), "notes.html");
+    renderExport(exportDir, { book: bookPath });
+    const book = fs.readFileSync(bookPath, "utf8");
+    assert.equal(book.match(/<article class="note"/g)?.length, 3);
+    assert.match(book, /<a href="#note-\d+">Budget<\/a>/);
+    assert.match(book, /src="data:image\/png;base64,/);
+    assert.match(book, /page-break-before: always/);
+  });
+
+  it("renders while exporting", async () => {
+    const { exporter } = createExporter();
+    const bookPath = path.join(tempDir(), "notes.html");
+    const result = await exporter.exportFolder("Home", tempDir(), { render: { book: bookPath } });
+    assert.equal(result.render?.bookPath, bookPath);
+    assert.equal(result.render?.notes, 1);
+  });
+
+  it("rejects unusable options", async () => {
+    assert.throws(() => renderExport(exportDir, {}), RenderError);
+    assert.throws(() => renderExport(exportDir, { epub: "notes.pdf" }), RenderError);
+    assert.throws(
+      () => renderExport(exportDir, { book: path.join(exportDir, "book.html") }),
+      RenderError
+    );
+    const { exporter, runner } = createExporter();
+    await assert.rejects(
+      exporter.exportFolder("Home", tempDir(), {
+        format: "markdown",
+        render: { book: path.join(tempDir(), "book.html") },
+      }),
+      RenderError
+    );
+    assert.equal(runner.calls.length, 0);
+  });
+});
@@ -0,0 +1,32 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { searchNotes } from "../src";
+import { createExporter, createFixture, tempDir } from "./helpers";
+
+describe("searchNotes", () => {
+  it("finds notes by words and word prefixes", async () => {
+    const { exporter } = createExporter();
+    const out = tempDir();
+    await exporter.exportFolder("Work", out);
+    const results = searchNotes(out, "numb");
+    assert.deepEqual(
+      results.map((result) => result.id),
+      ["f1"]
+    );
+    assert.match(results[0].snippet, /Q1 numbers/);
+  });
+
+  it("does not index scripts, styles or the document head", async () => {
+    const fixture = createFixture();
+    fixture.accounts[0].folders[1].notes![0].body =
+      "<html><head><title>Headword</title><style>.stylename { color: red }</style></head>" +
+      "<body><div>milk</div><script>scriptword()</script></body></html>";
+    const { exporter } = createExporter(fixture);
+    const out = tempDir();
+    await exporter.exportFolder("Home", out);
+    assert.equal(searchNotes(out, "milk").length, 1);
+    for (const query of ["headword", "stylename", "scriptword"]) {
+      assert.deepEqual(searchNotes(out, query), [], query);
+    }
+  });
+});
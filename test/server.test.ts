@@ -0,0 +1,43 @@
+import * as assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { NotesServer, serveNotes } from "../src";
+import { createExporter, createFixture, tempDir } from "./helpers";
+
+describe("serveNotes", () => {
+  let server: NotesServer;
+
+  before(async () => {
+    const fixture = createFixture();
+    fixture.accounts[0].folders[0].notes![0].body =
+      '<div><h1>Plan</h1></div><div onclick="steal()">Goals<script>steal()</script></div>' +
+      '<div><a href="javascript:steal()">link</a></div>';
+    const { exporter } = createExporter(fixture);
+    const out = tempDir();
+    await exporter.exportFolder("Work", out);
+    server = await serveNotes(out, { port: 0 });
+  });
+
+  after(() => server.close());
+
+  it("sanitizes notes shown in the browser pages", async () => {
+    const response = await fetch(`${server.url}/view/p1`);
+    const html = await response.text();
+    assert.equal(response.status, 200);
+    assert.match(html, /Goals/);
+    assert.doesNotMatch(html, /<script|onclick|javascript:/);
+  });
+
+  it("sends pages with a Content Security Policy that allows no scripts", async () => {
+    for (const route of ["/", "/view/p1", "/view/missing"]) {
+      const policy = (await fetch(`${server.url}${route}`)).headers.get("content-security-policy");
+      assert.match(policy ?? "", /default-src 'none'/);
+      assert.doesNotMatch(policy ?? "", /script-src/);
+    }
+  });
+
+  it("serves note files in a sandbox", async () => {
+    const response = await fetch(`${server.url}/files/Work/Plan%20--%20p1.html`);
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get("content-security-policy") ?? "", /^sandbox;/);
+  });
+});
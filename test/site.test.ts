@@ -0,0 +1,103 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { describe, it } from "node:test";
+import { buildSite, InvalidPathError, SiteSearchEntry } from "../src";
+import { createExporter, createFixture, listFiles, readText, tempDir } from "./helpers";
+
+async function exportNotes(fixture = createFixture()): Promise<string> {
+  const { exporter } = createExporter(fixture);
+  const out = tempDir();
+  await exporter.exportFolders(["iCloud:*"], out);
+  return out;
+}
+
+function readSearchIndex(siteDir: string): SiteSearchEntry[] {
+  const script = readText(siteDir, "_site/search-index.js");
+  return JSON.parse(script.replace(/^window\.NOTES_SEARCH_INDEX = /, "").replace(/;\n$/, ""));
+}
+
+describe("buildSite", () => {
+  it("writes an index page per folder and a page per note", async () => {
+    const out = await exportNotes();
+    const site = path.join(tempDir(), "site");
+    const result = buildSite(out, site, { title: "My Notes" });
+
+    assert.deepEqual(result, { siteDir: site, folders: 5, notes: 4 });
+    assert.deepEqual(listFiles(site), [
+      "_site/search-index.js",
+      "_site/search.js",
+      "_site/style.css",
+      "iCloud/Home/Shopping -- h1.html",
+      "iCloud/Home/index.html",
+      "iCloud/Work/Budget -- p2.html",
+      "iCloud/Work/Finance/Q1 -- f1.html",
+      "iCloud/Work/Finance/index.html",
+      "iCloud/Work/Plan -- p1.html",
+      "iCloud/Work/index.html",
+      "iCloud/index.html",
+      "index.html",
+    ]);
+
+    const folderPage = readText(site, "iCloud/Work/index.html");
+    assert.match(folderPage, /<title>Work - My Notes<\/title>/);
+    assert.ok(folderPage.includes('href="../../_site/style.css"'));
+    assert.ok(folderPage.includes('<a href="../../iCloud/Work/Finance/index.html">Finance</a>'));
+    assert.ok(folderPage.includes('<a href="../../iCloud/Work/Plan%20--%20p1.html">Plan</a>'));
+
+    const notePage = readText(site, "iCloud/Work/Plan -- p1.html");
+    assert.match(notePage, /<title>Plan - My Notes<\/title>/);
+    assert.match(notePage, /<article class="note">/);
+    assert.match(notePage, /<li aria-current="page">Plan<\/li>/);
+  });
+
+  it("indexes note text for the search box", async () => {
+    const fixture = createFixture();
+    fixture.accounts[0].folders[1].notes![0].body = "<div>milk</div><div>&lt;/script&gt;</div>";
+    const out = await exportNotes(fixture);
+    const site = path.join(tempDir(), "site");
+    buildSite(out, site);
+
+    const script = readText(site, "_site/search-index.js");
+    assert.doesNotMatch(script, /<\/script>/);
+    const shopping = readSearchIndex(site).find((entry) => entry.title === "Shopping");
+    assert.equal(shopping?.folder, "iCloud / Home");
+    assert.equal(shopping?.url, "iCloud/Home/Shopping -- h1.html");
+    assert.match(shopping?.text ?? "", /milk/);
+  });
+
+  it("copies attachments without listing their directories as folders", async () => {
+    const out = await exportNotes();
+    fs.mkdirSync(path.join(out, "iCloud/Work/attachments"));
+    fs.writeFileSync(path.join(out, "iCloud/Work/attachments/photo.png"), "png");
+    const site = path.join(tempDir(), "site");
+    const result = buildSite(out, site);
+
+    assert.equal(result.folders, 5);
+    assert.equal(readText(site, "iCloud/Work/attachments/photo.png"), "png");
+    assert.doesNotMatch(readText(site, "iCloud/Work/index.html"), /attachments/);
+  });
+
+  it("replaces a previous site and leaves out a site built inside the export", async () => {
+    const out = await exportNotes();
+    const site = path.join(out, "site");
+    buildSite(out, site);
+    fs.writeFileSync(path.join(site, "stale.html"), "old");
+    const result = buildSite(out, site);
+
+    assert.equal(result.notes, 4);
+    assert.equal(fs.existsSync(path.join(site, "stale.html")), false);
+    assert.equal(fs.existsSync(path.join(site, "site")), false);
+  });
+
+  it("refuses directories it could damage", async () => {
+    const out = await exportNotes();
+    const unrelated = tempDir();
+    fs.writeFileSync(path.join(unrelated, "keep.txt"), "mine");
+
+    assert.throws(() => buildSite(out, unrelated), InvalidPathError);
+    assert.equal(readText(unrelated, "keep.txt"), "mine");
+    assert.throws(() => buildSite(out, path.dirname(out)), InvalidPathError);
+    assert.throws(() => buildSite(path.join(out, "missing"), tempDir()), InvalidPathError);
+  });
+});
@@ -0,0 +1,94 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AccountNotFoundError, AmbiguousFolderError, nextCycleDelay, WatchCycle } from "../src";
+import { createExporter, createFixture, tempDir } from "./helpers";
+
+describe("watchFolders", () => {
+  it("runs a cycle at a time until maxCycles", async () => {
+    const { exporter } = createExporter();
+    const cycles: WatchCycle[] = [];
+    const watch = await exporter.watchFolders("Work", tempDir(), {
+      intervalMs: 0,
+      maxCycles: 2,
+      onCycle: (cycle) => cycles.push(cycle),
+    });
+    assert.deepEqual(watch, { cycles: 2, failedCycles: 0, cancelled: false });
+    assert.deepEqual(
+      cycles.map((cycle) => [cycle.cycle, cycle.result?.incremental?.added.length]),
+      [
+        [1, 3],
+        [2, 0],
+      ]
+    );
+    assert.equal(cycles[1].nextCycleInMs, undefined);
+  });
+
+  it("retries failed cycles", async () => {
+    const { exporter } = createExporter();
+    const cycles: WatchCycle[] = [];
+    const watch = await exporter.watchFolders("Travel", tempDir(), {
+      intervalMs: 0,
+      maxCycles: 2,
+      onCycle: (cycle) => cycles.push(cycle),
+    });
+    assert.deepEqual(watch, { cycles: 2, failedCycles: 2, cancelled: false });
+    assert.deepEqual(
+      cycles.map((cycle) => [cycle.error?.code, cycle.consecutiveFailures]),
+      [
+        ["FOLDER_NOT_FOUND", 1],
+        ["FOLDER_NOT_FOUND", 2],
+      ]
+    );
+  });
+
+  it("stops when the signal is aborted", async () => {
+    const { exporter } = createExporter();
+    const controller = new AbortController();
+    const watch = await exporter.watchFolders("Work", tempDir(), {
+      intervalMs: 60_000,
+      signal: controller.signal,
+      onCycle: () => controller.abort(),
+    });
+    assert.deepEqual(watch, { cycles: 1, failedCycles: 0, cancelled: true });
+  });
+
+  it("stops on an ambiguous folder name instead of retrying", async () => {
+    const fixture = createFixture();
+    fixture.accounts[1].folders.push({ name: "Work", notes: [] });
+    const { exporter, runner } = createExporter(fixture);
+    await assert.rejects(
+      exporter.watchFolders("Work", tempDir(), { intervalMs: 0, maxCycles: 3 }),
+      AmbiguousFolderError
+    );
+    assert.deepEqual(
+      runner.calls.map((call) => call.args),
+      [["list"]]
+    );
+  });
+
+  it("stops when a folder of a batch names a missing account", async () => {
+    const { exporter } = createExporter();
+    const cycles: WatchCycle[] = [];
+    await assert.rejects(
+      exporter.watchFolders(["Home", "Outlook:*"], tempDir(), {
+        intervalMs: 0,
+        maxCycles: 3,
+        onCycle: (cycle) => cycles.push(cycle),
+      }),
+      AccountNotFoundError
+    );
+    assert.equal(cycles.length, 0);
+  });
+});
+
+describe("nextCycleDelay", () => {
+  it("waits out the interval, and backs off after repeated failures", () => {
+    const minute = 60_000;
+    assert.equal(nextCycleDelay(15 * minute, minute, 0), 14 * minute);
+    assert.equal(nextCycleDelay(15 * minute, 20 * minute, 1), 0);
+    assert.equal(nextCycleDelay(15 * minute, minute, 2), 30 * minute);
+    assert.equal(nextCycleDelay(15 * minute, minute, 5), 60 * minute);
+    assert.equal(nextCycleDelay(15 * minute, minute, 5, 20 * minute), 20 * minute);
+    assert.equal(nextCycleDelay(2 * 60 * minute, minute, 5, 60 * minute), 2 * 60 * minute);
+  });
+});